@@ -9,17 +9,26 @@
 const isProd = process.env.NODE_ENV === 'production';
 
 // In production, run the compiled JavaScript
-if (isProd) {
-  require('../dist/db/migrate');
-} else {
+if (!isProd) {
   // In development, use ts-node to run the TypeScript directly
   require('ts-node').register({
     transpileOnly: true,
     compilerOptions: {
       module: 'commonjs',
+      moduleResolution: 'node',
     },
   });
-  require('../src/db/migrate');
 }
 
-console.log('Migration script completed.');
+// Required modules are not the main module, so the runner is called here
+const { runMigrations } = require(isProd ? '../dist/db/migrate' : '../src/db/migrate');
+
+runMigrations()
+  .then(() => {
+    console.log('Migration script completed.');
+    process.exit(0);
+  })
+  .catch(err => {
+    console.error('Migration failed:', err);
+    process.exit(1);
+  });
@@ -15,6 +15,15 @@ import reportsRouter from './routes/reports.routes';
 import chatRouter from './routes/chat.routes';
 import subscriptionRouter from './routes/subscription.routes';
 import profileRouter from './routes/profile.routes';
+import chartRouter from './routes/chart.routes';
+import moonRouter from './routes/moon.routes';
+import eventsRouter from './routes/events.routes';
+import transitsRouter from './routes/transits.routes';
+import compatibilityRouter from './routes/compatibility.routes';
+import electionRouter from './routes/election.routes';
+import planetaryHoursRouter from './routes/planetary-hours.routes';
+import numerologyRouter from './routes/numerology.routes';
+import companyRouter from './routes/company.routes';
 
 // Create Express app
 const app = express();
@@ -49,6 +58,15 @@ app.use('/api/v1/reports', reportsRouter);
 app.use('/api/v1/chat', chatRouter);
 app.use('/api/v1/subscription', subscriptionRouter);
 app.use('/api/v1/profile', profileRouter);
+app.use('/api/v1/charts', chartRouter);
+app.use('/api/v1/moon', moonRouter);
+app.use('/api/v1/events', eventsRouter);
+app.use('/api/v1/transits', transitsRouter);
+app.use('/api/v1/compatibility', compatibilityRouter);
+app.use('/api/v1/elections', electionRouter);
+app.use('/api/v1/planetary-hours', planetaryHoursRouter);
+app.use('/api/v1/numerology', numerologyRouter);
+app.use('/api/v1/companies', companyRouter);
 
 // 404 handler
 app.use((req, res) => {
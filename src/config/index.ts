@@ -41,6 +41,26 @@ export const config = {
   // Astro Engine API (for horoscope integration)
   astroEngineUrl: process.env.ASTRO_ENGINE_URL || 'https://api.astroengine.com',
   astroEngineKey: process.env.ASTRO_ENGINE_KEY || '',
+  
+  // Chart calculations: 'local' (built-in ephemeris) or 'remote' (Astro Engine)
+  ephemerisProvider: process.env.EPHEMERIS_PROVIDER || 'local',
+
+  // Horoscope content providers, tried in order until one returns content
+  horoscopeProviders: {
+    order: (process.env.HOROSCOPE_PROVIDERS || 'editorial,astro-engine,local')
+      .split(',')
+      .map(name => name.trim())
+      .filter(Boolean),
+    defaultTimeoutMs: parseInt(process.env.HOROSCOPE_PROVIDER_TIMEOUT_MS || '3000', 10),
+    timeouts: {
+      editorial: parseInt(process.env.EDITORIAL_PROVIDER_TIMEOUT_MS || '2000', 10),
+      'astro-engine': parseInt(process.env.ASTRO_ENGINE_TIMEOUT_MS || '5000', 10),
+    } as Record<string, number>,
+    retries: parseInt(process.env.HOROSCOPE_PROVIDER_RETRIES || '2', 10),
+    retryDelayMs: parseInt(process.env.HOROSCOPE_PROVIDER_RETRY_DELAY_MS || '200', 10),
+    circuitBreakerThreshold: parseInt(process.env.HOROSCOPE_CIRCUIT_BREAKER_THRESHOLD || '5', 10),
+    circuitBreakerResetMs: parseInt(process.env.HOROSCOPE_CIRCUIT_BREAKER_RESET_MS || '30000', 10),
+  },
 };
 
 // Validate required environment variables
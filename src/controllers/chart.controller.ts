@@ -0,0 +1,268 @@
+import { Request, Response, NextFunction } from 'express';
+import { logger } from '../config/logger';
+import { ApiError } from '../middlewares/error.middleware';
+import {
+  getAstrocartography as getAstrocartographyData,
+  getCompositeChart as getCompositeChartData,
+  getDashaTimeline,
+  getDavisonChart as getDavisonChartData,
+  getNatalChart as getNatalChartData,
+  getNatalChartSvg,
+  getProgressedChart as getProgressedChartData,
+  getRelocatedChart as getRelocatedChartData,
+  getRelocationCities as getRelocationCitiesData,
+  getSolarArcDirections as getSolarArcDirectionsData,
+} from '../services/chart.service';
+import {
+  astrocartographyRequestSchema,
+  chartPairRequestSchema,
+  dashaRequestSchema,
+  natalChartRequestSchema,
+  progressionRequestSchema,
+  relocationCitiesRequestSchema,
+  relocationRequestSchema,
+} from '../schemas/chart.schema';
+import { Ayanamsa, ZodiacType } from '../utils/zodiac';
+import { getUserZodiacPreferences } from '../services/profile.service';
+
+/**
+ * Calculate a natal chart. Birth data and options come from the query
+ * string (GET) or the JSON body (POST).
+ */
+export const getNatalChart = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const request = await withZodiacPreferences(
+      req,
+      natalChartRequestSchema.parse(req.method === 'GET' ? req.query : req.body)
+    );
+
+    const chart = await getNatalChartData(request);
+
+    res.status(200).json(chart);
+  } catch (error) {
+    logger.error('Error getting natal chart:', error);
+    next(error);
+  }
+};
+
+/**
+ * Render a natal chart wheel as SVG from query parameters. The optional
+ * size parameter sets the width and height in pixels.
+ */
+export const getNatalChartWheel = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const request = await withZodiacPreferences(req, natalChartRequestSchema.parse(req.query));
+    
+    // Validate size
+    let size: number | undefined;
+    if (req.query.size !== undefined) {
+      size = Number(req.query.size);
+      if (!Number.isInteger(size) || size < 200 || size > 2000) {
+        throw new ApiError(400, 'Invalid size. Use a whole number of pixels between 200 and 2000');
+      }
+    }
+    
+    const svg = await getNatalChartSvg(request, size);
+    
+    res.status(200).type('image/svg+xml').send(svg);
+  } catch (error) {
+    logger.error('Error rendering natal chart wheel:', error);
+    next(error);
+  }
+};
+
+/**
+ * Calculate the composite (midpoint) chart of the two people in the JSON body
+ */
+export const getCompositeChart = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const request = await withZodiacPreferences(req, chartPairRequestSchema.parse(req.body));
+    
+    const chart = await getCompositeChartData(request);
+    
+    res.status(200).json(chart);
+  } catch (error) {
+    logger.error('Error getting composite chart:', error);
+    next(error);
+  }
+};
+
+/**
+ * Calculate the Davison chart of the two people in the JSON body
+ */
+export const getDavisonChart = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const request = await withZodiacPreferences(req, chartPairRequestSchema.parse(req.body));
+    
+    const chart = await getDavisonChartData(request);
+    
+    res.status(200).json(chart);
+  } catch (error) {
+    logger.error('Error getting Davison chart:', error);
+    next(error);
+  }
+};
+
+/**
+ * Calculate the secondary progressed chart. Birth data, the target date and
+ * the period come from the query string (GET) or the JSON body (POST).
+ */
+export const getProgressedChart = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const request = await withZodiacPreferences(
+      req,
+      progressionRequestSchema.parse(req.method === 'GET' ? req.query : req.body)
+    );
+    
+    res.status(200).json(getProgressedChartData(request));
+  } catch (error) {
+    logger.error('Error calculating progressed chart:', error);
+    next(error);
+  }
+};
+
+/**
+ * Calculate solar arc directions. Birth data, the target date and the
+ * period come from the query string (GET) or the JSON body (POST).
+ */
+export const getSolarArcDirections = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const request = await withZodiacPreferences(
+      req,
+      progressionRequestSchema.parse(req.method === 'GET' ? req.query : req.body)
+    );
+    
+    res.status(200).json(getSolarArcDirectionsData(request));
+  } catch (error) {
+    logger.error('Error calculating solar arc directions:', error);
+    next(error);
+  }
+};
+
+/**
+ * Cast the natal chart at another place. Birth data and the new place come
+ * from the query string (GET) or the JSON body (POST).
+ */
+export const getRelocatedChart = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const request = await withZodiacPreferences(
+      req,
+      relocationRequestSchema.parse(req.method === 'GET' ? req.query : req.body)
+    );
+    
+    res.status(200).json(getRelocatedChartData(request));
+  } catch (error) {
+    logger.error('Error calculating relocated chart:', error);
+    next(error);
+  }
+};
+
+/**
+ * Draw the astrocartography lines as GeoJSON. Birth data comes from the
+ * query string (GET) or the JSON body (POST).
+ */
+export const getAstrocartography = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const request = astrocartographyRequestSchema.parse(req.method === 'GET' ? req.query : req.body);
+    
+    res.status(200).type('application/geo+json').json(getAstrocartographyData(request));
+  } catch (error) {
+    logger.error('Error calculating astrocartography:', error);
+    next(error);
+  }
+};
+
+/**
+ * Find the cities closest to the lines of each theme. Birth data, themes and
+ * the number of cities come from the query string (GET) or the JSON body
+ * (POST).
+ */
+export const getRelocationCities = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const request = relocationCitiesRequestSchema.parse(req.method === 'GET' ? req.query : req.body);
+    
+    res.status(200).json(getRelocationCitiesData(request));
+  } catch (error) {
+    logger.error('Error finding relocation cities:', error);
+    next(error);
+  }
+};
+
+/**
+ * Calculate the Vimshottari dasha timeline. Birth data comes from the query
+ * string (GET) or the JSON body (POST); without an ayanamsa the user's
+ * preferred one is used.
+ */
+export const getDasha = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const request = dashaRequestSchema.parse(req.method === 'GET' ? req.query : req.body);
+    
+    if (!request.ayanamsa && req.user?.id) {
+      request.ayanamsa = (await getUserZodiacPreferences(req.user.id)).ayanamsa;
+    }
+    
+    res.status(200).json(getDashaTimeline(request));
+  } catch (error) {
+    logger.error('Error calculating dasha:', error);
+    next(error);
+  }
+};
+
+/**
+ * Use the user's preferred zodiac when the request does not name one
+ */
+const withZodiacPreferences = async <T extends { zodiacType?: ZodiacType; ayanamsa?: Ayanamsa }>(
+  req: Request,
+  request: T
+): Promise<T> => {
+  if (request.zodiacType || !req.user?.id) {
+    return request;
+  }
+  
+  const preferences = await getUserZodiacPreferences(req.user.id);
+  return {
+    ...request,
+    zodiacType: preferences.zodiacType,
+    ayanamsa: request.ayanamsa || preferences.ayanamsa,
+  };
+};
@@ -0,0 +1,200 @@
+import { Request, Response, NextFunction } from 'express';
+import { logger } from '../config/logger';
+import { ApiError } from '../middlewares/error.middleware';
+import {
+  createCompany as createCompanyData,
+  deleteCompany as deleteCompanyData,
+  getCompanies as getCompaniesData,
+  getCompany as getCompanyData,
+  getCompanyChart as getCompanyChartData,
+  getCompanyCompatibility as getCompanyCompatibilityData,
+  updateCompany as updateCompanyData,
+} from '../services/company.service';
+import { getUserZodiacPreferences } from '../services/profile.service';
+import {
+  CompanyChartQuery,
+  companyChartQuerySchema,
+  companyRequestSchema,
+  companyUpdateSchema,
+} from '../schemas/company.schema';
+
+/**
+ * Create a company profile from the JSON body
+ */
+export const createCompany = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const userId = req.user?.id;
+    if (!userId) {
+      throw new ApiError(401, 'User ID not found');
+    }
+
+    const company = await createCompanyData(userId, companyRequestSchema.parse(req.body));
+
+    res.status(201).json(company);
+  } catch (error) {
+    logger.error('Error creating company:', error);
+    next(error);
+  }
+};
+
+/**
+ * Get all company profiles of the authenticated user
+ */
+export const getCompanies = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const userId = req.user?.id;
+    if (!userId) {
+      throw new ApiError(401, 'User ID not found');
+    }
+
+    const companies = await getCompaniesData(userId);
+
+    res.status(200).json(companies);
+  } catch (error) {
+    logger.error('Error getting companies:', error);
+    next(error);
+  }
+};
+
+/**
+ * Get a company profile by ID
+ */
+export const getCompany = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const userId = req.user?.id;
+    if (!userId) {
+      throw new ApiError(401, 'User ID not found');
+    }
+
+    const company = await getCompanyData(userId, req.params.companyId);
+
+    res.status(200).json(company);
+  } catch (error) {
+    logger.error('Error getting company:', error);
+    next(error);
+  }
+};
+
+/**
+ * Update a company profile from the JSON body
+ */
+export const updateCompany = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const userId = req.user?.id;
+    if (!userId) {
+      throw new ApiError(401, 'User ID not found');
+    }
+
+    const company = await updateCompanyData(userId, req.params.companyId, companyUpdateSchema.parse(req.body));
+
+    res.status(200).json(company);
+  } catch (error) {
+    logger.error('Error updating company:', error);
+    next(error);
+  }
+};
+
+/**
+ * Delete a company profile
+ */
+export const deleteCompany = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const userId = req.user?.id;
+    if (!userId) {
+      throw new ApiError(401, 'User ID not found');
+    }
+
+    await deleteCompanyData(userId, req.params.companyId);
+
+    res.status(200).json({ success: true });
+  } catch (error) {
+    logger.error('Error deleting company:', error);
+    next(error);
+  }
+};
+
+/**
+ * Get the incorporation chart of a company. Without a zodiac type the
+ * user's preferred zodiac is used.
+ */
+export const getCompanyChart = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const userId = req.user?.id;
+    if (!userId) {
+      throw new ApiError(401, 'User ID not found');
+    }
+
+    const options = await withZodiacPreferences(userId, companyChartQuerySchema.parse(req.query));
+    const chart = await getCompanyChartData(userId, req.params.companyId, options);
+
+    res.status(200).json(chart);
+  } catch (error) {
+    logger.error('Error getting company chart:', error);
+    next(error);
+  }
+};
+
+/**
+ * Score the company chart against each founder and key employee. Without a
+ * zodiac type the user's preferred zodiac is used.
+ */
+export const getCompanyCompatibility = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const userId = req.user?.id;
+    if (!userId) {
+      throw new ApiError(401, 'User ID not found');
+    }
+
+    const options = await withZodiacPreferences(userId, companyChartQuerySchema.parse(req.query));
+    const compatibility = await getCompanyCompatibilityData(userId, req.params.companyId, options);
+
+    res.status(200).json(compatibility);
+  } catch (error) {
+    logger.error('Error getting company compatibility:', error);
+    next(error);
+  }
+};
+
+/**
+ * Fill in the user's preferred zodiac when the query does not name one
+ */
+const withZodiacPreferences = async (userId: string, options: CompanyChartQuery): Promise<CompanyChartQuery> => {
+  if (options.zodiacType) {
+    return options;
+  }
+
+  const preferences = await getUserZodiacPreferences(userId);
+  return {
+    ...options,
+    zodiacType: preferences.zodiacType,
+    ayanamsa: options.ayanamsa || preferences.ayanamsa,
+  };
+};
@@ -0,0 +1,85 @@
+import { Request, Response, NextFunction } from 'express';
+import { logger } from '../config/logger';
+import {
+  getSignCompatibility as getSignCompatibilityData,
+  getSynastry as getSynastryData,
+  getTeamCompatibility as getTeamCompatibilityData,
+} from '../services/compatibility.service';
+import {
+  signCompatibilityQuerySchema,
+  synastryRequestSchema,
+  teamCompatibilityRequestSchema,
+} from '../schemas/compatibility.schema';
+import { getUserZodiacPreferences } from '../services/profile.service';
+
+/**
+ * Quick compatibility of the sign1 and sign2 query parameters
+ */
+export const getSignCompatibility = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const { sign1, sign2 } = signCompatibilityQuerySchema.parse(req.query);
+    
+    res.status(200).json(getSignCompatibilityData(sign1, sign2));
+  } catch (error) {
+    logger.error('Error getting sign compatibility:', error);
+    next(error);
+  }
+};
+
+/**
+ * Score the synastry of the two people in the JSON body. Without a zodiac
+ * type the user's preferred zodiac is used.
+ */
+export const getSynastry = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const request = synastryRequestSchema.parse(req.body);
+    
+    if (!request.zodiacType && req.user?.id) {
+      const preferences = await getUserZodiacPreferences(req.user.id);
+      request.zodiacType = preferences.zodiacType;
+      request.ayanamsa = request.ayanamsa || preferences.ayanamsa;
+    }
+    
+    const score = await getSynastryData(request);
+    
+    res.status(200).json(score);
+  } catch (error) {
+    logger.error('Error calculating synastry:', error);
+    next(error);
+  }
+};
+
+/**
+ * Score every pair of the team in the JSON body. Without a zodiac type the
+ * user's preferred zodiac is used.
+ */
+export const getTeamCompatibility = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const request = teamCompatibilityRequestSchema.parse(req.body);
+    
+    if (!request.zodiacType && req.user?.id) {
+      const preferences = await getUserZodiacPreferences(req.user.id);
+      request.zodiacType = preferences.zodiacType;
+      request.ayanamsa = request.ayanamsa || preferences.ayanamsa;
+    }
+    
+    const team = await getTeamCompatibilityData(request);
+    
+    res.status(200).json(team);
+  } catch (error) {
+    logger.error('Error calculating team compatibility:', error);
+    next(error);
+  }
+};
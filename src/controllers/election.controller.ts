@@ -0,0 +1,25 @@
+import { Request, Response, NextFunction } from 'express';
+import { logger } from '../config/logger';
+import { getElectionWindows } from '../services/election.service';
+import { electionSearchRequestSchema } from '../schemas/election.schema';
+
+/**
+ * Search the date range in the JSON body for the best times to hold an
+ * event at a place
+ */
+export const searchElections = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const request = electionSearchRequestSchema.parse(req.body);
+    
+    const search = await getElectionWindows(request);
+    
+    res.status(200).json({ from: request.from, to: request.to, timezone: request.timezone, ...search });
+  } catch (error) {
+    logger.error('Error searching elections:', error);
+    next(error);
+  }
+};
@@ -0,0 +1,25 @@
+import { Request, Response, NextFunction } from 'express';
+import { logger } from '../config/logger';
+import { getEvents as getEventsData } from '../services/events.service';
+import { eventsQuerySchema } from '../schemas/events.schema';
+
+/**
+ * Get retrograde stations, sign ingresses and eclipses between the from and
+ * to query parameters, optionally filtered by type
+ */
+export const getEvents = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const { from, to, type } = eventsQuerySchema.parse(req.query);
+    
+    const events = await getEventsData(from, to, type);
+    
+    res.status(200).json({ from, to, events });
+  } catch (error) {
+    logger.error('Error getting astrological events:', error);
+    next(error);
+  }
+};
@@ -1,7 +1,28 @@
 import { Request, Response, NextFunction } from 'express';
 import { logger } from '../config/logger';
 import { ApiError } from '../middlewares/error.middleware';
-import { getHoroscope, ZodiacSign } from '../services/horoscope.service';
+import {
+  DEFAULT_LOCALE,
+  getHoroscope,
+  getPeriodHoroscope,
+  getPersonalReading,
+  getProfileDasha,
+  getProfileLuckyTime,
+  getProfileSign,
+  HoroscopePeriod,
+  ZodiacSign,
+} from '../services/horoscope.service';
+import { getUserProfile, getZodiacPreferences, UserProfile } from '../services/profile.service';
+import { getProfileNumerology } from '../services/numerology.service';
+import { PERIOD_PATTERNS } from '../utils/horoscope-periods';
+import { DEFAULT_TIMEZONE, getDateInTimeZone, isValidTimeZone } from '../utils/timezone';
+
+// Expected period format of each period type, for error messages
+const PERIOD_FORMATS: Record<HoroscopePeriod, string> = {
+  [HoroscopePeriod.WEEKLY]: 'YYYY-Www',
+  [HoroscopePeriod.MONTHLY]: 'YYYY-MM',
+  [HoroscopePeriod.YEARLY]: 'YYYY',
+};
 
 /**
  * Get horoscope for a specific sign and date
@@ -12,21 +33,18 @@ export const getDailyHoroscope = async (
   next: NextFunction
 ) => {
   try {
-    const { sign, date } = req.params;
+    const { sign } = req.params;
     
     // Validate sign
     if (!sign || !Object.values(ZodiacSign).includes(sign as ZodiacSign)) {
       throw new ApiError(400, 'Invalid zodiac sign');
     }
     
-    // Validate date format (YYYY-MM-DD)
-    const dateRegex = /^\d{4}-\d{2}-\d{2}$/;
-    if (!date || !dateRegex.test(date)) {
-      throw new ApiError(400, 'Invalid date format. Use YYYY-MM-DD');
-    }
+    // Date from the route, or today in the requested time zone
+    const date = resolveDate(req.params.date, getTimeZone(req));
     
     // Get horoscope
-    const horoscope = await getHoroscope(sign as ZodiacSign, date);
+    const horoscope = await getHoroscope(sign as ZodiacSign, date, getLocale(req));
     
     res.status(200).json(horoscope);
   } catch (error) {
@@ -44,17 +62,12 @@ export const getAllHoroscopes = async (
   next: NextFunction
 ) => {
   try {
-    const { date } = req.params;
-    
-    // Validate date format (YYYY-MM-DD)
-    const dateRegex = /^\d{4}-\d{2}-\d{2}$/;
-    if (!date || !dateRegex.test(date)) {
-      throw new ApiError(400, 'Invalid date format. Use YYYY-MM-DD');
-    }
+    const date = resolveDate(req.params.date, getTimeZone(req));
     
     // Get horoscopes for all signs
+    const locale = getLocale(req);
     const horoscopePromises = Object.values(ZodiacSign).map(sign => 
-      getHoroscope(sign, date)
+      getHoroscope(sign, date, locale)
     );
     
     const horoscopes = await Promise.all(horoscopePromises);
@@ -67,7 +80,11 @@ export const getAllHoroscopes = async (
 };
 
 /**
- * Get user's personal horoscope based on birth date
+ * Get user's personal horoscope based on birth date. The date may be
+ * "today", resolved in the time zone stored on the profile. Includes the
+ * Vimshottari dasha periods running on that date, and the lucky number is
+ * the user's personal day number. The lucky time is counted from sunrise at
+ * the latitude and longitude query parameters, or at the birth place.
  */
 export const getPersonalHoroscope = async (
   req: Request,
@@ -80,34 +97,28 @@ export const getPersonalHoroscope = async (
       throw new ApiError(401, 'User ID not found');
     }
     
-    const { date } = req.params;
+    // Sign from the user's birth data, "today" in the user's time zone
+    const profile = await getUserProfile(userId);
+    const sign = getProfileSign(profile);
+    const timeZone = getTimeZone(req, profile.timezone);
+    const date = resolveDate(req.params.date, timeZone);
     
-    // Validate date format (YYYY-MM-DD)
-    const dateRegex = /^\d{4}-\d{2}-\d{2}$/;
-    if (!date || !dateRegex.test(date)) {
-      throw new ApiError(400, 'Invalid date format. Use YYYY-MM-DD');
-    }
-    
-    // Get user's birth date from profile
-    const { data: profile, error } = await supabase
-      .from('profiles')
-      .select('birth_date')
-      .eq('id', userId)
-      .single();
-      
-    if (error || !profile || !profile.birth_date) {
-      throw new ApiError(400, 'Birth date not found in user profile');
-    }
-    
-    // Determine zodiac sign from birth date
-    const sign = getZodiacSignFromBirthDate(profile.birth_date);
-    
-    // Get horoscope
-    const horoscope = await getHoroscope(sign, date);
+    // Sign horoscope for the other attributes, prediction from the user's transits
+    const horoscope = await getHoroscope(sign, date, getLocale(req));
+    const reading = getPersonalReading(profile, date, timeZone);
+    const luckyTime = getProfileLuckyTime(profile, sign, date, timeZone, getLocation(req));
     
     res.status(200).json({
       ...horoscope,
+      prediction: reading.prediction,
+      luckyTime: luckyTime || horoscope.luckyTime,
+      luckyNumber: String(getProfileNumerology(profile, date).personalDay.value),
       personalizedFor: userId,
+      zodiac: getZodiacPreferences(profile),
+      dasha: getProfileDasha(profile, date),
+      moonSign: reading.moonSign,
+      houses: reading.houses,
+      explanation: reading.paragraphs,
     });
   } catch (error) {
     logger.error('Error getting personal horoscope:', error);
@@ -116,36 +127,185 @@ export const getPersonalHoroscope = async (
 };
 
 /**
- * Determine zodiac sign from birth date
+ * Get weekly horoscope for a sign and ISO week
+ */
+export const getWeeklyHoroscope = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  await sendPeriodHoroscope(HoroscopePeriod.WEEKLY, req.params.isoWeek, req, res, next);
+};
+
+/**
+ * Get monthly horoscope for a sign and month
+ */
+export const getMonthlyHoroscope = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  await sendPeriodHoroscope(HoroscopePeriod.MONTHLY, req.params.month, req, res, next);
+};
+
+/**
+ * Get yearly horoscope for a sign and year
+ */
+export const getYearlyHoroscope = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  await sendPeriodHoroscope(HoroscopePeriod.YEARLY, req.params.year, req, res, next);
+};
+
+/**
+ * Get user's personal weekly horoscope
+ */
+export const getPersonalWeeklyHoroscope = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  await sendPeriodHoroscope(HoroscopePeriod.WEEKLY, req.params.isoWeek, req, res, next, true);
+};
+
+/**
+ * Get user's personal monthly horoscope
+ */
+export const getPersonalMonthlyHoroscope = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  await sendPeriodHoroscope(HoroscopePeriod.MONTHLY, req.params.month, req, res, next, true);
+};
+
+/**
+ * Get user's personal yearly horoscope
+ */
+export const getPersonalYearlyHoroscope = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  await sendPeriodHoroscope(HoroscopePeriod.YEARLY, req.params.year, req, res, next, true);
+};
+
+/**
+ * Validate a period request and send the horoscope. Personal requests take
+ * the sign from the user's profile instead of the route.
+ */
+const sendPeriodHoroscope = async (
+  type: HoroscopePeriod,
+  period: string,
+  req: Request,
+  res: Response,
+  next: NextFunction,
+  personal = false
+) => {
+  try {
+    let sign: ZodiacSign;
+    let profile: UserProfile | undefined;
+    
+    if (personal) {
+      const userId = req.user?.id;
+      if (!userId) {
+        throw new ApiError(401, 'User ID not found');
+      }
+      profile = await getUserProfile(userId);
+      sign = getProfileSign(profile);
+    } else {
+      sign = req.params.sign as ZodiacSign;
+      
+      // Validate sign
+      if (!sign || !Object.values(ZodiacSign).includes(sign)) {
+        throw new ApiError(400, 'Invalid zodiac sign');
+      }
+    }
+    
+    // Validate period format
+    if (!period || !PERIOD_PATTERNS[type].test(period)) {
+      throw new ApiError(400, `Invalid period format. Use ${PERIOD_FORMATS[type]}`);
+    }
+    
+    const horoscope = await getPeriodHoroscope(type, sign, period);
+    
+    res.status(200).json(profile
+      ? { ...horoscope, personalizedFor: req.user?.id, zodiac: getZodiacPreferences(profile) }
+      : horoscope);
+  } catch (error) {
+    logger.error(`Error getting ${type} horoscope:`, error);
+    next(error);
+  }
+};
+
+/**
+ * Read the time zone used to resolve "today": the timezone query parameter,
+ * then the given fallback (e.g. from the profile), then UTC
  */
-const getZodiacSignFromBirthDate = (birthDate: string): ZodiacSign => {
-  const date = new Date(birthDate);
-  const month = date.getMonth() + 1; // JavaScript months are 0-indexed
-  const day = date.getDate();
+const getTimeZone = (req: Request, fallback?: string): string => {
+  const timeZone = req.query.timezone;
+  if (timeZone === undefined) {
+    return fallback && isValidTimeZone(fallback) ? fallback : DEFAULT_TIMEZONE;
+  }
+  
+  if (typeof timeZone !== 'string' || !isValidTimeZone(timeZone)) {
+    throw new ApiError(400, 'Invalid time zone. Use an IANA zone such as Europe/Berlin');
+  }
+  
+  return timeZone;
+};
+
+/**
+ * Read the optional latitude and longitude query parameters, which must be
+ * given together
+ */
+const getLocation = (req: Request): { latitude: number; longitude: number } | undefined => {
+  const { latitude, longitude } = req.query;
+  if (latitude === undefined && longitude === undefined) {
+    return undefined;
+  }
+  
+  const location = { latitude: Number(latitude), longitude: Number(longitude) };
+  if (typeof latitude !== 'string' || typeof longitude !== 'string' ||
+      !(Math.abs(location.latitude) <= 90) || !(Math.abs(location.longitude) <= 180)) {
+    throw new ApiError(400, 'Invalid location. Pass latitude (-90 to 90) and longitude (-180 to 180) together');
+  }
+  
+  return location;
+};
+
+/**
+ * Validate a date route parameter. "today" (or no date at all) resolves to
+ * the current date in the given time zone.
+ */
+const resolveDate = (date: string | undefined, timeZone: string): string => {
+  if (date === undefined || date === 'today') {
+    return getDateInTimeZone(timeZone);
+  }
   
-  if ((month === 3 && day >= 21) || (month === 4 && day <= 19)) {
-    return ZodiacSign.ARIES;
-  } else if ((month === 4 && day >= 20) || (month === 5 && day <= 20)) {
-    return ZodiacSign.TAURUS;
-  } else if ((month === 5 && day >= 21) || (month === 6 && day <= 20)) {
-    return ZodiacSign.GEMINI;
-  } else if ((month === 6 && day >= 21) || (month === 7 && day <= 22)) {
-    return ZodiacSign.CANCER;
-  } else if ((month === 7 && day >= 23) || (month === 8 && day <= 22)) {
-    return ZodiacSign.LEO;
-  } else if ((month === 8 && day >= 23) || (month === 9 && day <= 22)) {
-    return ZodiacSign.VIRGO;
-  } else if ((month === 9 && day >= 23) || (month === 10 && day <= 22)) {
-    return ZodiacSign.LIBRA;
-  } else if ((month === 10 && day >= 23) || (month === 11 && day <= 21)) {
-    return ZodiacSign.SCORPIO;
-  } else if ((month === 11 && day >= 22) || (month === 12 && day <= 21)) {
-    return ZodiacSign.SAGITTARIUS;
-  } else if ((month === 12 && day >= 22) || (month === 1 && day <= 19)) {
-    return ZodiacSign.CAPRICORN;
-  } else if ((month === 1 && day >= 20) || (month === 2 && day <= 18)) {
-    return ZodiacSign.AQUARIUS;
-  } else {
-    return ZodiacSign.PISCES;
+  // Validate date format (YYYY-MM-DD)
+  const dateRegex = /^\d{4}-\d{2}-\d{2}$/;
+  if (!dateRegex.test(date)) {
+    throw new ApiError(400, 'Invalid date format. Use YYYY-MM-DD or today');
   }
+  
+  return date;
+};
+
+/**
+ * Read the optional locale query parameter (e.g. "en" or "pt-BR")
+ */
+const getLocale = (req: Request): string => {
+  const locale = req.query.locale;
+  if (locale === undefined) {
+    return DEFAULT_LOCALE;
+  }
+  
+  if (typeof locale !== 'string' || !/^[a-z]{2,3}(-[A-Za-z]{2})?$/.test(locale)) {
+    throw new ApiError(400, 'Invalid locale. Use a language code such as en or pt-BR');
+  }
+  
+  return locale;
 };
@@ -0,0 +1,28 @@
+import { Request, Response, NextFunction } from 'express';
+import { logger } from '../config/logger';
+import { getMoonCalendar as getMoonCalendarData } from '../services/moon.service';
+import { moonCalendarQuerySchema } from '../schemas/moon.schema';
+import { DEFAULT_TIMEZONE, getDateInTimeZone } from '../utils/timezone';
+
+/**
+ * Get a month of moon data. Days run from midnight to midnight in the
+ * timezone query parameter (UTC by default).
+ */
+export const getMoonCalendar = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const query = moonCalendarQuerySchema.parse(req.query);
+    const timeZone = query.timezone || DEFAULT_TIMEZONE;
+    const month = query.month || getDateInTimeZone(timeZone).substring(0, 7);
+    
+    const calendar = await getMoonCalendarData(month, timeZone);
+    
+    res.status(200).json(calendar);
+  } catch (error) {
+    logger.error('Error getting moon calendar:', error);
+    next(error);
+  }
+};
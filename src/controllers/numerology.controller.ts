@@ -0,0 +1,34 @@
+import { Request, Response, NextFunction } from 'express';
+import { logger } from '../config/logger';
+import { ApiError } from '../middlewares/error.middleware';
+import { getProfileNumerology } from '../services/numerology.service';
+import { getUserProfile } from '../services/profile.service';
+import { numerologyQuerySchema } from '../schemas/numerology.schema';
+import { DEFAULT_TIMEZONE, getDateInTimeZone, isValidTimeZone } from '../utils/timezone';
+
+/**
+ * Get the user's core numbers and their personal cycles on the date query
+ * parameter, today in the user's time zone by default
+ */
+export const getNumerology = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const userId = req.user?.id;
+    if (!userId) {
+      throw new ApiError(401, 'User ID not found');
+    }
+    
+    const query = numerologyQuerySchema.parse(req.query);
+    const profile = await getUserProfile(userId);
+    const timeZone = profile.timezone && isValidTimeZone(profile.timezone) ? profile.timezone : DEFAULT_TIMEZONE;
+    const date = query.date || getDateInTimeZone(timeZone);
+    
+    res.status(200).json(getProfileNumerology(profile, date));
+  } catch (error) {
+    logger.error('Error getting numerology:', error);
+    next(error);
+  }
+};
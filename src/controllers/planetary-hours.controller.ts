@@ -0,0 +1,29 @@
+import { Request, Response, NextFunction } from 'express';
+import { logger } from '../config/logger';
+import { getPlanetaryHours as getPlanetaryHoursData } from '../services/planetary-hours.service';
+import { planetaryHoursQuerySchema } from '../schemas/planetary-hours.schema';
+import { DEFAULT_TIMEZONE, getDateInTimeZone } from '../utils/timezone';
+
+/**
+ * Get the planetary hours at the latitude and longitude query parameters,
+ * from sunrise on the date (today by default) to the next sunrise. Times
+ * are read in the timezone query parameter (UTC by default).
+ */
+export const getPlanetaryHours = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const query = planetaryHoursQuerySchema.parse(req.query);
+    const timeZone = query.timezone || DEFAULT_TIMEZONE;
+    const date = query.date || getDateInTimeZone(timeZone);
+    
+    const day = await getPlanetaryHoursData(date, query.latitude, query.longitude, timeZone);
+    
+    res.status(200).json(day);
+  } catch (error) {
+    logger.error('Error getting planetary hours:', error);
+    next(error);
+  }
+};
@@ -8,6 +8,9 @@ import {
   deleteUserAvatar,
   updateUserPreferences
 } from '../services/profile.service';
+import { refreshUserTransits } from '../services/transits.service';
+import { profileUpdateSchema } from '../schemas/profile.schema';
+import { Ayanamsa, ZodiacType } from '../utils/zodiac';
 
 /**
  * Get user profile
@@ -44,14 +47,39 @@ export const updateProfile = async (
       throw new ApiError(401, 'User ID not found');
     }
     
-    const { name, birthDate, zodiacSign } = req.body;
+    const {
+      name,
+      birthDate,
+      birthTime,
+      birthTimezone,
+      birthLatitude,
+      birthLongitude,
+      birthLocationName,
+      timezone,
+      zodiacSign
+    } = profileUpdateSchema.parse(req.body);
     
     const updatedProfile = await updateUserProfile(userId, {
       name,
       birthDate,
+      birthTime,
+      birthTimezone,
+      birthLatitude,
+      birthLongitude,
+      birthLocationName,
+      timezone,
       zodiacSign
     });
     
+    // Personal transits depend on the birth data
+    const birthDataChanged = [birthDate, birthTime, birthTimezone, birthLatitude, birthLongitude]
+      .some(value => value !== undefined);
+    if (birthDataChanged) {
+      await refreshUserTransits(updatedProfile).catch(error =>
+        logger.warn({ err: error, userId }, 'Could not refresh personal transits')
+      );
+    }
+    
     res.status(200).json(updatedProfile);
   } catch (error) {
     next(error);
@@ -130,6 +158,14 @@ export const updatePreferences = async (
       throw new ApiError(400, 'Valid preferences object is required');
     }
     
+    // Validate zodiac system
+    if (preferences.zodiacType !== undefined && !Object.values(ZodiacType).includes(preferences.zodiacType)) {
+      throw new ApiError(400, `Invalid zodiac type. Use ${Object.values(ZodiacType).join(' or ')}`);
+    }
+    if (preferences.ayanamsa !== undefined && !Object.values(Ayanamsa).includes(preferences.ayanamsa)) {
+      throw new ApiError(400, `Invalid ayanamsa. Use one of ${Object.values(Ayanamsa).join(', ')}`);
+    }
+    
     const updatedPreferences = await updateUserPreferences(userId, preferences);
     
     res.status(200).json({ preferences: updatedPreferences });
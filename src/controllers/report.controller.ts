@@ -2,10 +2,34 @@ import { Request, Response, NextFunction } from 'express';
 import { logger } from '../config/logger';
 import { ApiError } from '../middlewares/error.middleware';
 import * as reportService from '../services/report.service';
-import { ReportType } from '../services/report.service';
+import { getUserReportBirthData, getUserZodiacPreferences } from '../services/profile.service';
+import { reportListQuerySchema, reportRequestSchema } from '../schemas/report.schema';
+import { REPORT_TYPES } from '../utils/report-generator';
 
 /**
- * Create a new report
+ * Get the report types that can be requested
+ */
+export const getReportTypes = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    res.status(200).json({
+      status: 'success',
+      data: reportService.getReportTypes()
+    });
+  } catch (error) {
+    logger.error('Error getting report types:', error);
+    next(error);
+  }
+};
+
+/**
+ * Create a new report. The parameters are checked against the schema of the
+ * report type; charts in the report use the user's zodiac unless the
+ * parameters name one, and forecasts the user's birth data unless the
+ * parameters give a birth date.
  */
 export const createReport = async (
   req: Request,
@@ -18,15 +42,23 @@ export const createReport = async (
       throw new ApiError(401, 'User ID not found');
     }
 
-    const { type, parameters } = req.body;
+    const { type, parameters } = reportRequestSchema.parse(req.body);
+    const preferences = await getUserZodiacPreferences(userId);
     
-    // Validate report type
-    if (!type || !Object.values(ReportType).includes(type)) {
-      throw new ApiError(400, 'Invalid report type');
+    // Forecasts without birth data are of the user's own chart
+    const birthData = REPORT_TYPES[type].profileBirthData && parameters.birthDate === undefined
+      ? await getUserReportBirthData(userId)
+      : {};
+    const reportParameters = REPORT_TYPES[type].schema.parse({ ...preferences, ...birthData, ...parameters });
+
+    const deprecation = REPORT_TYPES[type].deprecation?.(reportParameters);
+    if (deprecation) {
+      res.set('Deprecation', 'true');
+      res.set('Warning', `299 - "${deprecation}"`);
     }
 
     // Create report
-    const report = await reportService.createReport(userId, type, parameters);
+    const report = await reportService.createReport(userId, type, reportParameters);
     
     res.status(201).json({
       status: 'success',
@@ -52,12 +84,12 @@ export const getReportById = async (
       throw new ApiError(401, 'User ID not found');
     }
 
-    const { id } = req.params;
-    if (!id) {
+    const { reportId } = req.params;
+    if (!reportId) {
       throw new ApiError(400, 'Report ID is required');
     }
 
-    const report = await reportService.getReportById(userId, id);
+    const report = await reportService.getReportById(userId, reportId);
     
     res.status(200).json({
       status: 'success',
@@ -83,14 +115,7 @@ export const getUserReports = async (
       throw new ApiError(401, 'User ID not found');
     }
 
-    const limit = parseInt(req.query.limit as string || '10', 10);
-    const offset = parseInt(req.query.offset as string || '0', 10);
-    const type = req.query.type as ReportType | undefined;
-
-    // Validate type if provided
-    if (type && !Object.values(ReportType).includes(type)) {
-      throw new ApiError(400, 'Invalid report type');
-    }
+    const { limit, offset, type } = reportListQuerySchema.parse(req.query);
 
     const result = await reportService.getUserReports(userId, limit, offset, type);
     
@@ -121,12 +146,12 @@ export const deleteReport = async (
       throw new ApiError(401, 'User ID not found');
     }
 
-    const { id } = req.params;
-    if (!id) {
+    const { reportId } = req.params;
+    if (!reportId) {
       throw new ApiError(400, 'Report ID is required');
     }
 
-    await reportService.deleteReport(userId, id);
+    await reportService.deleteReport(userId, reportId);
     
     res.status(200).json({
       status: 'success',
@@ -152,12 +177,12 @@ export const getReportDownloadUrl = async (
       throw new ApiError(401, 'User ID not found');
     }
 
-    const { id } = req.params;
-    if (!id) {
+    const { reportId } = req.params;
+    if (!reportId) {
       throw new ApiError(400, 'Report ID is required');
     }
 
-    const downloadInfo = await reportService.getReportDownloadUrl(userId, id);
+    const downloadInfo = await reportService.getReportDownloadUrl(userId, reportId);
     
     res.status(200).json({
       status: 'success',
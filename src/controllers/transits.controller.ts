@@ -0,0 +1,30 @@
+import { Request, Response, NextFunction } from 'express';
+import { logger } from '../config/logger';
+import { ApiError } from '../middlewares/error.middleware';
+import { getPersonalTransits as getPersonalTransitsData } from '../services/transits.service';
+import { personalTransitsQuerySchema } from '../schemas/transits.schema';
+
+/**
+ * Get the user's exact transits between the from and to query parameters
+ */
+export const getPersonalTransits = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const userId = req.user?.id;
+    if (!userId) {
+      throw new ApiError(401, 'User ID not found');
+    }
+    
+    const { from, to } = personalTransitsQuerySchema.parse(req.query);
+    
+    const aspects = await getPersonalTransitsData(userId, from, to);
+    
+    res.status(200).json({ from, to, aspects });
+  } catch (error) {
+    logger.error('Error getting personal transits:', error);
+    next(error);
+  }
+};
@@ -2,6 +2,7 @@ import fs from 'fs';
 import path from 'path';
 import { supabase } from '../config/supabase';
 import { logger } from '../config/logger';
+import { REPORT_TYPE_INFO } from '../utils/report-types';
 
 /**
  * Database migration runner
@@ -64,6 +65,9 @@ async function runMigrations() {
       logger.info(`Successfully applied migration: ${file}`);
     }
     
+    // Add report types registered since the last run
+    await syncReportTypes();
+    
     logger.info('Database migrations completed successfully');
   } catch (error) {
     logger.error('Error running migrations:', error);
@@ -71,9 +75,27 @@ async function runMigrations() {
   }
 }
 
+/**
+ * Add or rename the report types registered in utils/report-types.ts, so
+ * reports of every registered type pass the foreign key on reports.type
+ */
+async function syncReportTypes() {
+  const rows = Object.entries(REPORT_TYPE_INFO).map(([id, info]) => ({ id, name: info.name }));
+  
+  const { error } = await supabase
+    .from('report_types')
+    .upsert(rows, { onConflict: 'id' });
+  
+  if (error) {
+    throw new Error(`Failed to sync report types: ${error.message}`);
+  }
+  
+  logger.info(`Synced ${rows.length} report types`);
+}
+
 // Run migrations if this file is executed directly
 if (require.main === module) {
   runMigrations();
 }
 
-export { runMigrations };
+export { runMigrations, syncReportTypes };
@@ -0,0 +1,56 @@
+-- Weekly, monthly and yearly horoscopes, stored alongside the daily horoscopes table.
+-- The period column holds the ISO week (2025-W23), month (2025-06) or year (2025).
+
+CREATE TABLE IF NOT EXISTS weekly_horoscopes (
+  id TEXT PRIMARY KEY,
+  sign TEXT NOT NULL CHECK (sign IN ('aries', 'taurus', 'gemini', 'cancer', 'leo', 'virgo', 'libra', 'scorpio', 'sagittarius', 'capricorn', 'aquarius', 'pisces')),
+  period TEXT NOT NULL CHECK (period ~ '^\d{4}-W\d{2}$'),
+  start_date DATE NOT NULL,
+  end_date DATE NOT NULL,
+  prediction TEXT NOT NULL,
+  love TEXT NOT NULL,
+  career TEXT NOT NULL,
+  health TEXT NOT NULL,
+  compatibility TEXT NOT NULL,
+  color TEXT NOT NULL,
+  lucky_number TEXT NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_weekly_horoscopes_sign_period ON weekly_horoscopes(sign, period);
+
+CREATE TABLE IF NOT EXISTS monthly_horoscopes (
+  id TEXT PRIMARY KEY,
+  sign TEXT NOT NULL CHECK (sign IN ('aries', 'taurus', 'gemini', 'cancer', 'leo', 'virgo', 'libra', 'scorpio', 'sagittarius', 'capricorn', 'aquarius', 'pisces')),
+  period TEXT NOT NULL CHECK (period ~ '^\d{4}-\d{2}$'),
+  start_date DATE NOT NULL,
+  end_date DATE NOT NULL,
+  prediction TEXT NOT NULL,
+  love TEXT NOT NULL,
+  career TEXT NOT NULL,
+  health TEXT NOT NULL,
+  compatibility TEXT NOT NULL,
+  color TEXT NOT NULL,
+  lucky_number TEXT NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_monthly_horoscopes_sign_period ON monthly_horoscopes(sign, period);
+
+CREATE TABLE IF NOT EXISTS yearly_horoscopes (
+  id TEXT PRIMARY KEY,
+  sign TEXT NOT NULL CHECK (sign IN ('aries', 'taurus', 'gemini', 'cancer', 'leo', 'virgo', 'libra', 'scorpio', 'sagittarius', 'capricorn', 'aquarius', 'pisces')),
+  period TEXT NOT NULL CHECK (period ~ '^\d{4}$'),
+  start_date DATE NOT NULL,
+  end_date DATE NOT NULL,
+  prediction TEXT NOT NULL,
+  love TEXT NOT NULL,
+  career TEXT NOT NULL,
+  health TEXT NOT NULL,
+  compatibility TEXT NOT NULL,
+  color TEXT NOT NULL,
+  lucky_number TEXT NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_yearly_horoscopes_sign_period ON yearly_horoscopes(sign, period);
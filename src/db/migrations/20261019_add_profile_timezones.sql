@@ -0,0 +1,6 @@
+-- Time zones on profiles: the user's current IANA zone decides what "today" means,
+-- and the birth place's zone is used to turn the birth date and time into an instant.
+ALTER TABLE IF EXISTS profiles
+ADD COLUMN IF NOT EXISTS timezone TEXT NOT NULL DEFAULT 'UTC',
+ADD COLUMN IF NOT EXISTS birth_time TIME,
+ADD COLUMN IF NOT EXISTS birth_timezone TEXT;
@@ -0,0 +1,17 @@
+-- Upcoming retrograde stations, sign ingresses and eclipses, refreshed daily.
+-- The id is stable across calculations (type:planet:date), so refreshing
+-- never duplicates an event or resets notified_at.
+
+CREATE TABLE IF NOT EXISTS astro_events (
+  id TEXT PRIMARY KEY,
+  type TEXT NOT NULL CHECK (type IN ('station_retrograde', 'station_direct', 'ingress', 'solar_eclipse', 'lunar_eclipse')),
+  planet TEXT NOT NULL,
+  sign TEXT NOT NULL CHECK (sign IN ('aries', 'taurus', 'gemini', 'cancer', 'leo', 'virgo', 'libra', 'scorpio', 'sagittarius', 'capricorn', 'aquarius', 'pisces')),
+  event_time TIMESTAMP WITH TIME ZONE NOT NULL,
+  retrograde BOOLEAN,
+  eclipse TEXT CHECK (eclipse IN ('total', 'annular', 'partial', 'penumbral')),
+  notified_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_astro_events_event_time ON astro_events(event_time);
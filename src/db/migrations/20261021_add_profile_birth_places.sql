@@ -0,0 +1,6 @@
+-- Birth place on profiles, so natal angles and houses can be calculated for
+-- personal transits and horoscopes. Longitudes are east positive.
+ALTER TABLE IF EXISTS profiles
+ADD COLUMN IF NOT EXISTS birth_latitude DOUBLE PRECISION CHECK (birth_latitude BETWEEN -90 AND 90),
+ADD COLUMN IF NOT EXISTS birth_longitude DOUBLE PRECISION CHECK (birth_longitude BETWEEN -180 AND 180),
+ADD COLUMN IF NOT EXISTS birth_location_name TEXT;
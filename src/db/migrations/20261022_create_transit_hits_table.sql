@@ -0,0 +1,20 @@
+-- Exact transits of the slow planets to each user's natal points, refreshed
+-- daily for the coming weeks. The id is stable across refreshes
+-- (user:planet:aspect:point:date), so notified_at survives them.
+
+CREATE TABLE IF NOT EXISTS transit_hits (
+  id TEXT PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  transit_planet TEXT NOT NULL CHECK (transit_planet IN ('jupiter', 'saturn', 'uranus', 'neptune', 'pluto')),
+  aspect TEXT NOT NULL CHECK (aspect IN ('conjunction', 'sextile', 'square', 'trine', 'opposition')),
+  natal_planet TEXT NOT NULL,
+  orb DOUBLE PRECISION NOT NULL,
+  exact_time TIMESTAMP WITH TIME ZONE NOT NULL,
+  transit_sign TEXT NOT NULL,
+  retrograde BOOLEAN NOT NULL DEFAULT FALSE,
+  notified_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_transit_hits_user_id_exact_time ON transit_hits(user_id, exact_time);
+CREATE INDEX IF NOT EXISTS idx_transit_hits_exact_time ON transit_hits(exact_time);
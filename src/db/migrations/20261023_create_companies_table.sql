@@ -0,0 +1,43 @@
+-- Company profiles for business clients: the incorporation moment and place
+-- give the company chart, and founders and key employees are kept with their
+-- birth data ({ name, title, date, time, latitude, longitude, utcOffset,
+-- timezone, locationName }) to compare with it. Longitudes are east positive.
+
+CREATE TABLE IF NOT EXISTS companies (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id UUID NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  incorporation_date DATE NOT NULL,
+  incorporation_time TIME,
+  incorporation_timezone TEXT,
+  incorporation_utc_offset INTEGER CHECK (incorporation_utc_offset BETWEEN -840 AND 840),
+  incorporation_latitude DOUBLE PRECISION NOT NULL CHECK (incorporation_latitude BETWEEN -90 AND 90),
+  incorporation_longitude DOUBLE PRECISION NOT NULL CHECK (incorporation_longitude BETWEEN -180 AND 180),
+  incorporation_location_name TEXT,
+  founders JSONB NOT NULL DEFAULT '[]',
+  employees JSONB NOT NULL DEFAULT '[]',
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_companies_user_id ON companies(user_id);
+
+ALTER TABLE companies ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY companies_select_policy ON companies
+  FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY companies_insert_policy ON companies
+  FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY companies_update_policy ON companies
+  FOR UPDATE
+  USING (auth.uid() = user_id);
+
+CREATE POLICY companies_delete_policy ON companies
+  FOR DELETE
+  USING (auth.uid() = user_id);
+
+GRANT SELECT, INSERT, UPDATE, DELETE ON companies TO authenticated;
@@ -0,0 +1,29 @@
+-- Report types, one row per type registered in utils/report-types.ts.
+-- The migration runner adds the registered types after each run, so a new
+-- report type needs no migration of its own. Rows are never removed while
+-- reports of the type exist.
+
+CREATE TABLE IF NOT EXISTS report_types (
+  id TEXT PRIMARY KEY,
+  name TEXT NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+-- Keep the types of existing reports, named after the id until the runner
+-- syncs the registry
+INSERT INTO report_types (id, name)
+SELECT DISTINCT type, type FROM reports
+ON CONFLICT (id) DO NOTHING;
+
+-- The fixed list of four types is replaced by the table
+ALTER TABLE reports DROP CONSTRAINT IF EXISTS reports_type_check;
+ALTER TABLE reports
+  ADD CONSTRAINT reports_type_fkey FOREIGN KEY (type) REFERENCES report_types(id);
+
+ALTER TABLE report_types ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY report_types_select_policy ON report_types
+  FOR SELECT
+  USING (true);
+
+GRANT SELECT ON report_types TO authenticated;
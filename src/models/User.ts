@@ -6,6 +6,7 @@ export interface NotificationPreferences {
   dailyHoroscope: boolean;
   weeklyHoroscope: boolean;
   specialEvents: boolean;
+  transitAlerts: boolean; // exact transits to the user's natal chart
   promotions: boolean;
 }
 
@@ -32,6 +33,7 @@ const notificationPreferencesSchema = new Schema({
   dailyHoroscope: { type: Boolean, default: true },
   weeklyHoroscope: { type: Boolean, default: true },
   specialEvents: { type: Boolean, default: true },
+  transitAlerts: { type: Boolean, default: false },
   promotions: { type: Boolean, default: false }
 });
 
@@ -0,0 +1,50 @@
+import { Router } from 'express';
+import { authenticate } from '../middlewares/auth.middleware';
+import {
+  getCompositeChart,
+  getDasha,
+  getDavisonChart,
+  getNatalChart,
+  getAstrocartography,
+  getNatalChartWheel,
+  getProgressedChart,
+  getRelocatedChart,
+  getRelocationCities,
+  getSolarArcDirections,
+} from '../controllers/chart.controller';
+
+const router = Router();
+
+// All routes require authentication
+router.use(authenticate);
+
+// Natal chart from query parameters or a JSON body
+router.get('/natal', getNatalChart);
+router.post('/natal', getNatalChart);
+
+// Natal chart wheel as SVG
+router.get('/natal.svg', getNatalChartWheel);
+
+// Relationship charts of two people from a JSON body
+router.post('/composite', getCompositeChart);
+router.post('/davison', getDavisonChart);
+
+// Secondary progressions and solar arc directions for a date of life
+router.get('/progressions', getProgressedChart);
+router.post('/progressions', getProgressedChart);
+router.get('/solar-arc', getSolarArcDirections);
+router.post('/solar-arc', getSolarArcDirections);
+
+// Relocated chart, astrocartography lines and cities on them
+router.get('/relocation', getRelocatedChart);
+router.post('/relocation', getRelocatedChart);
+router.get('/relocation/lines', getAstrocartography);
+router.post('/relocation/lines', getAstrocartography);
+router.get('/relocation/cities', getRelocationCities);
+router.post('/relocation/cities', getRelocationCities);
+
+// Vimshottari dasha timeline
+router.get('/dasha', getDasha);
+router.post('/dasha', getDasha);
+
+export default router;
@@ -0,0 +1,29 @@
+import { Router } from 'express';
+import { authenticate } from '../middlewares/auth.middleware';
+import {
+  createCompany,
+  deleteCompany,
+  getCompanies,
+  getCompany,
+  getCompanyChart,
+  getCompanyCompatibility,
+  updateCompany,
+} from '../controllers/company.controller';
+
+const router = Router();
+
+// All routes require authentication
+router.use(authenticate);
+
+// Company profiles of the authenticated user
+router.post('/', createCompany);
+router.get('/', getCompanies);
+router.get('/:companyId', getCompany);
+router.put('/:companyId', updateCompany);
+router.delete('/:companyId', deleteCompany);
+
+// Incorporation chart and its synastry with founders and key employees
+router.get('/:companyId/chart', getCompanyChart);
+router.get('/:companyId/compatibility', getCompanyCompatibility);
+
+export default router;
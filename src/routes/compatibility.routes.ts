@@ -0,0 +1,16 @@
+import { Router } from 'express';
+import { authenticate } from '../middlewares/auth.middleware';
+import { getSignCompatibility, getSynastry, getTeamCompatibility } from '../controllers/compatibility.controller';
+
+const router = Router();
+
+// Public routes
+router.get('/', getSignCompatibility);
+
+// Synastry of two birth charts from a JSON body
+router.post('/', authenticate, getSynastry);
+
+// Pairwise compatibility of a team from a JSON body
+router.post('/team', authenticate, getTeamCompatibility);
+
+export default router;
@@ -0,0 +1,13 @@
+import { Router } from 'express';
+import { authenticate } from '../middlewares/auth.middleware';
+import { searchElections } from '../controllers/election.controller';
+
+const router = Router();
+
+// All routes require authentication
+router.use(authenticate);
+
+// Best times for an event from a JSON body
+router.post('/search', searchElections);
+
+export default router;
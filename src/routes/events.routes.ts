@@ -0,0 +1,9 @@
+import { Router } from 'express';
+import { getEvents } from '../controllers/events.controller';
+
+const router = Router();
+
+// Public routes
+router.get('/', getEvents);
+
+export default router;
@@ -3,16 +3,29 @@ import { authenticate } from '../middlewares/auth.middleware';
 import { 
   getDailyHoroscope,
   getAllHoroscopes,
-  getPersonalHoroscope
+  getPersonalHoroscope,
+  getWeeklyHoroscope,
+  getMonthlyHoroscope,
+  getYearlyHoroscope,
+  getPersonalWeeklyHoroscope,
+  getPersonalMonthlyHoroscope,
+  getPersonalYearlyHoroscope
 } from '../controllers/horoscope.controller';
 
 const router = Router();
 
 // Public routes
 router.get('/daily/:sign/:date', getDailyHoroscope);
+router.get('/today/:sign', getDailyHoroscope);
 router.get('/all/:date', getAllHoroscopes);
+router.get('/weekly/:sign/:isoWeek', getWeeklyHoroscope);
+router.get('/monthly/:sign/:month', getMonthlyHoroscope);
+router.get('/yearly/:sign/:year', getYearlyHoroscope);
 
-// Protected routes
+// Protected routes ("today" as the date resolves in the profile's time zone)
 router.get('/personal/:date', authenticate, getPersonalHoroscope);
+router.get('/personal/weekly/:isoWeek', authenticate, getPersonalWeeklyHoroscope);
+router.get('/personal/monthly/:month', authenticate, getPersonalMonthlyHoroscope);
+router.get('/personal/yearly/:year', authenticate, getPersonalYearlyHoroscope);
 
 export default router;
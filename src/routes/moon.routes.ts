@@ -0,0 +1,9 @@
+import { Router } from 'express';
+import { getMoonCalendar } from '../controllers/moon.controller';
+
+const router = Router();
+
+// Public routes
+router.get('/calendar', getMoonCalendar);
+
+export default router;
@@ -0,0 +1,13 @@
+import { Router } from 'express';
+import { authenticate } from '../middlewares/auth.middleware';
+import { getNumerology } from '../controllers/numerology.controller';
+
+const router = Router();
+
+// All routes require authentication
+router.use(authenticate);
+
+// Core numbers and personal cycles from the user's profile
+router.get('/', getNumerology);
+
+export default router;
@@ -0,0 +1,9 @@
+import { Router } from 'express';
+import { getPlanetaryHours } from '../controllers/planetary-hours.controller';
+
+const router = Router();
+
+// Public routes
+router.get('/', getPlanetaryHours);
+
+export default router;
@@ -2,6 +2,7 @@ import { Router } from 'express';
 import { authenticate } from '../middlewares/auth.middleware';
 import { 
   createReport,
+  getReportTypes,
   getReportById,
   getUserReports,
   getReportDownloadUrl,
@@ -13,6 +14,9 @@ const router = Router();
 // All routes require authentication
 router.use(authenticate);
 
+// Report types that can be requested
+router.get('/types', getReportTypes);
+
 // Create a new report
 router.post('/', createReport);
 
@@ -0,0 +1,13 @@
+import { Router } from 'express';
+import { authenticate } from '../middlewares/auth.middleware';
+import { getPersonalTransits } from '../controllers/transits.controller';
+
+const router = Router();
+
+// All routes require authentication
+router.use(authenticate);
+
+// Exact transits to the user's natal chart
+router.get('/personal', getPersonalTransits);
+
+export default router;
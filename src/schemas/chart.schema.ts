@@ -0,0 +1,90 @@
+import { z } from 'zod';
+import { HouseSystem } from '../utils/houses';
+import { Ayanamsa, ZodiacType } from '../utils/zodiac';
+import { isValidTimeZone } from '../utils/timezone';
+import { RelocationTheme } from '../utils/astrocartography';
+
+/**
+ * Request schemas for chart endpoints. Numbers are coerced so the same
+ * schema validates query strings (GET) and JSON bodies (POST).
+ */
+
+// Date, time and place of birth
+export const birthDataSchema = z.object({
+  date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Use YYYY-MM-DD'),
+  time: z.string().regex(/^([01]\d|2[0-3]):[0-5]\d(:[0-5]\d)?$/, 'Use HH:mm or HH:mm:ss').optional(),
+  latitude: z.coerce.number().min(-90).max(90),
+  longitude: z.coerce.number().min(-180).max(180),
+  utcOffset: z.coerce.number().int().min(-840).max(840).optional(),
+  timezone: z.string().refine(isValidTimeZone, 'Use an IANA zone such as Europe/Berlin').optional(),
+  locationName: z.string().max(200).optional(),
+});
+
+// House system and zodiac. Without a zodiac type the user's preferred
+// zodiac is used.
+export const chartOptionsSchema = z.object({
+  houseSystem: z.nativeEnum(HouseSystem).default(HouseSystem.PLACIDUS),
+  zodiacType: z.nativeEnum(ZodiacType).optional(),
+  ayanamsa: z.nativeEnum(Ayanamsa).optional(),
+});
+
+export const natalChartRequestSchema = birthDataSchema.merge(chartOptionsSchema);
+
+export type NatalChartRequest = z.infer<typeof natalChartRequestSchema>;
+
+// Two people, for synastry and relationship charts. Both charts use the same
+// house system and zodiac.
+export const chartPairRequestSchema = chartOptionsSchema.extend({
+  person1: birthDataSchema,
+  person2: birthDataSchema,
+});
+
+export type ChartPairRequest = z.infer<typeof chartPairRequestSchema>;
+
+// Progressions and solar arc directions: the date of life to read, today by
+// default, and the years after it searched for upcoming events
+export const progressionRequestSchema = natalChartRequestSchema.extend({
+  targetDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Use YYYY-MM-DD').optional(),
+  years: z.coerce.number().int().min(1).max(10).default(1),
+});
+
+export type ProgressionRequest = z.infer<typeof progressionRequestSchema>;
+
+// Relocated chart: the moment of birth cast at another place
+export const relocationRequestSchema = natalChartRequestSchema.extend({
+  relocationLatitude: z.coerce.number().min(-90).max(90),
+  relocationLongitude: z.coerce.number().min(-180).max(180),
+  relocationLocationName: z.string().max(200).optional(),
+});
+
+export type RelocationRequest = z.infer<typeof relocationRequestSchema>;
+
+// Astrocartography lines only depend on the moment of birth, not on the
+// house system or zodiac
+export const astrocartographyRequestSchema = birthDataSchema;
+
+export type AstrocartographyRequest = z.infer<typeof astrocartographyRequestSchema>;
+
+// Cities near the lines of each theme; themes takes an array or a
+// comma-separated list and defaults to every theme
+export const relocationCitiesRequestSchema = birthDataSchema.extend({
+  themes: z.preprocess(
+    value => typeof value === 'string' ? value.split(',').map(theme => theme.trim()) : value,
+    z.array(z.nativeEnum(RelocationTheme)).min(1)
+  ).optional(),
+  limit: z.coerce.number().int().min(1).max(20).default(5),
+});
+
+export type RelocationCitiesRequest = z.infer<typeof relocationCitiesRequestSchema>;
+
+// Moment of birth, for calculations that do not depend on the place
+export const birthMomentSchema = birthDataSchema.pick({ date: true, time: true, utcOffset: true, timezone: true });
+
+// Vimshottari dasha: depth 1 lists mahadashas, 2 adds antardashas and 3
+// pratyantardashas
+export const dashaRequestSchema = birthMomentSchema.extend({
+  ayanamsa: z.nativeEnum(Ayanamsa).optional(),
+  depth: z.coerce.number().int().min(1).max(3).default(3),
+});
+
+export type DashaRequest = z.infer<typeof dashaRequestSchema>;
@@ -0,0 +1,34 @@
+import { z } from 'zod';
+
+/**
+ * Building blocks shared by the request schemas
+ */
+
+// Longest date range one request may cover
+export const MAX_RANGE_DAYS = 366;
+
+// Calendar date, rejecting days that do not exist such as 2026-02-30
+export const calendarDateSchema = z.string()
+  .regex(/^\d{4}-\d{2}-\d{2}$/, 'Use YYYY-MM-DD')
+  .refine(value => !isNaN(Date.parse(value)) && new Date(value).toISOString().startsWith(value), 'Not a calendar date');
+
+/**
+ * Fill in a missing range: from defaults to today (UTC) and to defaults to
+ * a number of days after from
+ */
+export const withDefaultRange = <T extends { from?: string; to?: string }>(
+  query: T,
+  days: number
+): T & { from: string; to: string } => {
+  const from = query.from || new Date().toISOString().split('T')[0];
+  const to = query.to || new Date(Date.parse(from) + days * 86400000).toISOString().split('T')[0];
+  return { ...query, from, to };
+};
+
+/**
+ * Check that to is on or after from and the range is not too long
+ */
+export const isValidRange = (range: { from: string; to: string }): boolean =>
+  range.to >= range.from && Date.parse(range.to) - Date.parse(range.from) < MAX_RANGE_DAYS * 86400000;
+
+export const INVALID_RANGE_MESSAGE = `Use a range of at most ${MAX_RANGE_DAYS} days, with to on or after from`;
@@ -0,0 +1,35 @@
+import { z } from 'zod';
+import { birthDataSchema, chartOptionsSchema } from './chart.schema';
+
+// People kept with one company, each compared with the company chart
+export const MAX_FOUNDERS = 10;
+export const MAX_EMPLOYEES = 50;
+
+// Founder or key employee with their birth data
+export const companyMemberSchema = birthDataSchema.extend({
+  name: z.string().min(1).max(200),
+  title: z.string().max(200).optional(),
+});
+
+export type CompanyMemberInput = z.infer<typeof companyMemberSchema>;
+
+// Company profile: the moment and place of incorporation stand in for a
+// birth, so they take the same fields as birth data
+export const companyRequestSchema = z.object({
+  name: z.string().min(1).max(200),
+  incorporation: birthDataSchema,
+  founders: z.array(companyMemberSchema).max(MAX_FOUNDERS).default([]),
+  employees: z.array(companyMemberSchema).max(MAX_EMPLOYEES).default([]),
+});
+
+export type CompanyRequest = z.infer<typeof companyRequestSchema>;
+
+// Update of a company profile; lists that are given replace the stored ones
+export const companyUpdateSchema = companyRequestSchema.partial();
+
+export type CompanyUpdate = z.infer<typeof companyUpdateSchema>;
+
+// House system and zodiac of a company chart or its comparisons
+export const companyChartQuerySchema = chartOptionsSchema;
+
+export type CompanyChartQuery = z.infer<typeof companyChartQuerySchema>;
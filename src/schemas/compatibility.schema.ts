@@ -0,0 +1,24 @@
+import { z } from 'zod';
+import { ZodiacSign } from '../types';
+import { MAX_TEAM_SIZE } from '../utils/team-compatibility';
+import { birthDataSchema, chartOptionsSchema, chartPairRequestSchema } from './chart.schema';
+
+// Quick compatibility of two signs
+export const signCompatibilityQuerySchema = z.object({
+  sign1: z.nativeEnum(ZodiacSign),
+  sign2: z.nativeEnum(ZodiacSign),
+});
+
+// Synastry of two people, in the user's preferred zodiac when the request
+// does not name one
+export const synastryRequestSchema = chartPairRequestSchema;
+
+export type SynastryRequest = z.infer<typeof synastryRequestSchema>;
+
+// Team of people compared pair by pair; all charts use the same house
+// system and zodiac
+export const teamCompatibilityRequestSchema = chartOptionsSchema.extend({
+  members: z.array(birthDataSchema.extend({ name: z.string().min(1).max(200) })).min(2).max(MAX_TEAM_SIZE),
+});
+
+export type TeamCompatibilityRequest = z.infer<typeof teamCompatibilityRequestSchema>;
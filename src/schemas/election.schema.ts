@@ -0,0 +1,33 @@
+import { z } from 'zod';
+import { ElectionEventType } from '../utils/elections';
+import { DEFAULT_TIMEZONE, isValidTimeZone } from '../utils/timezone';
+import { birthDataSchema } from './chart.schema';
+import { calendarDateSchema, withDefaultRange } from './common.schema';
+
+// Longest range one election search may cover, as every working hour in it
+// is scored
+export const MAX_ELECTION_DAYS = 92;
+
+// Election search: an event at a place, between two local dates (both
+// included, by default the next 30 days) and within the working hours of
+// the place, optionally read against the founders' birth charts
+export const electionSearchRequestSchema = birthDataSchema
+  .pick({ latitude: true, longitude: true, locationName: true })
+  .extend({
+    eventType: z.nativeEnum(ElectionEventType),
+    timezone: z.string().refine(isValidTimeZone, 'Use an IANA zone such as Europe/Berlin').default(DEFAULT_TIMEZONE),
+    from: calendarDateSchema.optional(),
+    to: calendarDateSchema.optional(),
+    fromHour: z.coerce.number().int().min(0).max(23).default(9),
+    toHour: z.coerce.number().int().min(1).max(24).default(18),
+    founders: z.array(birthDataSchema).max(10).default([]),
+    limit: z.coerce.number().int().min(1).max(20).default(5),
+  })
+  .transform(request => withDefaultRange(request, 30))
+  .refine(
+    request => request.to >= request.from && Date.parse(request.to) - Date.parse(request.from) < MAX_ELECTION_DAYS * 86400000,
+    `Use a range of at most ${MAX_ELECTION_DAYS} days, with to on or after from`
+  )
+  .refine(request => request.fromHour < request.toHour, 'Use a fromHour before toHour');
+
+export type ElectionSearchRequest = z.infer<typeof electionSearchRequestSchema>;
@@ -0,0 +1,18 @@
+import { z } from 'zod';
+import { AstroEventType } from '../utils/astro-events';
+import { calendarDateSchema, INVALID_RANGE_MESSAGE, isValidRange, withDefaultRange } from './common.schema';
+
+// Events between two dates (both included, in UTC). The range defaults to
+// the next 30 days; type takes a comma-separated list of event types.
+export const eventsQuerySchema = z.object({
+  from: calendarDateSchema.optional(),
+  to: calendarDateSchema.optional(),
+  type: z.string()
+    .transform(value => value.split(',').map(type => type.trim()))
+    .pipe(z.array(z.nativeEnum(AstroEventType)))
+    .optional(),
+})
+  .transform(query => withDefaultRange(query, 30))
+  .refine(isValidRange, INVALID_RANGE_MESSAGE);
+
+export type EventsQuery = z.infer<typeof eventsQuerySchema>;
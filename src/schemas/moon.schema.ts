@@ -0,0 +1,14 @@
+import { z } from 'zod';
+import { isValidTimeZone } from '../utils/timezone';
+
+// Moon calendar: the month defaults to the current one in the time zone,
+// which defaults to UTC
+export const moonCalendarQuerySchema = z.object({
+  month: z.string()
+    .regex(/^\d{4}-(0[1-9]|1[0-2])$/, 'Use YYYY-MM')
+    .refine(month => month >= '1900-01' && month <= '2099-12', 'Use a month between 1900 and 2099')
+    .optional(),
+  timezone: z.string().refine(isValidTimeZone, 'Use an IANA zone such as Europe/Berlin').optional(),
+});
+
+export type MoonCalendarQuery = z.infer<typeof moonCalendarQuerySchema>;
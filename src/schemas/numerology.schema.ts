@@ -0,0 +1,10 @@
+import { z } from 'zod';
+import { calendarDateSchema } from './common.schema';
+
+// Numerology of the user: personal cycles on a date, by default today in
+// the user's time zone
+export const numerologyQuerySchema = z.object({
+  date: calendarDateSchema.optional(),
+});
+
+export type NumerologyQuery = z.infer<typeof numerologyQuerySchema>;
@@ -0,0 +1,15 @@
+import { z } from 'zod';
+import { isValidTimeZone } from '../utils/timezone';
+import { birthDataSchema } from './chart.schema';
+import { calendarDateSchema } from './common.schema';
+
+// Planetary hours at a place: the date defaults to today in the time zone,
+// which defaults to UTC
+export const planetaryHoursQuerySchema = birthDataSchema
+  .pick({ latitude: true, longitude: true })
+  .extend({
+    date: calendarDateSchema.optional(),
+    timezone: z.string().refine(isValidTimeZone, 'Use an IANA zone such as Europe/Berlin').optional(),
+  });
+
+export type PlanetaryHoursQuery = z.infer<typeof planetaryHoursQuerySchema>;
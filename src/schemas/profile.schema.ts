@@ -0,0 +1,21 @@
+import { z } from 'zod';
+import { ZodiacSign } from '../types';
+import { isValidTimeZone } from '../utils/timezone';
+import { calendarDateSchema } from './common.schema';
+
+const timeZoneSchema = z.string().refine(isValidTimeZone, 'Use an IANA zone such as Europe/Berlin');
+
+// Update of the user profile; fields left out keep their stored values
+export const profileUpdateSchema = z.object({
+  name: z.string().max(200).optional(),
+  birthDate: calendarDateSchema.optional(),
+  birthTime: z.string().regex(/^([01]\d|2[0-3]):[0-5]\d(:[0-5]\d)?$/, 'Use HH:mm or HH:mm:ss').optional(),
+  birthTimezone: timeZoneSchema.optional(),
+  birthLatitude: z.number().min(-90).max(90).optional(),
+  birthLongitude: z.number().min(-180).max(180).optional(), // east positive
+  birthLocationName: z.string().max(200).optional(),
+  timezone: timeZoneSchema.optional(),
+  zodiacSign: z.nativeEnum(ZodiacSign).optional(),
+});
+
+export type ProfileUpdate = z.infer<typeof profileUpdateSchema>;
@@ -0,0 +1,170 @@
+import { z } from 'zod';
+import { ReportType, ZodiacSign } from '../types';
+import { ElectionEventType } from '../utils/elections';
+import { RelocationTheme } from '../utils/astrocartography';
+import { MAX_TEAM_SIZE } from '../utils/team-compatibility';
+import { DEFAULT_TIMEZONE, isValidTimeZone } from '../utils/timezone';
+import { birthDataSchema, chartOptionsSchema } from './chart.schema';
+import { calendarDateSchema } from './common.schema';
+import { MAX_ELECTION_DAYS } from './election.schema';
+import { MAX_EMPLOYEES, MAX_FOUNDERS } from './company.schema';
+
+/**
+ * Request schemas for reports. The parameters of each report type are
+ * checked against the schema registered for the type in
+ * utils/report-generator.ts.
+ */
+
+// Birth data in report parameters, which name the date and time birthDate
+// and birthTime
+export const reportBirthDataSchema = birthDataSchema
+  .omit({ date: true, time: true })
+  .extend({
+    birthDate: birthDataSchema.shape.date,
+    birthTime: birthDataSchema.shape.time,
+  });
+
+// Birth chart of one person
+export const natalReportSchema = reportBirthDataSchema.merge(chartOptionsSchema);
+
+// Forecast of a calendar month or year from the transits to the birth
+// chart, the current one by default
+const reportYearSchema = z.coerce.number().int().min(1900).max(2100).default(() => new Date().getUTCFullYear());
+
+export const monthlyReportSchema = natalReportSchema.extend({
+  month: z.coerce.number().int().min(1).max(12).default(() => new Date().getUTCMonth() + 1),
+  year: reportYearSchema,
+});
+
+export const yearlyReportSchema = natalReportSchema.extend({
+  year: reportYearSchema,
+});
+
+// Two people, for synastry and relationship charts
+export const pairReportSchema = chartOptionsSchema.extend({
+  person1: reportBirthDataSchema,
+  person2: reportBirthDataSchema,
+});
+
+// Team of people compared pair by pair
+export const teamReportSchema = chartOptionsSchema.extend({
+  teamName: z.string().min(1).max(200).optional(),
+  members: z.array(reportBirthDataSchema.extend({ name: z.string().min(1).max(200) })).min(2).max(MAX_TEAM_SIZE),
+});
+
+// Parameters of the first reports, which named signs instead of birth data.
+// They still give a report on the signs alone but are deprecated.
+export const signPairReportSchema = z.object({
+  sign1: z.nativeEnum(ZodiacSign),
+  sign2: z.nativeEnum(ZodiacSign),
+});
+
+export const signReportSchema = z.object({
+  sign: z.nativeEnum(ZodiacSign),
+});
+
+// A compatibility report compares two people, a whole team or two signs
+export const compatibilityReportSchema = z.union([pairReportSchema, teamReportSchema, signPairReportSchema]);
+
+// A career report reads the birth chart, or the houses counted from a sign
+export const careerReportSchema = z.union([natalReportSchema, signReportSchema]);
+
+// Transits to the birth chart on a date, today by default
+export const transitReportSchema = natalReportSchema.extend({
+  transitDate: calendarDateSchema.optional(),
+});
+
+// Progressions on a date, today by default, and the years after it
+export const progressionsReportSchema = natalReportSchema.extend({
+  progressionDate: calendarDateSchema.optional(),
+  progressionYears: z.coerce.number().int().min(1).max(10).optional(),
+});
+
+// Place of a solar or lunar return, the place of birth by default
+const returnPlaceSchema = z.object({
+  returnLatitude: z.coerce.number().min(-90).max(90).optional(),
+  returnLongitude: z.coerce.number().min(-180).max(180).optional(),
+  returnLocationName: z.string().max(200).optional(),
+});
+
+// Solar return of a year and lunar return of a month, the current one by
+// default
+export const solarReturnReportSchema = natalReportSchema.merge(returnPlaceSchema).extend({
+  returnYear: z.string().regex(/^\d{4}$/, 'Use YYYY').optional(),
+});
+
+export const lunarReturnReportSchema = natalReportSchema.merge(returnPlaceSchema).extend({
+  returnMonth: z.string().regex(/^\d{4}-(0[1-9]|1[0-2])$/, 'Use YYYY-MM').optional(),
+});
+
+// Vimshottari dasha timeline with the periods running on a date, today by
+// default
+export const dashaReportSchema = natalReportSchema.extend({
+  dashaDate: calendarDateSchema.optional(),
+});
+
+// Election search at a place, within the working hours of its time zone
+export const electionReportSchema = reportBirthDataSchema
+  .pick({ latitude: true, longitude: true, locationName: true })
+  .extend({
+    eventType: z.nativeEnum(ElectionEventType),
+    timezone: z.string().refine(isValidTimeZone, 'Use an IANA zone such as Europe/Berlin').default(DEFAULT_TIMEZONE),
+    startDate: calendarDateSchema.optional(),
+    endDate: calendarDateSchema.optional(),
+    fromHour: z.coerce.number().int().min(0).max(23).default(9),
+    toHour: z.coerce.number().int().min(1).max(24).default(18),
+    founders: z.array(reportBirthDataSchema).max(10).default([]),
+    limit: z.coerce.number().int().min(1).max(20).default(5),
+  })
+  .refine(
+    report => !report.startDate || !report.endDate || (report.endDate >= report.startDate &&
+      Date.parse(report.endDate) - Date.parse(report.startDate) < MAX_ELECTION_DAYS * 86400000),
+    `Use a range of at most ${MAX_ELECTION_DAYS} days, with endDate on or after startDate`
+  )
+  .refine(report => report.fromHour < report.toHour, 'Use a fromHour before toHour');
+
+// Numerology needs the birth date, and the name for the name numbers
+export const numerologyReportSchema = z.object({
+  birthDate: calendarDateSchema,
+  name: z.string().min(1).max(200).optional(),
+  numerologyDate: calendarDateSchema.optional(),
+});
+
+// Relocated chart at a place, when one is given, and the cities near the
+// lines of each theme
+export const relocationReportSchema = natalReportSchema.extend({
+  relocationLatitude: z.coerce.number().min(-90).max(90).optional(),
+  relocationLongitude: z.coerce.number().min(-180).max(180).optional(),
+  relocationLocationName: z.string().max(200).optional(),
+  themes: z.array(z.nativeEnum(RelocationTheme)).min(1).optional(),
+  cityLimit: z.coerce.number().int().min(1).max(20).optional(),
+});
+
+// Company chart compared with each founder and key employee
+const reportMemberSchema = reportBirthDataSchema.extend({
+  name: z.string().min(1).max(200),
+  title: z.string().max(200).optional(),
+});
+
+export const corporateReportSchema = chartOptionsSchema.extend({
+  company: reportBirthDataSchema.extend({ name: z.string().min(1).max(200) }),
+  founders: z.array(reportMemberSchema).max(MAX_FOUNDERS).default([]),
+  employees: z.array(reportMemberSchema).max(MAX_EMPLOYEES).default([]),
+});
+
+// Report request; the parameters are checked against the report type
+export const reportRequestSchema = z.object({
+  type: z.nativeEnum(ReportType),
+  parameters: z.record(z.any()).default({}),
+});
+
+export type ReportRequest = z.infer<typeof reportRequestSchema>;
+
+// Page of the user's reports, optionally of one type
+export const reportListQuerySchema = z.object({
+  limit: z.coerce.number().int().min(1).max(100).default(10),
+  offset: z.coerce.number().int().min(0).default(0),
+  type: z.nativeEnum(ReportType).optional(),
+});
+
+export type ReportListQuery = z.infer<typeof reportListQuerySchema>;
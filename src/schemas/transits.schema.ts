@@ -0,0 +1,13 @@
+import { z } from 'zod';
+import { calendarDateSchema, INVALID_RANGE_MESSAGE, isValidRange, withDefaultRange } from './common.schema';
+
+// Personal transits between two dates (both included, in UTC), by default
+// the next 30 days
+export const personalTransitsQuerySchema = z.object({
+  from: calendarDateSchema.optional(),
+  to: calendarDateSchema.optional(),
+})
+  .transform(query => withDefaultRange(query, 30))
+  .refine(isValidRange, INVALID_RANGE_MESSAGE);
+
+export type PersonalTransitsQuery = z.infer<typeof personalTransitsQuerySchema>;
@@ -0,0 +1,148 @@
+import express from 'express';
+import http from 'http';
+import { AddressInfo } from 'net';
+import { ZodiacSign } from '../types';
+import { generateLocalHoroscope } from '../utils/horoscope-generator';
+
+/**
+ * Local stand-in for the Astro Engine API, for development without an API
+ * key and for integration tests of the horoscope providers
+ *
+ * Usage:
+ * - npm run astro-engine-stub (listens on port 4010)
+ * - npm run astro-engine-stub -- --port=5000 --apiKey=secret
+ *
+ * Then set ASTRO_ENGINE_URL=http://localhost:4010 and ASTRO_ENGINE_KEY to
+ * the same key.
+ */
+
+// Behaviour of the stub, can be changed while it is running
+export interface AstroEngineStubOptions {
+  apiKey: string;
+  latencyMs: number; // delay before every response
+  failNext: number; // number of upcoming requests answered with 503
+}
+
+// Running stub server
+export interface AstroEngineStub {
+  url: string;
+  options: AstroEngineStubOptions;
+  requestCount: () => number;
+  close: () => Promise<void>;
+}
+
+const DEFAULT_OPTIONS: AstroEngineStubOptions = {
+  apiKey: 'stub-key',
+  latencyMs: 0,
+  failNext: 0,
+};
+
+/**
+ * Create the stub Express app
+ *
+ * @param options - Stub behaviour, read on every request
+ * @param onRequest - Called for every incoming request
+ */
+export const createAstroEngineStubApp = (
+  options: AstroEngineStubOptions,
+  onRequest: () => void = () => undefined
+) => {
+  const app = express();
+
+  app.use((req, res, next) => {
+    onRequest();
+    setTimeout(next, options.latencyMs);
+  });
+
+  app.use((req, res, next) => {
+    if (req.header('X-API-Key') !== options.apiKey) {
+      res.status(401).json({ error: 'Invalid API key' });
+      return;
+    }
+    if (options.failNext > 0) {
+      options.failNext--;
+      res.status(503).json({ error: 'Service unavailable' });
+      return;
+    }
+    next();
+  });
+
+  app.get('/horoscope', (req, res) => {
+    const sign = req.query.sign as ZodiacSign;
+    const date = req.query.date as string;
+
+    if (!Object.values(ZodiacSign).includes(sign) || !/^\d{4}-\d{2}-\d{2}$/.test(date || '')) {
+      res.status(400).json({ error: 'Invalid sign or date' });
+      return;
+    }
+
+    const horoscope = generateLocalHoroscope(sign, date);
+    res.json({
+      sign,
+      date,
+      horoscope: horoscope.prediction,
+      compatibility: horoscope.compatibility,
+      mood: horoscope.mood,
+      color: horoscope.color,
+      lucky_number: horoscope.luckyNumber,
+      lucky_time: horoscope.luckyTime,
+    });
+  });
+
+  return app;
+};
+
+/**
+ * Start the stub on a port (0 picks a free port)
+ *
+ * @param port - Port to listen on
+ * @param options - Initial stub behaviour
+ */
+export const startAstroEngineStub = (
+  port = 0,
+  options: Partial<AstroEngineStubOptions> = {}
+): Promise<AstroEngineStub> => {
+  const stubOptions = { ...DEFAULT_OPTIONS, ...options };
+  let requests = 0;
+  const app = createAstroEngineStubApp(stubOptions, () => { requests++; });
+
+  return new Promise((resolve, reject) => {
+    const server = http.createServer(app);
+    server.once('error', reject);
+    server.listen(port, '127.0.0.1', () => {
+      const { port: boundPort } = server.address() as AddressInfo;
+      resolve({
+        url: `http://127.0.0.1:${boundPort}`,
+        options: stubOptions,
+        requestCount: () => requests,
+        close: () => new Promise<void>((done, fail) => {
+          server.closeAllConnections();
+          server.close(error => (error ? fail(error) : done()));
+        }),
+      });
+    });
+  });
+};
+
+if (require.main === module) {
+  const args = process.argv.slice(2);
+  let port = 4010;
+  const options: Partial<AstroEngineStubOptions> = {};
+
+  args.forEach(arg => {
+    if (arg.startsWith('--port=')) {
+      port = parseInt(arg.split('=')[1], 10);
+    } else if (arg.startsWith('--apiKey=')) {
+      options.apiKey = arg.split('=')[1];
+    } else if (arg.startsWith('--latencyMs=')) {
+      options.latencyMs = parseInt(arg.split('=')[1], 10);
+    }
+  });
+
+  startAstroEngineStub(port, options)
+    .then(stub => console.log(`Astro Engine stub listening on ${stub.url} (API key: ${stub.options.apiKey})`))
+    .catch(error => {
+      console.error('Failed to start Astro Engine stub:', error);
+      process.exit(1);
+    });
+}
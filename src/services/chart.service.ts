@@ -0,0 +1,348 @@
+import { createHash } from 'crypto';
+import { logger } from '../config/logger';
+import { redis } from '../config/redis';
+import { ApiError } from '../middlewares/error.middleware';
+import {
+  AstrocartographyRequest,
+  ChartPairRequest,
+  DashaRequest,
+  NatalChartRequest,
+  ProgressionRequest,
+  RelocationCitiesRequest,
+  RelocationRequest,
+} from '../schemas/chart.schema';
+import {
+  BirthData,
+  calculateNatalChart,
+  ChartAspect,
+  ChartOptions,
+  ChartPlanet,
+  ChartZodiac,
+  NatalChart,
+} from '../utils/chart-calculator';
+import { longitudeToSign } from '../utils/ephemeris';
+import { renderChartWheelSvg, WheelChart } from '../utils/chart-wheel';
+import { HouseSystem } from '../utils/houses';
+import { ActiveDasha, calculateDashaForBirth, DashaTimeline, findActiveDasha } from '../utils/dasha';
+import { Ayanamsa, SignBalance, ZodiacType } from '../utils/zodiac';
+import { calculateCompositeChart, CompositeChart, getDavisonBirthData } from '../utils/relationship-charts';
+import {
+  calculateProgressedChart,
+  calculateProgressedMoonTimeline,
+  calculateSolarArcDirections,
+  ProgressedAspect,
+  ProgressedMoonTimeline,
+  SolarArcDirections,
+} from '../utils/progressions';
+import {
+  AngularPlanet,
+  AstrocartographyMap,
+  calculateAstrocartography,
+  calculateRelocatedChart,
+  findRelocationCities,
+  ThemeCities,
+} from '../utils/astrocartography';
+import { ZodiacSign } from '../types';
+
+// Charts never change for the same input, so they can stay cached for long
+const CHART_CACHE_TTL = 30 * 86400;
+
+// Longitude with its sign
+export interface ChartPoint {
+  longitude: number;
+  sign: ZodiacSign;
+  signDegree: number;
+}
+
+// House cusp in the chart response
+export interface ChartHouse extends ChartPoint {
+  house: number;
+}
+
+// Natal chart as returned by the API
+export interface NatalChartResponse {
+  birthData: BirthData;
+  houseSystem: HouseSystem;
+  zodiac: ChartZodiac;
+  julianDay: number;
+  angles: {
+    ascendant: ChartPoint;
+    midheaven: ChartPoint;
+  };
+  planets: ChartPlanet[];
+  houses: ChartHouse[];
+  aspects: ChartAspect[];
+  balance: SignBalance;
+}
+
+// Composite chart as returned by the API; it has no moment or place
+export type CompositeChartResponse = Omit<NatalChartResponse, 'birthData' | 'julianDay'>;
+
+// Secondary progressed chart as returned by the API
+export interface ProgressedChartResponse {
+  date: string;
+  age: number;
+  solarArc: number;
+  chart: NatalChartResponse; // birth data holds the progressed moment in UTC
+  natalAspects: ProgressedAspect[];
+  moon: ProgressedMoonTimeline;
+}
+
+// Relocated chart as returned by the API
+export interface RelocatedChartResponse {
+  natal: NatalChartResponse;
+  chart: NatalChartResponse; // birth data holds the new place
+  angularPlanets: AngularPlanet[];
+}
+
+// Dasha timeline as returned by the API
+export interface DashaResponse extends DashaTimeline {
+  active: ActiveDasha | null; // periods running now
+}
+
+/**
+ * Split a request into birth data and chart options
+ */
+export const toBirthDataAndOptions = (
+  request: NatalChartRequest
+): { birthData: BirthData; options: ChartOptions } => {
+  const { houseSystem, zodiacType, ayanamsa, ...birthData } = request;
+  return { birthData, options: { houseSystem, zodiacType, ayanamsa } };
+};
+
+/**
+ * Hash of everything that affects a chart. The ayanamsa only counts for
+ * sidereal charts and the place name does not count at all.
+ */
+export const getChartHash = (birthData: BirthData, options: ChartOptions): string => {
+  const sidereal = options.zodiacType === ZodiacType.SIDEREAL;
+  const key = [
+    birthData.date,
+    birthData.time || '12:00',
+    birthData.latitude,
+    birthData.longitude,
+    birthData.utcOffset ?? '',
+    birthData.utcOffset === undefined ? birthData.timezone || '' : '',
+    options.houseSystem || HouseSystem.PLACIDUS,
+    options.zodiacType || ZodiacType.TROPICAL,
+    sidereal ? options.ayanamsa || '' : '',
+  ].join('|');
+
+  return createHash('sha256').update(key).digest('hex');
+};
+
+/**
+ * Get a natal chart, from the cache when the same birth data and options
+ * were requested before
+ *
+ * @param request - Validated birth data and chart options
+ * @returns Planets, houses, aspects and element/modality balance
+ */
+export const getNatalChart = async (request: NatalChartRequest): Promise<NatalChartResponse> => {
+  try {
+    const { birthData, options } = toBirthDataAndOptions(request);
+
+    // Check cache first
+    const cacheKey = `chart:natal:${getChartHash(birthData, options)}`;
+    const cachedChart = await redis.get(cacheKey);
+
+    if (cachedChart) {
+      return { ...JSON.parse(cachedChart), birthData };
+    }
+
+    const chart = formatNatalChart(calculateNatalChart(birthData, options));
+
+    // The cache is shared by every request for the same chart, so the birth
+    // data, which names the caller's place, is left out and re-attached
+    await redis.set(cacheKey, JSON.stringify({ ...chart, birthData: undefined }), 'EX', CHART_CACHE_TTL);
+
+    return chart;
+  } catch (error) {
+    if (error instanceof ApiError) {
+      throw error;
+    }
+    logger.error('Error calculating natal chart:', error);
+    throw new ApiError(500, 'Failed to calculate natal chart');
+  }
+};
+
+/**
+ * Get the composite (midpoint) chart of two people, from the cache when the
+ * same pair of charts was requested before
+ *
+ * @param request - Validated birth data of both people and chart options
+ */
+export const getCompositeChart = async (request: ChartPairRequest): Promise<CompositeChartResponse> => {
+  try {
+    const { person1, person2, ...options } = request;
+
+    // Check cache first
+    const cacheKey = `chart:composite:${getChartHash(person1, options)}:${getChartHash(person2, options)}`;
+    const cachedChart = await redis.get(cacheKey);
+
+    if (cachedChart) {
+      return JSON.parse(cachedChart);
+    }
+
+    const chart = formatChart(calculateCompositeChart(
+      calculateNatalChart(person1, options),
+      calculateNatalChart(person2, options)
+    ));
+
+    await redis.set(cacheKey, JSON.stringify(chart), 'EX', CHART_CACHE_TTL);
+
+    return chart;
+  } catch (error) {
+    if (error instanceof ApiError) {
+      throw error;
+    }
+    logger.error('Error calculating composite chart:', error);
+    throw new ApiError(500, 'Failed to calculate composite chart');
+  }
+};
+
+/**
+ * Get the Davison chart of two people: the natal chart of the midpoint in
+ * time and place of their births, given in UTC
+ *
+ * @param request - Validated birth data of both people and chart options
+ */
+export const getDavisonChart = async (request: ChartPairRequest): Promise<NatalChartResponse> => {
+  const { person1, person2, ...options } = request;
+  return getNatalChart({ ...getDavisonBirthData(person1, person2), ...options });
+};
+
+/**
+ * Calculate the secondary progressed chart for a date of life, with the
+ * progressed Moon's ingresses and phases in the years after it
+ *
+ * @param request - Validated birth data, chart options, date and period
+ */
+export const getProgressedChart = (request: ProgressionRequest): ProgressedChartResponse => {
+  const { targetDate, years, ...chartRequest } = request;
+  const { birthData, options } = toBirthDataAndOptions(chartRequest);
+  const date = targetDate || new Date().toISOString().split('T')[0];
+  const progressed = calculateProgressedChart(birthData, date, options);
+  
+  return {
+    date,
+    age: progressed.age,
+    solarArc: progressed.solarArc,
+    chart: formatNatalChart(progressed.chart),
+    natalAspects: progressed.natalAspects,
+    moon: calculateProgressedMoonTimeline(birthData, date, years, options),
+  };
+};
+
+/**
+ * Calculate solar arc directions for a date of life, with the directed
+ * aspects perfecting in the years after it
+ *
+ * @param request - Validated birth data, chart options, date and period
+ */
+export const getSolarArcDirections = (request: ProgressionRequest): SolarArcDirections => {
+  const { targetDate, years, ...chartRequest } = request;
+  const { birthData, options } = toBirthDataAndOptions(chartRequest);
+  
+  return calculateSolarArcDirections(birthData, targetDate || new Date().toISOString().split('T')[0], years, options);
+};
+
+/**
+ * Cast the natal chart at another place, with the planets that become
+ * angular there
+ *
+ * @param request - Validated birth data, chart options and new place
+ */
+export const getRelocatedChart = (request: RelocationRequest): RelocatedChartResponse => {
+  const { relocationLatitude, relocationLongitude, relocationLocationName, ...chartRequest } = request;
+  const { birthData, options } = toBirthDataAndOptions(chartRequest);
+  const relocated = calculateRelocatedChart(birthData, {
+    latitude: relocationLatitude,
+    longitude: relocationLongitude,
+    locationName: relocationLocationName,
+  }, options);
+  
+  return {
+    natal: formatNatalChart(relocated.natal),
+    chart: formatNatalChart(relocated.chart),
+    angularPlanets: relocated.angularPlanets,
+  };
+};
+
+/**
+ * Draw the astrocartography lines of a birth
+ *
+ * @param request - Validated birth data
+ * @returns GeoJSON feature collection with an ASC, DSC, MC and IC line per planet
+ */
+export const getAstrocartography = (request: AstrocartographyRequest): AstrocartographyMap =>
+  calculateAstrocartography(request);
+
+/**
+ * Find the bundled cities closest to the lines of each theme
+ *
+ * @param request - Validated birth data, themes and cities per theme
+ */
+export const getRelocationCities = (request: RelocationCitiesRequest): ThemeCities[] => {
+  const { themes, limit, ...birthData } = request;
+  return findRelocationCities(birthData, themes, limit);
+};
+
+/**
+ * Calculate the Vimshottari dasha timeline with the periods running now
+ *
+ * @param request - Validated moment of birth, ayanamsa and depth
+ */
+export const getDashaTimeline = (request: DashaRequest): DashaResponse => {
+  const { ayanamsa, depth, ...birthMoment } = request;
+  const timeline = calculateDashaForBirth(birthMoment, ayanamsa || Ayanamsa.LAHIRI, depth);
+  
+  return { ...timeline, active: findActiveDasha(timeline, new Date()) };
+};
+
+/**
+ * Render a natal chart wheel as SVG
+ *
+ * @param request - Validated birth data and chart options
+ * @param size - Width and height in pixels
+ */
+export const getNatalChartSvg = async (request: NatalChartRequest, size?: number): Promise<string> => {
+  const chart = await getNatalChart(request);
+  return renderChartWheelSvg(toWheelChart(chart), { size });
+};
+
+/**
+ * Wheel input for a natal chart response
+ */
+export const toWheelChart = (chart: NatalChartResponse): WheelChart => ({
+  planets: chart.planets,
+  cusps: chart.houses.map(house => house.longitude),
+  aspects: chart.aspects,
+});
+
+/**
+ * Convert a calculated chart to the API response shape
+ */
+export const formatNatalChart = (chart: NatalChart): NatalChartResponse => ({
+  birthData: chart.birthData,
+  julianDay: chart.julianDay,
+  ...formatChart(chart),
+});
+
+/**
+ * Convert the positions, houses and aspects of a chart to the API shape
+ */
+const formatChart = (chart: CompositeChart): CompositeChartResponse => ({
+  houseSystem: chart.houses.system,
+  zodiac: chart.zodiac,
+  angles: {
+    ascendant: toChartPoint(chart.houses.ascendant),
+    midheaven: toChartPoint(chart.houses.midheaven),
+  },
+  planets: Object.values(chart.planets),
+  houses: chart.houses.cusps.map((cusp, index) => ({ house: index + 1, ...toChartPoint(cusp) })),
+  aspects: chart.aspects,
+  balance: chart.balance,
+});
+
+const toChartPoint = (longitude: number): ChartPoint => ({ longitude, ...longitudeToSign(longitude) });
@@ -0,0 +1,272 @@
+import { supabase } from '../config/supabase';
+import { logger } from '../config/logger';
+import { ApiError } from '../middlewares/error.middleware';
+import { CompanyChartQuery, CompanyRequest, CompanyUpdate } from '../schemas/company.schema';
+import { BirthData } from '../utils/chart-calculator';
+import { SynastryScore } from '../utils/compatibility';
+import { getNatalChart, NatalChartResponse } from './chart.service';
+import { getSynastry } from './compatibility.service';
+
+// Founder or key employee of a company
+export interface CompanyMember extends BirthData {
+  name: string;
+  title?: string;
+}
+
+// Company profile; the incorporation is the company's birth
+export interface Company {
+  id: string;
+  userId: string;
+  name: string;
+  incorporation: BirthData;
+  founders: CompanyMember[];
+  employees: CompanyMember[];
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Synastry of the company chart (person 1) with one person's chart
+export interface MemberCompatibility {
+  name: string;
+  title?: string;
+  score: SynastryScore;
+}
+
+export interface CompanyCompatibility {
+  companyId: string;
+  name: string;
+  founders: MemberCompatibility[];
+  employees: MemberCompatibility[];
+}
+
+/**
+ * Transform a companies row to a Company
+ */
+const toCompany = (data: any): Company => ({
+  id: data.id,
+  userId: data.user_id,
+  name: data.name,
+  incorporation: {
+    date: data.incorporation_date,
+    time: data.incorporation_time ?? undefined,
+    latitude: data.incorporation_latitude,
+    longitude: data.incorporation_longitude,
+    utcOffset: data.incorporation_utc_offset ?? undefined,
+    timezone: data.incorporation_timezone ?? undefined,
+    locationName: data.incorporation_location_name ?? undefined,
+  },
+  founders: data.founders || [],
+  employees: data.employees || [],
+  createdAt: new Date(data.created_at),
+  updatedAt: new Date(data.updated_at || data.created_at),
+});
+
+/**
+ * Columns of a companies row for the given fields
+ */
+const toCompanyRecord = (company: CompanyUpdate): Record<string, any> => {
+  const record: Record<string, any> = {};
+
+  if (company.name !== undefined) record.name = company.name;
+  if (company.incorporation !== undefined) {
+    record.incorporation_date = company.incorporation.date;
+    record.incorporation_time = company.incorporation.time ?? null;
+    record.incorporation_timezone = company.incorporation.timezone ?? null;
+    record.incorporation_utc_offset = company.incorporation.utcOffset ?? null;
+    record.incorporation_latitude = company.incorporation.latitude;
+    record.incorporation_longitude = company.incorporation.longitude;
+    record.incorporation_location_name = company.incorporation.locationName ?? null;
+  }
+  if (company.founders !== undefined) record.founders = company.founders;
+  if (company.employees !== undefined) record.employees = company.employees;
+
+  return record;
+};
+
+/**
+ * Create a company profile
+ *
+ * @param userId - Owner of the profile
+ * @param request - Validated name, incorporation and people
+ */
+export const createCompany = async (userId: string, request: CompanyRequest): Promise<Company> => {
+  try {
+    const { data, error } = await supabase
+      .from('companies')
+      .insert({ user_id: userId, ...toCompanyRecord(request) })
+      .select()
+      .single();
+
+    if (error) {
+      logger.error('Error creating company:', error);
+      throw new ApiError(500, 'Failed to create company');
+    }
+
+    return toCompany(data);
+  } catch (error) {
+    if (error instanceof ApiError) {
+      throw error;
+    }
+    logger.error('Error creating company:', error);
+    throw new ApiError(500, 'Failed to create company');
+  }
+};
+
+/**
+ * Get all company profiles of a user, by name
+ */
+export const getCompanies = async (userId: string): Promise<Company[]> => {
+  try {
+    const { data, error } = await supabase
+      .from('companies')
+      .select('*')
+      .eq('user_id', userId)
+      .order('name', { ascending: true });
+
+    if (error) {
+      logger.error('Error fetching companies:', error);
+      throw new ApiError(500, 'Failed to fetch companies');
+    }
+
+    return data.map(toCompany);
+  } catch (error) {
+    if (error instanceof ApiError) {
+      throw error;
+    }
+    logger.error('Error getting companies:', error);
+    throw new ApiError(500, 'Failed to get companies');
+  }
+};
+
+/**
+ * Get a company profile of a user
+ */
+export const getCompany = async (userId: string, companyId: string): Promise<Company> => {
+  try {
+    const { data, error } = await supabase
+      .from('companies')
+      .select('*')
+      .eq('id', companyId)
+      .eq('user_id', userId)
+      .single();
+
+    if (error || !data) {
+      logger.error('Error fetching company:', error);
+      throw new ApiError(404, 'Company not found');
+    }
+
+    return toCompany(data);
+  } catch (error) {
+    if (error instanceof ApiError) {
+      throw error;
+    }
+    logger.error('Error getting company:', error);
+    throw new ApiError(500, 'Failed to get company');
+  }
+};
+
+/**
+ * Update a company profile of a user
+ *
+ * @param userId - Owner of the profile
+ * @param companyId - Company to update
+ * @param update - Validated fields to change
+ */
+export const updateCompany = async (
+  userId: string,
+  companyId: string,
+  update: CompanyUpdate
+): Promise<Company> => {
+  try {
+    const { data, error } = await supabase
+      .from('companies')
+      .update({ ...toCompanyRecord(update), updated_at: new Date().toISOString() })
+      .eq('id', companyId)
+      .eq('user_id', userId)
+      .select()
+      .single();
+
+    if (error || !data) {
+      logger.error('Error updating company:', error);
+      throw new ApiError(404, 'Company not found');
+    }
+
+    return toCompany(data);
+  } catch (error) {
+    if (error instanceof ApiError) {
+      throw error;
+    }
+    logger.error('Error updating company:', error);
+    throw new ApiError(500, 'Failed to update company');
+  }
+};
+
+/**
+ * Delete a company profile of a user
+ */
+export const deleteCompany = async (userId: string, companyId: string): Promise<void> => {
+  try {
+    // Check the company exists and belongs to the user
+    await getCompany(userId, companyId);
+
+    const { error } = await supabase
+      .from('companies')
+      .delete()
+      .eq('id', companyId)
+      .eq('user_id', userId);
+
+    if (error) {
+      logger.error('Error deleting company:', error);
+      throw new ApiError(500, 'Failed to delete company');
+    }
+  } catch (error) {
+    if (error instanceof ApiError) {
+      throw error;
+    }
+    logger.error('Error deleting company:', error);
+    throw new ApiError(500, 'Failed to delete company');
+  }
+};
+
+/**
+ * Get the chart of a company, cast for its incorporation
+ *
+ * @param userId - Owner of the profile
+ * @param companyId - Company to chart
+ * @param options - House system and zodiac
+ */
+export const getCompanyChart = async (
+  userId: string,
+  companyId: string,
+  options: CompanyChartQuery
+): Promise<NatalChartResponse> => {
+  const company = await getCompany(userId, companyId);
+  return getNatalChart({ ...company.incorporation, ...options });
+};
+
+/**
+ * Score the synastry of the company chart with the chart of each founder and
+ * key employee
+ *
+ * @param userId - Owner of the profile
+ * @param companyId - Company to compare
+ * @param options - House system and zodiac of all charts
+ */
+export const getCompanyCompatibility = async (
+  userId: string,
+  companyId: string,
+  options: CompanyChartQuery
+): Promise<CompanyCompatibility> => {
+  const company = await getCompany(userId, companyId);
+
+  const compare = ({ name, title, ...birthData }: CompanyMember): Promise<MemberCompatibility> =>
+    getSynastry({ person1: company.incorporation, person2: birthData, ...options })
+      .then(score => ({ name, title, score }));
+
+  return {
+    companyId: company.id,
+    name: company.name,
+    founders: await Promise.all(company.founders.map(compare)),
+    employees: await Promise.all(company.employees.map(compare)),
+  };
+};
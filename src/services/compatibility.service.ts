@@ -0,0 +1,94 @@
+import { createHash } from 'crypto';
+import { logger } from '../config/logger';
+import { redis } from '../config/redis';
+import { ApiError } from '../middlewares/error.middleware';
+import { SynastryRequest, TeamCompatibilityRequest } from '../schemas/compatibility.schema';
+import { calculateNatalChart } from '../utils/chart-calculator';
+import { calculateSignCompatibility, calculateSynastry, SignCompatibility, SynastryScore } from '../utils/compatibility';
+import { calculateTeamCompatibility, TeamCompatibility } from '../utils/team-compatibility';
+import { ZodiacSign } from '../types';
+import { getChartHash } from './chart.service';
+
+// Scores never change for the same charts
+const SYNASTRY_CACHE_TTL = 30 * 86400;
+
+/**
+ * Quick compatibility of two signs from their elements and modalities
+ *
+ * @param sign1 - First sign
+ * @param sign2 - Second sign
+ */
+export const getSignCompatibility = (sign1: ZodiacSign, sign2: ZodiacSign): SignCompatibility =>
+  calculateSignCompatibility(sign1, sign2);
+
+/**
+ * Score the synastry of two people, from the cache when the same pair of
+ * charts was requested before
+ *
+ * @param request - Validated birth data of both people and chart options
+ * @returns Overall score, love, communication, trust and values scores with
+ * the aspects behind them, and the quick score of the Sun signs
+ */
+export const getSynastry = async (request: SynastryRequest): Promise<SynastryScore> => {
+  try {
+    const { person1, person2, ...options } = request;
+    
+    // Check cache first
+    const cacheKey = `compatibility:synastry:${getChartHash(person1, options)}:${getChartHash(person2, options)}`;
+    const cachedScore = await redis.get(cacheKey);
+    
+    if (cachedScore) {
+      return JSON.parse(cachedScore);
+    }
+    
+    const chart1 = calculateNatalChart(person1, options);
+    const chart2 = calculateNatalChart(person2, options);
+    const score = calculateSynastry(chart1.planets, chart2.planets);
+    
+    await redis.set(cacheKey, JSON.stringify(score), 'EX', SYNASTRY_CACHE_TTL);
+    
+    return score;
+  } catch (error) {
+    if (error instanceof ApiError) {
+      throw error;
+    }
+    logger.error('Error calculating synastry:', error);
+    throw new ApiError(500, 'Failed to calculate compatibility');
+  }
+};
+
+/**
+ * Score every pair of a team, from the cache when the same team was
+ * requested before
+ *
+ * @param request - Validated names and birth data of the members and chart
+ * options
+ * @returns Matrix of overall scores, clusters of members who get on well,
+ * the team's element balance and pairs whose communication may clash
+ */
+export const getTeamCompatibility = async (request: TeamCompatibilityRequest): Promise<TeamCompatibility> => {
+  try {
+    const { members, ...options } = request;
+    
+    // Check cache first. Names are part of the result, so they are part of the key.
+    const teamKey = members.map(({ name, ...birthData }) => `${name}:${getChartHash(birthData, options)}`).join('|');
+    const cacheKey = `compatibility:team:${createHash('sha256').update(teamKey).digest('hex')}`;
+    const cachedTeam = await redis.get(cacheKey);
+    
+    if (cachedTeam) {
+      return JSON.parse(cachedTeam);
+    }
+    
+    const team = calculateTeamCompatibility(members, options);
+    
+    await redis.set(cacheKey, JSON.stringify(team), 'EX', SYNASTRY_CACHE_TTL);
+    
+    return team;
+  } catch (error) {
+    if (error instanceof ApiError) {
+      throw error;
+    }
+    logger.error('Error calculating team compatibility:', error);
+    throw new ApiError(500, 'Failed to calculate team compatibility');
+  }
+};
@@ -0,0 +1,54 @@
+import { createHash } from 'crypto';
+import { logger } from '../config/logger';
+import { redis } from '../config/redis';
+import { ApiError } from '../middlewares/error.middleware';
+import { ElectionSearchRequest } from '../schemas/election.schema';
+import { ElectionSearch, searchElections } from '../utils/elections';
+import { getNatalPoints } from '../utils/transits';
+
+// Windows never change for the same search
+const ELECTION_CACHE_TTL = 7 * 86400;
+
+/**
+ * Search for the best times to hold an event, from the cache when the same
+ * search was requested before
+ *
+ * @param request - Validated event, place, date range, working hours and
+ * founders' birth data
+ * @returns Windows ranked by score with the reasons behind them, and the
+ * periods ruled out
+ */
+export const getElectionWindows = async (request: ElectionSearchRequest): Promise<ElectionSearch> => {
+  try {
+    // Check cache first
+    const cacheKey = `elections:search:${createHash('sha256').update(JSON.stringify(request)).digest('hex')}`;
+    const cachedSearch = await redis.get(cacheKey);
+    
+    if (cachedSearch) {
+      return JSON.parse(cachedSearch);
+    }
+    
+    const search = searchElections({
+      eventType: request.eventType,
+      latitude: request.latitude,
+      longitude: request.longitude,
+      startDate: request.from,
+      endDate: request.to,
+      timezone: request.timezone,
+      fromHour: request.fromHour,
+      toHour: request.toHour,
+      founders: request.founders.map(founder => getNatalPoints(founder, founder)),
+      limit: request.limit,
+    });
+    
+    await redis.set(cacheKey, JSON.stringify(search), 'EX', ELECTION_CACHE_TTL);
+    
+    return search;
+  } catch (error) {
+    if (error instanceof ApiError) {
+      throw error;
+    }
+    logger.error('Error searching elections:', error);
+    throw new ApiError(500, 'Failed to search elections');
+  }
+};
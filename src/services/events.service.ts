@@ -0,0 +1,129 @@
+import { supabase } from '../config/supabase';
+import { logger } from '../config/logger';
+import { redis } from '../config/redis';
+import { ApiError } from '../middlewares/error.middleware';
+import { AstroEvent, AstroEventType, findAstroEvents } from '../utils/astro-events';
+import { toJulianDay } from '../utils/ephemeris';
+
+// Events never change for the same range
+const EVENTS_CACHE_TTL = 30 * 86400;
+
+// How far ahead the stored events reach
+export const UPCOMING_EVENTS_DAYS = 90;
+
+/**
+ * Get retrograde stations, sign ingresses and eclipses between two dates,
+ * from the cache when the same range was requested before
+ *
+ * @param from - First date (YYYY-MM-DD, UTC)
+ * @param to - Last date, included
+ * @param types - Event types to include, all by default
+ */
+export const getEvents = async (from: string, to: string, types?: AstroEventType[]): Promise<AstroEvent[]> => {
+  try {
+    // Check cache first
+    const cacheKey = `events:${from}:${to}`;
+    const cachedEvents = await redis.get(cacheKey);
+    
+    let events: AstroEvent[];
+    if (cachedEvents) {
+      events = JSON.parse(cachedEvents);
+    } else {
+      const start = toJulianDay(new Date(`${from}T00:00:00Z`));
+      const end = toJulianDay(new Date(`${to}T00:00:00Z`)) + 1;
+      events = findAstroEvents(start, end);
+      
+      await redis.set(cacheKey, JSON.stringify(events), 'EX', EVENTS_CACHE_TTL);
+    }
+    
+    return types ? events.filter(event => types.includes(event.type)) : events;
+  } catch (error) {
+    if (error instanceof ApiError) {
+      throw error;
+    }
+    logger.error('Error calculating astrological events:', error);
+    throw new ApiError(500, 'Failed to calculate astrological events');
+  }
+};
+
+/**
+ * Calculate the events of the coming days and store the ones not stored yet
+ *
+ * @param days - Number of days ahead
+ * @returns Number of events in the window
+ */
+export const storeUpcomingEvents = async (days: number = UPCOMING_EVENTS_DAYS): Promise<number> => {
+  const start = toJulianDay(new Date());
+  const events = findAstroEvents(start, start + days);
+  
+  const { error } = await supabase
+    .from('astro_events')
+    .upsert(events.map(toEventRecord), { onConflict: 'id', ignoreDuplicates: true });
+    
+  if (error) {
+    logger.error('Error storing astrological events:', error);
+    throw new ApiError(500, 'Failed to store astrological events');
+  }
+  
+  return events.length;
+};
+
+/**
+ * Get stored events in a time window that have not been announced yet
+ *
+ * @param from - Start of the window
+ * @param to - End of the window, excluded
+ */
+export const getUnnotifiedEvents = async (from: Date, to: Date): Promise<AstroEvent[]> => {
+  const { data, error } = await supabase
+    .from('astro_events')
+    .select('*')
+    .gte('event_time', from.toISOString())
+    .lt('event_time', to.toISOString())
+    .is('notified_at', null)
+    .order('event_time', { ascending: true });
+    
+  if (error) {
+    logger.error('Error getting astrological events:', error);
+    throw new ApiError(500, 'Failed to get astrological events');
+  }
+  
+  return (data || []).map(fromEventRecord);
+};
+
+/**
+ * Record that events were announced, so they are not announced again
+ *
+ * @param ids - Event IDs
+ */
+export const markEventsNotified = async (ids: string[]): Promise<void> => {
+  const { error } = await supabase
+    .from('astro_events')
+    .update({ notified_at: new Date().toISOString() })
+    .in('id', ids);
+    
+  if (error) {
+    logger.error('Error marking astrological events as notified:', error);
+    throw new ApiError(500, 'Failed to update astrological events');
+  }
+};
+
+const toEventRecord = (event: AstroEvent) => ({
+  id: event.id,
+  type: event.type,
+  planet: event.planet,
+  sign: event.sign,
+  event_time: event.time,
+  retrograde: event.retrograde,
+  eclipse: event.eclipse,
+});
+
+const fromEventRecord = (record: any): AstroEvent => ({
+  id: record.id,
+  type: record.type,
+  time: new Date(record.event_time).toISOString(),
+  planet: record.planet,
+  sign: record.sign,
+  ...(record.retrograde !== null && record.retrograde !== undefined ? { retrograde: record.retrograde } : {}),
+  ...(record.eclipse ? { eclipse: record.eclipse } : {}),
+});
@@ -0,0 +1,292 @@
+import axios from 'axios';
+import { supabase } from '../config/supabase';
+import { config } from '../config';
+import { logger } from '../config/logger';
+import { Horoscope, ZodiacSign } from '../types';
+import { DEFAULT_LOCALE, generateLocalHoroscope } from '../utils/horoscope-generator';
+import {
+  CircuitBreaker,
+  CircuitBreakerOptions,
+  retryWithBackoff,
+  withTimeout,
+} from '../utils/resilience';
+
+// Built-in horoscope content providers
+export enum HoroscopeProviderName {
+  EDITORIAL = 'editorial',
+  ASTRO_ENGINE = 'astro-engine',
+  LOCAL = 'local',
+}
+
+// Source of horoscope content
+export interface HoroscopeProvider {
+  readonly name: string;
+  // Resolves null when the provider has no content for the sign and date
+  getHoroscope(
+    sign: ZodiacSign,
+    date: string,
+    locale: string,
+    signal?: AbortSignal
+  ): Promise<Horoscope | null>;
+}
+
+// Timeout, retry and circuit breaker settings for one provider
+export interface ProviderPolicy {
+  timeoutMs: number;
+  retries: number;
+  retryDelayMs: number;
+  circuitBreaker: CircuitBreakerOptions;
+}
+
+// Horoscope together with the provider that supplied it
+export interface ProvidedHoroscope {
+  horoscope: Horoscope;
+  source: string;
+}
+
+/**
+ * Horoscopes written by the editorial team, stored in the horoscopes table.
+ * Editorial content is not localized, so it is served for every locale.
+ */
+export class EditorialHoroscopeProvider implements HoroscopeProvider {
+  readonly name = HoroscopeProviderName.EDITORIAL;
+
+  constructor(private readonly client: typeof supabase = supabase) {}
+
+  async getHoroscope(sign: ZodiacSign, date: string): Promise<Horoscope | null> {
+    const { data, error } = await this.client
+      .from('horoscopes')
+      .select('*')
+      .eq('sign', sign)
+      .eq('date', date)
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`Editorial store query failed: ${error.message}`);
+    }
+    if (!data) {
+      return null;
+    }
+
+    return {
+      id: data.id,
+      sign: data.sign,
+      date: data.date,
+      prediction: data.prediction,
+      compatibility: data.compatibility,
+      mood: data.mood,
+      color: data.color,
+      luckyNumber: data.lucky_number,
+      luckyTime: data.lucky_time,
+    };
+  }
+}
+
+/**
+ * Horoscopes from the remote Astro Engine API. Fields missing from the
+ * response are filled in by the local generator.
+ */
+export class AstroEngineHoroscopeProvider implements HoroscopeProvider {
+  readonly name = HoroscopeProviderName.ASTRO_ENGINE;
+
+  constructor(
+    private readonly baseUrl: string = config.astroEngineUrl,
+    private readonly apiKey: string = config.astroEngineKey
+  ) {}
+
+  async getHoroscope(
+    sign: ZodiacSign,
+    date: string,
+    locale: string,
+    signal?: AbortSignal
+  ): Promise<Horoscope> {
+    const response = await axios.get(`${this.baseUrl}/horoscope`, {
+      params: {
+        sign,
+        date,
+        locale,
+      },
+      headers: {
+        'X-API-Key': this.apiKey,
+      },
+      signal,
+    });
+
+    const fallback = generateLocalHoroscope(sign, date);
+
+    // Transform API response to our format
+    return {
+      id: `${sign}_${date}`,
+      sign,
+      date,
+      prediction: response.data.horoscope || fallback.prediction,
+      compatibility: response.data.compatibility || fallback.compatibility,
+      mood: response.data.mood || fallback.mood,
+      color: response.data.color || fallback.color,
+      luckyNumber: response.data.lucky_number?.toString() || fallback.luckyNumber,
+      luckyTime: response.data.lucky_time || fallback.luckyTime,
+    };
+  }
+}
+
+/**
+ * Horoscopes generated locally. Always available, so it belongs at the end
+ * of the fallback order.
+ */
+export class LocalHoroscopeProvider implements HoroscopeProvider {
+  readonly name = HoroscopeProviderName.LOCAL;
+
+  async getHoroscope(sign: ZodiacSign, date: string): Promise<Horoscope> {
+    return generateLocalHoroscope(sign, date);
+  }
+}
+
+/**
+ * Wraps a provider with a per-attempt timeout, retries with exponential
+ * backoff and a circuit breaker. The breaker counts a call as failed only
+ * once all of its retries are exhausted.
+ */
+export class ResilientHoroscopeProvider implements HoroscopeProvider {
+  readonly name: string;
+  readonly breaker: CircuitBreaker;
+
+  constructor(
+    private readonly provider: HoroscopeProvider,
+    private readonly policy: ProviderPolicy
+  ) {
+    this.name = provider.name;
+    this.breaker = new CircuitBreaker(provider.name, policy.circuitBreaker);
+  }
+
+  getHoroscope(sign: ZodiacSign, date: string, locale: string): Promise<Horoscope | null> {
+    return this.breaker.execute(() =>
+      retryWithBackoff(
+        () => withTimeout(
+          signal => this.provider.getHoroscope(sign, date, locale, signal),
+          this.policy.timeoutMs,
+          `${this.name} provider`
+        ),
+        {
+          retries: this.policy.retries,
+          baseDelayMs: this.policy.retryDelayMs,
+          shouldRetry: isRetryableError,
+        }
+      )
+    );
+  }
+}
+
+/**
+ * Client errors from an HTTP provider (other than rate limiting) will not
+ * succeed on a retry
+ */
+const isRetryableError = (error: unknown): boolean => {
+  if (axios.isAxiosError(error) && error.response) {
+    const status = error.response.status;
+    return status === 429 || status >= 500;
+  }
+  return true;
+};
+
+/**
+ * Build the configured provider policy for a provider
+ */
+const getProviderPolicy = (name: string): ProviderPolicy => {
+  const settings = config.horoscopeProviders;
+  return {
+    timeoutMs: settings.timeouts[name] ?? settings.defaultTimeoutMs,
+    retries: settings.retries,
+    retryDelayMs: settings.retryDelayMs,
+    circuitBreaker: {
+      failureThreshold: settings.circuitBreakerThreshold,
+      resetTimeoutMs: settings.circuitBreakerResetMs,
+    },
+  };
+};
+
+/**
+ * Create providers in the given fallback order, each wrapped with its
+ * configured resilience policy
+ *
+ * @param order - Provider names, first tried first
+ */
+export const createHoroscopeProviders = (
+  order: string[] = config.horoscopeProviders.order
+): HoroscopeProvider[] => {
+  const providers: HoroscopeProvider[] = [];
+
+  for (const name of order) {
+    let provider: HoroscopeProvider;
+
+    switch (name) {
+      case HoroscopeProviderName.EDITORIAL:
+        provider = new EditorialHoroscopeProvider();
+        break;
+
+      case HoroscopeProviderName.ASTRO_ENGINE:
+        if (!config.astroEngineUrl || !config.astroEngineKey) {
+          logger.warn('Astro Engine API configuration missing, skipping horoscope provider');
+          continue;
+        }
+        provider = new AstroEngineHoroscopeProvider();
+        break;
+
+      case HoroscopeProviderName.LOCAL:
+        provider = new LocalHoroscopeProvider();
+        break;
+
+      default:
+        throw new Error(`Unknown horoscope provider: ${name}`);
+    }
+
+    providers.push(new ResilientHoroscopeProvider(provider, getProviderPolicy(name)));
+  }
+
+  return providers;
+};
+
+let defaultProviders: HoroscopeProvider[] | null = null;
+
+/**
+ * Providers built from configuration, created on first use so circuit
+ * breaker state is shared between requests
+ */
+export const getHoroscopeProviders = (): HoroscopeProvider[] => {
+  if (!defaultProviders) {
+    defaultProviders = createHoroscopeProviders();
+  }
+  return defaultProviders;
+};
+
+/**
+ * Get a horoscope from the first provider in the list that has content,
+ * falling through to the next provider on failures and misses
+ *
+ * @param sign - Zodiac sign
+ * @param date - Date in YYYY-MM-DD format
+ * @param locale - Locale of the request
+ * @param providers - Providers in fallback order
+ * @returns The horoscope and the name of the provider that supplied it
+ */
+export const fetchHoroscopeFromProviders = async (
+  sign: ZodiacSign,
+  date: string,
+  locale: string = DEFAULT_LOCALE,
+  providers: HoroscopeProvider[] = getHoroscopeProviders()
+): Promise<ProvidedHoroscope> => {
+  for (const provider of providers) {
+    try {
+      const horoscope = await provider.getHoroscope(sign, date, locale);
+      if (horoscope) {
+        return { horoscope, source: provider.name };
+      }
+    } catch (error) {
+      logger.warn(
+        { err: error, provider: provider.name },
+        `Horoscope provider ${provider.name} failed, trying next provider`
+      );
+    }
+  }
+
+  throw new Error(`No horoscope provider returned content for ${sign} on ${date}`);
+};
@@ -1,89 +1,58 @@
-import axios from 'axios';
 import { supabase } from '../config/supabase';
-import { config } from '../config';
 import { logger } from '../config/logger';
 import { ApiError } from '../middlewares/error.middleware';
 import { redis } from '../config/redis';
+import { Horoscope, HoroscopePeriod, PeriodHoroscope, ZodiacSign } from '../types';
+import { fetchHoroscopeFromProviders, HoroscopeProviderName } from './horoscope-providers';
+import { DEFAULT_LOCALE, generateLocalPeriodHoroscope } from '../utils/horoscope-generator';
+import { isValidPeriod } from '../utils/horoscope-periods';
+import { birthDataToJulianDay, getSunSign } from '../utils/chart-calculator';
+import { ActiveDasha, calculateDashaForBirth, findActiveDasha } from '../utils/dasha';
+import { generatePersonalReading, PersonalReading } from '../utils/personal-horoscope';
+import { calculateHouses } from '../utils/houses';
+import { toJulianDay } from '../utils/ephemeris';
+import { calculateAyanamsa } from '../utils/zodiac';
+import { getUtcOffsetForLocalTime } from '../utils/timezone';
+import { findLuckyTime } from '../utils/planetary-hours';
+import { getProfileBirthMoment, getZodiacPreferences, UserProfile } from './profile.service';
+import { getProfileNatalPoints } from './transits.service';
 
-// Zodiac sign enum
-export enum ZodiacSign {
-  ARIES = 'aries',
-  TAURUS = 'taurus',
-  GEMINI = 'gemini',
-  CANCER = 'cancer',
-  LEO = 'leo',
-  VIRGO = 'virgo',
-  LIBRA = 'libra',
-  SCORPIO = 'scorpio',
-  SAGITTARIUS = 'sagittarius',
-  CAPRICORN = 'capricorn',
-  AQUARIUS = 'aquarius',
-  PISCES = 'pisces',
-}
+export { ZodiacSign, HoroscopePeriod, DEFAULT_LOCALE };
+export type { Horoscope, PeriodHoroscope };
 
-// Horoscope interface
-export interface Horoscope {
-  id: string;
-  sign: ZodiacSign;
-  date: string;
-  prediction: string;
-  compatibility: string;
-  mood: string;
-  color: string;
-  luckyNumber: string;
-  luckyTime: string;
-}
+// Table holding the editorial horoscopes of each period type
+const PERIOD_TABLES: Record<HoroscopePeriod, string> = {
+  [HoroscopePeriod.WEEKLY]: 'weekly_horoscopes',
+  [HoroscopePeriod.MONTHLY]: 'monthly_horoscopes',
+  [HoroscopePeriod.YEARLY]: 'yearly_horoscopes',
+};
 
 /**
  * Get horoscope for a specific sign and date
  */
 export const getHoroscope = async (
   sign: ZodiacSign,
-  date: string
+  date: string,
+  locale: string = DEFAULT_LOCALE
 ): Promise<Horoscope> => {
   try {
     // Check cache first
-    const cacheKey = `horoscope:${sign}:${date}`;
+    const cacheKey = locale === DEFAULT_LOCALE
+      ? `horoscope:${sign}:${date}`
+      : `horoscope:${sign}:${date}:${locale}`;
     const cachedHoroscope = await redis.get(cacheKey);
     
     if (cachedHoroscope) {
       return JSON.parse(cachedHoroscope);
     }
     
-    // Check database
-    const { data: dbHoroscope, error: dbError } = await supabase
-      .from('horoscopes')
-      .select('*')
-      .eq('sign', sign)
-      .eq('date', date)
-      .single();
-      
-    if (dbHoroscope && !dbError) {
-      // Cache for 24 hours
-      await redis.set(cacheKey, JSON.stringify(dbHoroscope), 'EX', 86400);
-      return dbHoroscope as Horoscope;
-    }
-    
-    // Fetch from external API if not in database
-    const horoscope = await fetchHoroscopeFromAPI(sign, date);
+    // Editorial store, Astro Engine and local generator in configured order
+    const { horoscope, source } = await fetchHoroscopeFromProviders(sign, date, locale);
     
-    // Save to database
-    const { error: insertError } = await supabase
-      .from('horoscopes')
-      .insert({
-        id: `${sign}_${date}`,
-        sign,
-        date,
-        prediction: horoscope.prediction,
-        compatibility: horoscope.compatibility,
-        mood: horoscope.mood,
-        color: horoscope.color,
-        lucky_number: horoscope.luckyNumber,
-        lucky_time: horoscope.luckyTime,
-      });
-      
-    if (insertError) {
-      logger.error('Error saving horoscope to database:', insertError);
+    // Keep remote content so it survives Astro Engine outages. The table has
+    // one row per sign and date, so only default-locale content is stored.
+    if (source === HoroscopeProviderName.ASTRO_ENGINE && locale === DEFAULT_LOCALE) {
+      await saveHoroscope(horoscope);
     }
     
     // Cache for 24 hours
@@ -97,125 +66,199 @@ export const getHoroscope = async (
 };
 
 /**
- * Fetch horoscope from external API
- * This is a placeholder for the actual API integration
+ * Save a horoscope to the database
+ */
+const saveHoroscope = async (horoscope: Horoscope): Promise<void> => {
+  const { error: insertError } = await supabase
+    .from('horoscopes')
+    .insert({
+      id: horoscope.id,
+      sign: horoscope.sign,
+      date: horoscope.date,
+      prediction: horoscope.prediction,
+      compatibility: horoscope.compatibility,
+      mood: horoscope.mood,
+      color: horoscope.color,
+      lucky_number: horoscope.luckyNumber,
+      lucky_time: horoscope.luckyTime,
+    });
+    
+  if (insertError) {
+    logger.error('Error saving horoscope to database:', insertError);
+  }
+};
+
+/**
+ * Get a weekly, monthly or yearly horoscope for a sign. Editorial content
+ * from the period's table is preferred; otherwise the horoscope is generated
+ * locally, which gives the same result on every instance.
+ *
+ * @param type - Period type
+ * @param sign - Zodiac sign
+ * @param period - ISO week (2025-W23), month (2025-06) or year (2025)
  */
-const fetchHoroscopeFromAPI = async (
+export const getPeriodHoroscope = async (
+  type: HoroscopePeriod,
   sign: ZodiacSign,
-  date: string
-): Promise<Horoscope> => {
+  period: string
+): Promise<PeriodHoroscope> => {
+  if (!isValidPeriod(type, period)) {
+    throw new ApiError(400, `Invalid ${type} period: ${period}`);
+  }
+  
   try {
-    // In a real implementation, you would call an external API
-    // This is a simplified version for demonstration
+    // Check cache first
+    const cacheKey = `horoscope:${type}:${sign}:${period}`;
+    const cachedHoroscope = await redis.get(cacheKey);
     
-    if (!config.astroEngineUrl || !config.astroEngineKey) {
-      throw new Error('Astro Engine API configuration missing');
+    if (cachedHoroscope) {
+      return JSON.parse(cachedHoroscope);
     }
     
-    // Make API request
-    const response = await axios.get(`${config.astroEngineUrl}/horoscope`, {
-      params: {
-        sign,
-        date,
-      },
-      headers: {
-        'X-API-Key': config.astroEngineKey,
-      },
-    });
+    const horoscope = await getEditorialPeriodHoroscope(type, sign, period)
+      || generateLocalPeriodHoroscope(type, sign, period);
     
-    if (response.status !== 200) {
-      throw new Error(`API returned status ${response.status}`);
-    }
+    // Cache for 24 hours
+    await redis.set(cacheKey, JSON.stringify(horoscope), 'EX', 86400);
     
-    // Transform API response to our format
-    return {
-      id: `${sign}_${date}`,
-      sign,
-      date,
-      prediction: response.data.horoscope || generateFallbackHoroscope(sign),
-      compatibility: response.data.compatibility || getRandomCompatibility(),
-      mood: response.data.mood || getRandomMood(),
-      color: response.data.color || getRandomColor(),
-      luckyNumber: response.data.lucky_number || getRandomNumber(1, 99).toString(),
-      luckyTime: response.data.lucky_time || getRandomTime(),
-    };
+    return horoscope;
   } catch (error) {
-    logger.error('Error fetching horoscope from API:', error);
-    
-    // Return fallback horoscope if API fails
-    return {
-      id: `${sign}_${date}`,
-      sign,
-      date,
-      prediction: generateFallbackHoroscope(sign),
-      compatibility: getRandomCompatibility(),
-      mood: getRandomMood(),
-      color: getRandomColor(),
-      luckyNumber: getRandomNumber(1, 99).toString(),
-      luckyTime: getRandomTime(),
-    };
+    logger.error('Error getting period horoscope:', error);
+    throw new ApiError(500, `Failed to get ${type} horoscope`);
   }
 };
 
 /**
- * Generate a fallback horoscope if API fails
+ * Look up editorial content for a period. Database errors are logged and
+ * treated as a miss so the local generator can take over.
  */
-const generateFallbackHoroscope = (sign: ZodiacSign): string => {
-  const horoscopes = {
-    [ZodiacSign.ARIES]: 'Today is a day for new beginnings. Trust your instincts and take that first step toward your goals.',
-    [ZodiacSign.TAURUS]: 'Focus on stability today. Your practical nature will help you solve a persistent problem.',
-    [ZodiacSign.GEMINI]: 'Communication is key today. Express your ideas clearly and listen to others with an open mind.',
-    [ZodiacSign.CANCER]: 'Your emotional intelligence is heightened today. Use it to strengthen your relationships.',
-    [ZodiacSign.LEO]: 'Your creative energy is at its peak. Share your vision with others and inspire those around you.',
-    [ZodiacSign.VIRGO]: 'Details matter today. Your analytical skills will help you find solutions others have missed.',
-    [ZodiacSign.LIBRA]: 'Seek balance in all things today. Your diplomatic skills will be needed to resolve a conflict.',
-    [ZodiacSign.SCORPIO]: 'Trust your intuition today. Your perceptive nature reveals truths beneath the surface.',
-    [ZodiacSign.SAGITTARIUS]: 'Adventure calls today. Explore new ideas and expand your horizons.',
-    [ZodiacSign.CAPRICORN]: 'Focus on your goals today. Your determination will overcome any obstacles.',
-    [ZodiacSign.AQUARIUS]: 'Innovation is your strength today. Think outside the box to solve a challenging problem.',
-    [ZodiacSign.PISCES]: 'Your compassion makes a difference today. Connect with others on a deeper level.',
-  };
+const getEditorialPeriodHoroscope = async (
+  type: HoroscopePeriod,
+  sign: ZodiacSign,
+  period: string
+): Promise<PeriodHoroscope | null> => {
+  const { data, error } = await supabase
+    .from(PERIOD_TABLES[type])
+    .select('*')
+    .eq('sign', sign)
+    .eq('period', period)
+    .maybeSingle();
+    
+  if (error) {
+    logger.error({ err: error, type }, 'Error fetching period horoscope from database');
+    return null;
+  }
+  if (!data) {
+    return null;
+  }
   
-  return horoscopes[sign] || 'Today holds potential for growth and new opportunities. Stay open to possibilities.';
-};
-
-/**
- * Get random compatibility sign
- */
-const getRandomCompatibility = (): string => {
-  const signs = Object.values(ZodiacSign);
-  return signs[Math.floor(Math.random() * signs.length)];
+  return {
+    id: data.id,
+    sign: data.sign,
+    type,
+    period: data.period,
+    startDate: data.start_date,
+    endDate: data.end_date,
+    prediction: data.prediction,
+    love: data.love,
+    career: data.career,
+    health: data.health,
+    compatibility: data.compatibility,
+    color: data.color,
+    luckyNumber: data.lucky_number,
+  };
 };
 
 /**
- * Get random mood
+ * Determine a user's zodiac sign from the birth data in their profile, in
+ * the zodiac (tropical or sidereal) chosen in their preferences. Uses the
+ * birth time when known, so births on a cusp get the right sign.
  */
-const getRandomMood = (): string => {
-  const moods = ['Happy', 'Reflective', 'Energetic', 'Calm', 'Creative', 'Focused', 'Relaxed', 'Inspired'];
-  return moods[Math.floor(Math.random() * moods.length)];
+export const getProfileSign = (profile: UserProfile): ZodiacSign => {
+  if (!profile.birthDate) {
+    throw new ApiError(400, 'Birth date not found in user profile');
+  }
+  
+  return getSunSign(getProfileBirthMoment(profile), getZodiacPreferences(profile));
 };
 
 /**
- * Get random color
+ * Vimshottari dasha periods running on a date. The Moon is read with the
+ * ayanamsa from the user's preferences, or Lahiri for tropical users.
+ * Returns undefined when the profile has no birth date.
+ *
+ * @param profile - User profile with birth data and preferences
+ * @param date - Date in YYYY-MM-DD format
  */
-const getRandomColor = (): string => {
-  const colors = ['Blue', 'Green', 'Red', 'Purple', 'Yellow', 'Orange', 'Pink', 'Teal', 'Gold', 'Silver'];
-  return colors[Math.floor(Math.random() * colors.length)];
+export const getProfileDasha = (profile: UserProfile, date: string): ActiveDasha | undefined => {
+  if (!profile.birthDate) {
+    return undefined;
+  }
+  
+  const timeline = calculateDashaForBirth(getProfileBirthMoment(profile), getZodiacPreferences(profile).ayanamsa);
+  return findActiveDasha(timeline, new Date(`${date}T12:00:00Z`)) || undefined;
 };
 
 /**
- * Get random number in range
+ * Personal horoscope written from the transits to the user's natal chart,
+ * read at noon on the date in the user's time zone. Houses come from the
+ * birth time and place when both are known, otherwise from the Sun sign in
+ * the user's zodiac.
+ *
+ * @param profile - User profile with birth data and preferences
+ * @param date - Date in YYYY-MM-DD format
+ * @param timeZone - IANA zone the date is read in
  */
-const getRandomNumber = (min: number, max: number): number => {
-  return Math.floor(Math.random() * (max - min + 1)) + min;
+export const getPersonalReading = (profile: UserProfile, date: string, timeZone: string): PersonalReading => {
+  const natalPoints = getProfileNatalPoints(profile);
+  if (!natalPoints) {
+    throw new ApiError(400, 'Birth date not found in user profile');
+  }
+  
+  const instant = new Date(Date.parse(`${date}T12:00:00Z`) - getUtcOffsetForLocalTime(timeZone, date) * 60000);
+  const { ayanamsa } = getZodiacPreferences(profile);
+  
+  let cusps: number[] | undefined;
+  const birth = getProfileBirthMoment(profile);
+  if (birth.time && profile.birthLatitude !== undefined && profile.birthLongitude !== undefined) {
+    const julianDay = birthDataToJulianDay(birth);
+    cusps = calculateHouses(julianDay, profile.birthLatitude, profile.birthLongitude).cusps;
+  }
+  
+  return generatePersonalReading(date, natalPoints, {
+    instant,
+    cusps,
+    zodiacOffset: ayanamsa ? calculateAyanamsa(toJulianDay(instant), ayanamsa) : 0,
+    seed: profile.id,
+  });
 };
 
 /**
- * Get random time
+ * Lucky time of a user on a date: the start of the first day hour ruled by
+ * their sign's ruler, counted from sunrise where they are. Without a current
+ * location the birth place is used, on the clock of the birth zone. Returns
+ * undefined when no place is known or the Sun does not rise that day.
+ *
+ * @param profile - User profile with the birth place
+ * @param sign - Sign of the user
+ * @param date - Local date (YYYY-MM-DD)
+ * @param timeZone - IANA zone the user currently lives in
+ * @param location - Where the user currently is
  */
-const getRandomTime = (): string => {
-  const hour = getRandomNumber(1, 12);
-  const minute = getRandomNumber(0, 59);
-  const period = Math.random() > 0.5 ? 'AM' : 'PM';
-  return `${hour}:${minute.toString().padStart(2, '0')} ${period}`;
+export const getProfileLuckyTime = (
+  profile: UserProfile,
+  sign: ZodiacSign,
+  date: string,
+  timeZone: string,
+  location?: { latitude: number; longitude: number }
+): string | undefined => {
+  if (location) {
+    return findLuckyTime(sign, date, location.latitude, location.longitude, timeZone) || undefined;
+  }
+  
+  if (profile.birthLatitude === undefined || profile.birthLongitude === undefined) {
+    return undefined;
+  }
+  
+  return findLuckyTime(sign, date, profile.birthLatitude, profile.birthLongitude, profile.birthTimezone || timeZone) || undefined;
 };
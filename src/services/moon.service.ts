@@ -0,0 +1,50 @@
+import { logger } from '../config/logger';
+import { redis } from '../config/redis';
+import { ApiError } from '../middlewares/error.middleware';
+import { calculateMoonCalendar, MoonCalendar, MoonDay } from '../utils/moon';
+
+// Moon data never changes for the same month and zone
+const MOON_CACHE_TTL = 30 * 86400;
+
+/**
+ * Get a month of moon data, from the cache when the same month and time
+ * zone were requested before
+ *
+ * @param month - Month in YYYY-MM format
+ * @param timeZone - IANA time zone for the day boundaries
+ * @returns Phases, illumination, moon signs and void-of-course periods per day
+ */
+export const getMoonCalendar = async (month: string, timeZone: string): Promise<MoonCalendar> => {
+  try {
+    // Check cache first
+    const cacheKey = `moon:calendar:${month}:${timeZone}`;
+    const cachedCalendar = await redis.get(cacheKey);
+    
+    if (cachedCalendar) {
+      return JSON.parse(cachedCalendar);
+    }
+    
+    const calendar = calculateMoonCalendar(month, timeZone);
+    
+    await redis.set(cacheKey, JSON.stringify(calendar), 'EX', MOON_CACHE_TTL);
+    
+    return calendar;
+  } catch (error) {
+    if (error instanceof ApiError) {
+      throw error;
+    }
+    logger.error('Error calculating moon calendar:', error);
+    throw new ApiError(500, 'Failed to calculate moon calendar');
+  }
+};
+
+/**
+ * Get the moon data for one day
+ *
+ * @param date - Date in YYYY-MM-DD format
+ * @param timeZone - IANA time zone for the day boundaries
+ */
+export const getMoonDay = async (date: string, timeZone: string): Promise<MoonDay | undefined> => {
+  const calendar = await getMoonCalendar(date.substring(0, 7), timeZone);
+  return calendar.days.find(day => day.date === date);
+};
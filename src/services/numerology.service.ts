@@ -0,0 +1,19 @@
+import { ApiError } from '../middlewares/error.middleware';
+import { calculateNumerology, NumerologyProfile } from '../utils/numerology';
+import { UserProfile } from './profile.service';
+
+/**
+ * Numerology of a user from the name and birth date in their profile. The
+ * expression and soul urge numbers are left out when the profile has no
+ * name.
+ *
+ * @param profile - User profile with name and birth date
+ * @param date - Date the personal cycles are read for (YYYY-MM-DD)
+ */
+export const getProfileNumerology = (profile: UserProfile, date: string): NumerologyProfile => {
+  if (!profile.birthDate) {
+    throw new ApiError(400, 'Birth date not found in user profile');
+  }
+  
+  return calculateNumerology(profile.birthDate, date, profile.name);
+};
@@ -0,0 +1,49 @@
+import { logger } from '../config/logger';
+import { redis } from '../config/redis';
+import { ApiError } from '../middlewares/error.middleware';
+import { calculatePlanetaryHours, PlanetaryDay } from '../utils/planetary-hours';
+
+// Planetary hours never change for the same day and place
+const PLANETARY_HOURS_CACHE_TTL = 30 * 86400;
+
+/**
+ * Get the planetary hours of a day at a place, from the cache when the same
+ * day and place were requested before
+ *
+ * @param date - Local date in YYYY-MM-DD format
+ * @param latitude - Latitude of the place
+ * @param longitude - Longitude of the place (east positive)
+ * @param timeZone - IANA zone of the place
+ * @returns Sunrise, sunset and the 24 hours with their rulers
+ */
+export const getPlanetaryHours = async (
+  date: string,
+  latitude: number,
+  longitude: number,
+  timeZone: string
+): Promise<PlanetaryDay> => {
+  try {
+    // Check cache first
+    const cacheKey = `planetary-hours:${date}:${latitude}:${longitude}:${timeZone}`;
+    const cachedDay = await redis.get(cacheKey);
+    
+    if (cachedDay) {
+      return JSON.parse(cachedDay);
+    }
+    
+    const day = calculatePlanetaryHours(date, latitude, longitude, timeZone);
+    if (!day) {
+      throw new ApiError(400, 'The Sun does not rise and set at this place on this date');
+    }
+    
+    await redis.set(cacheKey, JSON.stringify(day), 'EX', PLANETARY_HOURS_CACHE_TTL);
+    
+    return day;
+  } catch (error) {
+    if (error instanceof ApiError) {
+      throw error;
+    }
+    logger.error('Error calculating planetary hours:', error);
+    throw new ApiError(500, 'Failed to calculate planetary hours');
+  }
+};
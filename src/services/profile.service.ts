@@ -2,6 +2,8 @@ import { supabase } from '../config/supabase';
 import { logger } from '../config/logger';
 import { ApiError } from '../middlewares/error.middleware';
 import { redis } from '../config/redis';
+import { BirthMoment, getSunSign, ZodiacOptions } from '../utils/chart-calculator';
+import { Ayanamsa, ZodiacType } from '../utils/zodiac';
 
 // User profile interface
 export interface UserProfile {
@@ -9,6 +11,12 @@ export interface UserProfile {
   email: string;
   name?: string;
   birthDate?: string;
+  birthTime?: string; // HH:mm:ss local time at the birth place
+  birthTimezone?: string; // IANA zone of the birth place
+  birthLatitude?: number;
+  birthLongitude?: number; // east positive
+  birthLocationName?: string;
+  timezone?: string; // IANA zone the user currently lives in
   zodiacSign?: string;
   avatarUrl?: string;
   preferences?: Record<string, any>;
@@ -47,6 +55,12 @@ export const getUserProfile = async (userId: string): Promise<UserProfile> => {
       email: data.email,
       name: data.name,
       birthDate: data.birth_date,
+      birthTime: data.birth_time,
+      birthTimezone: data.birth_timezone,
+      birthLatitude: data.birth_latitude ?? undefined,
+      birthLongitude: data.birth_longitude ?? undefined,
+      birthLocationName: data.birth_location_name ?? undefined,
+      timezone: data.timezone,
       zodiacSign: data.zodiac_sign,
       avatarUrl: data.avatar_url,
       preferences: data.preferences,
@@ -82,10 +96,48 @@ export const updateUserProfile = async (
     
     if (profileData.name !== undefined) updateData.name = profileData.name;
     if (profileData.birthDate !== undefined) updateData.birth_date = profileData.birthDate;
+    if (profileData.birthTime !== undefined) updateData.birth_time = profileData.birthTime;
+    if (profileData.birthTimezone !== undefined) updateData.birth_timezone = profileData.birthTimezone;
+    if (profileData.birthLatitude !== undefined) updateData.birth_latitude = profileData.birthLatitude;
+    if (profileData.birthLongitude !== undefined) updateData.birth_longitude = profileData.birthLongitude;
+    if (profileData.birthLocationName !== undefined) updateData.birth_location_name = profileData.birthLocationName;
+    if (profileData.timezone !== undefined) updateData.timezone = profileData.timezone;
     if (profileData.zodiacSign !== undefined) updateData.zodiac_sign = profileData.zodiacSign;
     if (profileData.avatarUrl !== undefined) updateData.avatar_url = profileData.avatarUrl;
     if (profileData.preferences !== undefined) updateData.preferences = profileData.preferences;
     
+    // A new birth moment can change the Sun sign
+    if (profileData.birthDate !== undefined || profileData.birthTime !== undefined || profileData.birthTimezone !== undefined) {
+      const { data: current, error: currentError } = await supabase
+        .from('profiles')
+        .select('preferences, birth_date, birth_time, birth_timezone')
+        .eq('id', userId)
+        .single();
+        
+      if (currentError) {
+        logger.error('Error fetching user birth data:', currentError);
+        throw new ApiError(500, 'Failed to fetch user profile');
+      }
+      
+      const birth = {
+        birthDate: updateData.birth_date !== undefined ? updateData.birth_date : current.birth_date,
+        birthTime: updateData.birth_time !== undefined ? updateData.birth_time : current.birth_time,
+        birthTimezone: updateData.birth_timezone !== undefined ? updateData.birth_timezone : current.birth_timezone,
+      };
+      
+      // The clock time of birth means nothing without the zone it was read in
+      if (birth.birthTime && !birth.birthTimezone) {
+        throw new ApiError(400, 'A birth time needs birthTimezone, the IANA zone of the birth place');
+      }
+      
+      if (birth.birthDate) {
+        updateData.zodiac_sign = getSunSign(
+          getProfileBirthMoment(birth),
+          getZodiacPreferences({ preferences: updateData.preferences ?? current.preferences })
+        );
+      }
+    }
+    
     // Update profile in database
     const { data, error } = await supabase
       .from('profiles')
@@ -105,6 +157,12 @@ export const updateUserProfile = async (
       email: data.email,
       name: data.name,
       birthDate: data.birth_date,
+      birthTime: data.birth_time,
+      birthTimezone: data.birth_timezone,
+      birthLatitude: data.birth_latitude ?? undefined,
+      birthLongitude: data.birth_longitude ?? undefined,
+      birthLocationName: data.birth_location_name ?? undefined,
+      timezone: data.timezone,
       zodiacSign: data.zodiac_sign,
       avatarUrl: data.avatar_url,
       preferences: data.preferences,
@@ -260,10 +318,10 @@ export const updateUserPreferences = async (
   preferences: Record<string, any>
 ): Promise<Record<string, any>> => {
   try {
-    // Get current preferences
+    // Get current preferences and the birth data the sign depends on
     const { data, error } = await supabase
       .from('profiles')
-      .select('preferences')
+      .select('preferences, birth_date, birth_time, birth_timezone')
       .eq('id', userId)
       .single();
       
@@ -276,13 +334,27 @@ export const updateUserPreferences = async (
     const currentPreferences = data.preferences || {};
     const updatedPreferences = { ...currentPreferences, ...preferences };
     
+    const updateData: Record<string, any> = {
+      preferences: updatedPreferences,
+      updated_at: new Date().toISOString(),
+    };
+    
+    // A different zodiac can change the Sun sign
+    if ((preferences.zodiacType !== undefined || preferences.ayanamsa !== undefined) && data.birth_date) {
+      updateData.zodiac_sign = getSunSign(
+        getProfileBirthMoment({
+          birthDate: data.birth_date,
+          birthTime: data.birth_time,
+          birthTimezone: data.birth_timezone,
+        }),
+        getZodiacPreferences({ preferences: updatedPreferences })
+      );
+    }
+    
     // Update in database
     const { error: updateError } = await supabase
       .from('profiles')
-      .update({
-        preferences: updatedPreferences,
-        updated_at: new Date().toISOString(),
-      })
+      .update(updateData)
       .eq('id', userId);
       
     if (updateError) {
@@ -302,3 +374,73 @@ export const updateUserPreferences = async (
     throw new ApiError(500, 'Failed to update user preferences');
   }
 };
+
+/**
+ * Zodiac a user reads signs, charts and reports in, from their preferences.
+ * Missing or unknown values fall back to the tropical zodiac and Lahiri.
+ */
+export const getZodiacPreferences = (profile: Pick<UserProfile, 'preferences'>): ZodiacOptions => {
+  const { zodiacType, ayanamsa } = profile.preferences || {};
+  if (zodiacType !== ZodiacType.SIDEREAL) {
+    return { zodiacType: ZodiacType.TROPICAL };
+  }
+  
+  return {
+    zodiacType: ZodiacType.SIDEREAL,
+    ayanamsa: Object.values(Ayanamsa).includes(ayanamsa) ? ayanamsa : Ayanamsa.LAHIRI,
+  };
+};
+
+/**
+ * Load a user's zodiac preferences. Users without a readable profile get
+ * the tropical zodiac.
+ */
+export const getUserZodiacPreferences = async (userId: string): Promise<ZodiacOptions> => {
+  try {
+    return getZodiacPreferences(await getUserProfile(userId));
+  } catch (error) {
+    logger.warn({ err: error, userId }, 'Could not read zodiac preferences, using the tropical zodiac');
+    return { zodiacType: ZodiacType.TROPICAL };
+  }
+};
+
+/**
+ * Birth data of a user's profile as report parameters, for reports on the
+ * user's own chart. Empty when the profile cannot be read or has no birth
+ * date.
+ */
+export const getUserReportBirthData = async (userId: string): Promise<Record<string, any>> => {
+  try {
+    const profile = await getUserProfile(userId);
+    if (!profile.birthDate) {
+      return {};
+    }
+    
+    const birth = getProfileBirthMoment(profile);
+    return {
+      birthDate: birth.date,
+      birthTime: birth.time,
+      timezone: birth.timezone,
+      latitude: profile.birthLatitude,
+      longitude: profile.birthLongitude,
+      locationName: profile.birthLocationName,
+    };
+  } catch (error) {
+    logger.warn({ err: error, userId }, 'Could not read birth data for a report');
+    return {};
+  }
+};
+
+/**
+ * Moment of birth from a profile with a birth date. The birth time is read
+ * in the birth place's zone. The zone the user lives in now says nothing
+ * about where they were born, so a time without a birth zone is left out
+ * and the chart is cast for noon.
+ */
+export const getProfileBirthMoment = (
+  profile: Pick<UserProfile, 'birthDate' | 'birthTime' | 'birthTimezone'>
+): BirthMoment => ({
+  date: profile.birthDate!,
+  time: (profile.birthTimezone && profile.birthTime) || undefined,
+  timezone: profile.birthTimezone || undefined,
+});
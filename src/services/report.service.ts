@@ -3,22 +3,9 @@ import { supabase } from '../config/supabase';
 import { logger } from '../config/logger';
 import { ApiError } from '../middlewares/error.middleware';
 import { redis } from '../config/redis';
-
-// Report types
-export enum ReportType {
-  MONTHLY = 'monthly',
-  YEARLY = 'yearly',
-  COMPATIBILITY = 'compatibility',
-  CAREER = 'career',
-}
-
-// Report status
-export enum ReportStatus {
-  PENDING = 'pending',
-  PROCESSING = 'processing',
-  COMPLETED = 'completed',
-  FAILED = 'failed',
-}
+import { ReportStatus, ReportType } from '../types';
+import { REPORT_TYPES } from '../utils/report-generator';
+import { REPORT_TYPE_INFO } from '../utils/report-types';
 
 // Report interface
 export interface Report {
@@ -48,17 +35,37 @@ const reportQueue = new Queue('report-generation', {
   },
 });
 
+// Public URL of a report file, stored in file_url by the first worker
+const PUBLIC_FILE_URL = /^https?:\/\/[^/]+\/storage\/v1\/object\/public\/reports\//;
+
+/**
+ * Path of a report file in the reports bucket. Reports from before the
+ * bucket went private store the file's public URL instead.
+ */
+const toStoragePath = (fileUrl: string): string =>
+  PUBLIC_FILE_URL.test(fileUrl) ? decodeURIComponent(fileUrl.replace(PUBLIC_FILE_URL, '')) : fileUrl;
+
+/**
+ * Get the report types that can be requested
+ */
+export const getReportTypes = (): { type: ReportType; name: string }[] =>
+  (Object.keys(REPORT_TYPE_INFO) as ReportType[]).map(type => ({ type, name: REPORT_TYPE_INFO[type].name }));
+
 /**
- * Create a new report
+ * Create a new report and queue its generation
+ * 
+ * @param parameters - Parameters already checked against the schema of the type
  */
 export const createReport = async (
   userId: string,
   type: ReportType,
-  parameters?: Record<string, any>
+  parameters: Record<string, any>
 ): Promise<Report> => {
   try {
+    const definition = REPORT_TYPES[type];
+    
     // Generate report title and description based on type
-    const { title, description } = generateReportMetadata(type, parameters);
+    const { title, description } = definition.describe(parameters);
     
     // Create report in database
     const reportId = `report_${Date.now()}_${Math.random().toString(36).substring(2, 9)}`;
@@ -86,12 +93,14 @@ export const createReport = async (
     }
     
     // Add job to queue
+    const priority = definition.priority?.(parameters);
     await reportQueue.add('generate-report', {
       reportId,
       userId,
       type,
+      title,
       parameters,
-    });
+    }, priority !== undefined ? { priority } : undefined);
     
     // Return report data
     return {
@@ -141,7 +150,7 @@ export const getReportById = async (
       type: data.type as ReportType,
       title: data.title,
       description: data.description,
-      fileUrl: data.file_url,
+      fileUrl: data.file_url ? toStoragePath(data.file_url) : undefined,
       status: data.status as ReportStatus,
       parameters: data.parameters,
       createdAt: new Date(data.created_at),
@@ -188,13 +197,13 @@ export const getUserReports = async (
     }
     
     // Transform to Report objects
-    const reports: Report[] = data.map(report => ({
+    const reports: Report[] = data.map((report: any) => ({
       id: report.id,
       userId: report.user_id,
       type: report.type as ReportType,
       title: report.title,
       description: report.description,
-      fileUrl: report.file_url,
+      fileUrl: report.file_url ? toStoragePath(report.file_url) : undefined,
       status: report.status as ReportStatus,
       parameters: report.parameters,
       createdAt: new Date(report.created_at),
@@ -237,16 +246,13 @@ export const deleteReport = async (
     
     // Delete file from storage if it exists
     if (data.file_url) {
-      const fileKey = data.file_url.split('/').pop();
-      if (fileKey) {
-        const { error: storageError } = await supabase.storage
-          .from('reports')
-          .remove([fileKey]);
-          
-        if (storageError) {
-          logger.error('Error deleting report file:', storageError);
-          // Continue with deletion even if file removal fails
-        }
+      const { error: storageError } = await supabase.storage
+        .from('reports')
+        .remove([toStoragePath(data.file_url)]);
+        
+      if (storageError) {
+        logger.error('Error deleting report file:', storageError);
+        // Continue with deletion even if file removal fails
       }
     }
     
@@ -296,16 +302,10 @@ export const getReportDownloadUrl = async (
       throw new ApiError(400, 'Report is not ready for download');
     }
     
-    // Extract file key from URL
-    const fileKey = data.file_url.split('/').pop();
-    if (!fileKey) {
-      throw new ApiError(500, 'Invalid file URL');
-    }
-    
-    // Generate signed URL
+    // Generate signed URL for the stored path
     const { data: signedUrl, error: signedUrlError } = await supabase.storage
       .from('reports')
-      .createSignedUrl(fileKey, 3600); // 1 hour expiry
+      .createSignedUrl(toStoragePath(data.file_url), 3600); // 1 hour expiry
       
     if (signedUrlError || !signedUrl) {
       logger.error('Error generating signed URL:', signedUrlError);
@@ -328,44 +328,3 @@ export const getReportDownloadUrl = async (
     throw new ApiError(500, 'Failed to get download URL');
   }
 };
-
-/**
- * Generate report metadata based on type and parameters
- */
-const generateReportMetadata = (
-  type: ReportType,
-  parameters?: Record<string, any>
-): { title: string; description: string } => {
-  const now = new Date();
-  const year = now.getFullYear();
-  const month = now.toLocaleString('default', { month: 'long' });
-  
-  switch (type) {
-    case ReportType.MONTHLY:
-      return {
-        title: `Monthly Horoscope Report - ${month} ${year}`,
-        description: `Comprehensive astrological forecast for ${month} ${year}, including career, relationships, and personal growth insights.`,
-      };
-    case ReportType.YEARLY:
-      return {
-        title: `Yearly Horoscope Report - ${year}`,
-        description: `Annual astrological forecast for ${year}, with detailed predictions and guidance for all major life areas.`,
-      };
-    case ReportType.COMPATIBILITY:
-      const targetSign = parameters?.targetSign || 'your partner';
-      return {
-        title: `Compatibility Report with ${targetSign}`,
-        description: `In-depth analysis of your astrological compatibility with ${targetSign}, covering emotional, intellectual, and physical harmony.`,
-      };
-    case ReportType.CAREER:
-      return {
-        title: `Career Path Report`,
-        description: `Astrological insights into your optimal career path, strengths, challenges, and upcoming professional opportunities.`,
-      };
-    default:
-      return {
-        title: `Astrological Report - ${month} ${year}`,
-        description: `Custom astrological report generated on ${now.toLocaleDateString()}.`,
-      };
-  }
-};
@@ -0,0 +1,235 @@
+import { supabase } from '../config/supabase';
+import { logger } from '../config/logger';
+import { ApiError } from '../middlewares/error.middleware';
+import { findTransitHits, getNatalPoints, NatalPoint, sampleTransits, TransitHit, TransitSamples } from '../utils/transits';
+import { toJulianDay } from '../utils/ephemeris';
+import { getProfileBirthMoment, UserProfile } from './profile.service';
+
+// How far ahead hits are stored
+export const TRANSIT_WINDOW_DAYS = 30;
+
+// Profiles read per page by the daily job
+const PROFILE_PAGE_SIZE = 500;
+
+// Stored hit with its ID
+export interface StoredTransitHit extends TransitHit {
+  id: string;
+}
+
+// Hit due for a push notification
+export interface TransitAlert {
+  email: string;
+  hit: StoredTransitHit;
+}
+
+type NatalProfile = Pick<
+  UserProfile,
+  'id' | 'birthDate' | 'birthTime' | 'birthTimezone' | 'timezone' | 'birthLatitude' | 'birthLongitude'
+>;
+
+/**
+ * Get the stored hits for a user between two dates
+ *
+ * @param userId - User ID
+ * @param from - First date (YYYY-MM-DD, UTC)
+ * @param to - Last date, included
+ */
+export const getPersonalTransits = async (userId: string, from: string, to: string): Promise<StoredTransitHit[]> => {
+  const end = new Date(`${to}T00:00:00Z`);
+  end.setUTCDate(end.getUTCDate() + 1);
+  
+  const { data, error } = await supabase
+    .from('transit_hits')
+    .select('*')
+    .eq('user_id', userId)
+    .gte('exact_time', `${from}T00:00:00Z`)
+    .lt('exact_time', end.toISOString())
+    .order('exact_time', { ascending: true });
+    
+  if (error) {
+    logger.error('Error getting personal transits:', error);
+    throw new ApiError(500, 'Failed to get personal transits');
+  }
+  
+  return (data || []).map(fromHitRecord);
+};
+
+/**
+ * Recalculate a user's upcoming hits after their birth data changed. Hits
+ * from today on are replaced, except the ones already announced, so their
+ * alert is not sent again.
+ *
+ * @param profile - Updated profile
+ * @returns Number of hits stored
+ */
+export const refreshUserTransits = async (profile: NatalProfile): Promise<number> => {
+  const today = startOfToday();
+  
+  const { error } = await supabase
+    .from('transit_hits')
+    .delete()
+    .eq('user_id', profile.id)
+    .gte('exact_time', today.toISOString())
+    .is('notified_at', null);
+    
+  if (error) {
+    logger.error('Error clearing personal transits:', error);
+    throw new ApiError(500, 'Failed to refresh personal transits');
+  }
+  
+  return storeTransitHits(profile, sampleTransits(toJulianDay(today), TRANSIT_WINDOW_DAYS));
+};
+
+/**
+ * Daily job: calculate the upcoming hits of every user with a birth date
+ * and store the ones not stored yet
+ *
+ * @returns Number of hits in the window, over all users
+ */
+export const refreshAllUserTransits = async (): Promise<number> => {
+  const samples = sampleTransits(toJulianDay(startOfToday()), TRANSIT_WINDOW_DAYS);
+  let total = 0;
+  
+  for (let page = 0; ; page++) {
+    const { data, error } = await supabase
+      .from('profiles')
+      .select('id, birth_date, birth_time, birth_timezone, timezone, birth_latitude, birth_longitude')
+      .not('birth_date', 'is', null)
+      .order('id', { ascending: true })
+      .range(page * PROFILE_PAGE_SIZE, (page + 1) * PROFILE_PAGE_SIZE - 1);
+      
+    if (error) {
+      logger.error('Error reading profiles for personal transits:', error);
+      throw new ApiError(500, 'Failed to refresh personal transits');
+    }
+    
+    for (const record of data || []) {
+      try {
+        total += await storeTransitHits({
+          id: record.id,
+          birthDate: record.birth_date,
+          birthTime: record.birth_time,
+          birthTimezone: record.birth_timezone,
+          timezone: record.timezone,
+          birthLatitude: record.birth_latitude ?? undefined,
+          birthLongitude: record.birth_longitude ?? undefined,
+        }, samples);
+      } catch (storeError) {
+        logger.warn({ err: storeError, userId: record.id }, 'Could not refresh personal transits');
+      }
+    }
+    
+    if (!data || data.length < PROFILE_PAGE_SIZE) {
+      return total;
+    }
+  }
+};
+
+/**
+ * Get stored hits in a time window that have not been announced yet, with
+ * the email of their user
+ *
+ * @param from - Start of the window
+ * @param to - End of the window, excluded
+ */
+export const getUnnotifiedTransitAlerts = async (from: Date, to: Date): Promise<TransitAlert[]> => {
+  const { data, error } = await supabase
+    .from('transit_hits')
+    .select('*, profiles(email)')
+    .gte('exact_time', from.toISOString())
+    .lt('exact_time', to.toISOString())
+    .is('notified_at', null)
+    .order('exact_time', { ascending: true });
+    
+  if (error) {
+    logger.error('Error getting transit alerts:', error);
+    throw new ApiError(500, 'Failed to get transit alerts');
+  }
+  
+  return (data || []).map((record: any) => ({ email: record.profiles?.email, hit: fromHitRecord(record) }));
+};
+
+/**
+ * Record that hits were announced, so they are not announced again
+ *
+ * @param ids - Hit IDs
+ */
+export const markTransitHitsNotified = async (ids: string[]): Promise<void> => {
+  const { error } = await supabase
+    .from('transit_hits')
+    .update({ notified_at: new Date().toISOString() })
+    .in('id', ids);
+    
+  if (error) {
+    logger.error('Error marking transit hits as notified:', error);
+    throw new ApiError(500, 'Failed to update transit hits');
+  }
+};
+
+/**
+ * Natal points of a profile, or null without a birth date
+ */
+export const getProfileNatalPoints = (profile: NatalProfile): NatalPoint[] | null => {
+  if (!profile.birthDate) {
+    return null;
+  }
+  
+  const hasPlace = profile.birthLatitude !== undefined && profile.birthLongitude !== undefined;
+  return getNatalPoints(
+    getProfileBirthMoment(profile),
+    hasPlace ? { latitude: profile.birthLatitude!, longitude: profile.birthLongitude! } : undefined
+  );
+};
+
+/**
+ * Calculate a user's hits over the sampled window and store the new ones
+ */
+const storeTransitHits = async (profile: NatalProfile, samples: TransitSamples): Promise<number> => {
+  const natalPoints = getProfileNatalPoints(profile);
+  if (!natalPoints) {
+    return 0;
+  }
+  
+  const hits = findTransitHits(natalPoints, samples);
+  if (hits.length === 0) {
+    return 0;
+  }
+  
+  const { error } = await supabase
+    .from('transit_hits')
+    .upsert(hits.map(hit => toHitRecord(profile.id, hit)), { onConflict: 'id', ignoreDuplicates: true });
+    
+  if (error) {
+    logger.error('Error storing personal transits:', error);
+    throw new ApiError(500, 'Failed to store personal transits');
+  }
+  
+  return hits.length;
+};
+
+const startOfToday = (): Date => new Date(`${new Date().toISOString().split('T')[0]}T00:00:00Z`);
+
+/**
+ * ID of a hit: the user, the transit and the UTC date the aspect is exact.
+ * Every daily refresh finds the same exact moment, so a transit keeps one
+ * row, and gets one alert, however often it is recalculated.
+ */
+const transitHitId = (userId: string, hit: TransitHit): string =>
+  [userId, hit.transit_planet, hit.aspect, hit.natal_planet, hit.exact_time.split('T')[0]].join(':');
+
+const toHitRecord = (userId: string, hit: TransitHit) => ({
+  id: transitHitId(userId, hit),
+  user_id: userId,
+  ...hit,
+});
+
+const fromHitRecord = (record: any): StoredTransitHit => ({
+  id: record.id,
+  transit_planet: record.transit_planet,
+  aspect: record.aspect,
+  natal_planet: record.natal_planet,
+  orb: record.orb,
+  exact_time: new Date(record.exact_time).toISOString(),
+  transit_sign: record.transit_sign,
+  retrograde: record.retrograde,
+});
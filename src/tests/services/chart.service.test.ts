@@ -0,0 +1,68 @@
+import { getChartHash, getNatalChart } from '../../services/chart.service';
+import { natalChartRequestSchema } from '../../schemas/chart.schema';
+import { HouseSystem } from '../../utils/houses';
+import { Ayanamsa, ZodiacType } from '../../utils/zodiac';
+import { redis } from '../../config/redis';
+
+jest.mock('../../config/redis', () => ({
+  redis: { get: jest.fn(), set: jest.fn() },
+}));
+jest.mock('../../config/logger', () => ({
+  logger: { info: jest.fn(), warn: jest.fn(), error: jest.fn(), debug: jest.fn() },
+}));
+
+const LONDON = { date: '1990-07-15', time: '14:30', latitude: 51.5, longitude: -0.12, utcOffset: 60 };
+
+describe('Chart service', () => {
+  const cache = new Map<string, string>();
+
+  beforeEach(() => {
+    cache.clear();
+    (redis.get as jest.Mock).mockImplementation(async (key: string) => cache.get(key) ?? null);
+    (redis.set as jest.Mock).mockImplementation(async (key: string, value: string) => {
+      cache.set(key, value);
+      return 'OK';
+    });
+  });
+
+  test('should hash only the inputs that change the chart', () => {
+    const tropical = { zodiacType: ZodiacType.TROPICAL };
+
+    expect(getChartHash({ ...LONDON, locationName: 'London' }, tropical)).toBe(getChartHash(LONDON, tropical));
+    expect(getChartHash(LONDON, { ...tropical, ayanamsa: Ayanamsa.LAHIRI })).toBe(getChartHash(LONDON, tropical));
+    expect(getChartHash(LONDON, { houseSystem: HouseSystem.KOCH })).not.toBe(getChartHash(LONDON, tropical));
+    expect(getChartHash({ ...LONDON, time: '14:31' }, tropical)).not.toBe(getChartHash(LONDON, tropical));
+  });
+
+  test('should validate query strings and apply default options', () => {
+    const request = natalChartRequestSchema.parse({ ...LONDON, latitude: '51.5', utcOffset: '60' });
+
+    expect(request.latitude).toBe(51.5);
+    expect(request.houseSystem).toBe(HouseSystem.PLACIDUS);
+    // The zodiac is left open so the user's preference can fill it in
+    expect(request.zodiacType).toBeUndefined();
+    expect(natalChartRequestSchema.parse({ ...LONDON, zodiacType: 'sidereal', ayanamsa: 'raman' }).ayanamsa)
+      .toBe(Ayanamsa.RAMAN);
+    expect(() => natalChartRequestSchema.parse({ ...LONDON, houseSystem: 'regiomontanus' })).toThrow();
+    expect(() => natalChartRequestSchema.parse({ ...LONDON, timezone: 'Mars/Olympus' })).toThrow();
+  });
+
+  test('should cache charts per birth data hash', async () => {
+    const request = natalChartRequestSchema.parse({ ...LONDON, houseSystem: HouseSystem.WHOLE_SIGN });
+
+    const first = await getNatalChart({ ...request, locationName: 'Greenwich' });
+    const second = await getNatalChart({ ...request, locationName: 'London' });
+    const third = await getNatalChart(request);
+
+    expect(redis.set).toHaveBeenCalledTimes(1);
+    expect((redis.set as jest.Mock).mock.calls[0][0]).toMatch(/^chart:natal:[0-9a-f]{64}$/);
+    expect(second.planets).toEqual(first.planets);
+    expect(first.birthData.locationName).toBe('Greenwich');
+    expect(second.birthData.locationName).toBe('London');
+    expect(third.birthData.locationName).toBeUndefined();
+    expect(JSON.parse((redis.set as jest.Mock).mock.calls[0][1]).birthData).toBeUndefined();
+    expect(first.houses).toHaveLength(12);
+    expect(first.houses[0].house).toBe(1);
+    expect(first.houseSystem).toBe(HouseSystem.WHOLE_SIGN);
+  });
+});
@@ -0,0 +1,112 @@
+import { createCompany, getCompanyChart, getCompanyCompatibility } from '../../services/company.service';
+import { companyRequestSchema } from '../../schemas/company.schema';
+import { supabase } from '../../config/supabase';
+import { HouseSystem } from '../../utils/houses';
+import { Planet } from '../../utils/ephemeris';
+
+jest.mock('../../config/redis', () => ({
+  redis: { get: jest.fn().mockResolvedValue(null), set: jest.fn().mockResolvedValue('OK') },
+}));
+jest.mock('../../config/logger', () => ({
+  logger: { info: jest.fn(), warn: jest.fn(), error: jest.fn(), debug: jest.fn() },
+}));
+jest.mock('../../config/supabase', () => ({
+  supabase: { from: jest.fn() },
+}));
+
+const ROW = {
+  id: 'company-1',
+  user_id: 'user-1',
+  name: 'Acme Ltd',
+  incorporation_date: '2015-03-02',
+  incorporation_time: '09:30:00',
+  incorporation_timezone: 'Europe/London',
+  incorporation_utc_offset: null,
+  incorporation_latitude: 51.5,
+  incorporation_longitude: -0.12,
+  incorporation_location_name: 'London',
+  founders: [{ name: 'Jane Doe', title: 'CEO', date: '1980-07-06', time: '08:00', latitude: 40.71, longitude: -74, utcOffset: -240 }],
+  employees: [{ name: 'Ann Lee', date: '1990-07-15', time: '14:30', latitude: 51.5, longitude: -0.12, utcOffset: 60 }],
+  created_at: '2026-10-18T12:00:00Z',
+  updated_at: null,
+};
+
+/**
+ * Query builder that records its calls and resolves to a single row
+ */
+const mockQuery = (data: any) => {
+  const query: any = {};
+  ['insert', 'update', 'select', 'eq', 'order'].forEach(method => {
+    query[method] = jest.fn(() => query);
+  });
+  query.single = jest.fn().mockResolvedValue({ data, error: null });
+  (supabase.from as jest.Mock).mockReturnValue(query);
+  return query;
+};
+
+describe('Company service', () => {
+  test('should store the incorporation in columns and the people as JSON', async () => {
+    const query = mockQuery(ROW);
+    const request = companyRequestSchema.parse({
+      name: 'Acme Ltd',
+      incorporation: { date: '2015-03-02', time: '09:30', latitude: 51.5, longitude: -0.12, timezone: 'Europe/London' },
+      founders: [ROW.founders[0]],
+    });
+
+    const company = await createCompany('user-1', request);
+
+    expect(query.insert).toHaveBeenCalledWith(expect.objectContaining({
+      user_id: 'user-1',
+      incorporation_date: '2015-03-02',
+      incorporation_utc_offset: null,
+      incorporation_timezone: 'Europe/London',
+      founders: [ROW.founders[0]],
+      employees: [],
+    }));
+    expect(company.incorporation).toEqual({
+      date: '2015-03-02',
+      time: '09:30:00',
+      latitude: 51.5,
+      longitude: -0.12,
+      utcOffset: undefined,
+      timezone: 'Europe/London',
+      locationName: 'London',
+    });
+    expect(company.updatedAt).toEqual(company.createdAt);
+  });
+
+  test('should cast the company chart for the incorporation', async () => {
+    const query = mockQuery(ROW);
+
+    const chart = await getCompanyChart('user-1', 'company-1', { houseSystem: HouseSystem.WHOLE_SIGN });
+
+    expect(query.eq).toHaveBeenCalledWith('user_id', 'user-1');
+    expect(chart.houseSystem).toBe(HouseSystem.WHOLE_SIGN);
+    expect(chart.planets.find(planet => planet.planet === Planet.SUN)!.sign).toBe('pisces');
+  });
+
+  test('should score each founder and employee against the company chart', async () => {
+    mockQuery(ROW);
+
+    const compatibility = await getCompanyCompatibility('user-1', 'company-1', { houseSystem: HouseSystem.PLACIDUS });
+
+    expect(compatibility.name).toBe('Acme Ltd');
+    expect(compatibility.founders.map(member => member.name)).toEqual(['Jane Doe']);
+    expect(compatibility.founders[0].title).toBe('CEO');
+    expect(compatibility.employees.map(member => member.name)).toEqual(['Ann Lee']);
+    [...compatibility.founders, ...compatibility.employees].forEach(({ score }) => {
+      expect(score.overall).toBeGreaterThanOrEqual(0);
+      expect(score.overall).toBeLessThanOrEqual(100);
+      // The company is person 1
+      expect(score.sunSigns.sign1).toBe('pisces');
+    });
+  });
+
+  test('should report a company of another user as not found', async () => {
+    const query = mockQuery(null);
+    query.single.mockResolvedValue({ data: null, error: { message: 'No rows' } });
+
+    await expect(getCompanyChart('user-2', 'company-1', { houseSystem: HouseSystem.PLACIDUS }))
+      .rejects.toMatchObject({ statusCode: 404 });
+  });
+});
@@ -0,0 +1,167 @@
+import {
+  AstroEngineHoroscopeProvider,
+  fetchHoroscopeFromProviders,
+  HoroscopeProvider,
+  LocalHoroscopeProvider,
+  ProviderPolicy,
+  ResilientHoroscopeProvider,
+} from '../../services/horoscope-providers';
+import { AstroEngineStub, startAstroEngineStub } from '../../scripts/astroEngineStub';
+import { CircuitBreaker, CircuitOpenError, CircuitState } from '../../utils/resilience';
+import { ZodiacSign } from '../../types';
+
+jest.mock('../../config/logger', () => ({
+  logger: { info: jest.fn(), warn: jest.fn(), error: jest.fn(), debug: jest.fn() },
+}));
+
+const POLICY: ProviderPolicy = {
+  timeoutMs: 200,
+  retries: 2,
+  retryDelayMs: 5,
+  circuitBreaker: { failureThreshold: 2, resetTimeoutMs: 60000 },
+};
+
+const failingProvider = (name: string): HoroscopeProvider => ({
+  name,
+  getHoroscope: jest.fn().mockRejectedValue(new Error(`${name} down`)),
+});
+
+describe('Horoscope providers', () => {
+  let stub: AstroEngineStub;
+
+  beforeAll(async () => {
+    stub = await startAstroEngineStub(0, { apiKey: 'test-key' });
+  });
+
+  afterAll(async () => {
+    await stub.close();
+  });
+
+  beforeEach(() => {
+    stub.options.latencyMs = 0;
+    stub.options.failNext = 0;
+  });
+
+  describe('Astro Engine provider', () => {
+    test('should fetch a horoscope over HTTP from the stand-in', async () => {
+      const provider = new AstroEngineHoroscopeProvider(stub.url, 'test-key');
+      const horoscope = await provider.getHoroscope(ZodiacSign.LEO, '2025-06-01', 'en');
+
+      expect(horoscope.id).toBe('leo_2025-06-01');
+      expect(horoscope.sign).toBe(ZodiacSign.LEO);
+      expect(horoscope.prediction.length).toBeGreaterThan(0);
+      expect(horoscope.luckyNumber).toMatch(/^\d+$/);
+    });
+
+    test('should reject an invalid API key', async () => {
+      const provider = new AstroEngineHoroscopeProvider(stub.url, 'wrong-key');
+      await expect(provider.getHoroscope(ZodiacSign.LEO, '2025-06-01', 'en')).rejects.toThrow('401');
+    });
+  });
+
+  describe('resilience policy', () => {
+    test('should retry server errors with backoff', async () => {
+      stub.options.failNext = 2;
+      const before = stub.requestCount();
+      const provider = new ResilientHoroscopeProvider(
+        new AstroEngineHoroscopeProvider(stub.url, 'test-key'),
+        POLICY
+      );
+
+      const horoscope = await provider.getHoroscope(ZodiacSign.ARIES, '2025-06-01', 'en');
+      expect(horoscope?.sign).toBe(ZodiacSign.ARIES);
+      expect(stub.requestCount() - before).toBe(3);
+    });
+
+    test('should not retry client errors', async () => {
+      const before = stub.requestCount();
+      const provider = new ResilientHoroscopeProvider(
+        new AstroEngineHoroscopeProvider(stub.url, 'wrong-key'),
+        POLICY
+      );
+
+      await expect(provider.getHoroscope(ZodiacSign.ARIES, '2025-06-01', 'en')).rejects.toThrow();
+      expect(stub.requestCount() - before).toBe(1);
+    });
+
+    test('should time out slow responses', async () => {
+      stub.options.latencyMs = 500;
+      const provider = new ResilientHoroscopeProvider(
+        new AstroEngineHoroscopeProvider(stub.url, 'test-key'),
+        { ...POLICY, retries: 0 }
+      );
+
+      await expect(provider.getHoroscope(ZodiacSign.ARIES, '2025-06-01', 'en')).rejects.toThrow('timed out');
+    });
+
+    test('should open the circuit after repeated failures', async () => {
+      stub.options.failNext = 100;
+      const provider = new ResilientHoroscopeProvider(
+        new AstroEngineHoroscopeProvider(stub.url, 'test-key'),
+        { ...POLICY, retries: 0 }
+      );
+
+      await expect(provider.getHoroscope(ZodiacSign.ARIES, '2025-06-01', 'en')).rejects.toThrow();
+      await expect(provider.getHoroscope(ZodiacSign.ARIES, '2025-06-01', 'en')).rejects.toThrow();
+      expect(provider.breaker.getState()).toBe(CircuitState.OPEN);
+
+      const before = stub.requestCount();
+      await expect(provider.getHoroscope(ZodiacSign.ARIES, '2025-06-01', 'en')).rejects.toThrow('open');
+      expect(stub.requestCount()).toBe(before);
+    });
+
+    test('should let a single trial call through a half-open circuit', async () => {
+      let now = 0;
+      const breaker = new CircuitBreaker('test', { failureThreshold: 1, resetTimeoutMs: 1000 }, () => now);
+      await expect(breaker.execute(() => Promise.reject(new Error('down')))).rejects.toThrow('down');
+
+      now = 1000;
+      let finishTrial: (value: string) => void = () => undefined;
+      const operation = jest.fn(() => new Promise<string>(resolve => { finishTrial = resolve; }));
+      const calls = [1, 2, 3].map(() => breaker.execute(operation));
+
+      await expect(calls[1]).rejects.toBeInstanceOf(CircuitOpenError);
+      await expect(calls[2]).rejects.toBeInstanceOf(CircuitOpenError);
+      expect(operation).toHaveBeenCalledTimes(1);
+
+      finishTrial('ok');
+      await expect(calls[0]).resolves.toBe('ok');
+      expect(breaker.getState()).toBe(CircuitState.CLOSED);
+    });
+  });
+
+  describe('fallback order', () => {
+    test('should use the first provider with content', async () => {
+      const editorial: HoroscopeProvider = { name: 'editorial', getHoroscope: jest.fn().mockResolvedValue(null) };
+      const remote = new AstroEngineHoroscopeProvider(stub.url, 'test-key');
+
+      const result = await fetchHoroscopeFromProviders(
+        ZodiacSign.PISCES,
+        '2025-06-01',
+        'en',
+        [editorial, remote, new LocalHoroscopeProvider()]
+      );
+
+      expect(editorial.getHoroscope).toHaveBeenCalledWith(ZodiacSign.PISCES, '2025-06-01', 'en');
+      expect(result.source).toBe('astro-engine');
+    });
+
+    test('should fall through failing providers to the local generator', async () => {
+      const result = await fetchHoroscopeFromProviders(
+        ZodiacSign.PISCES,
+        '2025-06-01',
+        'en',
+        [failingProvider('editorial'), failingProvider('astro-engine'), new LocalHoroscopeProvider()]
+      );
+
+      expect(result.source).toBe('local');
+      expect(result.horoscope.id).toBe('pisces_2025-06-01');
+    });
+
+    test('should fail when no provider has content', async () => {
+      await expect(
+        fetchHoroscopeFromProviders(ZodiacSign.PISCES, '2025-06-01', 'en', [failingProvider('editorial')])
+      ).rejects.toThrow('No horoscope provider');
+    });
+  });
+});
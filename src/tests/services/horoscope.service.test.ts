@@ -0,0 +1,62 @@
+import { getProfileLuckyTime } from '../../services/horoscope.service';
+import { UserProfile } from '../../services/profile.service';
+import { ZodiacSign } from '../../types';
+import { findLuckyTime } from '../../utils/planetary-hours';
+
+jest.mock('../../config/redis', () => ({
+  redis: { get: jest.fn().mockResolvedValue(null), set: jest.fn().mockResolvedValue('OK') },
+}));
+jest.mock('../../config/logger', () => ({
+  logger: { info: jest.fn(), warn: jest.fn(), error: jest.fn(), debug: jest.fn() },
+}));
+jest.mock('../../config/supabase', () => ({
+  supabase: { from: jest.fn() },
+}));
+
+const PROFILE: UserProfile = {
+  id: 'user-1',
+  email: 'ann@example.com',
+  birthDate: '1990-07-15',
+  birthTime: '14:30:00',
+  birthTimezone: 'Europe/London',
+  birthLatitude: 51.5,
+  birthLongitude: -0.12,
+  timezone: 'Europe/London',
+  createdAt: new Date('2026-10-18T12:00:00Z'),
+  updatedAt: new Date('2026-10-18T12:00:00Z'),
+};
+
+describe('Personal lucky time', () => {
+  test('should count from sunrise where each user lives', () => {
+    const london = getProfileLuckyTime(PROFILE, ZodiacSign.LEO, '2026-10-18', 'Europe/London');
+    const sydney = getProfileLuckyTime(
+      { ...PROFILE, id: 'user-2', birthTimezone: 'Australia/Sydney', birthLatitude: -33.87, birthLongitude: 151.21, timezone: 'Australia/Sydney' },
+      ZodiacSign.LEO,
+      '2026-10-18',
+      'Australia/Sydney'
+    );
+
+    expect(london).toBe(findLuckyTime(ZodiacSign.LEO, '2026-10-18', 51.5, -0.12, 'Europe/London'));
+    expect(sydney).toBe(findLuckyTime(ZodiacSign.LEO, '2026-10-18', -33.87, 151.21, 'Australia/Sydney'));
+    expect(london).not.toBe(sydney);
+  });
+
+  test('should prefer the current location, on the clock of the current zone', () => {
+    const newYork = getProfileLuckyTime(
+      { ...PROFILE, timezone: 'America/New_York' },
+      ZodiacSign.LEO,
+      '2026-10-18',
+      'America/New_York',
+      { latitude: 40.71, longitude: -74 }
+    );
+
+    expect(newYork).toBe(findLuckyTime(ZodiacSign.LEO, '2026-10-18', 40.71, -74, 'America/New_York'));
+    expect(newYork).not.toBe(getProfileLuckyTime(PROFILE, ZodiacSign.LEO, '2026-10-18', 'Europe/London'));
+  });
+
+  test('should leave the lucky time to the sign horoscope without a place', () => {
+    const { birthLatitude, birthLongitude, ...profile } = PROFILE;
+
+    expect(getProfileLuckyTime(profile, ZodiacSign.LEO, '2026-10-18', 'Europe/London')).toBeUndefined();
+  });
+});
@@ -0,0 +1,105 @@
+import { getProfileBirthMoment, getUserReportBirthData, updateUserProfile } from '../../services/profile.service';
+import { profileUpdateSchema } from '../../schemas/profile.schema';
+import { supabase } from '../../config/supabase';
+import { ZodiacSign } from '../../types';
+
+jest.mock('../../config/redis', () => ({
+  redis: { get: jest.fn().mockResolvedValue(null), set: jest.fn().mockResolvedValue('OK'), del: jest.fn().mockResolvedValue(1) },
+}));
+jest.mock('../../config/logger', () => ({
+  logger: { info: jest.fn(), warn: jest.fn(), error: jest.fn(), debug: jest.fn() },
+}));
+jest.mock('../../config/supabase', () => ({
+  supabase: { from: jest.fn() },
+}));
+
+const ROW = {
+  id: 'user-1',
+  email: 'ann@example.com',
+  birth_date: '1990-07-15',
+  birth_time: '14:30:00',
+  birth_timezone: 'Europe/London',
+  timezone: 'Europe/London',
+  zodiac_sign: ZodiacSign.CANCER,
+  preferences: {},
+  created_at: '2026-10-18T12:00:00Z',
+  updated_at: '2026-10-18T12:00:00Z',
+};
+
+/**
+ * Query builder that records its calls and resolves to the stored row, then
+ * to the row as updated
+ */
+const mockQuery = (row: any) => {
+  const query: any = {};
+  ['update', 'select', 'eq'].forEach(method => {
+    query[method] = jest.fn(() => query);
+  });
+  query.single = jest.fn(async () => ({
+    data: query.update.mock.calls.length ? { ...row, ...query.update.mock.calls[0][0] } : row,
+    error: null,
+  }));
+  (supabase.from as jest.Mock).mockReturnValue(query);
+  return query;
+};
+
+describe('Profile service', () => {
+  test('should recompute the Sun sign when the birth date changes', async () => {
+    const query = mockQuery(ROW);
+
+    const profile = await updateUserProfile('user-1', { birthDate: '1990-08-15' });
+
+    expect(query.update).toHaveBeenCalledWith(expect.objectContaining({
+      birth_date: '1990-08-15',
+      zodiac_sign: ZodiacSign.LEO,
+    }));
+    expect(profile.zodiacSign).toBe(ZodiacSign.LEO);
+  });
+
+  test('should recompute the Sun sign when the birth time crosses a sign change', async () => {
+    // The Sun entered Leo between 02:00 and 03:00 UTC on 23 July 1990
+    const query = mockQuery({ ...ROW, birth_date: '1990-07-23', birth_time: '02:00:00' });
+
+    await updateUserProfile('user-1', { birthTime: '08:00:00' });
+
+    expect(query.update).toHaveBeenCalledWith(expect.objectContaining({ zodiac_sign: ZodiacSign.LEO }));
+  });
+
+  test('should reject a birth time without the zone of the birth place', async () => {
+    const query = mockQuery({ ...ROW, birth_time: null, birth_timezone: null });
+
+    await expect(updateUserProfile('user-1', { birthTime: '14:30:00', timezone: 'Asia/Tokyo' }))
+      .rejects.toMatchObject({ statusCode: 400 });
+    expect(query.update).not.toHaveBeenCalled();
+  });
+
+  test('should not read the birth time in the zone the user lives in now', () => {
+    const moment = getProfileBirthMoment({ birthDate: '1990-07-15', birthTime: '14:30:00', timezone: 'Asia/Tokyo' } as any);
+
+    expect(moment).toEqual({ date: '1990-07-15', time: undefined, timezone: undefined });
+  });
+
+  test('should give the birth data of the profile as report parameters', async () => {
+    mockQuery({ ...ROW, birth_latitude: 51.5, birth_longitude: -0.12, birth_location_name: 'London' });
+
+    await expect(getUserReportBirthData('user-1')).resolves.toEqual({
+      birthDate: '1990-07-15',
+      birthTime: '14:30:00',
+      timezone: 'Europe/London',
+      latitude: 51.5,
+      longitude: -0.12,
+      locationName: 'London',
+    });
+
+    mockQuery({ ...ROW, birth_date: null });
+    await expect(getUserReportBirthData('user-1')).resolves.toEqual({});
+  });
+
+  test('should reject a profile update without a zone or with a date that does not exist', () => {
+    expect(profileUpdateSchema.safeParse({ timezone: null }).success).toBe(false);
+    expect(profileUpdateSchema.safeParse({ birthTimezone: null }).success).toBe(false);
+    expect(profileUpdateSchema.safeParse({ birthDate: '1990-13-45' }).success).toBe(false);
+    expect(profileUpdateSchema.parse({ birthDate: '1990-07-15', timezone: 'Europe/London' }))
+      .toEqual({ birthDate: '1990-07-15', timezone: 'Europe/London' });
+  });
+});
@@ -0,0 +1,65 @@
+import { deleteReport, getReportDownloadUrl } from '../../services/report.service';
+import { supabase } from '../../config/supabase';
+import { ReportStatus } from '../../types';
+
+jest.mock('bullmq', () => ({
+  Queue: jest.fn(() => ({ add: jest.fn() })),
+}));
+jest.mock('../../config/redis', () => ({
+  redis: { get: jest.fn().mockResolvedValue(null), set: jest.fn().mockResolvedValue('OK') },
+}));
+jest.mock('../../config/logger', () => ({
+  logger: { info: jest.fn(), warn: jest.fn(), error: jest.fn(), debug: jest.fn() },
+}));
+jest.mock('../../config/supabase', () => ({
+  supabase: { from: jest.fn(), storage: { from: jest.fn() } },
+}));
+
+// file_url of a report from the first worker, which stored the public URL
+const LEGACY_FILE_URL = 'https://abc.supabase.co/storage/v1/object/public/reports/reports/user-1/report_1.pdf';
+
+/**
+ * Query builder that records its calls and resolves to a single row;
+ * awaiting it resolves without an error
+ */
+const mockQuery = (data: any) => {
+  const query: any = {};
+  ['select', 'delete', 'eq'].forEach(method => {
+    query[method] = jest.fn(() => query);
+  });
+  query.single = jest.fn().mockResolvedValue({ data, error: null });
+  query.then = (resolve: (value: any) => void) => resolve({ error: null });
+  (supabase.from as jest.Mock).mockReturnValue(query);
+  return query;
+};
+
+const mockBucket = () => {
+  const bucket = {
+    createSignedUrl: jest.fn().mockResolvedValue({ data: { signedUrl: 'https://signed' }, error: null }),
+    remove: jest.fn().mockResolvedValue({ data: [], error: null }),
+  };
+  (supabase.storage.from as jest.Mock).mockReturnValue(bucket);
+  return bucket;
+};
+
+describe('Report service', () => {
+  test('should sign the stored path of a report file', async () => {
+    mockQuery({ file_url: 'user-1/report_2.pdf', status: ReportStatus.COMPLETED });
+    const bucket = mockBucket();
+
+    await expect(getReportDownloadUrl('user-1', 'report_2')).resolves.toMatchObject({ url: 'https://signed' });
+    expect(bucket.createSignedUrl).toHaveBeenCalledWith('user-1/report_2.pdf', 3600);
+  });
+
+  test('should find the files of reports that stored a public URL', async () => {
+    mockQuery({ file_url: LEGACY_FILE_URL, status: ReportStatus.COMPLETED });
+    const bucket = mockBucket();
+
+    await getReportDownloadUrl('user-1', 'report_1');
+    await deleteReport('user-1', 'report_1');
+
+    expect(supabase.storage.from).toHaveBeenCalledWith('reports');
+    expect(bucket.createSignedUrl).toHaveBeenCalledWith('reports/user-1/report_1.pdf', 3600);
+    expect(bucket.remove).toHaveBeenCalledWith(['reports/user-1/report_1.pdf']);
+  });
+});
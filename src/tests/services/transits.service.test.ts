@@ -0,0 +1,81 @@
+import { refreshAllUserTransits, refreshUserTransits } from '../../services/transits.service';
+import { supabase } from '../../config/supabase';
+
+jest.mock('../../config/redis', () => ({
+  redis: { get: jest.fn().mockResolvedValue(null), set: jest.fn().mockResolvedValue('OK') },
+}));
+jest.mock('../../config/logger', () => ({
+  logger: { info: jest.fn(), warn: jest.fn(), error: jest.fn(), debug: jest.fn() },
+}));
+jest.mock('../../config/supabase', () => ({
+  supabase: { from: jest.fn() },
+}));
+
+const PROFILE = {
+  id: 'user-1',
+  birth_date: '1990-07-15',
+  birth_time: '14:30:00',
+  birth_timezone: 'Europe/London',
+  timezone: 'Europe/London',
+  birth_latitude: 51.5,
+  birth_longitude: -0.12,
+};
+
+/**
+ * Query builder that records its calls; awaiting it resolves to the rows
+ */
+const mockQuery = (rows: any[] = []) => {
+  const query: any = {};
+  ['select', 'delete', 'upsert', 'eq', 'gte', 'is', 'not', 'order', 'range'].forEach(method => {
+    query[method] = jest.fn(() => query);
+  });
+  query.then = (resolve: (value: any) => void) => resolve({ data: rows, error: null });
+  return query;
+};
+
+/**
+ * Run the daily job on a date and return the stored hits by ID
+ */
+const refreshOn = async (date: string): Promise<Map<string, any>> => {
+  jest.setSystemTime(new Date(`${date}T03:00:00Z`));
+  const profiles = mockQuery([PROFILE]);
+  const hits = mockQuery();
+  (supabase.from as jest.Mock).mockImplementation((table: string) => table === 'profiles' ? profiles : hits);
+
+  await refreshAllUserTransits();
+
+  return new Map(hits.upsert.mock.calls[0][0].map((record: any) => [record.id, record]));
+};
+
+describe('Personal transits service', () => {
+  beforeEach(() => {
+    jest.useFakeTimers({ doNotFake: ['nextTick', 'setImmediate'] });
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  test('should key each hit on the date it is exact, whichever day it is refreshed', async () => {
+    const first = await refreshOn('2026-10-18');
+    const second = await refreshOn('2026-10-19');
+
+    const shared = [...first.keys()].filter(id => second.has(id));
+    expect(shared.length).toBeGreaterThan(0);
+    expect([...second.values()].filter(hit => hit.exact_time >= '2026-10-19' && hit.exact_time < '2026-11-18'))
+      .toEqual([...first.values()].filter(hit => hit.exact_time >= '2026-10-19' && hit.exact_time < '2026-11-18'));
+    second.forEach((hit, id) => expect(id.endsWith(`:${hit.exact_time.split('T')[0]}`)).toBe(true));
+  });
+
+  test('should keep announced hits when the birth data changes', async () => {
+    jest.setSystemTime(new Date('2026-10-18T03:00:00Z'));
+    const query = mockQuery();
+    (supabase.from as jest.Mock).mockReturnValue(query);
+
+    await refreshUserTransits({ id: 'user-1', birthDate: '1990-07-15', birthTime: '14:30:00', birthTimezone: 'Europe/London' });
+
+    expect(query.delete).toHaveBeenCalled();
+    expect(query.is).toHaveBeenCalledWith('notified_at', null);
+    expect(query.upsert).toHaveBeenCalledWith(expect.any(Array), { onConflict: 'id', ignoreDuplicates: true });
+  });
+});
@@ -0,0 +1,61 @@
+import {
+  AstroEventType,
+  describeAstroEvent,
+  EclipseKind,
+  findAstroEvents,
+  findEclipses,
+} from '../../utils/astro-events';
+import { toJulianDay } from '../../utils/ephemeris';
+
+const jd = (iso: string) => toJulianDay(new Date(iso));
+const minutesBetween = (a: string, b: string) => Math.abs(Date.parse(a) - Date.parse(b)) / 60000;
+
+describe('Astrological events', () => {
+  test('should find and classify the eclipses of 2024 and 2025', () => {
+    const eclipses = findEclipses(jd('2024-01-01T00:00:00Z'), jd('2026-01-01T00:00:00Z'));
+
+    expect(eclipses.map(event => [event.time.split('T')[0], event.type, event.eclipse])).toEqual([
+      ['2024-03-25', AstroEventType.LUNAR_ECLIPSE, EclipseKind.PENUMBRAL],
+      ['2024-04-08', AstroEventType.SOLAR_ECLIPSE, EclipseKind.TOTAL],
+      ['2024-09-18', AstroEventType.LUNAR_ECLIPSE, EclipseKind.PARTIAL],
+      ['2024-10-02', AstroEventType.SOLAR_ECLIPSE, EclipseKind.ANNULAR],
+      ['2025-03-14', AstroEventType.LUNAR_ECLIPSE, EclipseKind.TOTAL],
+      ['2025-03-29', AstroEventType.SOLAR_ECLIPSE, EclipseKind.PARTIAL],
+      ['2025-09-07', AstroEventType.LUNAR_ECLIPSE, EclipseKind.TOTAL],
+      ['2025-09-21', AstroEventType.SOLAR_ECLIPSE, EclipseKind.PARTIAL],
+    ]);
+  });
+
+  test('should find retrograde stations', () => {
+    const events = findAstroEvents(jd('2026-10-01T00:00:00Z'), jd('2026-12-01T00:00:00Z'), [
+      AstroEventType.STATION_RETROGRADE,
+      AstroEventType.STATION_DIRECT,
+    ]);
+    const mercury = events.filter(event => event.planet === 'mercury');
+
+    expect(mercury.map(event => event.type)).toEqual([
+      AstroEventType.STATION_RETROGRADE,
+      AstroEventType.STATION_DIRECT,
+    ]);
+    expect(minutesBetween(mercury[0].time, '2026-10-24T07:12:00Z')).toBeLessThan(120);
+    expect(mercury[0].id).toBe('station_retrograde:mercury:2026-10-24');
+    expect(describeAstroEvent(mercury[0])).toBe('Mercury stations retrograde in Scorpio');
+    expect(events.every(event => event.type !== AstroEventType.INGRESS)).toBe(true);
+  });
+
+  test('should find ingresses in time order within the range', () => {
+    const start = '2026-01-01T00:00:00Z';
+    const end = '2026-04-01T00:00:00Z';
+    const ingresses = findAstroEvents(jd(start), jd(end), [AstroEventType.INGRESS]);
+    const sun = ingresses.filter(event => event.planet === 'sun');
+
+    expect(sun.map(event => event.sign)).toEqual(['aquarius', 'pisces', 'aries']);
+    expect(minutesBetween(sun[2].time, '2026-03-20T14:46:00Z')).toBeLessThan(10);
+    ingresses.forEach((event, i) => {
+      expect(event.time >= start && event.time < end).toBe(true);
+      if (i > 0) {
+        expect(event.time >= ingresses[i - 1].time).toBe(true);
+      }
+    });
+  });
+});
@@ -0,0 +1,92 @@
+import { calculateNatalChart } from '../../utils/chart-calculator';
+import { angleDifference, Planet } from '../../utils/ephemeris';
+import {
+  AstroLineAngle,
+  calculateAstrocartography,
+  calculateRelocatedChart,
+  findRelocationCities,
+  RelocationTheme,
+  THEME_LINES,
+} from '../../utils/astrocartography';
+
+const BIRTH = { date: '1990-07-15', time: '14:30', latitude: 51.5, longitude: -0.12, utcOffset: 60, locationName: 'London' };
+
+describe('Astrocartography', () => {
+  const map = calculateAstrocartography(BIRTH);
+  const line = (planet: Planet, angle: AstroLineAngle) =>
+    map.features.find(feature => feature.properties.planet === planet && feature.properties.angle === angle)!;
+  // Longitude of a line at a latitude it crosses
+  const longitudeAt = (planet: Planet, angle: AstroLineAngle, latitude: number) =>
+    line(planet, angle).geometry.coordinates.flat().find(([, lat]) => lat === latitude)![0];
+
+  test('should keep the planets and move the angles of a relocated chart', () => {
+    const relocated = calculateRelocatedChart(BIRTH, { latitude: 40.71, longitude: -74, locationName: 'New York' });
+    const natal = calculateNatalChart(BIRTH);
+
+    expect(relocated.chart.planets[Planet.SUN].longitude).toBeCloseTo(natal.planets[Planet.SUN].longitude, 6);
+    expect(relocated.chart.planets[Planet.MOON].longitude).toBeCloseTo(natal.planets[Planet.MOON].longitude, 6);
+    expect(Math.abs(angleDifference(relocated.chart.houses.midheaven, natal.houses.midheaven))).toBeGreaterThan(50);
+    relocated.angularPlanets.forEach(angular => expect(angular.orb).toBeLessThanOrEqual(5));
+  });
+
+  test('should put the planet on the angle of a chart cast on its line', () => {
+    const midheaven = calculateRelocatedChart(BIRTH, {
+      latitude: 30,
+      longitude: longitudeAt(Planet.SUN, AstroLineAngle.MIDHEAVEN, 30),
+    });
+    const ascendant = calculateRelocatedChart(BIRTH, {
+      latitude: 30,
+      longitude: longitudeAt(Planet.SUN, AstroLineAngle.ASCENDANT, 30),
+    });
+    const sun = midheaven.chart.planets[Planet.SUN].longitude;
+
+    expect(Math.abs(angleDifference(midheaven.chart.houses.midheaven, sun))).toBeLessThan(0.01);
+    expect(Math.abs(angleDifference(ascendant.chart.houses.ascendant, sun))).toBeLessThan(0.01);
+    expect(midheaven.angularPlanets[0]).toMatchObject({ planet: Planet.SUN, angle: AstroLineAngle.MIDHEAVEN });
+  });
+
+  test('should draw four lines per planet as GeoJSON', () => {
+    expect(map.type).toBe('FeatureCollection');
+    expect(map.features).toHaveLength(40);
+
+    map.features.forEach(feature => {
+      expect(feature.geometry.coordinates.length).toBeGreaterThan(0);
+      feature.geometry.coordinates.flat().forEach(([longitude, latitude]) => {
+        expect(Math.abs(longitude)).toBeLessThanOrEqual(180);
+        expect(Math.abs(latitude)).toBeLessThanOrEqual(75);
+      });
+    });
+
+    // MC and IC lines run along opposite meridians
+    const mc = longitudeAt(Planet.VENUS, AstroLineAngle.MIDHEAVEN, 0);
+    const ic = longitudeAt(Planet.VENUS, AstroLineAngle.IMUM_COELI, 0);
+    expect(Math.abs(angleDifference(mc, ic))).toBeCloseTo(180, 1);
+    expect(longitudeAt(Planet.VENUS, AstroLineAngle.MIDHEAVEN, 60)).toBe(mc);
+  });
+
+  test('should list the closest cities to the lines of each theme', () => {
+    const themes = findRelocationCities(BIRTH, [RelocationTheme.LOVE, RelocationTheme.CAREER], 3);
+
+    expect(themes.map(theme => theme.theme)).toEqual([RelocationTheme.LOVE, RelocationTheme.CAREER]);
+    themes.forEach(({ theme, cities }) => {
+      expect(cities.length).toBeGreaterThan(0);
+      expect(cities.length).toBeLessThanOrEqual(3);
+      expect(cities.map(city => city.distance)).toEqual([...cities.map(city => city.distance)].sort((a, b) => a - b));
+      cities.forEach(city => {
+        expect(city.distance).toBeLessThanOrEqual(700);
+        expect(THEME_LINES[theme].some(({ planet, angles }) => planet === city.planet && angles.includes(city.angle)))
+          .toBe(true);
+      });
+    });
+  });
+
+  test('should only search the given cities', () => {
+    const onLine = { name: 'On the line', country: 'XX', latitude: 10, longitude: longitudeAt(Planet.VENUS, AstroLineAngle.MIDHEAVEN, 10) };
+    const farAway = { ...onLine, name: 'Far away', longitude: onLine.longitude > 0 ? onLine.longitude - 45 : onLine.longitude + 45 };
+    const [love] = findRelocationCities(BIRTH, [RelocationTheme.LOVE], 5, [onLine, farAway]);
+
+    expect(love.cities).toHaveLength(1);
+    expect(love.cities[0]).toMatchObject({ name: 'On the line', planet: Planet.VENUS, angle: AstroLineAngle.MIDHEAVEN });
+    expect(love.cities[0].distance).toBeLessThan(1);
+  });
+});
@@ -0,0 +1,98 @@
+import { calculateNatalChart, getSunSign } from '../../utils/chart-calculator';
+import { angleDifference, julianDayFromDateTime, Planet } from '../../utils/ephemeris';
+import { calculateHouses, HouseSystem } from '../../utils/houses';
+import { Ayanamsa, calculateAyanamsa, ZodiacType } from '../../utils/zodiac';
+import { ZodiacSign } from '../../types';
+
+const LONDON = { date: '1990-07-15', time: '14:30', latitude: 51.5, longitude: -0.12, utcOffset: 60 };
+
+const span = (from: number, to: number): number => (to - from + 360) % 360;
+
+describe('Chart calculator', () => {
+  describe('house systems', () => {
+    const jd = julianDayFromDateTime(LONDON.date, LONDON.time, LONDON.utcOffset);
+
+    test('should calculate every house system in zodiacal order', () => {
+      Object.values(HouseSystem).forEach(system => {
+        const houses = calculateHouses(jd, LONDON.latitude, LONDON.longitude, system);
+        expect(houses.system).toBe(system);
+        expect(houses.cusps).toHaveLength(12);
+
+        const total = houses.cusps.reduce((sum, cusp, i) => sum + span(cusp, houses.cusps[(i + 1) % 12]), 0);
+        expect(total).toBeCloseTo(360, 6);
+      });
+    });
+
+    test('should share the angles between Placidus and Koch', () => {
+      const placidus = calculateHouses(jd, LONDON.latitude, LONDON.longitude, HouseSystem.PLACIDUS);
+      const koch = calculateHouses(jd, LONDON.latitude, LONDON.longitude, HouseSystem.KOCH);
+
+      expect(koch.cusps[0]).toBeCloseTo(placidus.cusps[0], 8);
+      expect(koch.cusps[9]).toBeCloseTo(placidus.cusps[9], 8);
+      expect(Math.abs(angleDifference(koch.cusps[10], placidus.cusps[10]))).toBeGreaterThan(0.01);
+    });
+
+    test('should space Equal and Whole Sign cusps 30° apart', () => {
+      const equal = calculateHouses(jd, LONDON.latitude, LONDON.longitude, HouseSystem.EQUAL);
+      const wholeSign = calculateHouses(jd, LONDON.latitude, LONDON.longitude, HouseSystem.WHOLE_SIGN);
+
+      expect(equal.cusps[0]).toBeCloseTo(equal.ascendant, 8);
+      expect(span(equal.cusps[0], equal.cusps[1])).toBeCloseTo(30, 8);
+      expect(wholeSign.cusps[0] % 30).toBeCloseTo(0, 8);
+      expect(Math.floor(wholeSign.ascendant / 30) * 30).toBeCloseTo(wholeSign.cusps[0], 8);
+    });
+  });
+
+  describe('zodiac', () => {
+    test('should match the Lahiri ayanamsa at J2000', () => {
+      // 23°51'26" including nutation on 2000-01-01
+      expect(calculateAyanamsa(2451545.0, Ayanamsa.LAHIRI)).toBeCloseTo(23.857, 2);
+    });
+
+    test('should order the Raman, Krishnamurti and Lahiri ayanamsas', () => {
+      const jd = 2451545.0;
+      const raman = calculateAyanamsa(jd, Ayanamsa.RAMAN);
+      const krishnamurti = calculateAyanamsa(jd, Ayanamsa.KRISHNAMURTI);
+
+      // Raman is about 1°27' and Krishnamurti about 6' behind Lahiri
+      expect(raman).toBeCloseTo(22.41, 1);
+      expect(krishnamurti).toBeCloseTo(23.76, 1);
+      expect(calculateAyanamsa(jd, Ayanamsa.LAHIRI) - krishnamurti).toBeCloseTo(0.097, 2);
+    });
+
+    test('should read the Sun sign in the requested zodiac', () => {
+      const birth = { date: '1990-04-10', time: '09:00', timezone: 'Europe/London' };
+
+      expect(getSunSign(birth)).toBe(ZodiacSign.ARIES);
+      expect(getSunSign(birth, { zodiacType: ZodiacType.SIDEREAL })).toBe(ZodiacSign.PISCES);
+      expect(getSunSign(birth, { zodiacType: ZodiacType.TROPICAL, ayanamsa: Ayanamsa.RAMAN })).toBe(ZodiacSign.ARIES);
+    });
+
+    test('should shift planets and cusps by the ayanamsa in sidereal charts', () => {
+      const tropical = calculateNatalChart(LONDON);
+      const sidereal = calculateNatalChart(LONDON, { zodiacType: ZodiacType.SIDEREAL });
+      const offset = sidereal.zodiac.offset;
+
+      expect(tropical.zodiac).toEqual({ type: ZodiacType.TROPICAL, offset: 0 });
+      expect(sidereal.zodiac.ayanamsa).toBe(Ayanamsa.LAHIRI);
+      expect(offset).toBeGreaterThan(23.5);
+      expect(offset).toBeLessThan(24);
+
+      // The Sun was in tropical Cancer and sidereal Gemini
+      expect(tropical.planets[Planet.SUN].sign).toBe(ZodiacSign.CANCER);
+      expect(sidereal.planets[Planet.SUN].sign).toBe(ZodiacSign.GEMINI);
+      expect(angleDifference(sidereal.planets[Planet.MOON].longitude, tropical.planets[Planet.MOON].longitude))
+        .toBeCloseTo(offset, 8);
+      expect(angleDifference(sidereal.houses.cusps[4], tropical.houses.cusps[4])).toBeCloseTo(offset, 8);
+      expect(sidereal.aspects).toEqual(tropical.aspects);
+    });
+  });
+
+  test('should count the ten planets in the element and modality balance', () => {
+    const { balance } = calculateNatalChart(LONDON, { houseSystem: HouseSystem.WHOLE_SIGN });
+    const sum = (counts: Record<string, number>) => Object.values(counts).reduce((a, b) => a + b, 0);
+
+    expect(sum(balance.elements)).toBe(10);
+    expect(sum(balance.modalities)).toBe(10);
+  });
+});
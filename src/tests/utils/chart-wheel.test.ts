@@ -0,0 +1,77 @@
+import {
+  buildChartWheel,
+  GlyphStyle,
+  renderChartWheelSvg,
+  spreadLongitudes,
+  WheelChart,
+} from '../../utils/chart-wheel';
+import { angleDifference } from '../../utils/ephemeris';
+
+const gaps = (longitudes: number[]): number[] => {
+  const sorted = [...longitudes].sort((a, b) => a - b);
+  return sorted.map((longitude, i) => (i === sorted.length - 1 ? sorted[0] + 360 : sorted[i + 1]) - longitude);
+};
+
+const CHART: WheelChart = {
+  planets: [
+    { planet: 'sun', longitude: 112.5 },
+    { planet: 'mercury', longitude: 113.1, retrograde: true },
+    { planet: 'venus', longitude: 114.0 },
+    { planet: 'moon', longitude: 300.2 },
+  ],
+  cusps: [210, 238, 270, 305, 338, 7, 30, 58, 90, 125, 158, 187],
+  aspects: [
+    { planet1: 'sun', planet2: 'moon', aspect: 'opposition' },
+    { planet1: 'sun', planet2: 'mercury', aspect: 'conjunction' },
+  ],
+};
+
+describe('Chart wheel', () => {
+  test('should spread crowded longitudes to the minimum separation', () => {
+    const display = spreadLongitudes([112.5, 113.1, 114.0, 300], 6);
+
+    gaps(display).forEach(gap => expect(gap).toBeGreaterThanOrEqual(6 - 1e-3));
+    expect(display[3]).toBeCloseTo(300, 6);
+    // The cluster stays centred on its true position
+    expect((display[0] + display[1] + display[2]) / 3).toBeCloseTo((112.5 + 113.1 + 114.0) / 3, 3);
+  });
+
+  test('should spread longitudes across 0° Aries', () => {
+    const display = spreadLongitudes([359, 0.5, 1], 5);
+
+    gaps(display).forEach(gap => expect(gap).toBeGreaterThanOrEqual(5 - 1e-3));
+    display.forEach((longitude, i) => {
+      expect(Math.abs(angleDifference([359, 0.5, 1][i], longitude))).toBeLessThan(6);
+    });
+  });
+
+  test('should put the ascendant on the left', () => {
+    const { size, shapes } = buildChartWheel(CHART, { size: 400 });
+    const ascendantAxis = shapes.find(shape => shape.type === 'line' && shape.width === 1.5);
+
+    expect(size).toBe(400);
+    expect(ascendantAxis).toMatchObject({ y1: 200, y2: 200 });
+  });
+
+  test('should draw aspect lines except for conjunctions', () => {
+    const { shapes } = buildChartWheel(CHART);
+    const aspectLines = shapes.filter(shape => shape.type === 'line' && shape.stroke === '#d8462f');
+
+    expect(aspectLines).toHaveLength(1);
+    expect(shapes.filter(shape => shape.type === 'line' && shape.stroke === '#2f7ed8')).toHaveLength(0);
+  });
+
+  test('should render symbols in SVG and abbreviations on request', () => {
+    const svg = renderChartWheelSvg(CHART);
+
+    expect(svg).toMatch(/^<svg xmlns="http:\/\/www.w3.org\/2000\/svg"/);
+    expect(svg).toContain('☉');
+    expect(svg).toContain('℞');
+    expect(svg.trim().endsWith('</svg>')).toBe(true);
+
+    const texts = buildChartWheel(CHART, { glyphs: GlyphStyle.ABBREVIATIONS }).shapes
+      .filter(shape => shape.type === 'text')
+      .map(shape => (shape.type === 'text' ? shape.text : ''));
+    expect(texts).toEqual(expect.arrayContaining(['Su', 'Me', 'R', 'Ari', '12']));
+  });
+});
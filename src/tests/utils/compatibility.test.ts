@@ -0,0 +1,75 @@
+import { ZodiacSign } from '../../types';
+import { Planet, PlanetPosition } from '../../utils/ephemeris';
+import { AspectType } from '../../utils/aspects';
+import {
+  calculateSignCompatibility,
+  calculateSynastry,
+  CompatibilityCategory,
+  ElementRelation,
+  ModalityRelation,
+} from '../../utils/compatibility';
+import { calculateNatalChart } from '../../utils/chart-calculator';
+
+// Chart with the given planets, and the others bunched from a degree chosen
+// so that they make no contacts with the other chart
+const chartWith = (longitudes: Partial<Record<Planet, number>>, others: number): Record<Planet, PlanetPosition> => {
+  const planets = {} as Record<Planet, PlanetPosition>;
+  Object.values(Planet).forEach((planet, i) => {
+    const longitude = longitudes[planet] ?? others + i * 0.3;
+    planets[planet] = {
+      planet,
+      longitude,
+      latitude: 0,
+      speed: 1,
+      retrograde: false,
+      sign: Object.values(ZodiacSign)[Math.floor(longitude / 30)],
+      signDegree: longitude % 30,
+    };
+  });
+  return planets;
+};
+
+describe('Compatibility', () => {
+  test('should score signs by element and modality', () => {
+    const trine = calculateSignCompatibility(ZodiacSign.ARIES, ZodiacSign.LEO);
+    const sextile = calculateSignCompatibility(ZodiacSign.ARIES, ZodiacSign.GEMINI);
+    const square = calculateSignCompatibility(ZodiacSign.ARIES, ZodiacSign.CANCER);
+
+    expect(trine).toMatchObject({ element: ElementRelation.SAME, modality: ModalityRelation.DIFFERENT });
+    expect(sextile.element).toBe(ElementRelation.COMPLEMENTARY);
+    expect(square).toMatchObject({ element: ElementRelation.CHALLENGING, modality: ModalityRelation.SAME });
+    expect(trine.score).toBeGreaterThan(sextile.score);
+    expect(sextile.score).toBeGreaterThan(square.score);
+    expect(calculateSignCompatibility(ZodiacSign.LEO, ZodiacSign.ARIES).score).toBe(trine.score);
+    expect(trine.description).toMatch(/^Aries and Leo /);
+  });
+
+  test('should raise a category for harmonious contacts and lower it for hard ones', () => {
+    const venusTrineMars = calculateSynastry(chartWith({ [Planet.VENUS]: 10 }, 175), chartWith({ [Planet.MARS]: 130 }, 220));
+    const venusSquareMars = calculateSynastry(chartWith({ [Planet.VENUS]: 10 }, 175), chartWith({ [Planet.MARS]: 100 }, 220));
+    const love = venusTrineMars.categories[CompatibilityCategory.LOVE];
+
+    expect(love.score).toBeGreaterThan(50);
+    expect(love.contacts).toEqual([
+      expect.objectContaining({ planet1: Planet.VENUS, planet2: Planet.MARS, aspect: AspectType.TRINE }),
+    ]);
+    expect(venusSquareMars.categories[CompatibilityCategory.LOVE].score).toBeLessThan(50);
+    // Categories without contacts stay neutral
+    expect(venusTrineMars.categories[CompatibilityCategory.COMMUNICATION]).toEqual({ score: 50, contacts: [] });
+  });
+
+  test('should score two natal charts in every category', () => {
+    const chart1 = calculateNatalChart({ date: '1990-07-15', time: '14:30', latitude: 51.5, longitude: -0.12, utcOffset: 60 });
+    const chart2 = calculateNatalChart({ date: '1992-03-02', time: '08:10', latitude: 40.7, longitude: -74, utcOffset: -300 });
+    const score = calculateSynastry(chart1.planets, chart2.planets);
+
+    expect(score.sunSigns).toMatchObject({ sign1: ZodiacSign.CANCER, sign2: ZodiacSign.PISCES });
+    Object.values(CompatibilityCategory).forEach(category => {
+      expect(score.categories[category].score).toBeGreaterThanOrEqual(0);
+      expect(score.categories[category].score).toBeLessThanOrEqual(100);
+    });
+    expect(score.overall).toBeGreaterThanOrEqual(0);
+    expect(score.overall).toBeLessThanOrEqual(100);
+    expect(score.aspects.length).toBeGreaterThan(0);
+  });
+});
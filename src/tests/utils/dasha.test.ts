@@ -0,0 +1,75 @@
+import {
+  calculateDashaForBirth,
+  calculateVimshottariDasha,
+  DashaLevel,
+  DashaLord,
+  findActiveDasha,
+  getNakshatra,
+} from '../../utils/dasha';
+import { Ayanamsa } from '../../utils/zodiac';
+
+const YEAR_MS = 365.25 * 86400000;
+const BIRTH = new Date('1990-07-15T13:30:00Z');
+
+describe('Vimshottari dasha', () => {
+  test('should find the nakshatra, pada and lord of a longitude', () => {
+    expect(getNakshatra(0)).toMatchObject({ index: 0, name: 'Ashwini', pada: 1, lord: DashaLord.KETU });
+    // 10° is three quarters through Ashwini (13°20')
+    expect(getNakshatra(10)).toMatchObject({ name: 'Ashwini', pada: 4, elapsed: 0.75 });
+    expect(getNakshatra(45)).toMatchObject({ name: 'Rohini', lord: DashaLord.MOON });
+    expect(getNakshatra(359.9)).toMatchObject({ name: 'Revati', lord: DashaLord.MERCURY });
+  });
+
+  test('should start the cycle with the full period at the start of a nakshatra', () => {
+    const timeline = calculateVimshottariDasha(0, BIRTH, 1);
+
+    expect(timeline.periods.map(period => period.lord)).toEqual(Object.values(DashaLord));
+    expect(timeline.periods[0].startDate).toBe(BIRTH.toISOString());
+    expect(timeline.balance).toEqual({ lord: DashaLord.KETU, years: 7 });
+    expect(timeline.periods[0].periods).toBeUndefined();
+  });
+
+  test('should count the elapsed part of the nakshatra before birth', () => {
+    // Halfway through Rohini, so half of the 10-year Moon period remains
+    const timeline = calculateVimshottariDasha(40 + 20 / 3, BIRTH, 1);
+
+    expect(timeline.balance.lord).toBe(DashaLord.MOON);
+    expect(timeline.balance.years).toBeCloseTo(5, 9);
+    expect(Date.parse(timeline.periods[0].endDate) - BIRTH.getTime()).toBeCloseTo(5 * YEAR_MS, -3);
+    expect(timeline.periods[1].lord).toBe(DashaLord.MARS);
+  });
+
+  test('should divide periods into contiguous sub-periods in proportion', () => {
+    const timeline = calculateVimshottariDasha(123.4, BIRTH);
+
+    timeline.periods.forEach(mahadasha => {
+      const antardashas = mahadasha.periods!;
+      expect(antardashas).toHaveLength(9);
+      expect(antardashas[0].lord).toBe(mahadasha.lord);
+      expect(antardashas[0].startDate).toBe(mahadasha.startDate);
+      expect(antardashas.reduce((sum, period) => sum + period.years, 0)).toBeCloseTo(mahadasha.years, 9);
+
+      antardashas.forEach((antardasha, i) => {
+        expect(antardasha.level).toBe(DashaLevel.ANTARDASHA);
+        expect(antardasha.periods).toHaveLength(9);
+        if (i > 0) {
+          expect(Math.abs(Date.parse(antardasha.startDate) - Date.parse(antardashas[i - 1].endDate))).toBeLessThanOrEqual(1);
+        }
+      });
+    });
+  });
+
+  test('should find the periods running at a moment', () => {
+    const timeline = calculateDashaForBirth({ date: '1990-07-15', time: '14:30', utcOffset: 60 }, Ayanamsa.LAHIRI);
+    const instant = new Date('2026-10-18T12:00:00Z');
+    const active = findActiveDasha(timeline, instant)!;
+
+    [active.mahadasha, active.antardasha!, active.pratyantardasha!].forEach(period => {
+      expect(Date.parse(period.startDate)).toBeLessThanOrEqual(instant.getTime());
+      expect(Date.parse(period.endDate)).toBeGreaterThan(instant.getTime());
+      expect(period.periods).toBeUndefined();
+    });
+    expect(active.pratyantardasha!.level).toBe(DashaLevel.PRATYANTARDASHA);
+    expect(findActiveDasha(timeline, new Date('1900-01-01T00:00:00Z'))).toBeNull();
+  });
+});
@@ -0,0 +1,77 @@
+import { julianDayFromDateTime, Planet } from '../../utils/ephemeris';
+import {
+  ElectionEventType,
+  ElectionExclusionReason,
+  findElectionExclusions,
+  scoreElection,
+  searchElections,
+} from '../../utils/elections';
+import { getNatalPoints } from '../../utils/transits';
+import { Dignity, getDignity } from '../../utils/zodiac';
+import { ZodiacSign } from '../../types';
+
+const NEW_YORK = { latitude: 40.71, longitude: -74, timezone: 'America/New_York' };
+const FOUNDER = getNatalPoints({ date: '1985-03-10', time: '09:00', utcOffset: 0 }, { latitude: 51.5, longitude: 0 });
+
+describe('Elections', () => {
+  test('should read dignities from the traditional rulers and exaltations', () => {
+    expect(getDignity(Planet.VENUS, ZodiacSign.LIBRA)).toBe(Dignity.DOMICILE);
+    expect(getDignity(Planet.JUPITER, ZodiacSign.CANCER)).toBe(Dignity.EXALTATION);
+    expect(getDignity(Planet.MARS, ZodiacSign.LIBRA)).toBe(Dignity.DETRIMENT);
+    expect(getDignity(Planet.SATURN, ZodiacSign.ARIES)).toBe(Dignity.FALL);
+    expect(getDignity(Planet.SUN, ZodiacSign.GEMINI)).toBeNull();
+  });
+
+  test('should explain every point of a score', () => {
+    const jd = julianDayFromDateTime('2026-11-16', '15:00', -300);
+    const scored = scoreElection(jd, NEW_YORK.latitude, NEW_YORK.longitude, ElectionEventType.CONTRACT, [FOUNDER]);
+    const total = scored.reasons.reduce((sum, reason) => sum + reason.effect, 50);
+
+    expect(scored.score).toBe(Math.max(0, Math.min(100, Math.round(total))));
+    expect(scored.reasons.length).toBeGreaterThan(0);
+  });
+
+  test('should rule out Mercury retrograde until its direct station', () => {
+    const exclusions = findElectionExclusions(
+      julianDayFromDateTime('2026-11-01', '00:00'),
+      julianDayFromDateTime('2026-11-30', '00:00')
+    );
+    const retrograde = exclusions.filter(exclusion => exclusion.reason === ElectionExclusionReason.MERCURY_RETROGRADE);
+
+    expect(retrograde).toHaveLength(1);
+    expect(retrograde[0].end.startsWith('2026-11-13')).toBe(true);
+    expect(exclusions.some(exclusion => exclusion.reason === ElectionExclusionReason.VOID_OF_COURSE)).toBe(true);
+    expect([...exclusions].sort((a, b) => a.start.localeCompare(b.start))).toEqual(exclusions);
+  });
+
+  test('should rank working-hour windows that avoid every exclusion', () => {
+    const search = searchElections({
+      ...NEW_YORK,
+      eventType: ElectionEventType.CONTRACT,
+      startDate: '2026-11-01',
+      endDate: '2026-11-30',
+      fromHour: 9,
+      toHour: 17,
+      founders: [FOUNDER],
+      limit: 3,
+    });
+
+    expect(search.windows).toHaveLength(3);
+    search.windows.forEach((window, index) => {
+      expect(window.score).toBeGreaterThanOrEqual(60);
+      if (index > 0) {
+        expect(window.score).toBeLessThanOrEqual(search.windows[index - 1].score);
+      }
+      expect(window.best >= window.start && window.best < window.end).toBe(true);
+      search.exclusions.forEach(exclusion => {
+        expect(exclusion.start >= window.end || exclusion.end <= window.start).toBe(true);
+      });
+
+      // 9:00 to 17:00 in New York, UTC-5 in November
+      const startHour = new Date(window.start).getUTCHours();
+      const endHour = new Date(window.end).getUTCHours();
+      expect(startHour).toBeGreaterThanOrEqual(14);
+      expect(endHour).toBeLessThanOrEqual(22);
+    });
+  });
+});
@@ -0,0 +1,170 @@
+import {
+  angleDifference,
+  calculateAngles,
+  calculatePlanetPosition,
+  calculatePlanetPositions,
+  deltaT,
+  julianDayFromDateTime,
+  longitudeToSign,
+  meanLunarNode,
+  Planet,
+  toJulianDay,
+} from '../../utils/ephemeris';
+import { calculateHouses, findHouse } from '../../utils/houses';
+import { ZodiacSign } from '../../types';
+
+// One arc-minute in degrees
+const ARC_MINUTE = 1 / 60;
+
+const expectLongitude = (actual: number, expected: number, tolerance = ARC_MINUTE) => {
+  expect(Math.abs(angleDifference(expected, actual))).toBeLessThanOrEqual(tolerance);
+};
+
+// Apparent geocentric longitudes (true equinox of date) from a high-precision
+// VSOP87/ELP ephemeris, rounded to 0.001°
+const REFERENCE_POSITIONS: Record<string, Partial<Record<Planet, number>>> = {
+  '2000-01-01T12:00:00Z': {
+    [Planet.SUN]: 280.369, [Planet.MOON]: 223.324, [Planet.MERCURY]: 271.889,
+    [Planet.VENUS]: 241.565, [Planet.MARS]: 327.964, [Planet.JUPITER]: 25.254,
+    [Planet.SATURN]: 40.396, [Planet.URANUS]: 314.806, [Planet.NEPTUNE]: 303.195,
+    [Planet.PLUTO]: 251.455,
+  },
+  '1985-03-21T06:30:00Z': {
+    [Planet.SUN]: 0.591, [Planet.MOON]: 358.089, [Planet.MERCURY]: 17.842,
+    [Planet.VENUS]: 21.141, [Planet.MARS]: 34.391, [Planet.JUPITER]: 309.027,
+    [Planet.SATURN]: 237.968, [Planet.URANUS]: 257.984, [Planet.NEPTUNE]: 273.553,
+    [Planet.PLUTO]: 214.234,
+  },
+  '2024-04-08T18:00:00Z': {
+    [Planet.SUN]: 19.386, [Planet.MOON]: 19.183, [Planet.MERCURY]: 24.805,
+    [Planet.VENUS]: 4.427, [Planet.MARS]: 343.04, [Planet.JUPITER]: 49.042,
+    [Planet.SATURN]: 344.452, [Planet.URANUS]: 51.17, [Planet.NEPTUNE]: 358.193,
+    [Planet.PLUTO]: 301.967,
+  },
+};
+
+describe('Ephemeris', () => {
+  describe('time conversion', () => {
+    test('should convert dates to Julian Days', () => {
+      expect(toJulianDay(new Date('2000-01-01T12:00:00Z'))).toBeCloseTo(2451545.0, 6);
+      // Meeus example 7.a: 1957 October 4.81 UT
+      expect(toJulianDay(new Date(Date.UTC(1957, 9, 4, 19, 26, 24)))).toBeCloseTo(2436116.31, 6);
+    });
+
+    test('should apply the UTC offset of the clock time', () => {
+      const utc = julianDayFromDateTime('1990-07-15', '14:30');
+      const newYork = julianDayFromDateTime('1990-07-15', '10:30', -240);
+      expect(newYork).toBeCloseTo(utc, 8);
+    });
+
+    test('should reject malformed dates', () => {
+      expect(() => julianDayFromDateTime('not-a-date', '12:00')).toThrow();
+    });
+
+    test('should estimate delta T', () => {
+      expect(deltaT(2000)).toBeCloseTo(63.9, 0);
+      expect(deltaT(1950)).toBeCloseTo(29.1, 0);
+    });
+  });
+
+  describe('planet positions', () => {
+    Object.entries(REFERENCE_POSITIONS).forEach(([instant, expected]) => {
+      test(`should match reference positions within an arc-minute at ${instant}`, () => {
+        const positions = calculatePlanetPositions(toJulianDay(new Date(instant)));
+
+        Object.entries(expected).forEach(([planet, longitude]) => {
+          expectLongitude(positions[planet as Planet].longitude, longitude as number);
+        });
+      });
+    });
+
+    test('should match the Moon in Meeus example 47.a', () => {
+      // 1992 April 12, 0h TD: apparent longitude 133.167265°
+      const jdTt = 2448724.5;
+      const jdUt = jdTt - deltaT(1992.28) / 86400;
+      expectLongitude(calculatePlanetPosition(Planet.MOON, jdUt).longitude, 133.167265, 10 / 3600);
+    });
+
+    test('should flag retrograde motion', () => {
+      // Mercury was retrograde from 1 to 25 April 2024
+      const jd = toJulianDay(new Date('2024-04-08T18:00:00Z'));
+      expect(calculatePlanetPosition(Planet.MERCURY, jd).retrograde).toBe(true);
+      expect(calculatePlanetPosition(Planet.SUN, jd).retrograde).toBe(false);
+      expect(calculatePlanetPosition(Planet.MOON, jd).speed).toBeGreaterThan(11);
+    });
+
+    test('should keep the lunar nodes opposite each other', () => {
+      const positions = calculatePlanetPositions(toJulianDay(new Date('2000-01-01T12:00:00Z')));
+      // The true node oscillates within about 1.7° of the mean node
+      expect(meanLunarNode(2451545.0)).toBeCloseTo(125.0445, 4);
+      expectLongitude(positions[Planet.NORTH_NODE].longitude, 125.04, 1.7);
+      expect(Math.abs(angleDifference(
+        positions[Planet.NORTH_NODE].longitude,
+        positions[Planet.SOUTH_NODE].longitude
+      ))).toBeCloseTo(180, 6);
+    });
+  });
+
+  describe('zodiac signs', () => {
+    test('should map longitudes to signs', () => {
+      expect(longitudeToSign(0)).toEqual({ sign: ZodiacSign.ARIES, signDegree: 0 });
+      expect(longitudeToSign(280.369).sign).toBe(ZodiacSign.CAPRICORN);
+      expect(longitudeToSign(-15).sign).toBe(ZodiacSign.PISCES);
+      expect(longitudeToSign(359.99).sign).toBe(ZodiacSign.PISCES);
+    });
+  });
+
+  describe('angles and houses', () => {
+    test('should put the Cancer point on the ascendant when 0° Aries culminates at the equator', () => {
+      // Find the moment when sidereal time at Greenwich is 0h on 2000-03-20
+      const base = julianDayFromDateTime('2000-03-20', '00:00');
+      const { armc } = calculateAngles(base, 0, 0);
+      const jd = base + (360 - armc) / 360.985647;
+      const angles = calculateAngles(jd, 0, 0);
+
+      expectLongitude(angles.midheaven, 0, 0.01);
+      expectLongitude(angles.ascendant, 90, 0.01);
+    });
+
+    test('should place the ascendant on the eastern horizon', () => {
+      const jd = julianDayFromDateTime('1990-07-15', '14:30');
+      const { ascendant, midheaven } = calculateAngles(jd, 51.5, -0.12);
+      // The ascendant leads the midheaven by less than 180° in zodiacal order
+      const arc = (ascendant - midheaven + 360) % 360;
+      expect(arc).toBeGreaterThan(0);
+      expect(arc).toBeLessThan(180);
+    });
+
+    test('should calculate Placidus cusps in zodiacal order', () => {
+      const jd = julianDayFromDateTime('1990-07-15', '14:30');
+      const houses = calculateHouses(jd, 51.5, -0.12);
+
+      expect(houses.cusps).toHaveLength(12);
+      expect(houses.cusps[0]).toBeCloseTo(houses.ascendant, 8);
+      expect(houses.cusps[9]).toBeCloseTo(houses.midheaven, 8);
+      for (let i = 0; i < 12; i++) {
+        const span = (houses.cusps[(i + 1) % 12] - houses.cusps[i] + 360) % 360;
+        expect(span).toBeGreaterThan(0);
+        expect(span).toBeLessThan(90);
+      }
+    });
+
+    test('should fall back to quadrant trisection inside the polar circle', () => {
+      const jd = julianDayFromDateTime('1990-07-15', '14:30');
+      const houses = calculateHouses(jd, 70, 25);
+      const firstQuadrant = (houses.cusps[3] - houses.cusps[0] + 360) % 360;
+      const secondHouse = (houses.cusps[1] - houses.cusps[0] + 360) % 360;
+      expect(secondHouse).toBeCloseTo(firstQuadrant / 3, 8);
+    });
+
+    test('should find the house containing a longitude', () => {
+      const cusps = [0, 30, 60, 90, 120, 150, 180, 210, 240, 270, 300, 330];
+      expect(findHouse(15, cusps)).toBe(1);
+      expect(findHouse(345, cusps)).toBe(12);
+
+      const wrapping = [350, 20, 50, 80, 110, 140, 170, 200, 230, 260, 290, 320];
+      expect(findHouse(5, wrapping)).toBe(1);
+      expect(findHouse(335, wrapping)).toBe(12);
+    });
+  });
+});
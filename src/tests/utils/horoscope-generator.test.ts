@@ -0,0 +1,57 @@
+import { generateLocalHoroscope, generateLocalPeriodHoroscope } from '../../utils/horoscope-generator';
+import { createSeededRandom } from '../../utils/seeded-random';
+import { HoroscopePeriod, ZodiacSign } from '../../types';
+
+describe('Horoscope generator', () => {
+  test('should produce the same horoscope for the same sign and date', () => {
+    expect(generateLocalHoroscope(ZodiacSign.LEO, '2025-06-01'))
+      .toEqual(generateLocalHoroscope(ZodiacSign.LEO, '2025-06-01'));
+  });
+
+  test('should not use Math.random', () => {
+    const spy = jest.spyOn(Math, 'random');
+    generateLocalHoroscope(ZodiacSign.VIRGO, '2025-06-01');
+    expect(spy).not.toHaveBeenCalled();
+    spy.mockRestore();
+  });
+
+  test('should vary across dates', () => {
+    const dates = ['2025-06-01', '2025-06-02', '2025-06-03', '2025-06-04', '2025-06-05'];
+    const predictions = new Set(dates.map(date => generateLocalHoroscope(ZodiacSign.ARIES, date).prediction));
+    expect(predictions.size).toBeGreaterThan(1);
+  });
+
+  test('should keep attributes within their ranges', () => {
+    const horoscope = generateLocalHoroscope(ZodiacSign.PISCES, '2030-12-31');
+    const luckyNumber = parseInt(horoscope.luckyNumber, 10);
+
+    expect(horoscope.id).toBe('pisces_2030-12-31');
+    expect(luckyNumber).toBeGreaterThanOrEqual(1);
+    expect(luckyNumber).toBeLessThanOrEqual(99);
+    expect(horoscope.luckyTime).toMatch(/^(1[0-2]|[1-9]):[0-5]\d (AM|PM)$/);
+    expect(Object.values(ZodiacSign)).toContain(horoscope.compatibility);
+  });
+
+  test('should generate period horoscopes deterministically', () => {
+    const weekly = generateLocalPeriodHoroscope(HoroscopePeriod.WEEKLY, ZodiacSign.LEO, '2025-W23');
+
+    expect(weekly).toEqual(generateLocalPeriodHoroscope(HoroscopePeriod.WEEKLY, ZodiacSign.LEO, '2025-W23'));
+    expect(weekly.id).toBe('leo_2025-W23');
+    expect(weekly.startDate).toBe('2025-06-02');
+    expect(weekly.endDate).toBe('2025-06-08');
+    expect(`${weekly.prediction} ${weekly.love} ${weekly.career} ${weekly.health}`).not.toMatch(/[{}]/);
+    expect(() => generateLocalPeriodHoroscope(HoroscopePeriod.MONTHLY, ZodiacSign.LEO, '2025-13')).toThrow();
+  });
+
+  test('should generate a fixed sequence from a seed', () => {
+    const first = createSeededRandom('seed');
+    const second = createSeededRandom('seed');
+    const values = Array.from({ length: 5 }, () => first.next());
+
+    expect(values).toEqual(Array.from({ length: 5 }, () => second.next()));
+    values.forEach(value => {
+      expect(value).toBeGreaterThanOrEqual(0);
+      expect(value).toBeLessThan(1);
+    });
+  });
+});
@@ -0,0 +1,36 @@
+import { getIsoWeek, getPeriodKey, getPeriodRange, isValidPeriod } from '../../utils/horoscope-periods';
+import { HoroscopePeriod } from '../../types';
+
+describe('Horoscope periods', () => {
+  test('should compute ISO weeks across year boundaries', () => {
+    expect(getIsoWeek(new Date('2025-06-04T12:00:00Z'))).toBe('2025-W23');
+    // 29 December 2025 is a Monday in week 1 of 2026
+    expect(getIsoWeek(new Date('2025-12-29T00:00:00Z'))).toBe('2026-W01');
+    // 1 January 2021 is a Friday in the last week of 2020
+    expect(getIsoWeek(new Date('2021-01-01T00:00:00Z'))).toBe('2020-W53');
+  });
+
+  test('should build period keys from a date', () => {
+    const date = new Date('2025-06-04T12:00:00Z');
+    expect(getPeriodKey(HoroscopePeriod.WEEKLY, date)).toBe('2025-W23');
+    expect(getPeriodKey(HoroscopePeriod.MONTHLY, date)).toBe('2025-06');
+    expect(getPeriodKey(HoroscopePeriod.YEARLY, date)).toBe('2025');
+  });
+
+  test('should return the dates covered by a period', () => {
+    expect(getPeriodRange(HoroscopePeriod.WEEKLY, '2026-W01'))
+      .toEqual({ startDate: '2025-12-29', endDate: '2026-01-04' });
+    expect(getPeriodRange(HoroscopePeriod.MONTHLY, '2024-02'))
+      .toEqual({ startDate: '2024-02-01', endDate: '2024-02-29' });
+    expect(getPeriodRange(HoroscopePeriod.YEARLY, '2025'))
+      .toEqual({ startDate: '2025-01-01', endDate: '2025-12-31' });
+  });
+
+  test('should reject malformed and non-existent periods', () => {
+    expect(isValidPeriod(HoroscopePeriod.WEEKLY, '2020-W53')).toBe(true);
+    expect(isValidPeriod(HoroscopePeriod.WEEKLY, '2025-W53')).toBe(false);
+    expect(isValidPeriod(HoroscopePeriod.WEEKLY, '2025-23')).toBe(false);
+    expect(isValidPeriod(HoroscopePeriod.MONTHLY, '2025-13')).toBe(false);
+    expect(isValidPeriod(HoroscopePeriod.YEARLY, '25')).toBe(false);
+  });
+});
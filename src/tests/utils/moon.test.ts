@@ -0,0 +1,76 @@
+import {
+  calculateMoonCalendar,
+  calculateMoonPhase,
+  findMoonIngresses,
+  findMoonPhases,
+  findVoidOfCourse,
+  MoonPhase,
+} from '../../utils/moon';
+import { toJulianDay } from '../../utils/ephemeris';
+
+const jd = (iso: string) => toJulianDay(new Date(iso));
+const minutesBetween = (a: string, b: string) => Math.abs(Date.parse(a) - Date.parse(b)) / 60000;
+
+describe('Moon', () => {
+  test('should find exact new and full moons', () => {
+    const phases = findMoonPhases(jd('2024-04-01T00:00:00Z'), jd('2024-05-01T00:00:00Z'));
+    const newMoon = phases.find(event => event.phase === MoonPhase.NEW_MOON)!;
+    const fullMoon = phases.find(event => event.phase === MoonPhase.FULL_MOON)!;
+
+    // Total solar eclipse of 8 April 2024
+    expect(minutesBetween(newMoon.time, '2024-04-08T18:21:00Z')).toBeLessThan(5);
+    expect(newMoon.sign).toBe('aries');
+    expect(minutesBetween(fullMoon.time, '2024-04-23T23:49:00Z')).toBeLessThan(5);
+    expect(phases.map(event => event.phase)).toEqual([
+      MoonPhase.LAST_QUARTER,
+      MoonPhase.NEW_MOON,
+      MoonPhase.FIRST_QUARTER,
+      MoonPhase.FULL_MOON,
+    ]);
+  });
+
+  test('should calculate illumination from the elongation', () => {
+    expect(calculateMoonPhase(jd('2024-04-08T18:21:00Z')).illumination).toBeLessThan(0.001);
+    expect(calculateMoonPhase(jd('2024-04-23T23:49:00Z')).illumination).toBeGreaterThan(0.99);
+
+    const waxing = calculateMoonPhase(jd('2024-04-12T12:00:00Z'));
+    expect(waxing.phase).toBe(MoonPhase.WAXING_CRESCENT);
+    expect(waxing.illumination).toBeGreaterThan(0.1);
+    expect(waxing.illumination).toBeLessThan(0.4);
+  });
+
+  test('should find sign ingresses in zodiac order', () => {
+    const ingresses = findMoonIngresses(jd('2024-04-01T00:00:00Z'), jd('2024-04-15T00:00:00Z'));
+    const signs = ingresses.map(ingress => ingress.sign);
+
+    expect(ingresses.length).toBeGreaterThanOrEqual(5);
+    expect(signs.slice(0, 4)).toEqual(['capricorn', 'aquarius', 'pisces', 'aries']);
+    expect(minutesBetween(ingresses[3].time, '2024-04-07T11:24:00Z')).toBeLessThan(10);
+  });
+
+  test('should end void-of-course periods at the next ingress', () => {
+    const start = jd('2024-04-01T00:00:00Z');
+    const end = jd('2024-04-15T00:00:00Z');
+    const ingresses = findMoonIngresses(start, end);
+    const periods = findVoidOfCourse(start, end);
+
+    periods.forEach(period => {
+      expect(Date.parse(period.start)).toBeLessThan(Date.parse(period.end));
+      expect(ingresses.map(ingress => ingress.time)).toContain(period.end);
+      // Never longer than the Moon's stay in a sign
+      expect(Date.parse(period.end) - Date.parse(period.start)).toBeLessThan(3 * 86400000);
+    });
+  });
+
+  test('should build a calendar with local day boundaries', () => {
+    const calendar = calculateMoonCalendar('2024-04', 'America/New_York');
+
+    expect(calendar.days).toHaveLength(30);
+    expect(calendar.days[0].date).toBe('2024-04-01');
+    // The last quarter at 03:14 UTC on 2 April is still 1 April in New York
+    expect(calendar.days[0].exactPhase?.phase).toBe(MoonPhase.LAST_QUARTER);
+    expect(calendar.days[7].phase).toBe(MoonPhase.NEW_MOON);
+    expect(calendar.days[22].phase).toBe(MoonPhase.FULL_MOON);
+    expect(calculateMoonCalendar('2024-04', 'UTC').days[1].exactPhase?.phase).toBe(MoonPhase.LAST_QUARTER);
+  });
+});
@@ -0,0 +1,63 @@
+import {
+  calculateExpression,
+  calculateLifePath,
+  calculateNumerology,
+  calculatePersonalCycles,
+  calculateSoulUrge,
+  reduceNumber,
+} from '../../utils/numerology';
+
+describe('Numerology', () => {
+  test('should reduce numbers to one digit and keep master numbers', () => {
+    expect(reduceNumber(1990)).toBe(1);
+    expect(reduceNumber(29)).toBe(11);
+    expect(reduceNumber(29, false)).toBe(2);
+    expect(reduceNumber(22)).toBe(22);
+    expect(reduceNumber(7)).toBe(7);
+  });
+
+  test('should reduce month, day and year separately for the life path', () => {
+    // 7 + (1 + 5) + (1 + 9 + 9 + 0 = 19 = 10 = 1) = 14 = 5
+    expect(calculateLifePath('1990-07-15')).toBe(5);
+    // 7 + 6 + (1 + 9 + 8 + 0 = 18 = 9) = 22 stays a master number
+    expect(calculateLifePath('1980-07-06')).toBe(22);
+  });
+
+  test('should number the letters and vowels of a name', () => {
+    // A D A = 6, L O V E L A C E = 30, 36 = 9
+    expect(calculateExpression('Ada Lovelace')).toBe(9);
+    // A A O E A E = 19 = 10 = 1
+    expect(calculateSoulUrge('Ada Lovelace')).toBe(1);
+    // Accents, case and punctuation do not change the number
+    expect(calculateExpression('ADA lovelacé-')).toBe(9);
+    expect(calculateExpression('123')).toBeUndefined();
+  });
+
+  test('should chain the personal year, month and day', () => {
+    const cycles = calculatePersonalCycles('1990-07-15', '2026-10-18');
+
+    // 7 + 6 + (2026 = 10 = 1) = 14 = 5
+    expect(cycles.personalYear.value).toBe(5);
+    // 5 + 10 = 15 = 6
+    expect(cycles.personalMonth.value).toBe(6);
+    // 6 + 18 = 24 = 6
+    expect(cycles.personalDay.value).toBe(6);
+    expect(cycles.personalDay.keyword).toBeTruthy();
+
+    // Personal cycles never stop at a master number
+    for (let day = 1; day <= 31; day++) {
+      const value = calculatePersonalCycles('1990-07-15', `2026-10-${String(day).padStart(2, '0')}`).personalDay.value;
+      expect(value).toBeGreaterThanOrEqual(1);
+      expect(value).toBeLessThanOrEqual(9);
+    }
+  });
+
+  test('should leave out the name numbers without a name', () => {
+    const numerology = calculateNumerology('1990-07-15', '2026-10-18');
+
+    expect(numerology.lifePath.value).toBe(5);
+    expect(numerology.expression).toBeUndefined();
+    expect(numerology.soulUrge).toBeUndefined();
+    expect(calculateNumerology('1990-07-15', '2026-10-18', 'Ada Lovelace').expression?.value).toBe(9);
+  });
+});
@@ -0,0 +1,66 @@
+import { Planet } from '../../utils/ephemeris';
+import { getNatalPoints } from '../../utils/transits';
+import { generatePersonalReading, ReadingDriverKind, ReadingHouses } from '../../utils/personal-horoscope';
+
+const NATAL_POINTS = getNatalPoints({ date: '1990-07-15', time: '14:30', utcOffset: 60 });
+
+describe('Personal horoscope', () => {
+  test('should open with the Moon sign and close with the active house', () => {
+    const reading = generatePersonalReading('2026-10-18', NATAL_POINTS, { seed: 'user-1' });
+    const first = reading.paragraphs[0];
+    const last = reading.paragraphs[reading.paragraphs.length - 1];
+
+    expect(first.drivers[0]).toMatchObject({ kind: ReadingDriverKind.MOON_SIGN, sign: reading.moonSign });
+    expect(first.text).toContain('Moon in');
+    expect(last.drivers.length).toBeGreaterThan(0);
+    last.drivers.forEach(driver => expect(driver.kind).toBe(ReadingDriverKind.HOUSE));
+    expect(reading.houses).toBe(ReadingHouses.SOLAR);
+    expect(reading.prediction).toBe(reading.paragraphs.map(paragraph => paragraph.text).join(' '));
+  });
+
+  test('should explain each transit paragraph, strongest first and without repeats', () => {
+    const reading = generatePersonalReading('2026-10-18', NATAL_POINTS, { seed: 'user-1' });
+    const transits = reading.paragraphs.flatMap(paragraph => paragraph.drivers)
+      .filter(driver => driver.kind === ReadingDriverKind.TRANSIT);
+
+    expect(transits.length).toBeGreaterThan(0);
+    expect(transits.length).toBeLessThanOrEqual(3);
+    expect(new Set(transits.map(driver => driver.transit_planet)).size).toBe(transits.length);
+    expect(new Set(transits.map(driver => driver.natal_planet)).size).toBe(transits.length);
+    expect(new Set(reading.paragraphs.map(paragraph => paragraph.text)).size).toBe(reading.paragraphs.length);
+    transits.forEach((driver, i) => {
+      expect(driver.description).toMatch(/ your natal /);
+      expect(driver.orb).toBeLessThanOrEqual(3);
+      if (i > 0) {
+        expect(driver.weight).toBeLessThanOrEqual(transits[i - 1].weight);
+      }
+    });
+  });
+
+  test('should be deterministic for a seed and use natal houses when given', () => {
+    const cusps = Array.from({ length: 12 }, (_, i) => i * 30);
+    const reading = generatePersonalReading('2026-10-18', NATAL_POINTS, { seed: 'user-1', cusps });
+
+    expect(generatePersonalReading('2026-10-18', NATAL_POINTS, { seed: 'user-1', cusps })).toEqual(reading);
+    expect(reading.houses).toBe(ReadingHouses.NATAL);
+    // The Sun in Libra opposes the natal Moon; with houses from 0° Aries it is in the 7th
+    const sun = reading.paragraphs.flatMap(paragraph => paragraph.drivers)
+      .find(driver => driver.transit_planet === Planet.SUN && driver.kind === ReadingDriverKind.TRANSIT)!;
+    expect(sun).toMatchObject({ natal_planet: Planet.MOON, house: 7 });
+  });
+
+  test('should count solar houses from the sign of the Sun in a sidereal zodiac', () => {
+    const offset = 24;
+    const sun = NATAL_POINTS.find(point => point.point === Planet.SUN)!.longitude;
+    const first = Math.floor((sun - offset) / 30) * 30 + offset;
+    const cusps = Array.from({ length: 12 }, (_, i) => (first + i * 30) % 360);
+
+    const sidereal = generatePersonalReading('2026-10-18', NATAL_POINTS, { seed: 'user-1', zodiacOffset: offset });
+    const tropical = generatePersonalReading('2026-10-18', NATAL_POINTS, { seed: 'user-1' });
+
+    expect(sidereal.houses).toBe(ReadingHouses.SOLAR);
+    expect(sidereal.paragraphs.slice(1))
+      .toEqual(generatePersonalReading('2026-10-18', NATAL_POINTS, { seed: 'user-1', zodiacOffset: offset, cusps }).paragraphs.slice(1));
+    expect(sidereal.paragraphs.slice(1)).not.toEqual(tropical.paragraphs.slice(1));
+  });
+});
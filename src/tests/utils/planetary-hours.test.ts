@@ -0,0 +1,65 @@
+import { calculatePlanetaryHours, findLuckyTime } from '../../utils/planetary-hours';
+import { Planet } from '../../utils/ephemeris';
+import { SIGN_RULERS } from '../../utils/zodiac';
+import { ZodiacSign } from '../../types';
+
+const minutesBetween = (a: string, b: string) => (Date.parse(b) - Date.parse(a)) / 60000;
+
+describe('Planetary hours', () => {
+  test('should find sunrise and sunset within a few minutes', () => {
+    // London on 18 October 2026: sunrise 07:30 and sunset 18:01 BST
+    const london = calculatePlanetaryHours('2026-10-18', 51.5, -0.12, 'Europe/London')!;
+    expect(Math.abs(minutesBetween('2026-10-18T06:30:00Z', london.sunrise))).toBeLessThan(3);
+    expect(Math.abs(minutesBetween('2026-10-18T17:01:00Z', london.sunset))).toBeLessThan(3);
+
+    // New York at the June solstice: sunset falls on the next UTC day
+    const newYork = calculatePlanetaryHours('2026-06-21', 40.71, -74, 'America/New_York')!;
+    expect(Math.abs(minutesBetween('2026-06-21T09:25:00Z', newYork.sunrise))).toBeLessThan(3);
+    expect(Math.abs(minutesBetween('2026-06-22T00:31:00Z', newYork.sunset))).toBeLessThan(3);
+  });
+
+  test('should start with the ruler of the weekday and follow the Chaldean order', () => {
+    // 18 October 2026 is a Sunday
+    const day = calculatePlanetaryHours('2026-10-18', 51.5, -0.12, 'Europe/London')!;
+
+    expect(day.dayRuler).toBe(Planet.SUN);
+    expect(day.hours.slice(0, 8).map(hour => hour.ruler)).toEqual([
+      Planet.SUN, Planet.VENUS, Planet.MERCURY, Planet.MOON, Planet.SATURN, Planet.JUPITER, Planet.MARS, Planet.SUN,
+    ]);
+    // leaving the Moon, Monday's ruler, for the hour after the last
+    expect(day.hours[23].ruler).toBe(Planet.MERCURY);
+  });
+
+  test('should split day and night into twelve equal hours each', () => {
+    const day = calculatePlanetaryHours('2026-12-21', 51.5, -0.12, 'Europe/London')!;
+    const lengths = day.hours.map(hour => minutesBetween(hour.start, hour.end));
+
+    expect(day.hours).toHaveLength(24);
+    expect(day.hours[0].start).toBe(day.sunrise);
+    expect(day.hours[12].start).toBe(day.sunset);
+    expect(day.hours[23].end).toBe(day.nextSunrise);
+    // Short winter days, long winter nights
+    expect(lengths[0]).toBeLessThan(45);
+    expect(lengths[12]).toBeGreaterThan(75);
+    expect(day.hours.filter(hour => hour.daytime)).toHaveLength(12);
+  });
+
+  test('should give no hours when the Sun neither rises nor sets', () => {
+    expect(calculatePlanetaryHours('2026-06-21', 78, 15, 'UTC')).toBeNull();
+    expect(calculatePlanetaryHours('2026-12-21', 78, 15, 'UTC')).toBeNull();
+  });
+
+  test('should time luck to the first day hour of the sign ruler', () => {
+    const day = calculatePlanetaryHours('2026-10-18', 51.5, -0.12, 'Europe/London')!;
+
+    Object.values(ZodiacSign).forEach(sign => {
+      const hour = day.hours.find(candidate => candidate.daytime && candidate.ruler === SIGN_RULERS[sign])!;
+      const local = new Date(Date.parse(hour.start) + 60 * 60000);
+      const expected = `${local.getUTCHours() % 12 || 12}:${String(local.getUTCMinutes()).padStart(2, '0')} ${local.getUTCHours() < 12 ? 'AM' : 'PM'}`;
+
+      expect(findLuckyTime(sign, '2026-10-18', 51.5, -0.12, 'Europe/London')).toBe(expected);
+    });
+    // Leo is ruled by the Sun, which rules the first hour on a Sunday
+    expect(findLuckyTime(ZodiacSign.LEO, '2026-10-18', 51.5, -0.12, 'Europe/London')).toBe('7:30 AM');
+  });
+});
@@ -0,0 +1,96 @@
+import { angleDifference, calculatePlanetPosition, Planet } from '../../utils/ephemeris';
+import {
+  calculateProgressedChart,
+  calculateProgressedMoonTimeline,
+  calculateSolarArcDirections,
+  ProgressedMoonEventKind,
+} from '../../utils/progressions';
+import { HouseSystem } from '../../utils/houses';
+import { ZodiacType } from '../../utils/zodiac';
+
+const BIRTH = { date: '1990-07-15', time: '14:30', latitude: 51.5, longitude: -0.12, utcOffset: 60, locationName: 'London' };
+
+describe('Progressions', () => {
+  test('should read the sky one day after birth for each year of life', () => {
+    const progressed = calculateProgressedChart(BIRTH, '2020-07-15');
+
+    expect(progressed.age).toBeCloseTo(30, 1);
+    // 30 days after birth, at the same place
+    expect(progressed.chart.birthData.date).toBe('1990-08-14');
+    expect(progressed.chart.birthData.longitude).toBe(BIRTH.longitude);
+    expect(progressed.chart.planets[Planet.SUN].longitude)
+      .toBeCloseTo(calculatePlanetPosition(Planet.SUN, progressed.chart.julianDay).longitude, 9);
+    // The Sun moves just under a degree a day in summer
+    expect(progressed.solarArc).toBeGreaterThan(28);
+    expect(progressed.solarArc).toBeLessThan(30);
+  });
+
+  test('should move the midheaven by the solar arc in every house system', () => {
+    [HouseSystem.PLACIDUS, HouseSystem.WHOLE_SIGN].forEach(houseSystem => {
+      const progressed = calculateProgressedChart(BIRTH, '2026-10-18', { houseSystem });
+
+      expect(angleDifference(progressed.natal.houses.midheaven, progressed.chart.houses.midheaven))
+        .toBeCloseTo(progressed.solarArc, 1);
+      expect(progressed.chart.houses.system).toBe(houseSystem);
+    });
+  });
+
+  test('should only read the personal planets and angles against the natal chart', () => {
+    const progressed = calculateProgressedChart(BIRTH, '2026-10-18');
+    const personal = ['sun', 'moon', 'mercury', 'venus', 'mars', 'ascendant', 'midheaven'];
+
+    expect(progressed.natalAspects.length).toBeGreaterThan(0);
+    progressed.natalAspects.forEach(aspect => {
+      expect(personal).toContain(aspect.point);
+      expect(aspect.natalPoint).not.toBe(aspect.point);
+      expect(aspect.orb).toBeLessThanOrEqual(1);
+    });
+  });
+
+  test('should time progressed Moon ingresses about every two and a half years', () => {
+    const timeline = calculateProgressedMoonTimeline(BIRTH, '2026-10-18', 10);
+    const ingresses = timeline.events.filter(event => event.kind === ProgressedMoonEventKind.INGRESS);
+
+    expect(ingresses.length).toBeGreaterThanOrEqual(3);
+    expect(ingresses.length).toBeLessThanOrEqual(5);
+    expect(ingresses[0].date > '2026-10-18').toBe(true);
+    expect(ingresses[0].sign).not.toBe(timeline.sign);
+    expect([...timeline.events].sort((a, b) => a.date.localeCompare(b.date))).toEqual(timeline.events);
+  });
+
+  test('should shift progressed Moon signs in the sidereal zodiac', () => {
+    const tropical = calculateProgressedMoonTimeline(BIRTH, '2026-10-18', 1);
+    const sidereal = calculateProgressedMoonTimeline(BIRTH, '2026-10-18', 1, { zodiacType: ZodiacType.SIDEREAL });
+
+    // Virgo 1° tropical is Leo 7° with about 24° of ayanamsa
+    expect(sidereal.sign).not.toBe(tropical.sign);
+    expect(Math.abs(tropical.signDegree + 30 - sidereal.signDegree - 24)).toBeLessThan(1);
+  });
+
+  test('should move every natal point by the same solar arc', () => {
+    const directions = calculateSolarArcDirections(BIRTH, '2026-10-18', 3);
+
+    directions.points.forEach(point => {
+      expect(angleDifference(point.natalLongitude, point.longitude)).toBeCloseTo(directions.solarArc, 9);
+    });
+  });
+
+  test('should date upcoming directions when the arc covers the distance to exact', () => {
+    const directions = calculateSolarArcDirections(BIRTH, '2026-10-18', 3);
+
+    expect(directions.upcoming.length).toBeGreaterThan(0);
+    directions.upcoming.forEach(aspect => {
+      expect(aspect.exactDate! >= '2026-10-18').toBe(true);
+      expect(aspect.exactDate! <= '2029-10-18').toBe(true);
+    });
+
+    // On its date, an upcoming direction is in effect and close to exact
+    const first = directions.upcoming[0];
+    const then = calculateSolarArcDirections(BIRTH, first.exactDate!, 1);
+    const match = then.aspects.find(aspect =>
+      aspect.point === first.point && aspect.natalPoint === first.natalPoint && aspect.aspect === first.aspect
+    );
+    expect(match).toBeDefined();
+    expect(match!.orb).toBeLessThan(0.01);
+  });
+});
@@ -0,0 +1,55 @@
+import { calculateNatalChart } from '../../utils/chart-calculator';
+import { angleDifference, Planet } from '../../utils/ephemeris';
+import {
+  calculateCompositeChart,
+  calculateDavisonChart,
+  getDavisonBirthData,
+  midpointLongitude,
+} from '../../utils/relationship-charts';
+
+const PERSON1 = { date: '1990-07-15', time: '14:30', latitude: 51.5, longitude: -0.12, utcOffset: 60 };
+const PERSON2 = { date: '1992-03-02', time: '08:10', latitude: 40.7, longitude: -74, utcOffset: -300 };
+
+describe('Relationship charts', () => {
+  test('should take midpoints on the shorter arc', () => {
+    expect(midpointLongitude(10, 50)).toBeCloseTo(30, 9);
+    expect(midpointLongitude(50, 10)).toBeCloseTo(30, 9);
+    expect(midpointLongitude(350, 30)).toBeCloseTo(10, 9);
+    expect(midpointLongitude(30, 350)).toBeCloseTo(10, 9);
+  });
+
+  test('should place composite planets and cusps at the natal midpoints', () => {
+    const chart1 = calculateNatalChart(PERSON1);
+    const chart2 = calculateNatalChart(PERSON2);
+    const composite = calculateCompositeChart(chart1, chart2);
+
+    [Planet.SUN, Planet.MOON, Planet.VENUS].forEach(planet => {
+      const midpoint = composite.planets[planet].longitude;
+      // Equally far from both natal positions
+      expect(Math.abs(angleDifference(chart1.planets[planet].longitude, midpoint)))
+        .toBeCloseTo(Math.abs(angleDifference(midpoint, chart2.planets[planet].longitude)), 9);
+      expect(composite.planets[planet].retrograde).toBe(false);
+    });
+    expect(composite.houses.cusps).toHaveLength(12);
+    expect(Math.abs(angleDifference(composite.houses.cusps[0], composite.houses.cusps[6]))).toBeCloseTo(180, 9);
+    expect(Math.abs(angleDifference(composite.planets[Planet.NORTH_NODE].longitude, composite.planets[Planet.SOUTH_NODE].longitude)))
+      .toBeCloseTo(180, 9);
+    expect(composite.aspects.length).toBeGreaterThan(0);
+  });
+
+  test('should cast the Davison chart for the midpoint in time and place', () => {
+    const birthData = getDavisonBirthData(PERSON1, PERSON2);
+    const midpoint = (Date.parse('1990-07-15T13:30:00Z') + Date.parse('1992-03-02T13:10:00Z')) / 2;
+
+    expect(Math.abs(Date.parse(`${birthData.date}T${birthData.time}Z`) - midpoint)).toBeLessThan(1000);
+    expect(birthData.utcOffset).toBe(0);
+    expect(birthData.latitude).toBeCloseTo(46.1, 9);
+    expect(birthData.longitude).toBeCloseTo(-37.06, 9);
+
+    // Across the antimeridian the place stays on the shorter arc
+    expect(getDavisonBirthData({ ...PERSON1, longitude: 170 }, { ...PERSON2, longitude: -170 }).longitude).toBeCloseTo(180, 9);
+
+    const chart = calculateDavisonChart(PERSON1, PERSON2);
+    expect(chart.birthData).toEqual(birthData);
+  });
+});
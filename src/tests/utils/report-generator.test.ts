@@ -0,0 +1,117 @@
+import fs from 'fs';
+import { generateReport, REPORT_TYPES } from '../../utils/report-generator';
+import { ReportType } from '../../types';
+import { HouseSystem } from '../../utils/houses';
+
+jest.mock('../../config/logger', () => ({
+  logger: { info: jest.fn(), warn: jest.fn(), error: jest.fn(), debug: jest.fn() },
+}));
+
+const BIRTH = { birthDate: '1990-07-15', birthTime: '14:30', latitude: 51.5, longitude: -0.12, utcOffset: 60, locationName: 'London' };
+const OTHER = { birthDate: '1985-11-20', birthTime: '08:00', latitude: 40.71, longitude: -74, timezone: 'America/New_York' };
+
+describe('Report types', () => {
+  test('should register every report type with its parameters, title, data and content', () => {
+    Object.values(ReportType).forEach(type => {
+      const definition = REPORT_TYPES[type];
+      expect(definition.name).toBeTruthy();
+      ['describe', 'fetchData', 'render'].forEach(key => expect(typeof (definition as any)[key]).toBe('function'));
+    });
+  });
+
+  test('should check parameters against the schema of the type', () => {
+    const monthly = REPORT_TYPES[ReportType.MONTHLY].schema;
+    expect(monthly.parse({ ...BIRTH, latitude: '51.5', month: '3', year: '2027' })).toMatchObject({
+      latitude: 51.5,
+      month: 3,
+      year: 2027,
+      houseSystem: HouseSystem.PLACIDUS,
+    });
+    expect(monthly.safeParse({ ...BIRTH, month: 13, year: 2027 }).success).toBe(false);
+    expect(monthly.parse(BIRTH)).toMatchObject({ month: new Date().getUTCMonth() + 1, year: new Date().getUTCFullYear() });
+    expect(REPORT_TYPES[ReportType.NATAL].schema.safeParse({ ...BIRTH, birthDate: '15/07/1990' }).success).toBe(false);
+
+    // Compatibility takes two people or a team of at least two
+    const compatibility = REPORT_TYPES[ReportType.COMPATIBILITY].schema;
+    expect(compatibility.safeParse({ person1: BIRTH, person2: OTHER }).success).toBe(true);
+    expect(compatibility.safeParse({ members: [{ ...BIRTH, name: 'Ann' }, { ...OTHER, name: 'Bob' }] }).success).toBe(true);
+    expect(compatibility.safeParse({ members: [{ ...BIRTH, name: 'Ann' }] }).success).toBe(false);
+  });
+
+  test('should title reports from their parameters and queue team reports last', () => {
+    const compatibility = REPORT_TYPES[ReportType.COMPATIBILITY];
+    const team = compatibility.schema.parse({ teamName: 'Ops', members: [{ ...BIRTH, name: 'Ann' }, { ...OTHER, name: 'Bob' }] });
+    const pair = compatibility.schema.parse({ person1: BIRTH, person2: OTHER });
+
+    expect(compatibility.describe(team).title).toBe('Ops Compatibility Report');
+    expect(compatibility.priority!(team)).toBeGreaterThan(0);
+    expect(compatibility.priority!(pair)).toBeUndefined();
+    expect(compatibility.remote!(team)).toBe(false);
+    expect(REPORT_TYPES[ReportType.MONTHLY].describe({ month: 3, year: 2027 }).title).toBe('March 2027 Horoscope Report');
+  });
+
+  test('should read the career houses of the birth chart', () => {
+    const data = REPORT_TYPES[ReportType.CAREER].fetchData(REPORT_TYPES[ReportType.CAREER].schema.parse(BIRTH));
+
+    expect(data.focus_houses.map((focus: any) => focus.house)).toEqual([10, 6, 2]);
+    data.focus_houses.forEach((focus: any) => {
+      expect(focus.sign).toBe(data.houses[String(focus.house)].sign);
+      focus.planets.forEach((planet: string) => expect(data.planets[planet].house).toBe(focus.house));
+    });
+  });
+
+  test('should still take the sign parameters of the first reports, flagged as deprecated', () => {
+    const compatibility = REPORT_TYPES[ReportType.COMPATIBILITY];
+    const signs = compatibility.schema.parse({ sign1: 'leo', sign2: 'aries' });
+    const signData = compatibility.fetchData(signs);
+
+    expect(compatibility.describe(signs).title).toBe('Leo and Aries Compatibility Report');
+    expect(compatibility.remote!(signs)).toBe(false);
+    expect(signData.sign_compatibility).toMatchObject({ sign1: 'leo', sign2: 'aries' });
+    expect(compatibility.deprecation!(signs)).toBeTruthy();
+    expect(compatibility.deprecation!(compatibility.schema.parse({ person1: BIRTH, person2: OTHER }))).toBeUndefined();
+
+    const career = REPORT_TYPES[ReportType.CAREER];
+    const sign = career.schema.parse({ sign: 'leo' });
+
+    expect(career.describe(sign).title).toBe('Leo Career Report');
+    expect(career.fetchData(sign).focus_houses.map((focus: any) => [focus.house, focus.sign])).toEqual([
+      [10, 'taurus'],
+      [6, 'capricorn'],
+      [2, 'virgo'],
+    ]);
+    expect(career.deprecation!(sign)).toBeTruthy();
+    expect(career.deprecation!(career.schema.parse(BIRTH))).toBeUndefined();
+  });
+
+  test('should keep the exact transits of a yearly forecast within the year', () => {
+    const data = REPORT_TYPES[ReportType.YEARLY].fetchData(REPORT_TYPES[ReportType.YEARLY].schema.parse({ ...BIRTH, year: 2027 }));
+
+    expect(data.period).toEqual({ start: '2027-01-01', end: '2028-01-01' });
+    expect(data.exact_transits.length).toBeGreaterThan(0);
+    data.exact_transits.forEach((hit: any) => expect(hit.exact_time.startsWith('2027-')).toBe(true));
+  });
+
+  test('should close and remove the PDF when its content fails', async () => {
+    const streams: fs.WriteStream[] = [];
+    const createWriteStream = fs.createWriteStream;
+    jest.spyOn(fs, 'createWriteStream').mockImplementation((...args: any[]) => {
+      const stream = (createWriteStream as any)(...args);
+      streams.push(stream);
+      return stream;
+    });
+    jest.spyOn(REPORT_TYPES[ReportType.NATAL], 'render').mockImplementation(() => {
+      throw new Error('render failed');
+    });
+
+    try {
+      await expect(generateReport(ReportType.NATAL, BIRTH, 'Natal', 'user-1')).rejects.toThrow('Failed to generate natal report');
+
+      expect(streams).toHaveLength(1);
+      expect(streams[0].destroyed).toBe(true);
+      expect(fs.existsSync(streams[0].path as string)).toBe(false);
+    } finally {
+      jest.restoreAllMocks();
+    }
+  });
+});
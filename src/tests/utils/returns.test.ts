@@ -0,0 +1,69 @@
+import { calculateNatalChart } from '../../utils/chart-calculator';
+import { angleDifference, calculatePlanetPosition, Planet, toJulianDay } from '../../utils/ephemeris';
+import {
+  calculateReturnChart,
+  findLunarReturn,
+  findSolarReturn,
+  PlanetaryReturnType,
+} from '../../utils/returns';
+import { Ayanamsa, ZodiacType } from '../../utils/zodiac';
+
+const BIRTH = { date: '1990-07-15', time: '14:30', latitude: 51.5, longitude: -0.12, utcOffset: 60, locationName: 'London' };
+
+describe('Planetary returns', () => {
+  const natal = calculateNatalChart(BIRTH);
+
+  test('should find the solar return within a day of the birthday', () => {
+    const julianDay = findSolarReturn(natal.planets[Planet.SUN].longitude, BIRTH.date, 2026);
+
+    expect(angleDifference(calculatePlanetPosition(Planet.SUN, julianDay).longitude, natal.planets[Planet.SUN].longitude))
+      .toBeCloseTo(0, 5);
+    expect(Math.abs(julianDay - toJulianDay(new Date('2026-07-15T12:00:00Z')))).toBeLessThan(1);
+  });
+
+  test('should find the lunar return in the given month', () => {
+    const julianDay = findLunarReturn(natal.planets[Planet.MOON].longitude, '2026-11');
+
+    expect(angleDifference(calculatePlanetPosition(Planet.MOON, julianDay).longitude, natal.planets[Planet.MOON].longitude))
+      .toBeCloseTo(0, 5);
+    expect(julianDay).toBeGreaterThanOrEqual(toJulianDay(new Date('2026-11-01T00:00:00Z')));
+    expect(julianDay).toBeLessThan(toJulianDay(new Date('2026-12-01T00:00:00Z')));
+  });
+
+  test('should cast the return chart at the birth place by default', () => {
+    const result = calculateReturnChart(PlanetaryReturnType.SOLAR, BIRTH, '2026');
+
+    expect(result.relocated).toBe(false);
+    expect(result.moment.startsWith('2026-07-15')).toBe(true);
+    expect(result.chart.birthData.latitude).toBe(BIRTH.latitude);
+    expect(result.chart.planets[Planet.SUN].sign).toBe(natal.planets[Planet.SUN].sign);
+    expect(result.natalAspects.some(aspect =>
+      aspect.planet1 === Planet.SUN && aspect.planet2 === Planet.SUN && aspect.orb < 0.001
+    )).toBe(true);
+  });
+
+  test('should relocate the return chart without moving the moment', () => {
+    const home = calculateReturnChart(PlanetaryReturnType.LUNAR, BIRTH, '2026-11');
+    const away = calculateReturnChart(PlanetaryReturnType.LUNAR, BIRTH, '2026-11', {
+      latitude: 40.7,
+      longitude: -74,
+      locationName: 'New York',
+    });
+
+    expect(away.relocated).toBe(true);
+    expect(away.moment).toBe(home.moment);
+    expect(away.chart.birthData.locationName).toBe('New York');
+    expect(away.chart.houses.ascendant).not.toBeCloseTo(home.chart.houses.ascendant, 0);
+  });
+
+  test('should follow the sidereal Sun for sidereal returns', () => {
+    const options = { zodiacType: ZodiacType.SIDEREAL, ayanamsa: Ayanamsa.LAHIRI };
+    const tropical = calculateReturnChart(PlanetaryReturnType.SOLAR, BIRTH, '2026');
+    const sidereal = calculateReturnChart(PlanetaryReturnType.SOLAR, BIRTH, '2026', undefined, options);
+    const hours = (Date.parse(sidereal.moment) - Date.parse(tropical.moment)) / 3600000;
+
+    // Precession of about half a degree since 1990 delays the Sun by half a day
+    expect(hours).toBeGreaterThan(10);
+    expect(hours).toBeLessThan(15);
+  });
+});
@@ -0,0 +1,59 @@
+import { calculateNatalChart } from '../../utils/chart-calculator';
+import { calculateSynastry, CompatibilityCategory } from '../../utils/compatibility';
+import { calculateTeamCompatibility } from '../../utils/team-compatibility';
+
+const DATES = ['1980-07-06', '1985-11-20', '1990-07-15', '1992-03-03', '1978-12-24', '1995-05-05', '1988-09-09', '1983-01-30'];
+const TEAM = DATES.map((date, i) => ({ name: `Member ${i + 1}`, date, time: '12:00', latitude: 51.5, longitude: -0.12, utcOffset: 0 }));
+
+describe('Team compatibility', () => {
+  const team = calculateTeamCompatibility(TEAM);
+
+  test('should fill a symmetric matrix with the synastry of each pair', () => {
+    expect(team.matrix).toHaveLength(TEAM.length);
+    team.matrix.forEach((row, i) => {
+      expect(row).toHaveLength(TEAM.length);
+      expect(row[i]).toBeNull();
+      row.forEach((score, j) => expect(score).toBe(team.matrix[j][i]));
+    });
+
+    const { name: _name1, ...birth1 } = TEAM[1];
+    const { name: _name2, ...birth2 } = TEAM[4];
+    const pair = calculateSynastry(calculateNatalChart(birth1).planets, calculateNatalChart(birth2).planets);
+    expect(team.matrix[1][4]).toBe(pair.overall);
+  });
+
+  test('should put every member in exactly one cluster of members who get on well', () => {
+    const clustered = team.clusters.flatMap(cluster => cluster.members).sort((a, b) => a - b);
+    expect(clustered).toEqual(TEAM.map((_, i) => i));
+
+    team.clusters.forEach(cluster => {
+      if (cluster.members.length === 1) {
+        expect(cluster.cohesion).toBeNull();
+      } else {
+        expect(cluster.cohesion).toBeGreaterThanOrEqual(70);
+      }
+      // Ten planets per member
+      expect(Object.values(cluster.elements).reduce((sum, count) => sum + count, 0)).toBe(10 * cluster.members.length);
+    });
+    expect(team.clusters.map(cluster => cluster.members.length))
+      .toEqual(team.clusters.map(cluster => cluster.members.length).sort((a, b) => b - a));
+  });
+
+  test('should list the pairs whose communication may clash, worst first', () => {
+    expect(team.frictionPairs.length).toBeGreaterThan(0);
+    team.frictionPairs.forEach((pair, index) => {
+      expect(pair.categories[CompatibilityCategory.COMMUNICATION]).toBeLessThan(35);
+      expect(pair.overall).toBe(team.matrix[pair.member1][pair.member2]);
+      expect(pair.contacts.length).toBeGreaterThan(0);
+      pair.contacts.forEach(contact => expect(contact.effect).toBeLessThan(0));
+      if (index > 0) {
+        expect(pair.categories.communication).toBeGreaterThanOrEqual(team.frictionPairs[index - 1].categories.communication);
+      }
+    });
+  });
+
+  test('should summarise each member and the element balance of the team', () => {
+    expect(team.members[0]).toEqual({ name: 'Member 1', sunSign: 'cancer', moonSign: 'taurus', dominantElement: 'earth' });
+    expect(Object.values(team.elements).reduce((sum, count) => sum + count, 0)).toBe(10 * TEAM.length);
+  });
+});
@@ -0,0 +1,40 @@
+import {
+  getDateInTimeZone,
+  getUtcOffsetForLocalTime,
+  getUtcOffsetMinutes,
+  isValidTimeZone,
+} from '../../utils/timezone';
+import { getSunSign } from '../../utils/chart-calculator';
+import { ZodiacSign } from '../../types';
+
+describe('Time zones', () => {
+  test('should validate IANA time zones', () => {
+    expect(isValidTimeZone('Europe/Berlin')).toBe(true);
+    expect(isValidTimeZone('Mars/Olympus_Mons')).toBe(false);
+    expect(isValidTimeZone('')).toBe(false);
+  });
+
+  test('should resolve today on both sides of the date line', () => {
+    const instant = new Date('2025-06-01T20:00:00Z');
+    expect(getDateInTimeZone('Pacific/Auckland', instant)).toBe('2025-06-02');
+    expect(getDateInTimeZone('UTC', instant)).toBe('2025-06-01');
+    expect(getDateInTimeZone('Pacific/Pago_Pago', new Date('2025-06-01T05:00:00Z'))).toBe('2025-05-31');
+  });
+
+  test('should apply daylight saving rules', () => {
+    expect(getUtcOffsetMinutes('America/New_York', new Date('2025-01-15T12:00:00Z'))).toBe(-300);
+    expect(getUtcOffsetMinutes('America/New_York', new Date('2025-07-15T12:00:00Z'))).toBe(-240);
+    expect(getUtcOffsetForLocalTime('Europe/Berlin', '2025-07-15', '00:30')).toBe(120);
+    expect(getUtcOffsetForLocalTime('Asia/Kolkata', '1990-03-20', '23:59')).toBe(330);
+  });
+
+  test('should find the sun sign of a cusp birth in the birth place zone', () => {
+    // The March 2000 equinox was at 07:35 UTC on the 20th
+    expect(getSunSign({ date: '2000-03-20', time: '03:00', timezone: 'America/New_York' }))
+      .toBe(ZodiacSign.ARIES);
+    expect(getSunSign({ date: '2000-03-20', time: '15:00', timezone: 'Asia/Tokyo' }))
+      .toBe(ZodiacSign.PISCES);
+    // Without a birth time, noon local time is used
+    expect(getSunSign({ date: '1990-07-15' })).toBe(ZodiacSign.CANCER);
+  });
+});
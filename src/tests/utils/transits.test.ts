@@ -0,0 +1,59 @@
+import { Planet, toJulianDay } from '../../utils/ephemeris';
+import { AspectType } from '../../utils/aspects';
+import {
+  describeTransitHit,
+  findTransitHits,
+  getNatalPoints,
+  NatalAngle,
+  sampleTransits,
+  SLOW_PLANETS,
+} from '../../utils/transits';
+
+const jd = (iso: string) => toJulianDay(new Date(iso));
+
+describe('Personal transits', () => {
+  test('should include the Moon and angles only with a birth time and place', () => {
+    const undated = getNatalPoints({ date: '1990-07-15' }, { latitude: 51.5, longitude: -0.12 });
+    const timed = getNatalPoints({ date: '1990-07-15', time: '14:30', utcOffset: 60 });
+    const placed = getNatalPoints({ date: '1990-07-15', time: '14:30', utcOffset: 60 }, { latitude: 51.5, longitude: -0.12 });
+
+    expect(undated.map(point => point.point)).not.toContain(Planet.MOON);
+    expect(undated).toHaveLength(9);
+    expect(timed.map(point => point.point)).toContain(Planet.MOON);
+    expect(timed.map(point => point.point)).not.toContain(NatalAngle.ASCENDANT);
+    expect(placed.map(point => point.point)).toEqual(expect.arrayContaining([NatalAngle.ASCENDANT, NatalAngle.MIDHEAVEN]));
+  });
+
+  test('should time an exact hit to the minute', () => {
+    // A natal point on Saturn's position at a known moment must be hit then
+    const moment = '2026-03-10T06:00:00Z';
+    const samples = sampleTransits(jd('2026-03-01T00:00:00Z'), 20);
+    const saturn = samples.longitudes[0][Planet.SATURN];
+    const natalLongitude = sampleTransits(jd(moment), 0).longitudes[0][Planet.SATURN];
+    const hits = findTransitHits([{ point: Planet.SUN, longitude: natalLongitude }], samples);
+    const conjunction = hits.find(hit => hit.transit_planet === Planet.SATURN && hit.aspect === AspectType.CONJUNCTION)!;
+
+    expect(saturn).not.toBeCloseTo(natalLongitude, 3);
+    expect(Math.abs(Date.parse(conjunction.exact_time) - Date.parse(moment))).toBeLessThan(2 * 60000);
+    expect(conjunction.orb).toBeLessThan(0.01);
+    expect(describeTransitHit(conjunction)).toBe('Saturn conjunction your natal Sun');
+  });
+
+  test('should find both squares and keep hits in time order', () => {
+    const samples = sampleTransits(jd('2026-01-01T00:00:00Z'), 365);
+    const jupiter = samples.longitudes[100][Planet.JUPITER];
+    const hits = findTransitHits([
+      { point: Planet.VENUS, longitude: jupiter + 90 },
+      { point: Planet.MARS, longitude: jupiter - 90 },
+    ], samples);
+
+    const squares = hits.filter(hit => hit.transit_planet === Planet.JUPITER && hit.aspect === AspectType.SQUARE);
+    expect(squares.map(hit => hit.natal_planet)).toEqual(expect.arrayContaining([Planet.VENUS, Planet.MARS]));
+    hits.forEach((hit, i) => {
+      expect(SLOW_PLANETS).toContain(hit.transit_planet);
+      if (i > 0) {
+        expect(hit.exact_time >= hits[i - 1].exact_time).toBe(true);
+      }
+    });
+  });
+});
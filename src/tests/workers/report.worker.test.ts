@@ -0,0 +1,108 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { Worker } from 'bullmq';
+import { supabase } from '../../config/supabase';
+import { generateReport } from '../../utils/report-generator';
+import { ReportStatus, ReportType } from '../../types';
+import '../../workers/report.worker';
+
+jest.mock('bullmq', () => ({
+  Worker: jest.fn(() => ({ on: jest.fn() })),
+}));
+jest.mock('../../config/logger', () => ({
+  logger: { info: jest.fn(), warn: jest.fn(), error: jest.fn(), debug: jest.fn() },
+}));
+jest.mock('../../config/supabase', () => ({
+  supabase: { from: jest.fn(), storage: { from: jest.fn() } },
+}));
+jest.mock('../../utils/report-generator', () => ({
+  generateReport: jest.fn(),
+}));
+
+// Processor the worker registered with BullMQ
+const processReport = (Worker as unknown as jest.Mock).mock.calls[0][1];
+
+const mockJob = () => ({
+  id: 'job-1',
+  data: {
+    reportId: 'report_1',
+    userId: 'user-1',
+    type: ReportType.NATAL,
+    title: 'Natal Chart Report',
+    parameters: { birthDate: '1990-07-15' },
+  },
+  updateProgress: jest.fn(),
+});
+
+/**
+ * Storage bucket whose upload reads the streamed file and resolves to the
+ * given error
+ */
+const mockBucket = (error: { message: string } | null) => {
+  const bucket = {
+    upload: jest.fn(async (name: string, body: fs.ReadStream) => {
+      for await (const _chunk of body) {
+        // read the whole file, as the storage client does
+      }
+      return { data: error ? null : { path: name }, error };
+    }),
+  };
+  (supabase.storage.from as jest.Mock).mockReturnValue(bucket);
+  return bucket;
+};
+
+describe('Report worker', () => {
+  let tempPath: string;
+  let updates: any[];
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+
+    tempPath = path.join(os.tmpdir(), `report-worker-test-${Date.now()}.pdf`);
+    fs.writeFileSync(tempPath, '%PDF-1.3 test');
+    (generateReport as jest.Mock).mockResolvedValue(tempPath);
+
+    updates = [];
+    (supabase.from as jest.Mock).mockImplementation(() => ({
+      update: jest.fn((values: any) => {
+        updates.push(values);
+        return { eq: jest.fn().mockResolvedValue({ error: null }) };
+      }),
+    }));
+  });
+
+  afterEach(() => {
+    fs.rmSync(tempPath, { force: true });
+  });
+
+  test('should upload the PDF under the user folder and store its path', async () => {
+    const bucket = mockBucket(null);
+    const job = mockJob();
+
+    await expect(processReport(job)).resolves.toEqual({ success: true, reportId: 'report_1', filePath: 'user-1/report_1.pdf' });
+
+    expect(supabase.storage.from).toHaveBeenCalledWith('reports');
+    expect(bucket.upload).toHaveBeenCalledWith('user-1/report_1.pdf', expect.anything(), expect.objectContaining({ contentType: 'application/pdf', upsert: true }));
+    expect(updates).toEqual([
+      { status: ReportStatus.PROCESSING },
+      { status: ReportStatus.COMPLETED, file_url: 'user-1/report_1.pdf' },
+    ]);
+    expect(job.updateProgress.mock.calls.map(([progress]) => progress)).toEqual([5, 70, 90, 100]);
+    expect(fs.existsSync(tempPath)).toBe(false);
+  });
+
+  test('should fail the report and remove the PDF when the upload fails', async () => {
+    mockBucket({ message: 'Bucket not found' });
+    const job = mockJob();
+
+    await expect(processReport(job)).rejects.toThrow('Failed to upload report file: Bucket not found');
+
+    expect(updates).toEqual([
+      { status: ReportStatus.PROCESSING },
+      { status: ReportStatus.FAILED },
+    ]);
+    expect(job.updateProgress.mock.calls.map(([progress]) => progress)).toEqual([5, 70]);
+    expect(fs.existsSync(tempPath)).toBe(false);
+  });
+});
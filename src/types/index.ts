@@ -51,6 +51,8 @@ export interface UserPreferences {
   };
   theme: 'light' | 'dark' | 'system';
   language: string;
+  zodiacType?: 'tropical' | 'sidereal';
+  ayanamsa?: 'lahiri' | 'raman' | 'krishnamurti'; // sidereal zodiac only
 }
 
 // Horoscope related types
@@ -81,6 +83,28 @@ export interface Horoscope {
   luckyTime: string;
 }
 
+export enum HoroscopePeriod {
+  WEEKLY = 'weekly',
+  MONTHLY = 'monthly',
+  YEARLY = 'yearly',
+}
+
+export interface PeriodHoroscope {
+  id: string;
+  sign: ZodiacSign;
+  type: HoroscopePeriod;
+  period: string; // 2025-W23, 2025-06 or 2025
+  startDate: string;
+  endDate: string;
+  prediction: string;
+  love: string;
+  career: string;
+  health: string;
+  compatibility: string;
+  color: string;
+  luckyNumber: string;
+}
+
 // Chat related types
 export interface ChatMessage {
   id: string;
@@ -91,12 +115,25 @@ export interface ChatMessage {
   readAt?: string;
 }
 
-// Report related types
+// Report related types. Each type is registered with its parameters, data
+// and PDF content in utils/report-generator.ts.
 export enum ReportType {
+  NATAL = 'natal',
   MONTHLY = 'monthly',
   YEARLY = 'yearly',
   COMPATIBILITY = 'compatibility',
+  TRANSIT = 'transit',
+  PROGRESSIONS = 'progressions',
+  SOLAR_RETURN = 'solar_return',
+  LUNAR_RETURN = 'lunar_return',
   CAREER = 'career',
+  RELATIONSHIP = 'relationship',
+  FINANCIAL = 'financial',
+  DASHA = 'dasha',
+  ELECTION = 'election',
+  NUMEROLOGY = 'numerology',
+  RELOCATION = 'relocation',
+  CORPORATE = 'corporate',
 }
 
 export enum ReportStatus {
@@ -0,0 +1,60 @@
+import { angleDifference } from './ephemeris';
+
+// Major (Ptolemaic) aspects
+export enum AspectType {
+  CONJUNCTION = 'conjunction',
+  SEXTILE = 'sextile',
+  SQUARE = 'square',
+  TRINE = 'trine',
+  OPPOSITION = 'opposition',
+}
+
+// Exact angle of each aspect in degrees
+export const ASPECT_ANGLES: Record<AspectType, number> = {
+  [AspectType.CONJUNCTION]: 0,
+  [AspectType.SEXTILE]: 60,
+  [AspectType.SQUARE]: 90,
+  [AspectType.TRINE]: 120,
+  [AspectType.OPPOSITION]: 180,
+};
+
+// Default maximum orb for each aspect in degrees
+export const DEFAULT_ORBS: Record<AspectType, number> = {
+  [AspectType.CONJUNCTION]: 8,
+  [AspectType.SEXTILE]: 6,
+  [AspectType.SQUARE]: 7,
+  [AspectType.TRINE]: 8,
+  [AspectType.OPPOSITION]: 8,
+};
+
+// Aspect found between two longitudes
+export interface AspectMatch {
+  aspect: AspectType;
+  orb: number; // distance from exact in degrees
+}
+
+/**
+ * Find the closest major aspect between two ecliptic longitudes
+ *
+ * @param longitude1 - First longitude in degrees
+ * @param longitude2 - Second longitude in degrees
+ * @param orbs - Maximum orb per aspect
+ * @returns The matching aspect with its orb, or null if none is within orb
+ */
+export const findAspect = (
+  longitude1: number,
+  longitude2: number,
+  orbs: Record<AspectType, number> = DEFAULT_ORBS
+): AspectMatch | null => {
+  const separation = Math.abs(angleDifference(longitude1, longitude2));
+  let best: AspectMatch | null = null;
+
+  for (const aspect of Object.values(AspectType)) {
+    const orb = Math.abs(separation - ASPECT_ANGLES[aspect]);
+    if (orb <= orbs[aspect] && (!best || orb < best.orb)) {
+      best = { aspect, orb };
+    }
+  }
+
+  return best;
+};
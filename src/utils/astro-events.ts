@@ -0,0 +1,261 @@
+import {
+  asinDeg,
+  calculateLuminaryDistances,
+  calculatePlanetPosition,
+  calculatePlanetPositions,
+  fromJulianDay,
+  Planet,
+  PlanetPosition,
+  toJulianDay,
+  ZODIAC_ORDER,
+} from './ephemeris';
+import { findMoonPhases, MoonPhase } from './moon';
+import { ZodiacSign } from '../types';
+
+/**
+ * Astrological events: retrograde stations, sign ingresses and eclipses
+ *
+ * Planets are sampled once a day and each change between samples is
+ * bisected down to a minute. Eclipses are found by checking how far the
+ * Moon is from the ecliptic at each new and full moon.
+ */
+
+export enum AstroEventType {
+  STATION_RETROGRADE = 'station_retrograde',
+  STATION_DIRECT = 'station_direct',
+  INGRESS = 'ingress',
+  SOLAR_ECLIPSE = 'solar_eclipse',
+  LUNAR_ECLIPSE = 'lunar_eclipse',
+}
+
+export enum EclipseKind {
+  TOTAL = 'total',
+  ANNULAR = 'annular',
+  PARTIAL = 'partial',
+  PENUMBRAL = 'penumbral',
+}
+
+export interface AstroEvent {
+  id: string; // stable across calculations, e.g. station_retrograde:mercury:2026-11-09
+  type: AstroEventType;
+  time: string; // ISO 8601
+  planet: Planet; // the Sun for solar eclipses, the Moon for lunar eclipses
+  sign: ZodiacSign; // sign entered for ingresses, otherwise the sign the planet is in
+  retrograde?: boolean; // ingresses made in retrograde motion
+  eclipse?: EclipseKind;
+}
+
+// Bodies that station; the Sun and Moon never turn retrograde
+const STATION_BODIES = [
+  Planet.MERCURY,
+  Planet.VENUS,
+  Planet.MARS,
+  Planet.JUPITER,
+  Planet.SATURN,
+  Planet.URANUS,
+  Planet.NEPTUNE,
+  Planet.PLUTO,
+];
+
+// The Moon changes sign every two or three days, see the moon calendar instead
+const INGRESS_BODIES = [Planet.SUN, ...STATION_BODIES];
+
+// Mercury, the fastest of these, moves less than 2.5° a day
+const SEARCH_STEP = 1;
+
+// Stop bisecting at one minute
+const PRECISION = 1 / 1440;
+
+const EARTH_RADIUS_KM = 6378.14;
+const MOON_RADIUS_KM = 1737.4;
+const SUN_SEMIDIAMETER_AT_1_AU = 959.63 / 3600;
+const SUN_PARALLAX_AT_1_AU = 8.794 / 3600;
+
+// Enlargement of the Earth's shadow by its atmosphere
+const SHADOW_ENLARGEMENT = 1.02;
+
+/**
+ * Find the moment a condition starts to hold, given an interval where it
+ * is false at the start and true at the end
+ */
+const bisect = (holds: (jd: number) => boolean, start: number, end: number): number => {
+  let low = start;
+  let high = end;
+  while (high - low > PRECISION) {
+    const middle = (low + high) / 2;
+    if (holds(middle)) {
+      high = middle;
+    } else {
+      low = middle;
+    }
+  }
+  return (low + high) / 2;
+};
+
+const signAt = (longitude: number): ZodiacSign => ZODIAC_ORDER[Math.floor(longitude / 30) % 12];
+
+const createEvent = (
+  type: AstroEventType,
+  jd: number,
+  planet: Planet,
+  sign: ZodiacSign,
+  extra: Pick<AstroEvent, 'retrograde' | 'eclipse'> = {}
+): AstroEvent => {
+  const time = fromJulianDay(jd).toISOString();
+  return { id: `${type}:${planet}:${time.split('T')[0]}`, type, time, planet, sign, ...extra };
+};
+
+/**
+ * Find stations and ingresses between two daily samples of a planet
+ */
+const findPlanetEvents = (planet: Planet, jd: number, before: PlanetPosition, after: PlanetPosition): AstroEvent[] => {
+  const events: AstroEvent[] = [];
+  const next = jd + SEARCH_STEP;
+
+  if (STATION_BODIES.includes(planet) && before.retrograde !== after.retrograde) {
+    const exact = bisect(t => calculatePlanetPosition(planet, t).retrograde === after.retrograde, jd, next);
+    const type = after.retrograde ? AstroEventType.STATION_RETROGRADE : AstroEventType.STATION_DIRECT;
+    events.push(createEvent(type, exact, planet, calculatePlanetPosition(planet, exact).sign));
+  }
+
+  if (before.sign !== after.sign) {
+    const exact = bisect(t => calculatePlanetPosition(planet, t).sign === after.sign, jd, next);
+    events.push(createEvent(AstroEventType.INGRESS, exact, planet, after.sign, {
+      retrograde: calculatePlanetPosition(planet, exact).retrograde,
+    }));
+  }
+
+  return events;
+};
+
+/**
+ * Classify a solar eclipse at a new moon from the Moon's distance to the
+ * ecliptic, or return null when the Moon passes clear of the Sun
+ */
+const classifySolarEclipse = (jd: number): EclipseKind | null => {
+  const latitude = Math.abs(calculatePlanetPosition(Planet.MOON, jd).latitude);
+  const distances = calculateLuminaryDistances(jd);
+  const moonParallax = asinDeg(EARTH_RADIUS_KM / distances.moon);
+  const moonRadius = asinDeg(MOON_RADIUS_KM / distances.moon);
+  const sunRadius = SUN_SEMIDIAMETER_AT_1_AU / distances.sun;
+  const sunParallax = SUN_PARALLAX_AT_1_AU / distances.sun;
+
+  if (latitude >= moonParallax - sunParallax + moonRadius + sunRadius) {
+    return null;
+  }
+  // The axis of the Moon's shadow only reaches the Earth for central eclipses
+  if (latitude >= moonParallax - sunParallax) {
+    return EclipseKind.PARTIAL;
+  }
+  return moonRadius >= sunRadius ? EclipseKind.TOTAL : EclipseKind.ANNULAR;
+};
+
+/**
+ * Classify a lunar eclipse at a full moon from the Moon's distance to the
+ * centre of the Earth's shadow, or return null when it passes clear of it
+ */
+const classifyLunarEclipse = (jd: number): EclipseKind | null => {
+  const latitude = Math.abs(calculatePlanetPosition(Planet.MOON, jd).latitude);
+  const distances = calculateLuminaryDistances(jd);
+  const moonParallax = asinDeg(EARTH_RADIUS_KM / distances.moon);
+  const moonRadius = asinDeg(MOON_RADIUS_KM / distances.moon);
+  const sunRadius = SUN_SEMIDIAMETER_AT_1_AU / distances.sun;
+  const sunParallax = SUN_PARALLAX_AT_1_AU / distances.sun;
+  const umbra = SHADOW_ENLARGEMENT * (moonParallax + sunParallax - sunRadius);
+  const penumbra = SHADOW_ENLARGEMENT * (moonParallax + sunParallax + sunRadius);
+
+  if (latitude + moonRadius <= umbra) {
+    return EclipseKind.TOTAL;
+  }
+  if (latitude - moonRadius < umbra) {
+    return EclipseKind.PARTIAL;
+  }
+  return latitude - moonRadius < penumbra ? EclipseKind.PENUMBRAL : null;
+};
+
+/**
+ * Find solar and lunar eclipses
+ *
+ * @param startJd - Start of the search (Julian Day, UT)
+ * @param endJd - End of the search
+ */
+export const findEclipses = (startJd: number, endJd: number): AstroEvent[] => {
+  const events: AstroEvent[] = [];
+
+  findMoonPhases(startJd, endJd).forEach(phase => {
+    const jd = toJulianDay(new Date(phase.time));
+    if (phase.phase === MoonPhase.NEW_MOON) {
+      const eclipse = classifySolarEclipse(jd);
+      if (eclipse) {
+        events.push(createEvent(AstroEventType.SOLAR_ECLIPSE, jd, Planet.SUN, phase.sign, { eclipse }));
+      }
+    } else if (phase.phase === MoonPhase.FULL_MOON) {
+      const eclipse = classifyLunarEclipse(jd);
+      if (eclipse) {
+        events.push(createEvent(AstroEventType.LUNAR_ECLIPSE, jd, Planet.MOON, phase.sign, { eclipse }));
+      }
+    }
+  });
+
+  return events;
+};
+
+/**
+ * Find retrograde stations, sign ingresses and eclipses in a date range
+ *
+ * @param startJd - Start of the search (Julian Day, UT)
+ * @param endJd - End of the search
+ * @param types - Event types to include, all by default
+ * @returns Events in time order
+ */
+export const findAstroEvents = (
+  startJd: number,
+  endJd: number,
+  types: AstroEventType[] = Object.values(AstroEventType)
+): AstroEvent[] => {
+  const events: AstroEvent[] = [];
+  let before = calculatePlanetPositions(startJd);
+
+  for (let jd = startJd; jd < endJd; jd += SEARCH_STEP) {
+    const after = calculatePlanetPositions(jd + SEARCH_STEP);
+    INGRESS_BODIES.forEach(planet => {
+      events.push(...findPlanetEvents(planet, jd, before[planet], after[planet]));
+    });
+    before = after;
+  }
+
+  if (types.includes(AstroEventType.SOLAR_ECLIPSE) || types.includes(AstroEventType.LUNAR_ECLIPSE)) {
+    events.push(...findEclipses(startJd, endJd));
+  }
+
+  return events
+    .filter(event => types.includes(event.type))
+    .filter(event => {
+      const jd = toJulianDay(new Date(event.time));
+      return jd >= startJd && jd < endJd;
+    })
+    .sort((a, b) => a.time.localeCompare(b.time));
+};
+
+/**
+ * Describe an event in a short sentence, e.g. "Mercury stations retrograde
+ * in Sagittarius"
+ */
+export const describeAstroEvent = (event: AstroEvent): string => {
+  const capitalize = (name: string) => name.charAt(0).toUpperCase() + name.slice(1);
+  const planet = capitalize(event.planet);
+  const sign = capitalize(event.sign);
+
+  switch (event.type) {
+    case AstroEventType.STATION_RETROGRADE:
+      return `${planet} stations retrograde in ${sign}`;
+    case AstroEventType.STATION_DIRECT:
+      return `${planet} stations direct in ${sign}`;
+    case AstroEventType.INGRESS:
+      return `${planet} enters ${sign}${event.retrograde ? ' (retrograde)' : ''}`;
+    case AstroEventType.SOLAR_ECLIPSE:
+      return `${capitalize(event.eclipse || EclipseKind.PARTIAL)} solar eclipse in ${sign}`;
+    case AstroEventType.LUNAR_ECLIPSE:
+      return `${capitalize(event.eclipse || EclipseKind.PARTIAL)} lunar eclipse in ${sign}`;
+  }
+};
@@ -0,0 +1,328 @@
+import {
+  angleDifference,
+  asinDeg,
+  atan2Deg,
+  calculatePlanetPositions,
+  cosDeg,
+  greenwichSiderealTime,
+  normalizeDegrees,
+  obliquityOfEcliptic,
+  Planet,
+  sinDeg,
+  tanDeg,
+  toTerrestrialTime,
+} from './ephemeris';
+import { BirthData, birthDataToJulianDay, calculateNatalChart, ChartOptions, NatalChart } from './chart-calculator';
+import { CITIES, City } from './cities';
+
+/**
+ * Relocation and astrocartography
+ *
+ * A relocated chart keeps the moment of birth and moves the place, which
+ * changes the angles and houses but not the planets. Astrocartography maps
+ * every place where a planet was on one of the four angles at birth: the
+ * MC and IC lines run along meridians, the ASC and DSC lines curve with
+ * latitude. Lines are drawn in mundo, where the planet crosses the horizon
+ * or meridian, so they take the planet's ecliptic latitude into account.
+ */
+
+export enum AstroLineAngle {
+  ASCENDANT = 'asc',
+  DESCENDANT = 'dsc',
+  MIDHEAVEN = 'mc',
+  IMUM_COELI = 'ic',
+}
+
+export enum RelocationTheme {
+  LOVE = 'love',
+  CAREER = 'career',
+  HOME = 'home',
+  GROWTH = 'growth',
+}
+
+// Planet within orb of an angle of a relocated chart
+export interface AngularPlanet {
+  planet: Planet;
+  angle: AstroLineAngle;
+  orb: number;
+}
+
+export interface RelocatedChart {
+  natal: NatalChart;
+  chart: NatalChart; // same moment, cast at the new place
+  angularPlanets: AngularPlanet[]; // closest first
+}
+
+// GeoJSON of the lines, coordinates as [longitude, latitude]
+export interface AstroLineFeature {
+  type: 'Feature';
+  properties: {
+    planet: Planet;
+    angle: AstroLineAngle;
+  };
+  geometry: {
+    type: 'MultiLineString';
+    coordinates: [number, number][][];
+  };
+}
+
+export interface AstrocartographyMap {
+  type: 'FeatureCollection';
+  features: AstroLineFeature[];
+}
+
+// City close to a line that speaks to a theme
+export interface RelocationCity extends City {
+  planet: Planet;
+  angle: AstroLineAngle;
+  distance: number; // km along the parallel to the line
+}
+
+export interface ThemeCities {
+  theme: RelocationTheme;
+  cities: RelocationCity[]; // closest first
+}
+
+// The nodes have no body to rise or culminate
+const LINE_PLANETS = [
+  Planet.SUN,
+  Planet.MOON,
+  Planet.MERCURY,
+  Planet.VENUS,
+  Planet.MARS,
+  Planet.JUPITER,
+  Planet.SATURN,
+  Planet.URANUS,
+  Planet.NEPTUNE,
+  Planet.PLUTO,
+];
+
+const ALL_ANGLES = Object.values(AstroLineAngle);
+
+// Lines that speak to each theme
+export const THEME_LINES: Record<RelocationTheme, { planet: Planet; angles: AstroLineAngle[] }[]> = {
+  [RelocationTheme.LOVE]: [
+    { planet: Planet.VENUS, angles: ALL_ANGLES },
+    { planet: Planet.MOON, angles: [AstroLineAngle.DESCENDANT] },
+  ],
+  [RelocationTheme.CAREER]: [
+    { planet: Planet.SUN, angles: [AstroLineAngle.MIDHEAVEN, AstroLineAngle.ASCENDANT] },
+    { planet: Planet.JUPITER, angles: [AstroLineAngle.MIDHEAVEN] },
+    { planet: Planet.SATURN, angles: [AstroLineAngle.MIDHEAVEN] },
+  ],
+  [RelocationTheme.HOME]: [
+    { planet: Planet.MOON, angles: [AstroLineAngle.IMUM_COELI] },
+    { planet: Planet.VENUS, angles: [AstroLineAngle.IMUM_COELI] },
+    { planet: Planet.JUPITER, angles: [AstroLineAngle.IMUM_COELI] },
+  ],
+  [RelocationTheme.GROWTH]: [
+    { planet: Planet.JUPITER, angles: ALL_ANGLES },
+    { planet: Planet.SUN, angles: [AstroLineAngle.ASCENDANT] },
+  ],
+};
+
+// A planet this close to an angle of the relocated chart is angular
+const ANGULAR_ORB = 5;
+
+// Lines stop short of the poles, where the ASC and DSC lines bunch up
+const MAX_LINE_LATITUDE = 75;
+const LINE_STEP = 1;
+
+// A line is felt up to about this far away
+const MAX_LINE_DISTANCE = 700;
+
+const KM_PER_DEGREE = 111.32;
+
+const DEFAULT_CITY_LIMIT = 5;
+
+// Planet on the celestial sphere
+interface EquatorialPosition {
+  planet: Planet;
+  rightAscension: number;
+  declination: number;
+}
+
+/**
+ * Longitude in -180..180
+ */
+const toGeoLongitude = (longitude: number): number => {
+  const normalized = normalizeDegrees(longitude);
+  return normalized > 180 ? normalized - 360 : normalized;
+};
+
+/**
+ * Right ascension and declination of the line planets at a moment
+ */
+const equatorialPositions = (julianDay: number): EquatorialPosition[] => {
+  const obliquity = obliquityOfEcliptic(toTerrestrialTime(julianDay));
+  const positions = calculatePlanetPositions(julianDay);
+
+  return LINE_PLANETS.map(planet => {
+    const { longitude, latitude } = positions[planet];
+    return {
+      planet,
+      rightAscension: normalizeDegrees(atan2Deg(
+        sinDeg(longitude) * cosDeg(obliquity) - tanDeg(latitude) * sinDeg(obliquity),
+        cosDeg(longitude)
+      )),
+      declination: asinDeg(sinDeg(latitude) * cosDeg(obliquity) + cosDeg(latitude) * sinDeg(obliquity) * sinDeg(longitude)),
+    };
+  });
+};
+
+/**
+ * Geographic longitude of a planet's line at a latitude, or null where the
+ * planet never rises or never sets
+ *
+ * @param position - Planet on the celestial sphere
+ * @param angle - Angle of the line
+ * @param latitude - Geographic latitude
+ * @param siderealTime - Greenwich sidereal time of birth (degrees)
+ */
+const lineLongitude = (
+  position: EquatorialPosition,
+  angle: AstroLineAngle,
+  latitude: number,
+  siderealTime: number
+): number | null => {
+  // Longitude where the planet culminates
+  const meridian = position.rightAscension - siderealTime;
+
+  if (angle === AstroLineAngle.MIDHEAVEN) {
+    return toGeoLongitude(meridian);
+  }
+  if (angle === AstroLineAngle.IMUM_COELI) {
+    return toGeoLongitude(meridian + 180);
+  }
+
+  // Hour angle of rising and setting
+  const cosine = -tanDeg(latitude) * tanDeg(position.declination);
+  if (Math.abs(cosine) > 1) {
+    return null;
+  }
+  const semiArc = Math.acos(cosine) * 180 / Math.PI;
+  return toGeoLongitude(angle === AstroLineAngle.ASCENDANT ? meridian - semiArc : meridian + semiArc);
+};
+
+/**
+ * Cast a chart for the moment of birth at another place
+ *
+ * @param birthData - Date, time and place of birth
+ * @param place - Where the person lives or travels
+ * @param options - House system and zodiac
+ */
+export const calculateRelocatedChart = (
+  birthData: BirthData,
+  place: Pick<BirthData, 'latitude' | 'longitude' | 'locationName'>,
+  options: ChartOptions = {}
+): RelocatedChart => {
+  const natal = calculateNatalChart(birthData, options);
+  // The clock time and its zone stay those of the birth place, so the moment is unchanged
+  const chart = calculateNatalChart({ ...birthData, ...place }, options);
+  const angles: [AstroLineAngle, number][] = [
+    [AstroLineAngle.ASCENDANT, chart.houses.ascendant],
+    [AstroLineAngle.DESCENDANT, chart.houses.ascendant + 180],
+    [AstroLineAngle.MIDHEAVEN, chart.houses.midheaven],
+    [AstroLineAngle.IMUM_COELI, chart.houses.midheaven + 180],
+  ];
+
+  const angularPlanets: AngularPlanet[] = [];
+  LINE_PLANETS.forEach(planet => {
+    angles.forEach(([angle, longitude]) => {
+      const orb = Math.abs(angleDifference(chart.planets[planet].longitude, longitude));
+      if (orb <= ANGULAR_ORB) {
+        angularPlanets.push({ planet, angle, orb });
+      }
+    });
+  });
+
+  return { natal, chart, angularPlanets: angularPlanets.sort((a, b) => a.orb - b.orb) };
+};
+
+/**
+ * Draw the astrocartography lines of a birth as GeoJSON. Lines are split
+ * where they cross the antimeridian or where the planet stops rising.
+ *
+ * @param birthData - Date, time and place of birth
+ */
+export const calculateAstrocartography = (birthData: BirthData): AstrocartographyMap => {
+  const julianDay = birthDataToJulianDay(birthData);
+  const siderealTime = greenwichSiderealTime(julianDay);
+  const latitudes = Array.from(
+    { length: (2 * MAX_LINE_LATITUDE) / LINE_STEP + 1 },
+    (_, i) => -MAX_LINE_LATITUDE + i * LINE_STEP
+  );
+
+  const features = equatorialPositions(julianDay).flatMap(position =>
+    ALL_ANGLES.map((angle): AstroLineFeature => {
+      const segments: [number, number][][] = [];
+      let segment: [number, number][] = [];
+      latitudes.forEach(latitude => {
+        const longitude = lineLongitude(position, angle, latitude, siderealTime);
+        const previous = segment[segment.length - 1];
+        if (longitude === null || (previous && Math.abs(longitude - previous[0]) > 180)) {
+          if (segment.length > 1) {
+            segments.push(segment);
+          }
+          segment = [];
+        }
+        if (longitude !== null) {
+          segment.push([Math.round(longitude * 100) / 100, latitude]);
+        }
+      });
+      if (segment.length > 1) {
+        segments.push(segment);
+      }
+
+      return {
+        type: 'Feature',
+        properties: { planet: position.planet, angle },
+        geometry: { type: 'MultiLineString', coordinates: segments },
+      };
+    })
+  );
+
+  return { type: 'FeatureCollection', features };
+};
+
+/**
+ * Find the cities closest to the lines of each theme. Distance is measured
+ * along the city's parallel, and only lines within about 700 km count.
+ *
+ * @param birthData - Date, time and place of birth
+ * @param themes - Themes to search, all by default
+ * @param limit - Cities per theme
+ * @param cities - Cities to search, the bundled list by default
+ */
+export const findRelocationCities = (
+  birthData: BirthData,
+  themes: RelocationTheme[] = Object.values(RelocationTheme),
+  limit = DEFAULT_CITY_LIMIT,
+  cities: City[] = CITIES
+): ThemeCities[] => {
+  const julianDay = birthDataToJulianDay(birthData);
+  const siderealTime = greenwichSiderealTime(julianDay);
+  const positions = equatorialPositions(julianDay);
+
+  return themes.map(theme => {
+    const matches = cities.flatMap(city => {
+      let closest: RelocationCity | null = null;
+      THEME_LINES[theme].forEach(({ planet, angles }) => {
+        const position = positions.find(candidate => candidate.planet === planet)!;
+        angles.forEach(angle => {
+          const longitude = lineLongitude(position, angle, city.latitude, siderealTime);
+          if (longitude === null) {
+            return;
+          }
+          const distance = Math.abs(angleDifference(longitude, city.longitude)) * KM_PER_DEGREE * cosDeg(city.latitude);
+          if (distance <= MAX_LINE_DISTANCE && (!closest || distance < closest.distance)) {
+            closest = { ...city, planet, angle, distance: Math.round(distance) };
+          }
+        });
+      });
+      return closest ? [closest as RelocationCity] : [];
+    });
+
+    return { theme, cities: matches.sort((a, b) => a.distance - b.distance).slice(0, limit) };
+  });
+};
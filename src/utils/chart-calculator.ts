@@ -0,0 +1,218 @@
+import {
+  calculatePlanetPosition,
+  calculatePlanetPositions,
+  fromJulianDay,
+  julianDayFromDateTime,
+  longitudeToSign,
+  normalizeDegrees,
+  Planet,
+  PlanetPosition,
+} from './ephemeris';
+import { calculateHouses, findHouse, HouseCusps, HouseSystem } from './houses';
+import { AspectType, findAspect } from './aspects';
+import { getUtcOffsetForLocalTime } from './timezone';
+import { Ayanamsa, calculateAyanamsa, calculateSignBalance, SignBalance, ZodiacType } from './zodiac';
+import { ZodiacSign } from '../types';
+
+// Birth (or event) data needed to cast a chart
+export interface BirthData {
+  date: string; // YYYY-MM-DD
+  time?: string; // HH:mm or HH:mm:ss, defaults to noon
+  latitude: number;
+  longitude: number;
+  utcOffset?: number; // minutes east of UTC for the given clock time
+  timezone?: string; // IANA zone of the birth place, used when utcOffset is not given
+  locationName?: string;
+}
+
+// House system and zodiac used to cast a chart
+export interface ChartOptions {
+  houseSystem?: HouseSystem;
+  zodiacType?: ZodiacType;
+  ayanamsa?: Ayanamsa; // sidereal charts only, defaults to Lahiri
+}
+
+// Zodiac a chart was cast in
+export interface ChartZodiac {
+  type: ZodiacType;
+  ayanamsa?: Ayanamsa;
+  offset: number; // degrees subtracted from tropical longitudes
+}
+
+// Planet position with the house it falls in
+export interface ChartPlanet extends PlanetPosition {
+  house: number;
+}
+
+// Aspect between two chart points
+export interface ChartAspect {
+  planet1: Planet;
+  planet2: Planet;
+  aspect: AspectType;
+  orb: number;
+}
+
+// Fully calculated chart
+export interface NatalChart {
+  birthData: BirthData;
+  julianDay: number;
+  planets: Record<Planet, ChartPlanet>;
+  zodiac: ChartZodiac;
+  houses: HouseCusps;
+  aspects: ChartAspect[];
+  balance: SignBalance; // elements and modalities of the ten planets
+}
+
+/**
+ * Find aspects between two sets of positions. When only one set is given,
+ * each pair within the set is compared once.
+ *
+ * @param positions1 - First set of positions
+ * @param positions2 - Optional second set (e.g. transits or a partner's chart)
+ */
+export const calculateAspects = (
+  positions1: Record<Planet, PlanetPosition>,
+  positions2?: Record<Planet, PlanetPosition>
+): ChartAspect[] => {
+  const aspects: ChartAspect[] = [];
+  const planets1 = Object.values(Planet);
+  const planets2 = Object.values(Planet);
+
+  planets1.forEach((planet1, i) => {
+    planets2.forEach((planet2, j) => {
+      // Within one chart, skip self-pairs, duplicates and the always-opposed nodes
+      if (!positions2 && (j <= i || (isNode(planet1) && isNode(planet2)))) return;
+
+      const match = findAspect(
+        positions1[planet1].longitude,
+        (positions2 || positions1)[planet2].longitude
+      );
+      if (match) {
+        aspects.push({ planet1, planet2, aspect: match.aspect, orb: match.orb });
+      }
+    });
+  });
+
+  return aspects.sort((a, b) => a.orb - b.orb);
+};
+
+const isNode = (planet: Planet): boolean =>
+  planet === Planet.NORTH_NODE || planet === Planet.SOUTH_NODE;
+
+// Birth data needed to fix the moment of birth
+export type BirthMoment = Pick<BirthData, 'date' | 'time' | 'utcOffset' | 'timezone'>;
+
+/**
+ * Julian Day (UT) of the moment described by birth data. The clock time is
+ * read in the birth place's zone: an explicit UTC offset wins, then the IANA
+ * zone (with its historical daylight saving rules), then UTC.
+ */
+export const birthDataToJulianDay = (birthData: BirthMoment): number => {
+  let utcOffset = birthData.utcOffset;
+  if (utcOffset === undefined && birthData.timezone) {
+    utcOffset = getUtcOffsetForLocalTime(birthData.timezone, birthData.date, birthData.time);
+  }
+  return julianDayFromDateTime(birthData.date, birthData.time, utcOffset);
+};
+
+/**
+ * Birth data for a moment, with the clock time given in UTC
+ *
+ * @param julianDay - Moment (Julian Day, UT)
+ * @param place - Latitude, longitude and name of the place
+ */
+export const birthDataAtMoment = (
+  julianDay: number,
+  place: Pick<BirthData, 'latitude' | 'longitude' | 'locationName'>
+): BirthData => {
+  const moment = fromJulianDay(julianDay).toISOString();
+  return { date: moment.split('T')[0], time: moment.substring(11, 19), utcOffset: 0, ...place };
+};
+
+// Zodiac part of the chart options
+export type ZodiacOptions = Pick<ChartOptions, 'zodiacType' | 'ayanamsa'>;
+
+/**
+ * Sun sign for a moment of birth, from the Sun's actual position rather than
+ * fixed calendar dates, so births on a cusp get the right sign
+ *
+ * @param birthData - Date, optional clock time (noon if unknown) and zone
+ * @param options - Zodiac to read the sign in, tropical by default
+ */
+export const getSunSign = (birthData: BirthMoment, options: ZodiacOptions = {}): ZodiacSign => {
+  const julianDay = birthDataToJulianDay(birthData);
+  const { offset } = resolveZodiac(julianDay, options);
+  return longitudeToSign(calculatePlanetPosition(Planet.SUN, julianDay).longitude - offset).sign;
+};
+
+/**
+ * Resolve the zodiac for chart options at a moment
+ */
+const resolveZodiac = (julianDay: number, options: ChartOptions): ChartZodiac => {
+  if (options.zodiacType !== ZodiacType.SIDEREAL) {
+    return { type: ZodiacType.TROPICAL, offset: 0 };
+  }
+  const ayanamsa = options.ayanamsa || Ayanamsa.LAHIRI;
+  return { type: ZodiacType.SIDEREAL, ayanamsa, offset: calculateAyanamsa(julianDay, ayanamsa) };
+};
+
+/**
+ * Shift tropical positions into another zodiac
+ *
+ * @param positions - Tropical positions
+ * @param offset - Degrees to subtract from each longitude
+ */
+export const applyZodiacOffset = (
+  positions: Record<Planet, PlanetPosition>,
+  offset: number
+): Record<Planet, PlanetPosition> => {
+  if (offset === 0) {
+    return positions;
+  }
+
+  const shifted = {} as Record<Planet, PlanetPosition>;
+  for (const planet of Object.values(Planet)) {
+    const longitude = normalizeDegrees(positions[planet].longitude - offset);
+    shifted[planet] = { ...positions[planet], longitude, ...longitudeToSign(longitude) };
+  }
+  return shifted;
+};
+
+/**
+ * Calculate a natal chart from birth data
+ *
+ * @param birthData - Date, time and place of birth
+ * @param options - House system and zodiac, Placidus and tropical by default
+ * @returns Planet positions with houses, house cusps, aspects and the
+ * element/modality balance
+ */
+export const calculateNatalChart = (birthData: BirthData, options: ChartOptions = {}): NatalChart => {
+  const julianDay = birthDataToJulianDay(birthData);
+  const zodiac = resolveZodiac(julianDay, options);
+  const positions = applyZodiacOffset(calculatePlanetPositions(julianDay), zodiac.offset);
+  const houses = calculateHouses(
+    julianDay,
+    birthData.latitude,
+    birthData.longitude,
+    options.houseSystem,
+    zodiac.offset
+  );
+
+  const planets = {} as Record<Planet, ChartPlanet>;
+  for (const planet of Object.values(Planet)) {
+    planets[planet] = {
+      ...positions[planet],
+      house: findHouse(positions[planet].longitude, houses.cusps),
+    };
+  }
+
+  return {
+    birthData,
+    julianDay,
+    planets,
+    zodiac,
+    houses,
+    aspects: calculateAspects(positions),
+    balance: calculateSignBalance(Object.values(planets).filter(position => !isNode(position.planet))),
+  };
+};
@@ -0,0 +1,399 @@
+import { normalizeDegrees, Planet, ZODIAC_ORDER } from './ephemeris';
+import { AspectType } from './aspects';
+import { Element, SIGN_ELEMENTS } from './zodiac';
+import { ZodiacSign } from '../types';
+
+/**
+ * Chart wheel renderer
+ *
+ * Lays out a chart wheel (zodiac ring, house cusps, planet glyphs and aspect
+ * lines) as a list of simple shapes, which are then written out as SVG or
+ * drawn onto a PDFKit page. Longitudes run counter-clockwise with the
+ * ascendant on the left, as on a printed chart.
+ */
+
+// Glyph sets: astrological symbols, or abbreviations for renderers without
+// a symbol font (such as the standard PDF fonts)
+export enum GlyphStyle {
+  SYMBOLS = 'symbols',
+  ABBREVIATIONS = 'abbreviations',
+}
+
+// Variation selector that keeps symbols from rendering as emoji
+const TEXT_PRESENTATION = '\uFE0E';
+
+const PLANET_SYMBOLS: Record<Planet, string> = {
+  [Planet.SUN]: '☉',
+  [Planet.MOON]: '☽',
+  [Planet.MERCURY]: '☿',
+  [Planet.VENUS]: '♀',
+  [Planet.MARS]: '♂',
+  [Planet.JUPITER]: '♃',
+  [Planet.SATURN]: '♄',
+  [Planet.URANUS]: '♅',
+  [Planet.NEPTUNE]: '♆',
+  [Planet.PLUTO]: '♇',
+  [Planet.NORTH_NODE]: '☊',
+  [Planet.SOUTH_NODE]: '☋',
+};
+
+const PLANET_ABBREVIATIONS: Record<Planet, string> = {
+  [Planet.SUN]: 'Su',
+  [Planet.MOON]: 'Mo',
+  [Planet.MERCURY]: 'Me',
+  [Planet.VENUS]: 'Ve',
+  [Planet.MARS]: 'Ma',
+  [Planet.JUPITER]: 'Ju',
+  [Planet.SATURN]: 'Sa',
+  [Planet.URANUS]: 'Ur',
+  [Planet.NEPTUNE]: 'Ne',
+  [Planet.PLUTO]: 'Pl',
+  [Planet.NORTH_NODE]: 'NN',
+  [Planet.SOUTH_NODE]: 'SN',
+};
+
+const SIGN_SYMBOLS: Record<ZodiacSign, string> = {
+  [ZodiacSign.ARIES]: '♈',
+  [ZodiacSign.TAURUS]: '♉',
+  [ZodiacSign.GEMINI]: '♊',
+  [ZodiacSign.CANCER]: '♋',
+  [ZodiacSign.LEO]: '♌',
+  [ZodiacSign.VIRGO]: '♍',
+  [ZodiacSign.LIBRA]: '♎',
+  [ZodiacSign.SCORPIO]: '♏',
+  [ZodiacSign.SAGITTARIUS]: '♐',
+  [ZodiacSign.CAPRICORN]: '♑',
+  [ZodiacSign.AQUARIUS]: '♒',
+  [ZodiacSign.PISCES]: '♓',
+};
+
+const ELEMENT_FILLS: Record<Element, string> = {
+  [Element.FIRE]: '#fbe3d9',
+  [Element.EARTH]: '#e5eed8',
+  [Element.AIR]: '#fbf5d6',
+  [Element.WATER]: '#dce8f5',
+};
+
+// Aspect line colors; conjunctions have no line
+const ASPECT_COLORS: Partial<Record<string, string>> = {
+  [AspectType.SEXTILE]: '#2f7ed8',
+  [AspectType.TRINE]: '#2f7ed8',
+  [AspectType.SQUARE]: '#d8462f',
+  [AspectType.OPPOSITION]: '#d8462f',
+};
+
+const INK = '#333333';
+
+// Planet placed on the wheel
+export interface WheelPlanet {
+  planet: string;
+  longitude: number;
+  retrograde?: boolean;
+}
+
+// Aspect line. planet1 is on the inner ring, planet2 on the outer ring when
+// there is one (transits or a partner's chart), else also on the inner ring.
+export interface WheelAspect {
+  planet1: string;
+  planet2: string;
+  aspect: string;
+}
+
+// Chart to draw
+export interface WheelChart {
+  planets: WheelPlanet[];
+  cusps?: number[]; // twelve house cusps; without them 0° Aries is on the left
+  outerPlanets?: WheelPlanet[];
+  aspects?: WheelAspect[];
+}
+
+export interface WheelOptions {
+  size?: number; // width and height in drawing units
+  glyphs?: GlyphStyle;
+}
+
+// Shapes shared by the SVG and PDF renderers
+export type WheelShape =
+  | { type: 'circle'; cx: number; cy: number; r: number; stroke: string; width: number; fill?: string }
+  | { type: 'path'; d: string; fill: string }
+  | { type: 'line'; x1: number; y1: number; x2: number; y2: number; stroke: string; width: number }
+  | { type: 'text'; x: number; y: number; text: string; size: number; fill: string };
+
+export interface WheelDrawing {
+  size: number;
+  shapes: WheelShape[];
+}
+
+/**
+ * Spread longitudes apart so no two are closer than the minimum separation,
+ * moving each as little as possible. Used to keep planet glyphs in a
+ * stellium from overlapping.
+ *
+ * @param longitudes - Longitudes in degrees
+ * @param minSeparation - Minimum distance between neighbours in degrees
+ * @returns Display longitudes, in the same order as the input
+ */
+export const spreadLongitudes = (longitudes: number[], minSeparation: number): number[] => {
+  const count = longitudes.length;
+  if (count < 2) {
+    return longitudes.map(normalizeDegrees);
+  }
+
+  const separation = Math.min(minSeparation, 360 / count);
+  const order = longitudes
+    .map((longitude, index) => ({ index, longitude: normalizeDegrees(longitude) }))
+    .sort((a, b) => a.longitude - b.longitude);
+  const display = order.map(entry => entry.longitude);
+
+  // Push crowded neighbours apart until every gap is wide enough
+  for (let iteration = 0; iteration < 200; iteration++) {
+    let moved = false;
+    for (let i = 0; i < count; i++) {
+      const next = (i + 1) % count;
+      const gap = next === 0 ? display[0] + 360 - display[i] : display[next] - display[i];
+      if (gap < separation - 1e-6) {
+        const push = (separation - gap) / 2;
+        display[i] -= push;
+        display[next] += push;
+        moved = true;
+      }
+    }
+    if (!moved) break;
+  }
+
+  const result = new Array<number>(count);
+  order.forEach((entry, i) => {
+    result[entry.index] = normalizeDegrees(display[i]);
+  });
+  return result;
+};
+
+/**
+ * Lay out a chart wheel. A chart with outer planets is drawn as a bi-wheel:
+ * the chart itself inside, the outer planets in a ring just inside the zodiac.
+ *
+ * @param chart - Planets, cusps and aspects to draw
+ * @param options - Size and glyph style
+ * @returns Shapes to render, in painting order
+ */
+export const buildChartWheel = (chart: WheelChart, options: WheelOptions = {}): WheelDrawing => {
+  const size = options.size || 600;
+  const glyphs = options.glyphs || GlyphStyle.SYMBOLS;
+  const center = size / 2;
+  const radius = size / 2 - 4;
+  const start = chart.cusps && chart.cusps.length === 12 ? chart.cusps[0] : 0;
+  const biwheel = Boolean(chart.outerPlanets && chart.outerPlanets.length);
+  const shapes: WheelShape[] = [];
+
+  const rings = {
+    zodiacOuter: radius,
+    zodiacInner: radius * 0.86,
+    outerPlanets: radius * 0.795,
+    outerBoundary: radius * 0.73,
+    innerPlanets: radius * (biwheel ? 0.645 : 0.74),
+    housesOuter: radius * 0.5,
+    aspects: radius * 0.42,
+  };
+
+  // Screen position of a longitude at a radius
+  const point = (longitude: number, r: number): [number, number] => {
+    const angle = ((180 + longitude - start) * Math.PI) / 180;
+    return [round(center + r * Math.cos(angle)), round(center - r * Math.sin(angle))];
+  };
+  const line = (longitude: number, from: number, to: number, stroke: string, width: number): WheelShape => {
+    const [x1, y1] = point(longitude, from);
+    const [x2, y2] = point(longitude, to);
+    return { type: 'line', x1, y1, x2, y2, stroke, width };
+  };
+  const text = (longitude: number, r: number, value: string, fontSize: number, fill = INK): WheelShape => {
+    const [x, y] = point(longitude, r);
+    return { type: 'text', x, y, text: value, size: round(fontSize), fill };
+  };
+  const planetGlyph = (planet: string): string => glyphs === GlyphStyle.SYMBOLS
+    ? `${PLANET_SYMBOLS[planet as Planet] || planet}${TEXT_PRESENTATION}`
+    : PLANET_ABBREVIATIONS[planet as Planet] || planet.slice(0, 2);
+
+  // Zodiac ring, one sector per sign colored by element
+  ZODIAC_ORDER.forEach((sign, index) => {
+    const from = index * 30;
+    const [ox1, oy1] = point(from, rings.zodiacOuter);
+    const [ox2, oy2] = point(from + 30, rings.zodiacOuter);
+    const [ix2, iy2] = point(from + 30, rings.zodiacInner);
+    const [ix1, iy1] = point(from, rings.zodiacInner);
+    const outer = round(rings.zodiacOuter);
+    const inner = round(rings.zodiacInner);
+    shapes.push({
+      type: 'path',
+      d: `M ${ox1} ${oy1} A ${outer} ${outer} 0 0 0 ${ox2} ${oy2} L ${ix2} ${iy2} A ${inner} ${inner} 0 0 1 ${ix1} ${iy1} Z`,
+      fill: ELEMENT_FILLS[SIGN_ELEMENTS[sign]],
+    });
+  });
+  shapes.push({ type: 'circle', cx: center, cy: center, r: rings.zodiacOuter, stroke: INK, width: 1.5 });
+  shapes.push({ type: 'circle', cx: center, cy: center, r: rings.zodiacInner, stroke: INK, width: 1 });
+
+  ZODIAC_ORDER.forEach((sign, index) => {
+    shapes.push(line(index * 30, rings.zodiacInner, rings.zodiacOuter, INK, 1));
+    for (let degree = 10; degree < 30; degree += 10) {
+      shapes.push(line(index * 30 + degree, rings.zodiacInner, rings.zodiacInner + radius * 0.025, INK, 0.5));
+    }
+    const label = glyphs === GlyphStyle.SYMBOLS
+      ? `${SIGN_SYMBOLS[sign]}${TEXT_PRESENTATION}`
+      : sign.slice(0, 3).replace(/^./, letter => letter.toUpperCase());
+    shapes.push(text(index * 30 + 15, (rings.zodiacOuter + rings.zodiacInner) / 2, label, radius * 0.065));
+  });
+
+  // House cusps and numbers, with the ascendant and midheaven axes emphasised
+  if (biwheel) {
+    shapes.push({ type: 'circle', cx: center, cy: center, r: rings.outerBoundary, stroke: INK, width: 0.5 });
+  }
+  shapes.push({ type: 'circle', cx: center, cy: center, r: rings.housesOuter, stroke: INK, width: 0.75 });
+  shapes.push({ type: 'circle', cx: center, cy: center, r: rings.aspects, stroke: INK, width: 0.75 });
+
+  if (chart.cusps && chart.cusps.length === 12) {
+    const cusps = chart.cusps;
+    cusps.forEach((cusp, index) => {
+      const angle = index === 0 || index === 3 || index === 6 || index === 9;
+      shapes.push(line(cusp, rings.aspects, angle ? rings.zodiacOuter : rings.zodiacInner, INK, angle ? 1.5 : 0.5));
+
+      const span = normalizeDegrees(cusps[(index + 1) % 12] - cusp);
+      shapes.push(text(cusp + span / 2, (rings.housesOuter + rings.aspects) / 2, String(index + 1), radius * 0.04));
+    });
+  }
+
+  // Planets: a tick at the true longitude and the glyph at the spread position
+  const placePlanets = (planets: WheelPlanet[], glyphRadius: number, tickFrom: number): void => {
+    const fontSize = radius * 0.06;
+    const minSeparation = (fontSize * 1.3 * 180) / (Math.PI * glyphRadius);
+    const display = spreadLongitudes(planets.map(p => p.longitude), minSeparation);
+
+    planets.forEach((planet, index) => {
+      shapes.push(line(planet.longitude, tickFrom, tickFrom - radius * 0.03, INK, 1));
+      if (Math.abs(normalizeDegrees(display[index] - planet.longitude + 180) - 180) > 0.5) {
+        const [x1, y1] = point(planet.longitude, tickFrom - radius * 0.03);
+        const [x2, y2] = point(display[index], glyphRadius + fontSize * 0.7);
+        shapes.push({ type: 'line', x1, y1, x2, y2, stroke: '#999999', width: 0.5 });
+      }
+      shapes.push(text(display[index], glyphRadius, planetGlyph(planet.planet), fontSize));
+      if (planet.retrograde) {
+        const marker = glyphs === GlyphStyle.SYMBOLS ? '℞' : 'R';
+        shapes.push(text(display[index], glyphRadius - fontSize * 0.95, marker, fontSize * 0.5, '#b03a2e'));
+      }
+    });
+  };
+
+  placePlanets(chart.planets, rings.innerPlanets, biwheel ? rings.outerBoundary : rings.zodiacInner);
+  if (biwheel) {
+    placePlanets(chart.outerPlanets!, rings.outerPlanets, rings.zodiacInner);
+  }
+
+  // Aspect lines between the true positions on the inner circle
+  const inner = new Map(chart.planets.map(p => [p.planet, p.longitude]));
+  const outer = biwheel ? new Map(chart.outerPlanets!.map(p => [p.planet, p.longitude])) : inner;
+  (chart.aspects || []).forEach(aspect => {
+    const color = ASPECT_COLORS[aspect.aspect];
+    const from = inner.get(aspect.planet1);
+    const to = outer.get(aspect.planet2);
+    if (!color || from === undefined || to === undefined) return;
+
+    const [x1, y1] = point(from, rings.aspects);
+    const [x2, y2] = point(to, rings.aspects);
+    shapes.push({ type: 'line', x1, y1, x2, y2, stroke: color, width: 0.75 });
+  });
+
+  return { size, shapes };
+};
+
+/**
+ * Render a chart wheel as a standalone SVG document
+ *
+ * @param chart - Planets, cusps and aspects to draw
+ * @param options - Size and glyph style
+ */
+export const renderChartWheelSvg = (chart: WheelChart, options: WheelOptions = {}): string => {
+  const { size, shapes } = buildChartWheel(chart, options);
+
+  const elements = shapes.map(shape => {
+    switch (shape.type) {
+      case 'circle':
+        return `<circle cx="${shape.cx}" cy="${shape.cy}" r="${round(shape.r)}" fill="${shape.fill || 'none'}" stroke="${shape.stroke}" stroke-width="${shape.width}"/>`;
+      case 'path':
+        return `<path d="${shape.d}" fill="${shape.fill}"/>`;
+      case 'line':
+        return `<line x1="${shape.x1}" y1="${shape.y1}" x2="${shape.x2}" y2="${shape.y2}" stroke="${shape.stroke}" stroke-width="${shape.width}"/>`;
+      case 'text':
+        return `<text x="${shape.x}" y="${shape.y}" font-size="${shape.size}" fill="${shape.fill}" text-anchor="middle" dominant-baseline="central">${escapeXml(shape.text)}</text>`;
+    }
+  });
+
+  return [
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${size}" height="${size}" viewBox="0 0 ${size} ${size}" font-family="'DejaVu Sans', 'Segoe UI Symbol', sans-serif">`,
+    `<rect width="${size}" height="${size}" fill="#ffffff"/>`,
+    ...elements,
+    '</svg>',
+  ].join('\n');
+};
+
+/**
+ * Draw a chart wheel onto a PDF page as vector graphics. Uses abbreviations
+ * for glyphs, since the standard PDF fonts have no astrological symbols.
+ *
+ * @param doc - PDF document
+ * @param chart - Planets, cusps and aspects to draw
+ * @param x - Left edge on the page
+ * @param y - Top edge on the page
+ * @param width - Width (and height) on the page
+ */
+export const drawChartWheelOnPdf = (
+  doc: PDFKit.PDFDocument,
+  chart: WheelChart,
+  x: number,
+  y: number,
+  width: number
+): void => {
+  const { size, shapes } = buildChartWheel(chart, { glyphs: GlyphStyle.ABBREVIATIONS });
+  const { x: textX, y: textY } = doc;
+
+  doc.save();
+  doc.translate(x, y).scale(width / size);
+
+  shapes.forEach(shape => {
+    switch (shape.type) {
+      case 'circle':
+        doc.circle(shape.cx, shape.cy, shape.r).lineWidth(shape.width);
+        if (shape.fill) {
+          doc.fillAndStroke(shape.fill, shape.stroke);
+        } else {
+          doc.stroke(shape.stroke);
+        }
+        break;
+      case 'path':
+        doc.path(shape.d).fill(shape.fill);
+        break;
+      case 'line':
+        doc.moveTo(shape.x1, shape.y1).lineTo(shape.x2, shape.y2).lineWidth(shape.width).stroke(shape.stroke);
+        break;
+      case 'text': {
+        const boxWidth = shape.size * 4;
+        doc.font('Helvetica')
+           .fontSize(shape.size)
+           .fillColor(shape.fill)
+           .text(shape.text, shape.x - boxWidth / 2, shape.y - shape.size * 0.6, {
+             width: boxWidth,
+             align: 'center',
+             lineBreak: false,
+           });
+        break;
+      }
+    }
+  });
+
+  doc.restore();
+  doc.fillColor('black');
+  doc.x = textX;
+  doc.y = textY;
+};
+
+const round = (value: number): number => Math.round(value * 100) / 100;
+
+const escapeXml = (value: string): string =>
+  value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
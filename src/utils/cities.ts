@@ -0,0 +1,189 @@
+/**
+ * Offline list of major world cities, used to suggest places for
+ * relocation. Coordinates are rounded to two decimals (about a kilometre),
+ * far finer than astrocartography lines need.
+ */
+
+export interface City {
+  name: string;
+  country: string; // ISO 3166-1 alpha-2
+  latitude: number;
+  longitude: number; // east positive
+}
+
+export const CITIES: City[] = [
+  // Europe
+  { name: 'London', country: 'GB', latitude: 51.51, longitude: -0.13 },
+  { name: 'Edinburgh', country: 'GB', latitude: 55.95, longitude: -3.19 },
+  { name: 'Manchester', country: 'GB', latitude: 53.48, longitude: -2.24 },
+  { name: 'Dublin', country: 'IE', latitude: 53.35, longitude: -6.26 },
+  { name: 'Paris', country: 'FR', latitude: 48.86, longitude: 2.35 },
+  { name: 'Lyon', country: 'FR', latitude: 45.76, longitude: 4.84 },
+  { name: 'Marseille', country: 'FR', latitude: 43.3, longitude: 5.37 },
+  { name: 'Brussels', country: 'BE', latitude: 50.85, longitude: 4.35 },
+  { name: 'Amsterdam', country: 'NL', latitude: 52.37, longitude: 4.9 },
+  { name: 'Luxembourg', country: 'LU', latitude: 49.61, longitude: 6.13 },
+  { name: 'Berlin', country: 'DE', latitude: 52.52, longitude: 13.4 },
+  { name: 'Hamburg', country: 'DE', latitude: 53.55, longitude: 9.99 },
+  { name: 'Munich', country: 'DE', latitude: 48.14, longitude: 11.58 },
+  { name: 'Frankfurt', country: 'DE', latitude: 50.11, longitude: 8.68 },
+  { name: 'Zurich', country: 'CH', latitude: 47.38, longitude: 8.54 },
+  { name: 'Geneva', country: 'CH', latitude: 46.2, longitude: 6.14 },
+  { name: 'Vienna', country: 'AT', latitude: 48.21, longitude: 16.37 },
+  { name: 'Prague', country: 'CZ', latitude: 50.08, longitude: 14.44 },
+  { name: 'Warsaw', country: 'PL', latitude: 52.23, longitude: 21.01 },
+  { name: 'Budapest', country: 'HU', latitude: 47.5, longitude: 19.04 },
+  { name: 'Copenhagen', country: 'DK', latitude: 55.68, longitude: 12.57 },
+  { name: 'Oslo', country: 'NO', latitude: 59.91, longitude: 10.75 },
+  { name: 'Stockholm', country: 'SE', latitude: 59.33, longitude: 18.07 },
+  { name: 'Helsinki', country: 'FI', latitude: 60.17, longitude: 24.94 },
+  { name: 'Reykjavik', country: 'IS', latitude: 64.15, longitude: -21.94 },
+  { name: 'Tallinn', country: 'EE', latitude: 59.44, longitude: 24.75 },
+  { name: 'Riga', country: 'LV', latitude: 56.95, longitude: 24.11 },
+  { name: 'Vilnius', country: 'LT', latitude: 54.69, longitude: 25.28 },
+  { name: 'Madrid', country: 'ES', latitude: 40.42, longitude: -3.7 },
+  { name: 'Barcelona', country: 'ES', latitude: 41.39, longitude: 2.17 },
+  { name: 'Valencia', country: 'ES', latitude: 39.47, longitude: -0.38 },
+  { name: 'Seville', country: 'ES', latitude: 37.39, longitude: -5.98 },
+  { name: 'Lisbon', country: 'PT', latitude: 38.72, longitude: -9.14 },
+  { name: 'Porto', country: 'PT', latitude: 41.15, longitude: -8.61 },
+  { name: 'Rome', country: 'IT', latitude: 41.9, longitude: 12.5 },
+  { name: 'Milan', country: 'IT', latitude: 45.46, longitude: 9.19 },
+  { name: 'Naples', country: 'IT', latitude: 40.85, longitude: 14.27 },
+  { name: 'Florence', country: 'IT', latitude: 43.77, longitude: 11.26 },
+  { name: 'Athens', country: 'GR', latitude: 37.98, longitude: 23.73 },
+  { name: 'Belgrade', country: 'RS', latitude: 44.79, longitude: 20.45 },
+  { name: 'Zagreb', country: 'HR', latitude: 45.81, longitude: 15.98 },
+  { name: 'Bucharest', country: 'RO', latitude: 44.43, longitude: 26.1 },
+  { name: 'Sofia', country: 'BG', latitude: 42.7, longitude: 23.32 },
+  { name: 'Kyiv', country: 'UA', latitude: 50.45, longitude: 30.52 },
+  { name: 'Istanbul', country: 'TR', latitude: 41.01, longitude: 28.98 },
+  { name: 'Moscow', country: 'RU', latitude: 55.76, longitude: 37.62 },
+  { name: 'Saint Petersburg', country: 'RU', latitude: 59.93, longitude: 30.34 },
+  { name: 'Valletta', country: 'MT', latitude: 35.9, longitude: 14.51 },
+  { name: 'Nicosia', country: 'CY', latitude: 35.19, longitude: 33.38 },
+
+  // Middle East and Africa
+  { name: 'Tel Aviv', country: 'IL', latitude: 32.09, longitude: 34.78 },
+  { name: 'Dubai', country: 'AE', latitude: 25.2, longitude: 55.27 },
+  { name: 'Abu Dhabi', country: 'AE', latitude: 24.45, longitude: 54.38 },
+  { name: 'Doha', country: 'QA', latitude: 25.29, longitude: 51.53 },
+  { name: 'Riyadh', country: 'SA', latitude: 24.71, longitude: 46.68 },
+  { name: 'Tehran', country: 'IR', latitude: 35.69, longitude: 51.39 },
+  { name: 'Cairo', country: 'EG', latitude: 30.04, longitude: 31.24 },
+  { name: 'Casablanca', country: 'MA', latitude: 33.57, longitude: -7.59 },
+  { name: 'Marrakesh', country: 'MA', latitude: 31.63, longitude: -7.99 },
+  { name: 'Tunis', country: 'TN', latitude: 36.81, longitude: 10.18 },
+  { name: 'Lagos', country: 'NG', latitude: 6.52, longitude: 3.38 },
+  { name: 'Accra', country: 'GH', latitude: 5.6, longitude: -0.19 },
+  { name: 'Dakar', country: 'SN', latitude: 14.72, longitude: -17.47 },
+  { name: 'Nairobi', country: 'KE', latitude: -1.29, longitude: 36.82 },
+  { name: 'Addis Ababa', country: 'ET', latitude: 9.03, longitude: 38.74 },
+  { name: 'Kigali', country: 'RW', latitude: -1.95, longitude: 30.06 },
+  { name: 'Johannesburg', country: 'ZA', latitude: -26.2, longitude: 28.05 },
+  { name: 'Cape Town', country: 'ZA', latitude: -33.92, longitude: 18.42 },
+  { name: 'Port Louis', country: 'MU', latitude: -20.16, longitude: 57.5 },
+
+  // Asia
+  { name: 'Mumbai', country: 'IN', latitude: 19.08, longitude: 72.88 },
+  { name: 'Delhi', country: 'IN', latitude: 28.61, longitude: 77.21 },
+  { name: 'Bengaluru', country: 'IN', latitude: 12.97, longitude: 77.59 },
+  { name: 'Chennai', country: 'IN', latitude: 13.08, longitude: 80.27 },
+  { name: 'Kolkata', country: 'IN', latitude: 22.57, longitude: 88.36 },
+  { name: 'Karachi', country: 'PK', latitude: 24.86, longitude: 67.01 },
+  { name: 'Colombo', country: 'LK', latitude: 6.93, longitude: 79.86 },
+  { name: 'Kathmandu', country: 'NP', latitude: 27.72, longitude: 85.32 },
+  { name: 'Dhaka', country: 'BD', latitude: 23.81, longitude: 90.41 },
+  { name: 'Almaty', country: 'KZ', latitude: 43.24, longitude: 76.89 },
+  { name: 'Tashkent', country: 'UZ', latitude: 41.3, longitude: 69.24 },
+  { name: 'Bangkok', country: 'TH', latitude: 13.76, longitude: 100.5 },
+  { name: 'Chiang Mai', country: 'TH', latitude: 18.79, longitude: 98.98 },
+  { name: 'Hanoi', country: 'VN', latitude: 21.03, longitude: 105.85 },
+  { name: 'Ho Chi Minh City', country: 'VN', latitude: 10.82, longitude: 106.63 },
+  { name: 'Kuala Lumpur', country: 'MY', latitude: 3.14, longitude: 101.69 },
+  { name: 'Singapore', country: 'SG', latitude: 1.35, longitude: 103.82 },
+  { name: 'Jakarta', country: 'ID', latitude: -6.21, longitude: 106.85 },
+  { name: 'Denpasar', country: 'ID', latitude: -8.65, longitude: 115.22 },
+  { name: 'Manila', country: 'PH', latitude: 14.6, longitude: 120.98 },
+  { name: 'Hong Kong', country: 'HK', latitude: 22.32, longitude: 114.17 },
+  { name: 'Shenzhen', country: 'CN', latitude: 22.54, longitude: 114.06 },
+  { name: 'Shanghai', country: 'CN', latitude: 31.23, longitude: 121.47 },
+  { name: 'Beijing', country: 'CN', latitude: 39.9, longitude: 116.41 },
+  { name: 'Chengdu', country: 'CN', latitude: 30.57, longitude: 104.07 },
+  { name: 'Taipei', country: 'TW', latitude: 25.03, longitude: 121.57 },
+  { name: 'Seoul', country: 'KR', latitude: 37.57, longitude: 126.98 },
+  { name: 'Busan', country: 'KR', latitude: 35.18, longitude: 129.08 },
+  { name: 'Tokyo', country: 'JP', latitude: 35.68, longitude: 139.69 },
+  { name: 'Osaka', country: 'JP', latitude: 34.69, longitude: 135.5 },
+  { name: 'Sapporo', country: 'JP', latitude: 43.06, longitude: 141.35 },
+  { name: 'Ulaanbaatar', country: 'MN', latitude: 47.89, longitude: 106.91 },
+  { name: 'Vladivostok', country: 'RU', latitude: 43.12, longitude: 131.89 },
+  { name: 'Novosibirsk', country: 'RU', latitude: 55.01, longitude: 82.93 },
+
+  // Oceania
+  { name: 'Sydney', country: 'AU', latitude: -33.87, longitude: 151.21 },
+  { name: 'Melbourne', country: 'AU', latitude: -37.81, longitude: 144.96 },
+  { name: 'Brisbane', country: 'AU', latitude: -27.47, longitude: 153.03 },
+  { name: 'Perth', country: 'AU', latitude: -31.95, longitude: 115.86 },
+  { name: 'Adelaide', country: 'AU', latitude: -34.93, longitude: 138.6 },
+  { name: 'Darwin', country: 'AU', latitude: -12.46, longitude: 130.84 },
+  { name: 'Auckland', country: 'NZ', latitude: -36.85, longitude: 174.76 },
+  { name: 'Wellington', country: 'NZ', latitude: -41.29, longitude: 174.78 },
+  { name: 'Suva', country: 'FJ', latitude: -18.14, longitude: 178.44 },
+  { name: 'Honolulu', country: 'US', latitude: 21.31, longitude: -157.86 },
+
+  // North America
+  { name: 'New York', country: 'US', latitude: 40.71, longitude: -74.01 },
+  { name: 'Boston', country: 'US', latitude: 42.36, longitude: -71.06 },
+  { name: 'Washington', country: 'US', latitude: 38.91, longitude: -77.04 },
+  { name: 'Philadelphia', country: 'US', latitude: 39.95, longitude: -75.17 },
+  { name: 'Miami', country: 'US', latitude: 25.76, longitude: -80.19 },
+  { name: 'Atlanta', country: 'US', latitude: 33.75, longitude: -84.39 },
+  { name: 'Chicago', country: 'US', latitude: 41.88, longitude: -87.63 },
+  { name: 'Detroit', country: 'US', latitude: 42.33, longitude: -83.05 },
+  { name: 'Minneapolis', country: 'US', latitude: 44.98, longitude: -93.27 },
+  { name: 'New Orleans', country: 'US', latitude: 29.95, longitude: -90.07 },
+  { name: 'Houston', country: 'US', latitude: 29.76, longitude: -95.37 },
+  { name: 'Dallas', country: 'US', latitude: 32.78, longitude: -96.8 },
+  { name: 'Austin', country: 'US', latitude: 30.27, longitude: -97.74 },
+  { name: 'Denver', country: 'US', latitude: 39.74, longitude: -104.99 },
+  { name: 'Phoenix', country: 'US', latitude: 33.45, longitude: -112.07 },
+  { name: 'Las Vegas', country: 'US', latitude: 36.17, longitude: -115.14 },
+  { name: 'Salt Lake City', country: 'US', latitude: 40.76, longitude: -111.89 },
+  { name: 'Los Angeles', country: 'US', latitude: 34.05, longitude: -118.24 },
+  { name: 'San Diego', country: 'US', latitude: 32.72, longitude: -117.16 },
+  { name: 'San Francisco', country: 'US', latitude: 37.77, longitude: -122.42 },
+  { name: 'Portland', country: 'US', latitude: 45.52, longitude: -122.68 },
+  { name: 'Seattle', country: 'US', latitude: 47.61, longitude: -122.33 },
+  { name: 'Anchorage', country: 'US', latitude: 61.22, longitude: -149.9 },
+  { name: 'Toronto', country: 'CA', latitude: 43.65, longitude: -79.38 },
+  { name: 'Montreal', country: 'CA', latitude: 45.5, longitude: -73.57 },
+  { name: 'Ottawa', country: 'CA', latitude: 45.42, longitude: -75.7 },
+  { name: 'Halifax', country: 'CA', latitude: 44.65, longitude: -63.58 },
+  { name: 'Calgary', country: 'CA', latitude: 51.05, longitude: -114.07 },
+  { name: 'Vancouver', country: 'CA', latitude: 49.28, longitude: -123.12 },
+  { name: 'Mexico City', country: 'MX', latitude: 19.43, longitude: -99.13 },
+  { name: 'Guadalajara', country: 'MX', latitude: 20.66, longitude: -103.35 },
+  { name: 'Cancun', country: 'MX', latitude: 21.16, longitude: -86.85 },
+  { name: 'Havana', country: 'CU', latitude: 23.11, longitude: -82.37 },
+  { name: 'San Juan', country: 'PR', latitude: 18.47, longitude: -66.11 },
+  { name: 'Panama City', country: 'PA', latitude: 8.98, longitude: -79.52 },
+  { name: 'San Jose', country: 'CR', latitude: 9.93, longitude: -84.08 },
+
+  // South America
+  { name: 'Bogota', country: 'CO', latitude: 4.71, longitude: -74.07 },
+  { name: 'Medellin', country: 'CO', latitude: 6.24, longitude: -75.58 },
+  { name: 'Quito', country: 'EC', latitude: -0.18, longitude: -78.47 },
+  { name: 'Lima', country: 'PE', latitude: -12.05, longitude: -77.04 },
+  { name: 'Caracas', country: 'VE', latitude: 10.48, longitude: -66.9 },
+  { name: 'La Paz', country: 'BO', latitude: -16.49, longitude: -68.12 },
+  { name: 'Santiago', country: 'CL', latitude: -33.45, longitude: -70.67 },
+  { name: 'Buenos Aires', country: 'AR', latitude: -34.6, longitude: -58.38 },
+  { name: 'Montevideo', country: 'UY', latitude: -34.9, longitude: -56.16 },
+  { name: 'Asuncion', country: 'PY', latitude: -25.26, longitude: -57.58 },
+  { name: 'Sao Paulo', country: 'BR', latitude: -23.55, longitude: -46.63 },
+  { name: 'Rio de Janeiro', country: 'BR', latitude: -22.91, longitude: -43.17 },
+  { name: 'Brasilia', country: 'BR', latitude: -15.79, longitude: -47.88 },
+  { name: 'Salvador', country: 'BR', latitude: -12.97, longitude: -38.5 },
+  { name: 'Florianopolis', country: 'BR', latitude: -27.6, longitude: -48.55 },
+];
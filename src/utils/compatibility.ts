@@ -0,0 +1,226 @@
+import { Planet, PlanetPosition } from './ephemeris';
+import { AspectType, DEFAULT_ORBS } from './aspects';
+import { calculateAspects, ChartAspect } from './chart-calculator';
+import { Element, SIGN_ELEMENTS, SIGN_MODALITIES } from './zodiac';
+import { ZodiacSign } from '../types';
+
+/**
+ * Compatibility scoring
+ *
+ * The quick score compares two signs by element and modality. The synastry
+ * score reads the aspects between two charts: each category looks at the
+ * planet pairs that speak to it, harmonious aspects raise its score and
+ * hard aspects lower it, more so the closer they are to exact.
+ */
+
+export enum ElementRelation {
+  SAME = 'same', // e.g. fire and fire
+  COMPLEMENTARY = 'complementary', // fire and air, earth and water
+  CHALLENGING = 'challenging',
+}
+
+export enum ModalityRelation {
+  SAME = 'same',
+  DIFFERENT = 'different',
+}
+
+export enum CompatibilityCategory {
+  LOVE = 'love',
+  COMMUNICATION = 'communication',
+  TRUST = 'trust',
+  VALUES = 'values',
+}
+
+// Quick compatibility of two signs
+export interface SignCompatibility {
+  sign1: ZodiacSign;
+  sign2: ZodiacSign;
+  score: number; // 0-100
+  element: ElementRelation;
+  modality: ModalityRelation;
+  description: string;
+}
+
+// Aspect between the charts and how much it moved a category
+export interface SynastryContact extends ChartAspect {
+  effect: number; // positive when harmonious
+}
+
+export interface CategoryScore {
+  score: number; // 0-100, 50 without any contacts
+  contacts: SynastryContact[];
+}
+
+// Full compatibility of two charts
+export interface SynastryScore {
+  overall: number; // 0-100
+  categories: Record<CompatibilityCategory, CategoryScore>;
+  sunSigns: SignCompatibility;
+  aspects: ChartAspect[]; // person 1 planets first
+}
+
+const COMPLEMENTARY_ELEMENTS: Record<Element, Element> = {
+  [Element.FIRE]: Element.AIR,
+  [Element.AIR]: Element.FIRE,
+  [Element.EARTH]: Element.WATER,
+  [Element.WATER]: Element.EARTH,
+};
+
+const ELEMENT_SCORES: Record<ElementRelation, number> = {
+  [ElementRelation.SAME]: 1,
+  [ElementRelation.COMPLEMENTARY]: 0.8,
+  [ElementRelation.CHALLENGING]: 0.4,
+};
+
+// Signs of the same modality (squares and oppositions) tend to compete
+const MODALITY_SCORES: Record<ModalityRelation, number> = {
+  [ModalityRelation.SAME]: 0.6,
+  [ModalityRelation.DIFFERENT]: 0.9,
+};
+
+// The element counts for more than the modality
+const ELEMENT_SHARE = 0.7;
+
+const ELEMENT_DESCRIPTIONS: Record<ElementRelation, string> = {
+  [ElementRelation.SAME]: 'share an element and understand each other easily',
+  [ElementRelation.COMPLEMENTARY]: 'have elements that feed each other',
+  [ElementRelation.CHALLENGING]: 'have elements that take effort to blend',
+};
+
+const MODALITY_DESCRIPTIONS: Record<ModalityRelation, string> = {
+  [ModalityRelation.SAME]: 'while sharing a modality can make them compete',
+  [ModalityRelation.DIFFERENT]: 'and their different modalities balance each other',
+};
+
+// Planet pairs read for each category, in either order
+const CATEGORY_PAIRS: Record<CompatibilityCategory, [Planet, Planet][]> = {
+  [CompatibilityCategory.LOVE]: [
+    [Planet.VENUS, Planet.MARS],
+    [Planet.SUN, Planet.MOON],
+    [Planet.VENUS, Planet.VENUS],
+    [Planet.MOON, Planet.VENUS],
+    [Planet.SUN, Planet.VENUS],
+    [Planet.MOON, Planet.MARS],
+    [Planet.MARS, Planet.MARS],
+  ],
+  [CompatibilityCategory.COMMUNICATION]: [
+    [Planet.MERCURY, Planet.MERCURY],
+    [Planet.MERCURY, Planet.MOON],
+    [Planet.MERCURY, Planet.SUN],
+    [Planet.MERCURY, Planet.VENUS],
+    [Planet.MERCURY, Planet.MARS],
+    [Planet.MERCURY, Planet.JUPITER],
+    [Planet.MERCURY, Planet.URANUS],
+  ],
+  [CompatibilityCategory.TRUST]: [
+    [Planet.SATURN, Planet.SUN],
+    [Planet.SATURN, Planet.MOON],
+    [Planet.SATURN, Planet.VENUS],
+    [Planet.MOON, Planet.MOON],
+    [Planet.MOON, Planet.PLUTO],
+    [Planet.VENUS, Planet.PLUTO],
+    [Planet.NEPTUNE, Planet.MOON],
+  ],
+  [CompatibilityCategory.VALUES]: [
+    [Planet.SUN, Planet.SUN],
+    [Planet.JUPITER, Planet.SUN],
+    [Planet.JUPITER, Planet.MOON],
+    [Planet.JUPITER, Planet.VENUS],
+    [Planet.JUPITER, Planet.JUPITER],
+    [Planet.SATURN, Planet.SATURN],
+    [Planet.SATURN, Planet.JUPITER],
+  ],
+};
+
+const ASPECT_HARMONY: Record<AspectType, number> = {
+  [AspectType.CONJUNCTION]: 0.6,
+  [AspectType.SEXTILE]: 0.8,
+  [AspectType.SQUARE]: -0.8,
+  [AspectType.TRINE]: 1,
+  [AspectType.OPPOSITION]: -0.5,
+};
+
+// Sum of effects that moves a category about three quarters of the way
+// from 50 to 0 or 100
+const CATEGORY_SCALE = 2;
+
+// Share of the Sun signs in the overall score, the rest is the categories
+const SUN_SIGN_SHARE = 0.2;
+
+const capitalize = (name: string) => name.charAt(0).toUpperCase() + name.slice(1);
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+/**
+ * Quick compatibility of two signs from their elements and modalities
+ *
+ * @param sign1 - First sign
+ * @param sign2 - Second sign
+ */
+export const calculateSignCompatibility = (sign1: ZodiacSign, sign2: ZodiacSign): SignCompatibility => {
+  const element1 = SIGN_ELEMENTS[sign1];
+  const element2 = SIGN_ELEMENTS[sign2];
+  const element = element1 === element2
+    ? ElementRelation.SAME
+    : COMPLEMENTARY_ELEMENTS[element1] === element2 ? ElementRelation.COMPLEMENTARY : ElementRelation.CHALLENGING;
+  const modality = SIGN_MODALITIES[sign1] === SIGN_MODALITIES[sign2] ? ModalityRelation.SAME : ModalityRelation.DIFFERENT;
+
+  const score = ELEMENT_SHARE * ELEMENT_SCORES[element] + (1 - ELEMENT_SHARE) * MODALITY_SCORES[modality];
+
+  return {
+    sign1,
+    sign2,
+    score: Math.round(score * 100),
+    element,
+    modality,
+    description: `${capitalize(sign1)} and ${capitalize(sign2)} ${ELEMENT_DESCRIPTIONS[element]}, ${MODALITY_DESCRIPTIONS[modality]}.`,
+  };
+};
+
+/**
+ * Score the compatibility of two charts
+ *
+ * @param planets1 - Planet positions of person 1
+ * @param planets2 - Planet positions of person 2
+ */
+export const calculateSynastry = (
+  planets1: Record<Planet, PlanetPosition>,
+  planets2: Record<Planet, PlanetPosition>
+): SynastryScore => {
+  const aspects = calculateAspects(planets1, planets2);
+
+  const categories = {} as Record<CompatibilityCategory, CategoryScore>;
+  for (const category of Object.values(CompatibilityCategory)) {
+    const contacts = aspects
+      .filter(aspect => CATEGORY_PAIRS[category].some(([a, b]) =>
+        (aspect.planet1 === a && aspect.planet2 === b) || (aspect.planet1 === b && aspect.planet2 === a)
+      ))
+      .map(aspect => ({ ...aspect, effect: round(getAspectEffect(aspect)) }));
+    const total = contacts.reduce((sum, contact) => sum + contact.effect, 0);
+
+    categories[category] = {
+      score: Math.round(50 + 50 * Math.tanh(total / CATEGORY_SCALE)),
+      contacts,
+    };
+  }
+
+  const sunSigns = calculateSignCompatibility(planets1[Planet.SUN].sign, planets2[Planet.SUN].sign);
+  const categoryAverage = Object.values(categories).reduce((sum, category) => sum + category.score, 0) /
+    Object.keys(categories).length;
+
+  return {
+    overall: Math.round((1 - SUN_SIGN_SHARE) * categoryAverage + SUN_SIGN_SHARE * sunSigns.score),
+    categories,
+    sunSigns,
+    aspects,
+  };
+};
+
+/**
+ * Effect of an aspect on a category, full when exact and half at the edge
+ * of the orb
+ */
+const getAspectEffect = (aspect: ChartAspect): number => {
+  const exactness = 1 - aspect.orb / DEFAULT_ORBS[aspect.aspect] / 2;
+  return ASPECT_HARMONY[aspect.aspect] * exactness;
+};
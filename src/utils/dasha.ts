@@ -0,0 +1,232 @@
+import { calculatePlanetPosition, normalizeDegrees, Planet } from './ephemeris';
+import { BirthMoment, birthDataToJulianDay } from './chart-calculator';
+import { Ayanamsa, calculateAyanamsa } from './zodiac';
+
+/**
+ * Vimshottari dasha
+ *
+ * The 120-year cycle of planetary periods used in Vedic astrology. The
+ * sequence starts with the lord of the nakshatra (lunar mansion) holding the
+ * sidereal Moon at birth; the part of that nakshatra the Moon has already
+ * crossed is treated as elapsed. Each mahadasha is divided into nine
+ * antardashas, and each of those into nine pratyantardashas, in the same
+ * order and proportions starting from the period's own lord.
+ */
+
+// Dasha lords in Vimshottari order
+export enum DashaLord {
+  KETU = 'ketu',
+  VENUS = 'venus',
+  SUN = 'sun',
+  MOON = 'moon',
+  MARS = 'mars',
+  RAHU = 'rahu',
+  JUPITER = 'jupiter',
+  SATURN = 'saturn',
+  MERCURY = 'mercury',
+}
+
+// Levels of the dasha tree
+export enum DashaLevel {
+  MAHADASHA = 'mahadasha',
+  ANTARDASHA = 'antardasha',
+  PRATYANTARDASHA = 'pratyantardasha',
+}
+
+// Length of each lord's mahadasha in years
+export const DASHA_YEARS: Record<DashaLord, number> = {
+  [DashaLord.KETU]: 7,
+  [DashaLord.VENUS]: 20,
+  [DashaLord.SUN]: 6,
+  [DashaLord.MOON]: 10,
+  [DashaLord.MARS]: 7,
+  [DashaLord.RAHU]: 18,
+  [DashaLord.JUPITER]: 16,
+  [DashaLord.SATURN]: 19,
+  [DashaLord.MERCURY]: 17,
+};
+
+const DASHA_ORDER = Object.values(DashaLord);
+const CYCLE_YEARS = 120;
+const LEVELS = [DashaLevel.MAHADASHA, DashaLevel.ANTARDASHA, DashaLevel.PRATYANTARDASHA];
+
+// Dasha years are Julian years
+const MS_PER_YEAR = 365.25 * 86400000;
+
+export const NAKSHATRAS: readonly string[] = [
+  'Ashwini', 'Bharani', 'Krittika', 'Rohini', 'Mrigashira', 'Ardra', 'Punarvasu', 'Pushya', 'Ashlesha',
+  'Magha', 'Purva Phalguni', 'Uttara Phalguni', 'Hasta', 'Chitra', 'Swati', 'Vishakha', 'Anuradha', 'Jyeshtha',
+  'Mula', 'Purva Ashadha', 'Uttara Ashadha', 'Shravana', 'Dhanishta', 'Shatabhisha', 'Purva Bhadrapada',
+  'Uttara Bhadrapada', 'Revati',
+];
+
+const NAKSHATRA_SPAN = 360 / 27;
+
+// Nakshatra holding a sidereal longitude
+export interface Nakshatra {
+  index: number; // 0 for Ashwini
+  name: string;
+  pada: number; // quarter of the nakshatra, 1-4
+  lord: DashaLord;
+  elapsed: number; // fraction of the nakshatra already crossed
+}
+
+// One period of the dasha tree
+export interface DashaPeriod {
+  lord: DashaLord;
+  level: DashaLevel;
+  startDate: string; // ISO 8601
+  endDate: string;
+  years: number;
+  periods?: DashaPeriod[]; // sub-periods, down to the requested depth
+}
+
+// Dasha timeline from birth
+export interface DashaTimeline {
+  moonLongitude: number; // sidereal
+  ayanamsa: Ayanamsa;
+  nakshatra: Nakshatra;
+  balance: { lord: DashaLord; years: number }; // remainder of the first mahadasha at birth
+  periods: DashaPeriod[];
+}
+
+// Periods running at one moment, one per level
+export interface ActiveDasha {
+  mahadasha: DashaPeriod;
+  antardasha?: DashaPeriod;
+  pratyantardasha?: DashaPeriod;
+}
+
+/**
+ * Find the nakshatra holding a sidereal longitude
+ */
+export const getNakshatra = (siderealLongitude: number): Nakshatra => {
+  const longitude = normalizeDegrees(siderealLongitude);
+  const index = Math.min(26, Math.floor(longitude / NAKSHATRA_SPAN));
+  const elapsed = (longitude - index * NAKSHATRA_SPAN) / NAKSHATRA_SPAN;
+
+  return {
+    index,
+    name: NAKSHATRAS[index],
+    pada: Math.min(4, Math.floor(elapsed * 4) + 1),
+    lord: DASHA_ORDER[index % 9],
+    elapsed,
+  };
+};
+
+/**
+ * Split a period into its nine sub-periods, starting with the period's lord
+ */
+const subdivide = (lord: DashaLord, startMs: number, years: number, level: number, depth: number): DashaPeriod[] => {
+  const first = DASHA_ORDER.indexOf(lord);
+  const periods: DashaPeriod[] = [];
+  let start = startMs;
+
+  for (let i = 0; i < 9; i++) {
+    const subLord = DASHA_ORDER[(first + i) % 9];
+    const subYears = (years * DASHA_YEARS[subLord]) / CYCLE_YEARS;
+    periods.push(createPeriod(subLord, start, subYears, level, depth));
+    start += subYears * MS_PER_YEAR;
+  }
+
+  return periods;
+};
+
+const createPeriod = (lord: DashaLord, startMs: number, years: number, level: number, depth: number): DashaPeriod => ({
+  lord,
+  level: LEVELS[level],
+  startDate: new Date(startMs).toISOString(),
+  endDate: new Date(startMs + years * MS_PER_YEAR).toISOString(),
+  years,
+  ...(level + 1 < depth ? { periods: subdivide(lord, startMs, years, level + 1, depth) } : {}),
+});
+
+/**
+ * Calculate the Vimshottari dasha timeline for one full 120-year cycle
+ *
+ * @param moonLongitude - Sidereal longitude of the Moon at birth
+ * @param birth - Moment of birth
+ * @param depth - Levels to include: 1 mahadashas, 2 antardashas, 3 pratyantardashas
+ * @param ayanamsa - Ayanamsa the longitude was measured with, for reference
+ */
+export const calculateVimshottariDasha = (
+  moonLongitude: number,
+  birth: Date,
+  depth = 3,
+  ayanamsa: Ayanamsa = Ayanamsa.LAHIRI
+): DashaTimeline => {
+  const nakshatra = getNakshatra(moonLongitude);
+  const levels = Math.max(1, Math.min(3, Math.floor(depth)));
+
+  // The first mahadasha began before birth, by the elapsed part of the nakshatra
+  const firstYears = DASHA_YEARS[nakshatra.lord];
+  const cycleStart = birth.getTime() - nakshatra.elapsed * firstYears * MS_PER_YEAR;
+
+  const periods: DashaPeriod[] = [];
+  const first = DASHA_ORDER.indexOf(nakshatra.lord);
+  let start = cycleStart;
+  for (let i = 0; i < 9; i++) {
+    const lord = DASHA_ORDER[(first + i) % 9];
+    periods.push(createPeriod(lord, start, DASHA_YEARS[lord], 0, levels));
+    start += DASHA_YEARS[lord] * MS_PER_YEAR;
+  }
+
+  return {
+    moonLongitude: normalizeDegrees(moonLongitude),
+    ayanamsa,
+    nakshatra,
+    balance: { lord: nakshatra.lord, years: (1 - nakshatra.elapsed) * firstYears },
+    periods,
+  };
+};
+
+/**
+ * Calculate the dasha timeline from birth data, using the Moon in the
+ * sidereal zodiac of the given ayanamsa
+ *
+ * @param birthData - Date, optional clock time (noon if unknown) and zone
+ * @param ayanamsa - Sidereal ayanamsa, Lahiri by default
+ * @param depth - Levels to include, 1-3
+ */
+export const calculateDashaForBirth = (
+  birthData: BirthMoment,
+  ayanamsa: Ayanamsa = Ayanamsa.LAHIRI,
+  depth = 3
+): DashaTimeline => {
+  const julianDay = birthDataToJulianDay(birthData);
+  const moon = calculatePlanetPosition(Planet.MOON, julianDay).longitude - calculateAyanamsa(julianDay, ayanamsa);
+  const birth = new Date(Math.round((julianDay - 2440587.5) * 86400000));
+
+  return calculateVimshottariDasha(moon, birth, depth, ayanamsa);
+};
+
+/**
+ * Find the periods running at a moment
+ *
+ * @param timeline - Dasha timeline
+ * @param instant - Moment to look up
+ * @returns Active periods without their sub-periods, or null outside the cycle
+ */
+export const findActiveDasha = (timeline: DashaTimeline, instant: Date): ActiveDasha | null => {
+  const time = instant.getTime();
+  const find = (periods?: DashaPeriod[]): DashaPeriod | undefined =>
+    periods?.find(period => Date.parse(period.startDate) <= time && time < Date.parse(period.endDate));
+  const strip = (period?: DashaPeriod): DashaPeriod | undefined => {
+    if (!period) return undefined;
+    const { periods, ...rest } = period;
+    return rest;
+  };
+
+  const mahadasha = find(timeline.periods);
+  if (!mahadasha) {
+    return null;
+  }
+  const antardasha = find(mahadasha.periods);
+  const pratyantardasha = find(antardasha?.periods);
+
+  return {
+    mahadasha: strip(mahadasha)!,
+    antardasha: strip(antardasha),
+    pratyantardasha: strip(pratyantardasha),
+  };
+};
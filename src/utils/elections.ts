@@ -0,0 +1,373 @@
+import {
+  calculatePlanetPosition,
+  calculatePlanetPositions,
+  fromJulianDay,
+  julianDayFromDateTime,
+  longitudeToSign,
+  Planet,
+  toJulianDay,
+} from './ephemeris';
+import { AspectType, findAspect } from './aspects';
+import { calculateHouses, findHouse } from './houses';
+import { calculateMoonPhase, findVoidOfCourse } from './moon';
+import { AstroEventType, findAstroEvents } from './astro-events';
+import { NatalAngle, NatalPoint, NatalPointName } from './transits';
+import { Dignity, getDignity } from './zodiac';
+import { getUtcOffsetForLocalTime } from './timezone';
+import { ZodiacSign } from '../types';
+
+/**
+ * Electional astrology: finding good times to start something
+ *
+ * Candidate hours are scanned within the local working day of the place.
+ * Hours touched by a void-of-course Moon or a retrograde Mercury are ruled
+ * out; the rest are scored from the Moon's phase and applying aspects, the
+ * strength and houses of the benefics and malefics, the planets that signify
+ * the event and the transits to the founders' charts. Runs of good hours
+ * form windows, ranked by their best hour.
+ */
+
+export enum ElectionEventType {
+  LAUNCH = 'launch', // product or company launch
+  CONTRACT = 'contract', // signing a contract or deal
+  INCORPORATION = 'incorporation',
+  MEETING = 'meeting', // pitch, negotiation or important meeting
+}
+
+export enum ElectionFactor {
+  MOON_PHASE = 'moon_phase',
+  MOON_ASPECT = 'moon_aspect',
+  BENEFIC = 'benefic',
+  MALEFIC = 'malefic',
+  SIGNIFICATOR = 'significator',
+  FOUNDER = 'founder',
+}
+
+export enum ElectionExclusionReason {
+  VOID_OF_COURSE = 'void_of_course',
+  MERCURY_RETROGRADE = 'mercury_retrograde',
+}
+
+// Why an hour scored as it did
+export interface ElectionReason {
+  factor: ElectionFactor;
+  effect: number; // points added to or taken from the score
+  description: string;
+}
+
+// Run of consecutive good hours
+export interface ElectionWindow {
+  start: string; // ISO 8601
+  end: string;
+  best: string; // start of the best hour
+  score: number; // 0-100, of the best hour
+  ascendant: ZodiacSign; // rising sign at the best hour
+  moonSign: ZodiacSign;
+  reasons: ElectionReason[]; // for the best hour, strongest first
+}
+
+// Period ruled out for every event
+export interface ElectionExclusion {
+  reason: ElectionExclusionReason;
+  start: string;
+  end: string;
+}
+
+export interface ElectionSearch {
+  eventType: ElectionEventType;
+  windows: ElectionWindow[]; // best first
+  exclusions: ElectionExclusion[]; // in time order
+}
+
+export interface ElectionSearchOptions {
+  eventType: ElectionEventType;
+  latitude: number;
+  longitude: number;
+  startDate: string; // first local date (YYYY-MM-DD)
+  endDate: string; // last local date
+  timezone: string; // IANA zone of the place
+  fromHour: number; // first local hour of the working day
+  toHour: number; // local hour the working day ends
+  founders?: NatalPoint[][]; // natal points of each founder, from getNatalPoints
+  limit?: number; // windows returned
+}
+
+// Houses and planets that speak to each kind of event
+const EVENT_PROFILES: Record<ElectionEventType, { houses: number[]; significators: Planet[] }> = {
+  [ElectionEventType.LAUNCH]: { houses: [1, 10], significators: [Planet.SUN, Planet.JUPITER] },
+  [ElectionEventType.CONTRACT]: { houses: [3, 7], significators: [Planet.MERCURY, Planet.VENUS] },
+  [ElectionEventType.INCORPORATION]: { houses: [2, 10], significators: [Planet.SATURN, Planet.JUPITER] },
+  [ElectionEventType.MEETING]: { houses: [7, 11], significators: [Planet.MERCURY, Planet.JUPITER] },
+};
+
+const BENEFICS = [Planet.VENUS, Planet.JUPITER];
+const MALEFICS = [Planet.MARS, Planet.SATURN];
+const ANGULAR_HOUSES = [1, 4, 7, 10];
+const HARMONIOUS_ASPECTS = [AspectType.CONJUNCTION, AspectType.SEXTILE, AspectType.TRINE];
+const HARD_ASPECTS = [AspectType.CONJUNCTION, AspectType.SQUARE, AspectType.OPPOSITION];
+
+// Founder points that transits to an election are read against
+const FOUNDER_POINTS: NatalPointName[] = [Planet.SUN, Planet.MOON, NatalAngle.ASCENDANT, NatalAngle.MIDHEAVEN];
+
+const uniformOrbs = (orb: number): Record<AspectType, number> => ({
+  [AspectType.CONJUNCTION]: orb,
+  [AspectType.SEXTILE]: orb,
+  [AspectType.SQUARE]: orb,
+  [AspectType.TRINE]: orb,
+  [AspectType.OPPOSITION]: orb,
+});
+
+const MOON_ORBS = uniformOrbs(6);
+const FOUNDER_ORBS = uniformOrbs(3);
+
+// The Moon is "under the beams" this close to the Sun
+const DARK_MOON_ELONGATION = 12;
+
+// Points given or taken by each factor
+const EFFECTS = {
+  waxingMoon: 8,
+  waningMoon: -4,
+  darkMoon: -10,
+  moonToBenefic: 8,
+  moonToMalefic: -8,
+  strongBenefic: 6,
+  weakBenefic: -4,
+  angularBenefic: 8,
+  beneficInEventHouse: 5,
+  retrogradeBenefic: -4,
+  maleficInEventHouse: -8,
+  strongSignificator: 5,
+  weakSignificator: -5,
+  retrogradeSignificator: -6,
+  founderContact: 4, // shared between the founders
+};
+
+const BASE_SCORE = 50;
+
+// Every hour of a window scores at least this
+const MIN_WINDOW_SCORE = 60;
+
+const HOUR = 1 / 24;
+
+const DEFAULT_LIMIT = 5;
+
+const capitalize = (name: string) => name.charAt(0).toUpperCase() + name.slice(1);
+
+const toIso = (jd: number): string => fromJulianDay(jd).toISOString();
+
+const overlaps = (start: number, end: number, periods: { start: number; end: number }[]): boolean =>
+  periods.some(period => period.start < end && period.end > start);
+
+/**
+ * Score one moment for an event at a place
+ *
+ * @param jd - Moment (Julian Day, UT)
+ * @param latitude - Latitude of the place
+ * @param longitude - Longitude of the place (east positive)
+ * @param eventType - Kind of event
+ * @param founders - Natal points of each founder
+ */
+export const scoreElection = (
+  jd: number,
+  latitude: number,
+  longitude: number,
+  eventType: ElectionEventType,
+  founders: NatalPoint[][] = []
+): { score: number; ascendant: ZodiacSign; moonSign: ZodiacSign; reasons: ElectionReason[] } => {
+  const positions = calculatePlanetPositions(jd);
+  const houses = calculateHouses(jd, latitude, longitude);
+  const profile = EVENT_PROFILES[eventType];
+  const reasons: ElectionReason[] = [];
+  const add = (factor: ElectionFactor, effect: number, description: string) => {
+    reasons.push({ factor, effect, description });
+  };
+  const houseOf = (planet: Planet) => findHouse(positions[planet].longitude, houses.cusps);
+
+  // Phase of the Moon
+  const { elongation } = calculateMoonPhase(jd);
+  if (elongation < DARK_MOON_ELONGATION || elongation > 360 - DARK_MOON_ELONGATION) {
+    add(ElectionFactor.MOON_PHASE, EFFECTS.darkMoon, 'The Moon is too close to the Sun to carry a new start');
+  } else if (elongation < 180) {
+    add(ElectionFactor.MOON_PHASE, EFFECTS.waxingMoon, 'The waxing Moon favours growth');
+  } else {
+    add(ElectionFactor.MOON_PHASE, EFFECTS.waningMoon, 'The waning Moon favours endings over beginnings');
+  }
+
+  // Aspects the Moon is applying to, i.e. getting closer to within the hour
+  const moon = positions[Planet.MOON].longitude;
+  const moonLater = calculatePlanetPosition(Planet.MOON, jd + HOUR).longitude;
+  [...BENEFICS, ...MALEFICS].forEach(planet => {
+    const match = findAspect(moon, positions[planet].longitude, MOON_ORBS);
+    const later = findAspect(moonLater, positions[planet].longitude, MOON_ORBS);
+    if (!match || !later || later.aspect !== match.aspect || later.orb >= match.orb) {
+      return;
+    }
+    if (BENEFICS.includes(planet) && HARMONIOUS_ASPECTS.includes(match.aspect)) {
+      add(ElectionFactor.MOON_ASPECT, EFFECTS.moonToBenefic, `The Moon applies to a ${match.aspect} with ${capitalize(planet)}`);
+    } else if (MALEFICS.includes(planet) && HARD_ASPECTS.includes(match.aspect)) {
+      add(ElectionFactor.MOON_ASPECT, EFFECTS.moonToMalefic, `The Moon applies to a ${match.aspect} with ${capitalize(planet)}`);
+    }
+  });
+
+  // Strength and placement of the benefics
+  BENEFICS.forEach(planet => {
+    const { sign, retrograde } = positions[planet];
+    const name = capitalize(planet);
+    const dignity = getDignity(planet, sign);
+    const house = houseOf(planet);
+
+    if (dignity === Dignity.DOMICILE || dignity === Dignity.EXALTATION) {
+      add(ElectionFactor.BENEFIC, EFFECTS.strongBenefic, `${name} is strong in ${capitalize(sign)}`);
+    } else if (dignity) {
+      add(ElectionFactor.BENEFIC, EFFECTS.weakBenefic, `${name} is weak in ${capitalize(sign)}`);
+    }
+    if (ANGULAR_HOUSES.includes(house)) {
+      add(ElectionFactor.BENEFIC, EFFECTS.angularBenefic, `${name} is on an angle in house ${house}`);
+    } else if (profile.houses.includes(house)) {
+      add(ElectionFactor.BENEFIC, EFFECTS.beneficInEventHouse, `${name} blesses house ${house}, a house of the event`);
+    }
+    if (retrograde) {
+      add(ElectionFactor.BENEFIC, EFFECTS.retrogradeBenefic, `${name} is retrograde`);
+    }
+  });
+
+  // Malefics in the houses of the event
+  MALEFICS.forEach(planet => {
+    const house = houseOf(planet);
+    if (profile.houses.includes(house)) {
+      add(ElectionFactor.MALEFIC, EFFECTS.maleficInEventHouse, `${capitalize(planet)} afflicts house ${house}, a house of the event`);
+    }
+  });
+
+  // Planets that signify the event, benefics already counted
+  profile.significators
+    .filter(planet => !BENEFICS.includes(planet))
+    .forEach(planet => {
+      const { sign, retrograde } = positions[planet];
+      const name = capitalize(planet);
+      const dignity = getDignity(planet, sign);
+
+      if (dignity === Dignity.DOMICILE || dignity === Dignity.EXALTATION) {
+        add(ElectionFactor.SIGNIFICATOR, EFFECTS.strongSignificator, `${name}, ruling this event, is strong in ${capitalize(sign)}`);
+      } else if (dignity) {
+        add(ElectionFactor.SIGNIFICATOR, EFFECTS.weakSignificator, `${name}, ruling this event, is weak in ${capitalize(sign)}`);
+      }
+      if (retrograde) {
+        add(ElectionFactor.SIGNIFICATOR, EFFECTS.retrogradeSignificator, `${name}, ruling this event, is retrograde`);
+      }
+    });
+
+  // Transits to the founders' charts, the effect shared between them
+  founders.forEach((points, index) => {
+    const founder = founders.length > 1 ? `founder ${index + 1}'s` : "the founder's";
+    const effect = Math.round((EFFECTS.founderContact / founders.length) * 10) / 10;
+    points
+      .filter(point => FOUNDER_POINTS.includes(point.point))
+      .forEach(point => {
+        [...BENEFICS, ...MALEFICS].forEach(planet => {
+          const match = findAspect(positions[planet].longitude, point.longitude, FOUNDER_ORBS);
+          const description = match && `${capitalize(planet)} ${match.aspect} ${founder} natal ${capitalize(point.point)}`;
+          if (match && BENEFICS.includes(planet) && HARMONIOUS_ASPECTS.includes(match.aspect)) {
+            add(ElectionFactor.FOUNDER, effect, description!);
+          } else if (match && MALEFICS.includes(planet) && HARD_ASPECTS.includes(match.aspect)) {
+            add(ElectionFactor.FOUNDER, -effect, description!);
+          }
+        });
+      });
+  });
+
+  const total = reasons.reduce((sum, reason) => sum + reason.effect, BASE_SCORE);
+
+  return {
+    score: Math.max(0, Math.min(100, Math.round(total))),
+    ascendant: longitudeToSign(houses.ascendant).sign,
+    moonSign: positions[Planet.MOON].sign,
+    reasons: reasons.sort((a, b) => Math.abs(b.effect) - Math.abs(a.effect)),
+  };
+};
+
+/**
+ * Periods ruled out between two moments: void-of-course Moons and Mercury
+ * retrograde
+ */
+export const findElectionExclusions = (startJd: number, endJd: number): ElectionExclusion[] => {
+  const exclusions: ElectionExclusion[] = findVoidOfCourse(startJd, endJd)
+    .filter(period => toJulianDay(new Date(period.start)) < endJd)
+    .map(period => ({ reason: ElectionExclusionReason.VOID_OF_COURSE, start: period.start, end: period.end }));
+
+  // Mercury retrograde from station to station, cut to the search
+  let retrogradeSince = calculatePlanetPosition(Planet.MERCURY, startJd).retrograde ? toIso(startJd) : null;
+  findAstroEvents(startJd, endJd, [AstroEventType.STATION_RETROGRADE, AstroEventType.STATION_DIRECT])
+    .filter(event => event.planet === Planet.MERCURY)
+    .forEach(event => {
+      if (event.type === AstroEventType.STATION_RETROGRADE) {
+        retrogradeSince = event.time;
+      } else if (retrogradeSince) {
+        exclusions.push({ reason: ElectionExclusionReason.MERCURY_RETROGRADE, start: retrogradeSince, end: event.time });
+        retrogradeSince = null;
+      }
+    });
+  if (retrogradeSince) {
+    exclusions.push({ reason: ElectionExclusionReason.MERCURY_RETROGRADE, start: retrogradeSince, end: toIso(endJd) });
+  }
+
+  return exclusions.sort((a, b) => a.start.localeCompare(b.start));
+};
+
+/**
+ * Search a date range for the best times to hold an event
+ *
+ * @param options - Event, place, local dates and working hours, founders
+ * @returns Windows ranked by score and the periods ruled out
+ */
+export const searchElections = (options: ElectionSearchOptions): ElectionSearch => {
+  const { eventType, latitude, longitude, timezone, fromHour, toHour, founders = [] } = options;
+  const localJulianDay = (date: string, hour: number) => {
+    const time = `${String(hour).padStart(2, '0')}:00`;
+    return julianDayFromDateTime(date, time, getUtcOffsetForLocalTime(timezone, date, time));
+  };
+
+  const first = Date.parse(`${options.startDate}T00:00:00Z`);
+  const dayCount = Math.round((Date.parse(`${options.endDate}T00:00:00Z`) - first) / 86400000) + 1;
+  const dates = Array.from({ length: dayCount }, (_, i) => new Date(first + i * 86400000).toISOString().split('T')[0]);
+
+  const exclusions = findElectionExclusions(localJulianDay(options.startDate, 0), localJulianDay(options.endDate, 24));
+  const excluded = exclusions.map(exclusion => ({
+    start: toJulianDay(new Date(exclusion.start)),
+    end: toJulianDay(new Date(exclusion.end)),
+  }));
+
+  // Hours scoring high enough, grouped into runs within each working day
+  const windows: ElectionWindow[] = [];
+  dates.forEach(date => {
+    let window: ElectionWindow | null = null;
+    for (let hour = fromHour; hour < toHour; hour++) {
+      const jd = localJulianDay(date, hour);
+      const scored = overlaps(jd, jd + HOUR, excluded)
+        ? null
+        : scoreElection(jd, latitude, longitude, eventType, founders);
+
+      if (!scored || scored.score < MIN_WINDOW_SCORE) {
+        window = null;
+        continue;
+      }
+      if (!window) {
+        window = { start: toIso(jd), end: toIso(jd + HOUR), best: toIso(jd), ...scored };
+        windows.push(window);
+      } else {
+        window.end = toIso(jd + HOUR);
+        if (scored.score > window.score) {
+          Object.assign(window, { best: toIso(jd), ...scored });
+        }
+      }
+    }
+  });
+
+  return {
+    eventType,
+    windows: windows
+      .sort((a, b) => b.score - a.score || a.start.localeCompare(b.start))
+      .slice(0, options.limit || DEFAULT_LIMIT),
+    exclusions,
+  };
+};
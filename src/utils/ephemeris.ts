@@ -0,0 +1,813 @@
+import { ZodiacSign } from '../types';
+
+/**
+ * Offline ephemeris
+ *
+ * Computes apparent geocentric ecliptic positions (mean equinox of date, nutation
+ * applied) for the Sun, Moon, planets and lunar nodes without calling the remote
+ * Astro Engine. Planet orbits use the JPL Keplerian elements (Standish) with
+ * periodic corrections for the main planetary perturbations, the Moon uses the
+ * truncated ELP-2000/82 series from Meeus, "Astronomical Algorithms" (2nd ed.),
+ * ch. 47. Accuracy is roughly one arc-minute for the Sun, Moon and planets
+ * between 1800 and 2100.
+ */
+
+// Celestial bodies and calculated points
+export enum Planet {
+  SUN = 'sun',
+  MOON = 'moon',
+  MERCURY = 'mercury',
+  VENUS = 'venus',
+  MARS = 'mars',
+  JUPITER = 'jupiter',
+  SATURN = 'saturn',
+  URANUS = 'uranus',
+  NEPTUNE = 'neptune',
+  PLUTO = 'pluto',
+  NORTH_NODE = 'north_node',
+  SOUTH_NODE = 'south_node',
+}
+
+// Position of a body on the ecliptic
+export interface PlanetPosition {
+  planet: Planet;
+  longitude: number;
+  latitude: number;
+  speed: number; // degrees per day
+  retrograde: boolean;
+  sign: ZodiacSign;
+  signDegree: number;
+}
+
+// Ascendant, midheaven and the quantities they were derived from
+export interface ChartAngles {
+  ascendant: number;
+  midheaven: number;
+  armc: number; // right ascension of the midheaven
+  obliquity: number;
+}
+
+export const ZODIAC_ORDER: ZodiacSign[] = [
+  ZodiacSign.ARIES,
+  ZodiacSign.TAURUS,
+  ZodiacSign.GEMINI,
+  ZodiacSign.CANCER,
+  ZodiacSign.LEO,
+  ZodiacSign.VIRGO,
+  ZodiacSign.LIBRA,
+  ZodiacSign.SCORPIO,
+  ZodiacSign.SAGITTARIUS,
+  ZodiacSign.CAPRICORN,
+  ZodiacSign.AQUARIUS,
+  ZodiacSign.PISCES,
+];
+
+const DEG = Math.PI / 180;
+export const J2000 = 2451545.0;
+const LIGHT_TIME_DAYS_PER_AU = 0.0057755183;
+const EARTH_MOON_MASS_RATIO = 81.300568;
+const MOON_MEAN_DISTANCE_AU = 385000.56 / 149597870.7;
+
+export const sinDeg = (x: number): number => Math.sin(x * DEG);
+export const cosDeg = (x: number): number => Math.cos(x * DEG);
+export const tanDeg = (x: number): number => Math.tan(x * DEG);
+export const asinDeg = (x: number): number => Math.asin(Math.max(-1, Math.min(1, x))) / DEG;
+export const atan2Deg = (y: number, x: number): number => Math.atan2(y, x) / DEG;
+
+/**
+ * Normalize an angle to the range [0, 360)
+ */
+export const normalizeDegrees = (angle: number): number => {
+  const result = angle % 360;
+  return result < 0 ? result + 360 : result;
+};
+
+/**
+ * Signed shortest angular distance from a to b, in the range (-180, 180]
+ */
+export const angleDifference = (a: number, b: number): number => {
+  const diff = normalizeDegrees(b - a);
+  return diff > 180 ? diff - 360 : diff;
+};
+
+/**
+ * Map an ecliptic longitude to its zodiac sign and degree within that sign
+ */
+export const longitudeToSign = (longitude: number): { sign: ZodiacSign; signDegree: number } => {
+  const lon = normalizeDegrees(longitude);
+  const index = Math.floor(lon / 30);
+  return {
+    sign: ZODIAC_ORDER[index],
+    signDegree: lon - index * 30,
+  };
+};
+
+/**
+ * Julian Day (UT) for a JavaScript date
+ */
+export const toJulianDay = (date: Date): number => date.getTime() / 86400000 + 2440587.5;
+
+/**
+ * JavaScript date for a Julian Day (UT)
+ */
+export const fromJulianDay = (jd: number): Date => new Date(Math.round((jd - 2440587.5) * 86400000));
+
+/**
+ * Julian Day (UT) for a calendar date and clock time at a fixed UTC offset
+ *
+ * @param date - Date in YYYY-MM-DD format
+ * @param time - Time in HH:mm or HH:mm:ss format (defaults to noon)
+ * @param utcOffsetMinutes - Offset of the clock time from UTC in minutes
+ */
+export const julianDayFromDateTime = (
+  date: string,
+  time = '12:00',
+  utcOffsetMinutes = 0
+): number => {
+  const [year, month, day] = date.split('-').map(Number);
+  const [hours, minutes, seconds = 0] = time.split(':').map(Number);
+
+  if ([year, month, day, hours, minutes, seconds].some(value => Number.isNaN(value))) {
+    throw new Error(`Invalid date or time: ${date} ${time}`);
+  }
+
+  const utcMillis = Date.UTC(year, month - 1, day, hours, minutes, seconds) - utcOffsetMinutes * 60000;
+  return toJulianDay(new Date(utcMillis));
+};
+
+/**
+ * Difference between Terrestrial Time and Universal Time in seconds
+ * (polynomial expressions by Espenak and Meeus)
+ */
+export const deltaT = (year: number): number => {
+  if (year >= 2050 && year < 2150) {
+    const u = (year - 1820) / 100;
+    return -20 + 32 * u * u - 0.5628 * (2150 - year);
+  }
+  if (year >= 2005) {
+    const t = year - 2000;
+    return 62.92 + 0.32217 * t + 0.005589 * t * t;
+  }
+  if (year >= 1986) {
+    const t = year - 2000;
+    return 63.86 + 0.3345 * t - 0.060374 * t ** 2 + 0.0017275 * t ** 3
+      + 0.000651814 * t ** 4 + 0.00002373599 * t ** 5;
+  }
+  if (year >= 1961) {
+    const t = year - 1975;
+    return 45.45 + 1.067 * t - t * t / 260 - t ** 3 / 718;
+  }
+  if (year >= 1941) {
+    const t = year - 1950;
+    return 29.07 + 0.407 * t - t * t / 233 + t ** 3 / 2547;
+  }
+  if (year >= 1920) {
+    const t = year - 1920;
+    return 21.2 + 0.84493 * t - 0.0761 * t * t + 0.0020936 * t ** 3;
+  }
+  if (year >= 1900) {
+    const t = year - 1900;
+    return -2.79 + 1.494119 * t - 0.0598939 * t ** 2 + 0.0061966 * t ** 3 - 0.000197 * t ** 4;
+  }
+  if (year >= 1860) {
+    const t = year - 1860;
+    return 7.62 + 0.5737 * t - 0.251754 * t ** 2 + 0.01680668 * t ** 3
+      - 0.0004473624 * t ** 4 + t ** 5 / 233174;
+  }
+  if (year >= 1800) {
+    const t = year - 1800;
+    return 13.72 - 0.332447 * t + 0.0068612 * t ** 2 + 0.0041116 * t ** 3 - 0.00037436 * t ** 4
+      + 0.0000121272 * t ** 5 - 0.0000001699 * t ** 6 + 0.000000000875 * t ** 7;
+  }
+  const u = (year - 1820) / 100;
+  return -20 + 32 * u * u;
+};
+
+/**
+ * Convert a Julian Day in UT to Terrestrial Time
+ */
+export const toTerrestrialTime = (jdUt: number): number => {
+  const year = 2000 + (jdUt - J2000) / 365.25;
+  return jdUt + deltaT(year) / 86400;
+};
+
+/**
+ * Nutation in longitude and obliquity in degrees (Meeus ch. 22, low precision)
+ */
+export const nutation = (jdTt: number): { longitude: number; obliquity: number } => {
+  const T = (jdTt - J2000) / 36525;
+  const omega = 125.04452 - 1934.136261 * T;
+  const sunMean = 280.4665 + 36000.7698 * T;
+  const moonMean = 218.3165 + 481267.8813 * T;
+
+  const longitude = -17.2 * sinDeg(omega) - 1.32 * sinDeg(2 * sunMean)
+    - 0.23 * sinDeg(2 * moonMean) + 0.21 * sinDeg(2 * omega);
+  const obliquity = 9.2 * cosDeg(omega) + 0.57 * cosDeg(2 * sunMean)
+    + 0.1 * cosDeg(2 * moonMean) - 0.09 * cosDeg(2 * omega);
+
+  return { longitude: longitude / 3600, obliquity: obliquity / 3600 };
+};
+
+/**
+ * True obliquity of the ecliptic in degrees
+ */
+export const obliquityOfEcliptic = (jdTt: number): number => {
+  const T = (jdTt - J2000) / 36525;
+  const meanSeconds = 21.448 - 46.815 * T - 0.00059 * T * T + 0.001813 * T ** 3;
+  return 23 + 26 / 60 + meanSeconds / 3600 + nutation(jdTt).obliquity;
+};
+
+/**
+ * Apparent Greenwich sidereal time in degrees (Meeus ch. 12)
+ */
+export const greenwichSiderealTime = (jdUt: number): number => {
+  const T = (jdUt - J2000) / 36525;
+  const mean = 280.46061837 + 360.98564736629 * (jdUt - J2000) + 0.000387933 * T * T - T ** 3 / 38710000;
+  const jdTt = toTerrestrialTime(jdUt);
+  const equationOfEquinoxes = nutation(jdTt).longitude * cosDeg(obliquityOfEcliptic(jdTt));
+  return normalizeDegrees(mean + equationOfEquinoxes);
+};
+
+// Keplerian elements and their rates per Julian century:
+// semi-major axis (AU), eccentricity, inclination, mean longitude,
+// longitude of perihelion, longitude of the ascending node (degrees)
+interface OrbitalElements {
+  a: [number, number];
+  e: [number, number];
+  i: [number, number];
+  L: [number, number];
+  peri: [number, number];
+  node: [number, number];
+}
+
+type HeliocentricBody = Planet.MERCURY | Planet.VENUS | Planet.MARS | Planet.JUPITER
+  | Planet.SATURN | Planet.URANUS | Planet.NEPTUNE | Planet.PLUTO | 'earth';
+
+const ORBITAL_ELEMENTS: Record<HeliocentricBody, OrbitalElements> = {
+  [Planet.MERCURY]: {
+    a: [0.38709927, 0.00000037], e: [0.20563593, 0.00001906], i: [7.00497902, -0.00594749],
+    L: [252.2503235, 149472.67411175], peri: [77.45779628, 0.16047689], node: [48.33076593, -0.12534081],
+  },
+  [Planet.VENUS]: {
+    a: [0.72333566, 0.0000039], e: [0.00677672, -0.00004107], i: [3.39467605, -0.0007889],
+    L: [181.9790995, 58517.81538729], peri: [131.60246718, 0.00268329], node: [76.67984255, -0.27769418],
+  },
+  earth: {
+    a: [1.00000261, 0.00000562], e: [0.01671123, -0.00004392], i: [-0.00001531, -0.01294668],
+    L: [100.46457166, 35999.37244981], peri: [102.93768193, 0.32327364], node: [0, 0],
+  },
+  [Planet.MARS]: {
+    a: [1.52371034, 0.00001847], e: [0.0933941, 0.00007882], i: [1.84969142, -0.00813131],
+    L: [-4.55343205, 19140.30268499], peri: [-23.94362959, 0.44441088], node: [49.55953891, -0.29257343],
+  },
+  [Planet.JUPITER]: {
+    a: [5.202887, -0.00011607], e: [0.04838624, -0.00013253], i: [1.30439695, -0.00183714],
+    L: [34.39644051, 3034.74612775], peri: [14.72847983, 0.21252668], node: [100.47390909, 0.20469106],
+  },
+  [Planet.SATURN]: {
+    a: [9.53667594, -0.0012506], e: [0.05386179, -0.00050991], i: [2.48599187, 0.00193609],
+    L: [49.95424423, 1222.49362201], peri: [92.59887831, -0.41897216], node: [113.66242448, -0.28867794],
+  },
+  [Planet.URANUS]: {
+    a: [19.18916464, -0.00196176], e: [0.04725744, -0.00004397], i: [0.77263783, -0.00242939],
+    L: [313.23810451, 428.48202785], peri: [170.9542763, 0.40805281], node: [74.01692503, 0.04240589],
+  },
+  [Planet.NEPTUNE]: {
+    a: [30.06992276, 0.00026291], e: [0.00859048, 0.00005105], i: [1.77004347, 0.00035372],
+    L: [-55.12002969, 218.45945325], peri: [44.96476227, -0.32241464], node: [131.78422574, -0.00508664],
+  },
+  [Planet.PLUTO]: {
+    a: [39.48211675, -0.00031596], e: [0.2488273, 0.0000517], i: [17.14001206, 0.00004818],
+    L: [238.92903833, 145.20780515], peri: [224.06891629, -0.04062942], node: [110.30393684, -0.01183482],
+  },
+};
+
+// Periodic corrections for planetary perturbations missing from the Keplerian orbits,
+// fitted to residuals against a VSOP87-based ephemeris over 1800-2100. Constant and
+// secular parts are given per Julian century; each term lists integer multiples of the
+// mean anomalies of Earth, Mars, Jupiter, Saturn, Uranus and Neptune, followed by sine and
+// cosine amplitudes in longitude (arc-seconds) and radius (1e-6 AU).
+interface OrbitCorrection {
+  longitude: [number, number];
+  radius: [number, number];
+  terms: [number[], number, number, number, number][];
+}
+
+const PERTURBING_BODIES: HeliocentricBody[] = [
+  'earth', Planet.MARS, Planet.JUPITER, Planet.SATURN, Planet.URANUS, Planet.NEPTUNE,
+];
+
+const ORBIT_CORRECTIONS: Partial<Record<HeliocentricBody, OrbitCorrection>> = {
+  [Planet.MARS]: {
+    longitude: [-0.4, -2.8],
+    radius: [-20.7, -17],
+    terms: [
+      [[0, 1, 0, 0, 0, 0], 1.7, -1.7, -5.5, -1],
+      [[1, -1, 0, 0, 0, 0], -5.2, 7.3, 21, 13.8],
+      [[1, -2, 0, 0, 0, 0], -4.9, 13.1, -10, -4.7],
+      [[2, -3, 0, 0, 0, 0], -2.8, -6.9, -21.7, 8.5],
+      [[2, -4, 0, 0, 0, 0], -2.1, -4.4, 7.3, -3.1],
+      [[0, 1, -1, 0, 0, 0], -19.1, 16.7, 53.6, 60.8],
+      [[0, 2, -2, 0, 0, 0], 3.3, -15.7, -73.2, -15.7],
+      [[0, 1, -2, 0, 0, 0], 3.1, -21.7, -54.7, -7.9],
+      [[0, 2, -1, 0, 0, 0], -2.3, 2.2, 7, 7],
+      [[0, 3, -2, 0, 0, 0], 0.5, -2.1, 0, 0],
+      [[0, 0, 1, 0, 0, 0], -1.1, 3.5, 7.2, -5.5],
+      [[0, 1, -3, 0, 0, 0], 2.3, -2.2, 0.1, 0],
+      [[0, 3, -3, 0, 0, 0], -0.3, -1.3, 0.1, 0],
+      [[1, -3, 0, 0, 0, 0], -0.6, 1.3, 0.4, -0.1],
+      [[3, -5, 0, 0, 0, 0], 2.7, 0.5, 1.5, -7.4],
+      [[0, 2, -3, 0, 0, 0], 1.9, -1.7, -7.2, -9.1],
+      [[0, 1, 0, -1, 0, 0], 1, 1.1, -0.3, -0.6],
+    ],
+  },
+  [Planet.JUPITER]: {
+    longitude: [-104.3, 409.8],
+    radius: [-61, 222],
+    terms: [
+      [[0, 0, 2, -5, 0, 0], -332.5, 736.9, -211.2, 45.5],
+      [[0, 0, 1, -2, 0, 0], -128.6, -1.1, 48.7, 271.6],
+      [[0, 0, 2, -2, 0, 0], -185.7, -75, -1029.3, 2628.6],
+      [[0, 0, 3, -5, 0, 0], 27.7, 27.9, 302.5, -310.9],
+      [[0, 0, 1, -1, 0, 0], -12.2, 80.2, 654.5, 96.4],
+      [[0, 0, 2, -3, 0, 0], 46.9, 67.1, 678.1, -541.1],
+      [[0, 0, 1, -5, 0, 0], 55.9, -5.7, 56.1, 742.4],
+      [[0, 0, 1, -3, 0, 0], -8.4, -1.2, -15.7, -2.2],
+      [[0, 0, 2, -4, 0, 0], -5.9, 10.6, 95.5, -23],
+      [[0, 0, 3, -3, 0, 0], -6.1, 16.6, 267.1, 124.4],
+      [[0, 0, 1, 0, 0, 0], -21.5, 70.7, 920.4, 244.9],
+      [[0, 0, 2, 0, 0, 0], 2.5, 0.4, -12.9, -65.3],
+      [[0, 0, 3, -4, 0, 0], -13.4, 7.8, 121.8, 204.4],
+      [[0, 0, 3, -6, 0, 0], 1.8, -0.9, -10.8, -12],
+    ],
+  },
+  [Planet.SATURN]: {
+    longitude: [142904.6, 214503.8],
+    radius: [-12222061.9, -23722971.2],
+    terms: [
+      [[0, 0, 2, -5, 0, 0], 188906.5, 838179.9, -9792529.9, -93022674.2],
+      [[0, 0, 2, -4, 0, 0], -26.8, -290.7, -6474.8, 733.4],
+      [[0, 0, 1, -2, 0, 0], 352.6, -176.6, 3320.3, -3761.3],
+      [[0, 0, 2, -6, 0, 0], 135.9, 195.6, -4732.6, 3104.6],
+      [[0, 0, 1, -3, 0, 0], -44, -12.7, 581.9, 2017],
+      [[0, 0, 1, -1, 0, 0], 60, 25.7, 8723.2, 341.2],
+      [[0, 0, 2, -2, 0, 0], 30, 13.3, 550.8, -1285.5],
+      [[0, 0, 3, -5, 0, 0], 3.3, 2.1, 10.9, -88],
+      [[0, 0, 1, 0, 0, 0], -0.2, 11.2, -97.1, -150.4],
+      [[0, 0, 0, 1, 0, 0], 497.6, 136.5, 3484.1, -11809],
+      [[0, 0, 0, 2, 0, 0], -17.3, 6.7, -30.9, -151.8],
+      [[0, 0, 2, -3, 0, 0], 24.4, 64.7, 1187.7, -551.4],
+      [[0, 0, 3, -6, 0, 0], 14.6, -18.4, -457.8, -372.4],
+      [[0, 0, 4, -10, 0, 0], -44593.9, 20754.7, 5029014.9, -1072053],
+      [[0, 0, 0, 1, -2, 0], -40.5, -10.3, 1719.9, -716.7],
+      [[0, 0, 0, 1, -3, 0], -182585.5, -476551.6, 11509488.8, 53644153],
+      [[0, 0, 1, -4, 0, 0], 20.4, 14.3, -327.6, 242],
+      [[0, 0, 3, -7, 0, 0], -100.1, 46.8, 791.8, -2741.7],
+      [[0, 0, 4, -8, 0, 0], 26, -8, -59.5, -367.8],
+      [[0, 0, 2, -7, 0, 0], 4.7, -4.8, -102.5, 20.2],
+    ],
+  },
+  [Planet.URANUS]: {
+    longitude: [-9250733.6, 15590310],
+    radius: [-394877929.6, 728490441],
+    terms: [
+      [[0, 0, 0, 1, -2, 0], 9107.6, 421834.7, 1077720.5, 18711478.7],
+      [[0, 0, 0, 1, -3, 0], 33388522.1, 39685665.2, 1388402422.2, 1688400532.7],
+      [[0, 0, 1, 0, -1, 0], -48.8, -20.3, 1936.9, -4558],
+      [[0, 0, 1, 0, -2, 0], -3.5, -1.4, 91.5, -205.2],
+      [[0, 0, 0, 1, -1, 0], -249.5, 137.7, -6812.3, 9763.1],
+      [[0, 0, 0, 0, 1, -2], 49199455.1, 8144833.4, 1844104323.5, 321353852.7],
+      [[0, 0, 0, 0, 1, 0], -113563.2, -12171.8, -5080442.4, -304222.1],
+      [[0, 0, 0, 0, 2, 0], -25.2, -74, -1895.5, -3171.8],
+      [[0, 0, 0, 2, -6, 0], 12801423.5, -1086311.8, 577864736.2, -41361610.7],
+      [[0, 0, 0, 2, -4, 0], 264.2, 276.7, 13184.1, 10313],
+      [[0, 0, 1, 0, 0, 0], -0.1, 0, -82.5, 225.2],
+      [[0, 0, 0, 0, 2, -3], 26572726.9, 6606243.7, 1193135805.7, 285686461.4],
+      [[0, 0, 0, 1, -4, 0], -4152.5, -16209.7, -144864.2, -735194.8],
+      [[0, 0, 0, 2, -5, 0], 1013551.5, -127097, 44871135.2, -6749791.2],
+      [[0, 0, 2, -5, 0, 0], -49318039.1, -28019029.2, -2062639925.9, -1006292725],
+      [[0, 0, 0, 0, 1, -1], -23665138.6, 314125.6, -1058890725.9, 24155075.7],
+    ],
+  },
+  [Planet.NEPTUNE]: {
+    longitude: [9692.3, 38952.2],
+    radius: [-591830.9, -1506810.5],
+    terms: [
+      [[0, 0, 0, 0, 1, -2], 229107.4, 62175, -8914741.7, -2190295.9],
+      [[0, 0, 0, 0, 1, -1], 10530.3, 741.9, -316049.8, -129363.8],
+      [[0, 0, 0, 0, 2, -3], -5755.4, -1860, 159216.1, 118337.5],
+      [[0, 0, 1, 0, 0, -1], 29.4, -17, 2485.5, 4287.5],
+      [[0, 0, 0, 1, 0, -1], 12.4, 13.9, -2056.2, 1819.2],
+      [[0, 0, 0, 0, 0, 1], -4612.2, 809.9, 147348.9, 18966.6],
+      [[0, 0, 0, 0, 0, 2], 22.7, -3.3, -493, -249.1],
+      [[0, 0, 0, 0, 2, -2], -24.5, -12.5, 1331.6, 155.7],
+    ],
+  },
+};
+
+type Vector = [number, number, number];
+
+/**
+ * Solve Kepler's equation E - e sin E = M (degrees)
+ */
+const solveKepler = (meanAnomaly: number, eccentricity: number): number => {
+  const M = angleDifference(0, meanAnomaly) * DEG;
+  let E = M + eccentricity * Math.sin(M);
+  for (let iteration = 0; iteration < 30; iteration++) {
+    const delta = (E - eccentricity * Math.sin(E) - M) / (1 - eccentricity * Math.cos(E));
+    E -= delta;
+    if (Math.abs(delta) < 1e-12) break;
+  }
+  return E;
+};
+
+/**
+ * Heliocentric ecliptic coordinates (J2000 ecliptic and equinox, AU)
+ */
+const heliocentricPosition = (body: HeliocentricBody, jdTt: number): Vector => {
+  const T = (jdTt - J2000) / 36525;
+  const el = ORBITAL_ELEMENTS[body];
+  const a = el.a[0] + el.a[1] * T;
+  const e = el.e[0] + el.e[1] * T;
+  const i = (el.i[0] + el.i[1] * T) * DEG;
+  const L = el.L[0] + el.L[1] * T;
+  const peri = el.peri[0] + el.peri[1] * T;
+  const node = el.node[0] + el.node[1] * T;
+
+  const E = solveKepler(L - peri, e);
+  const xOrbit = a * (Math.cos(E) - e);
+  const yOrbit = a * Math.sqrt(1 - e * e) * Math.sin(E);
+
+  const w = (peri - node) * DEG;
+  const o = node * DEG;
+  const cosW = Math.cos(w), sinW = Math.sin(w);
+  const cosO = Math.cos(o), sinO = Math.sin(o);
+  const cosI = Math.cos(i), sinI = Math.sin(i);
+
+  const x = (cosW * cosO - sinW * sinO * cosI) * xOrbit + (-sinW * cosO - cosW * sinO * cosI) * yOrbit;
+  const y = (cosW * sinO + sinW * cosO * cosI) * xOrbit + (-sinW * sinO + cosW * cosO * cosI) * yOrbit;
+  const z = sinW * sinI * xOrbit + cosW * sinI * yOrbit;
+
+  const correction = ORBIT_CORRECTIONS[body];
+  if (!correction) {
+    return [x, y, z];
+  }
+
+  // Apply the perturbation terms as a rotation in longitude and a change of radius
+  const anomalies = PERTURBING_BODIES.map(other => meanAnomaly(other, T));
+  let dLongitude = correction.longitude[0] + correction.longitude[1] * T;
+  let dRadius = correction.radius[0] + correction.radius[1] * T;
+  for (const [multiples, lonSin, lonCos, radSin, radCos] of correction.terms) {
+    const argument = multiples.reduce((sum, k, index) => sum + k * anomalies[index], 0);
+    dLongitude += lonSin * sinDeg(argument) + lonCos * cosDeg(argument);
+    dRadius += radSin * sinDeg(argument) + radCos * cosDeg(argument);
+  }
+
+  const r = Math.sqrt(x * x + y * y + z * z);
+  const scale = (r + dRadius / 1e6) / r;
+  const cosL = cosDeg(dLongitude / 3600);
+  const sinL = sinDeg(dLongitude / 3600);
+
+  return [(x * cosL - y * sinL) * scale, (x * sinL + y * cosL) * scale, z * scale];
+};
+
+/**
+ * Mean anomaly of a body from its Keplerian elements (degrees)
+ */
+const meanAnomaly = (body: HeliocentricBody, T: number): number => {
+  const el = ORBITAL_ELEMENTS[body];
+  return el.L[0] + el.L[1] * T - (el.peri[0] + el.peri[1] * T);
+};
+
+/**
+ * Precess ecliptic coordinates from the J2000 equinox to the equinox of date
+ * (Meeus eq. 21.5 - 21.7)
+ */
+const precessFromJ2000 = (longitude: number, latitude: number, jdTt: number): { longitude: number; latitude: number } => {
+  const t = (jdTt - J2000) / 36525;
+  const eta = (47.0029 * t - 0.03302 * t * t + 0.00006 * t ** 3) / 3600;
+  const pi = 174.876384 + (-869.8089 * t + 0.03536 * t * t) / 3600;
+  const p = (5029.0966 * t + 1.11113 * t * t - 0.000006 * t ** 3) / 3600;
+
+  const a = cosDeg(eta) * cosDeg(latitude) * sinDeg(pi - longitude) - sinDeg(eta) * sinDeg(latitude);
+  const b = cosDeg(latitude) * cosDeg(pi - longitude);
+  const c = cosDeg(eta) * sinDeg(latitude) + sinDeg(eta) * cosDeg(latitude) * sinDeg(pi - longitude);
+
+  return {
+    longitude: normalizeDegrees(p + pi - atan2Deg(a, b)),
+    latitude: asinDeg(c),
+  };
+};
+
+// Fundamental lunar arguments (degrees) and the Earth eccentricity factor
+interface LunarArguments {
+  T: number;
+  Lp: number;
+  D: number;
+  M: number;
+  Mp: number;
+  F: number;
+  E: number;
+}
+
+const lunarArguments = (jdTt: number): LunarArguments => {
+  const T = (jdTt - J2000) / 36525;
+  return {
+    T,
+    Lp: 218.3164477 + 481267.88123421 * T - 0.0015786 * T * T + T ** 3 / 538841 - T ** 4 / 65194000,
+    D: 297.8501921 + 445267.1114034 * T - 0.0018819 * T * T + T ** 3 / 545868 - T ** 4 / 113065000,
+    M: 357.5291092 + 35999.0502909 * T - 0.0001536 * T * T + T ** 3 / 24490000,
+    Mp: 134.9633964 + 477198.8675055 * T + 0.0087414 * T * T + T ** 3 / 69699 - T ** 4 / 14712000,
+    F: 93.272095 + 483202.0175233 * T - 0.0036539 * T * T - T ** 3 / 3526000 + T ** 4 / 863310000,
+    E: 1 - 0.002516 * T - 0.0000074 * T * T,
+  };
+};
+
+// Periodic terms for the Moon's longitude and distance (Meeus table 47.A):
+// multiples of D, M, M', F, then sine coefficient (1e-6 deg) and cosine coefficient (1e-3 km)
+const MOON_LONGITUDE_TERMS: [number, number, number, number, number, number][] = [
+  [0, 0, 1, 0, 6288774, -20905355], [2, 0, -1, 0, 1274027, -3699111],
+  [2, 0, 0, 0, 658314, -2955968], [0, 0, 2, 0, 213618, -569925],
+  [0, 1, 0, 0, -185116, 48888], [0, 0, 0, 2, -114332, -3149],
+  [2, 0, -2, 0, 58793, 246158], [2, -1, -1, 0, 57066, -152138],
+  [2, 0, 1, 0, 53322, -170733], [2, -1, 0, 0, 45758, -204586],
+  [0, 1, -1, 0, -40923, -129620], [1, 0, 0, 0, -34720, 108743],
+  [0, 1, 1, 0, -30383, 104755], [2, 0, 0, -2, 15327, 10321],
+  [0, 0, 1, 2, -12528, 0], [0, 0, 1, -2, 10980, 79661],
+  [4, 0, -1, 0, 10675, -34782], [0, 0, 3, 0, 10034, -23210],
+  [4, 0, -2, 0, 8548, -21636], [2, 1, -1, 0, -7888, 24208],
+  [2, 1, 0, 0, -6766, 30824], [1, 0, -1, 0, -5163, -8379],
+  [1, 1, 0, 0, 4987, -16675], [2, -1, 1, 0, 4036, -12831],
+  [2, 0, 2, 0, 3994, -10445], [4, 0, 0, 0, 3861, -11650],
+  [2, 0, -3, 0, 3665, 14403], [0, 1, -2, 0, -2689, -7003],
+  [2, 0, -1, 2, -2602, 0], [2, -1, -2, 0, 2390, 10056],
+  [1, 0, 1, 0, -2348, 6322], [2, -2, 0, 0, 2236, -9884],
+  [0, 1, 2, 0, -2120, 5751], [0, 2, 0, 0, -2069, 0],
+  [2, -2, -1, 0, 2048, -4950], [2, 0, 1, -2, -1773, 4130],
+  [2, 0, 0, 2, -1595, 0], [4, -1, -1, 0, 1215, -3958],
+  [0, 0, 2, 2, -1110, 0], [3, 0, -1, 0, -892, 3258],
+  [2, 1, 1, 0, -810, 2616], [4, -1, -2, 0, 759, -1897],
+  [0, 2, -1, 0, -713, -2117], [2, 2, -1, 0, -700, 2354],
+  [2, 1, -2, 0, 691, 0], [2, -1, 0, -2, 596, 0],
+  [4, 0, 1, 0, 549, -1423], [0, 0, 4, 0, 537, -1117],
+  [4, -1, 0, 0, 520, -1571], [1, 0, -2, 0, -487, -1739],
+  [2, 1, 0, -2, -399, 0], [0, 0, 2, -2, -381, -4421],
+  [1, 1, 1, 0, 351, 0], [3, 0, -2, 0, -340, 0],
+  [4, 0, -3, 0, 330, 0], [2, -1, 2, 0, 327, 0],
+  [0, 2, 1, 0, -323, 1165], [1, 1, -1, 0, 299, 0],
+  [2, 0, 3, 0, 294, 0], [2, 0, -1, -2, 0, 8752],
+];
+
+// Largest periodic terms for the Moon's latitude (Meeus table 47.B, 1e-6 deg)
+const MOON_LATITUDE_TERMS: [number, number, number, number, number][] = [
+  [0, 0, 0, 1, 5128122], [0, 0, 1, 1, 280602], [0, 0, 1, -1, 277693],
+  [2, 0, 0, -1, 173237], [2, 0, -1, 1, 55413], [2, 0, -1, -1, 46271],
+  [2, 0, 0, 1, 32573], [0, 0, 2, 1, 17198], [2, 0, 1, -1, 9266],
+  [0, 0, 2, -1, 8822], [2, -1, 0, -1, 8216], [2, 0, -2, -1, 4324],
+  [2, 0, 1, 1, 4200], [2, 1, 0, -1, -3359], [2, -1, -1, 1, 2463],
+  [2, -1, 0, 1, 2211], [2, -1, -1, -1, 2065], [0, 1, -1, -1, -1870],
+  [4, 0, -1, -1, 1828], [0, 1, 0, 1, -1794], [0, 0, 0, 3, -1749],
+  [0, 1, -1, 1, -1565], [1, 0, 0, 1, -1491], [0, 1, 1, 1, -1475],
+  [0, 1, 1, -1, -1410], [0, 1, 0, -1, -1344], [1, 0, 0, -1, -1335],
+  [0, 0, 3, 1, 1107], [4, 0, 0, -1, 1021], [4, 0, -1, 1, 833],
+];
+
+const eccentricityFactor = (m: number, E: number): number => {
+  const power = Math.abs(m);
+  return power === 0 ? 1 : power === 1 ? E : E * E;
+};
+
+/**
+ * Geometric geocentric Moon position referred to the mean equinox of date
+ */
+const moonPosition = (jdTt: number): { longitude: number; latitude: number; distance: number } => {
+  const { T, Lp, D, M, Mp, F, E } = lunarArguments(jdTt);
+  const A1 = 119.75 + 131.849 * T;
+  const A2 = 53.09 + 479264.29 * T;
+  const A3 = 313.45 + 481266.484 * T;
+
+  let sumL = 0;
+  let sumR = 0;
+  for (const [d, m, mp, f, l, r] of MOON_LONGITUDE_TERMS) {
+    const argument = d * D + m * M + mp * Mp + f * F;
+    const factor = eccentricityFactor(m, E);
+    sumL += l * factor * sinDeg(argument);
+    sumR += r * factor * cosDeg(argument);
+  }
+
+  let sumB = 0;
+  for (const [d, m, mp, f, b] of MOON_LATITUDE_TERMS) {
+    sumB += b * eccentricityFactor(m, E) * sinDeg(d * D + m * M + mp * Mp + f * F);
+  }
+
+  sumL += 3958 * sinDeg(A1) + 1962 * sinDeg(Lp - F) + 318 * sinDeg(A2);
+  sumB += -2235 * sinDeg(Lp) + 382 * sinDeg(A3) + 175 * sinDeg(A1 - F)
+    + 175 * sinDeg(A1 + F) + 127 * sinDeg(Lp - Mp) - 115 * sinDeg(Lp + Mp);
+
+  return {
+    longitude: normalizeDegrees(Lp + sumL / 1e6),
+    latitude: sumB / 1e6,
+    distance: 385000.56 + sumR / 1000,
+  };
+};
+
+/**
+ * Heliocentric position of the Earth itself, corrected from the Earth-Moon barycenter
+ */
+const earthPosition = (jdTt: number): Vector => {
+  const barycenter = heliocentricPosition('earth', jdTt);
+  const moon = moonPosition(jdTt);
+  // Moon offset is small enough that the equinox-of-date frame can be used as is
+  const scale = (moon.distance / 385000.56) * MOON_MEAN_DISTANCE_AU / (1 + EARTH_MOON_MASS_RATIO);
+  return [
+    barycenter[0] - scale * cosDeg(moon.latitude) * cosDeg(moon.longitude),
+    barycenter[1] - scale * cosDeg(moon.latitude) * sinDeg(moon.longitude),
+    barycenter[2] - scale * sinDeg(moon.latitude),
+  ];
+};
+
+const toSpherical = (vector: Vector): { longitude: number; latitude: number; distance: number } => {
+  const [x, y, z] = vector;
+  const distance = Math.sqrt(x * x + y * y + z * z);
+  return {
+    longitude: normalizeDegrees(atan2Deg(y, x)),
+    latitude: asinDeg(z / distance),
+    distance,
+  };
+};
+
+/**
+ * Annual aberration in ecliptic coordinates (Meeus eq. 23.2, circular orbit)
+ */
+const aberration = (
+  longitude: number,
+  latitude: number,
+  sunLongitude: number
+): { longitude: number; latitude: number } => {
+  const kappa = 20.49552 / 3600;
+  return {
+    longitude: (-kappa * cosDeg(sunLongitude - longitude)) / cosDeg(latitude),
+    latitude: -kappa * sinDeg(latitude) * sinDeg(sunLongitude - longitude),
+  };
+};
+
+/**
+ * Apparent geocentric ecliptic longitude and latitude of a body at a TT instant
+ */
+const apparentPosition = (planet: Planet, jdTt: number): { longitude: number; latitude: number } => {
+  const { longitude: dPsi } = nutation(jdTt);
+
+  if (planet === Planet.MOON) {
+    const moon = moonPosition(jdTt);
+    return { longitude: normalizeDegrees(moon.longitude + dPsi), latitude: moon.latitude };
+  }
+
+  if (planet === Planet.NORTH_NODE || planet === Planet.SOUTH_NODE) {
+    const node = trueLunarNode(jdTt);
+    const longitude = planet === Planet.NORTH_NODE ? node : node + 180;
+    return { longitude: normalizeDegrees(longitude + dPsi), latitude: 0 };
+  }
+
+  const earth = earthPosition(jdTt);
+  const sunGeometric = toSpherical([-earth[0], -earth[1], -earth[2]]);
+  const sunOfDate = precessFromJ2000(sunGeometric.longitude, sunGeometric.latitude, jdTt);
+
+  if (planet === Planet.SUN) {
+    const aberrationShift = -20.4898 / 3600 / sunGeometric.distance;
+    return {
+      longitude: normalizeDegrees(sunOfDate.longitude + aberrationShift + dPsi),
+      latitude: sunOfDate.latitude,
+    };
+  }
+
+  // Iterate for light-time: observe the planet where it was when the light left it
+  let geocentric = toSpherical(earth);
+  let lightTime = 0;
+  for (let iteration = 0; iteration < 3; iteration++) {
+    const helio = heliocentricPosition(planet as HeliocentricBody, jdTt - lightTime);
+    geocentric = toSpherical([helio[0] - earth[0], helio[1] - earth[1], helio[2] - earth[2]]);
+    lightTime = geocentric.distance * LIGHT_TIME_DAYS_PER_AU;
+  }
+
+  const ofDate = precessFromJ2000(geocentric.longitude, geocentric.latitude, jdTt);
+  const shift = aberration(ofDate.longitude, ofDate.latitude, sunOfDate.longitude);
+
+  return {
+    longitude: normalizeDegrees(ofDate.longitude + shift.longitude + dPsi),
+    latitude: ofDate.latitude + shift.latitude,
+  };
+};
+
+/**
+ * Distances of the Moon (km) and the Sun (AU) from the centre of the Earth
+ *
+ * @param jdUt - Julian Day in Universal Time
+ */
+export const calculateLuminaryDistances = (jdUt: number): { moon: number; sun: number } => {
+  const jdTt = toTerrestrialTime(jdUt);
+  return {
+    moon: moonPosition(jdTt).distance,
+    sun: toSpherical(earthPosition(jdTt)).distance,
+  };
+};
+
+/**
+ * Mean longitude of the Moon's ascending node (degrees)
+ */
+export const meanLunarNode = (jdTt: number): number => {
+  const T = (jdTt - J2000) / 36525;
+  return normalizeDegrees(
+    125.0445479 - 1934.1362891 * T + 0.0020754 * T * T + T ** 3 / 467441 - T ** 4 / 60616000
+  );
+};
+
+/**
+ * True (osculating) longitude of the Moon's ascending node (degrees)
+ */
+export const trueLunarNode = (jdTt: number): number => {
+  const { D, M, Mp, F } = lunarArguments(jdTt);
+  return normalizeDegrees(
+    meanLunarNode(jdTt)
+      - 1.4979 * sinDeg(2 * (D - F))
+      - 0.15 * sinDeg(M)
+      - 0.1226 * sinDeg(2 * D)
+      + 0.1176 * sinDeg(2 * F)
+      - 0.0801 * sinDeg(2 * (Mp - F))
+  );
+};
+
+/**
+ * Calculate the apparent position, daily motion and sign of one body
+ *
+ * @param planet - Body to calculate
+ * @param jdUt - Julian Day in Universal Time
+ * @returns Ecliptic position of the body
+ */
+export const calculatePlanetPosition = (planet: Planet, jdUt: number): PlanetPosition => {
+  const jdTt = toTerrestrialTime(jdUt);
+  const position = apparentPosition(planet, jdTt);
+
+  // Daily motion from a centered difference over one hour
+  const step = 1 / 24;
+  const before = apparentPosition(planet, jdTt - step / 2).longitude;
+  const after = apparentPosition(planet, jdTt + step / 2).longitude;
+  const speed = angleDifference(before, after) / step;
+
+  return {
+    planet,
+    longitude: position.longitude,
+    latitude: position.latitude,
+    speed,
+    retrograde: speed < 0,
+    ...longitudeToSign(position.longitude),
+  };
+};
+
+/**
+ * Calculate positions for every body in the Planet enum
+ *
+ * @param jdUt - Julian Day in Universal Time
+ * @returns Positions keyed by planet
+ */
+export const calculatePlanetPositions = (jdUt: number): Record<Planet, PlanetPosition> => {
+  const positions = {} as Record<Planet, PlanetPosition>;
+  for (const planet of Object.values(Planet)) {
+    positions[planet] = calculatePlanetPosition(planet, jdUt);
+  }
+  return positions;
+};
+
+/**
+ * Ecliptic longitude rising on the eastern horizon for a given ARMC
+ */
+export const ascendantFromArmc = (armc: number, latitude: number, obliquity: number): number => {
+  return normalizeDegrees(
+    atan2Deg(cosDeg(armc), -(sinDeg(armc) * cosDeg(obliquity) + tanDeg(latitude) * sinDeg(obliquity)))
+  );
+};
+
+/**
+ * Ecliptic longitude of the point with the given right ascension
+ */
+export const eclipticLongitudeFromRightAscension = (rightAscension: number, obliquity: number): number => {
+  return normalizeDegrees(atan2Deg(sinDeg(rightAscension), cosDeg(rightAscension) * cosDeg(obliquity)));
+};
+
+/**
+ * Calculate the ascendant and midheaven for a moment and place
+ *
+ * @param jdUt - Julian Day in Universal Time
+ * @param latitude - Geographic latitude (north positive)
+ * @param longitude - Geographic longitude (east positive)
+ */
+export const calculateAngles = (jdUt: number, latitude: number, longitude: number): ChartAngles => {
+  const obliquity = obliquityOfEcliptic(toTerrestrialTime(jdUt));
+  const armc = normalizeDegrees(greenwichSiderealTime(jdUt) + longitude);
+
+  return {
+    ascendant: ascendantFromArmc(armc, latitude, obliquity),
+    midheaven: eclipticLongitudeFromRightAscension(armc, obliquity),
+    armc,
+    obliquity,
+  };
+};
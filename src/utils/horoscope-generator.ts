@@ -0,0 +1,136 @@
+import { Horoscope, HoroscopePeriod, PeriodHoroscope, ZodiacSign } from '../types';
+import { createSeededRandom, SeededRandom } from './seeded-random';
+import { getPeriodRange } from './horoscope-periods';
+import { calculateSignCompatibility } from './compatibility';
+import { findLuckyTime } from './planetary-hours';
+import {
+  CAREER_FORECASTS,
+  COLORS,
+  DAILY_ADVICE,
+  DAILY_THEMES,
+  HEALTH_FORECASTS,
+  LOVE_FORECASTS,
+  MOODS,
+  PERIOD_OPENINGS,
+  PERIOD_THEMES,
+  SIGN_OPENINGS,
+  SIGN_STRENGTHS,
+} from './horoscope-templates';
+
+export const DEFAULT_LOCALE = 'en';
+
+// Sign horoscopes are not tied to a place, so their lucky time is read from
+// the planetary hours at Greenwich, where the Sun rises every day, on UTC
+// clocks. Personal horoscopes replace it with the user's local lucky time.
+const LUCKY_TIME_PLACE = { latitude: 51.4769, longitude: 0, timezone: 'UTC' };
+
+/**
+ * Generate a horoscope locally, without any external service. Every
+ * attribute is seeded from (sign, date), so the same request always
+ * produces the same horoscope on every instance. The templates are English
+ * only, so every locale gets the same horoscope. The lucky time is the
+ * first day hour ruled by the sign's ruler.
+ *
+ * @param sign - Zodiac sign
+ * @param date - Date in YYYY-MM-DD format
+ * @returns Horoscope for the sign and date
+ */
+export const generateLocalHoroscope = (sign: ZodiacSign, date: string): Horoscope => {
+  // One generator per attribute, so adding an attribute never changes the others
+  const random = (attribute: string): SeededRandom =>
+    createSeededRandom(`${sign}|${date}|${attribute}`);
+
+  return {
+    id: `${sign}_${date}`,
+    sign,
+    date,
+    prediction: generatePrediction(sign, random('prediction')),
+    compatibility: getSeededCompatibility(sign, random('compatibility')),
+    mood: random('mood').pick(MOODS),
+    color: random('color').pick(COLORS),
+    luckyNumber: random('luckyNumber').int(1, 99).toString(),
+    luckyTime: findLuckyTime(sign, date, LUCKY_TIME_PLACE.latitude, LUCKY_TIME_PLACE.longitude, LUCKY_TIME_PLACE.timezone)!,
+  };
+};
+
+// Word used for each period in the templates
+const PERIOD_NOUNS: Record<HoroscopePeriod, string> = {
+  [HoroscopePeriod.WEEKLY]: 'week',
+  [HoroscopePeriod.MONTHLY]: 'month',
+  [HoroscopePeriod.YEARLY]: 'year',
+};
+
+/**
+ * Generate a weekly, monthly or yearly horoscope locally, seeded from
+ * (sign, period) like the daily horoscope
+ *
+ * @param type - Period type
+ * @param sign - Zodiac sign
+ * @param period - Period key (2025-W23, 2025-06 or 2025)
+ * @returns Horoscope for the sign and period
+ */
+export const generateLocalPeriodHoroscope = (
+  type: HoroscopePeriod,
+  sign: ZodiacSign,
+  period: string
+): PeriodHoroscope => {
+  const range = getPeriodRange(type, period);
+  if (!range) {
+    throw new Error(`Invalid ${type} period: ${period}`);
+  }
+
+  const random = (attribute: string): SeededRandom =>
+    createSeededRandom(`${sign}|${type}|${period}|${attribute}`);
+  const fill = (template: string): string =>
+    template
+      .replace(/\{period\}/g, PERIOD_NOUNS[type])
+      .replace(/\{strength\}/g, random('strength').pick(SIGN_STRENGTHS[sign]));
+
+  return {
+    id: `${sign}_${period}`,
+    sign,
+    type,
+    period,
+    startDate: range.startDate,
+    endDate: range.endDate,
+    prediction: [
+      fill(random('opening').pick(PERIOD_OPENINGS)),
+      random('theme').pick(PERIOD_THEMES),
+    ].join(' '),
+    love: fill(random('love').pick(LOVE_FORECASTS)),
+    career: fill(random('career').pick(CAREER_FORECASTS)),
+    health: fill(random('health').pick(HEALTH_FORECASTS)),
+    compatibility: getSeededCompatibility(sign, random('compatibility')),
+    color: random('color').pick(COLORS),
+    luckyNumber: random('luckyNumber').int(1, 99).toString(),
+  };
+};
+
+/**
+ * Compose a prediction from the template corpus
+ */
+const generatePrediction = (sign: ZodiacSign, random: SeededRandom): string => {
+  const openings = SIGN_OPENINGS[sign];
+  if (!openings) {
+    return 'Today holds potential for growth and new opportunities. Stay open to possibilities.';
+  }
+
+  return [
+    random.pick(openings),
+    random.pick(DAILY_THEMES),
+    random.pick(DAILY_ADVICE),
+  ].join(' ');
+};
+
+// Quick compatibility score a sign needs to be named as compatible, met by
+// the signs a trine or sextile away
+const COMPATIBLE_SIGN_SCORE = 80;
+
+/**
+ * Pick one of the signs most compatible with a sign
+ */
+const getSeededCompatibility = (sign: ZodiacSign, random: SeededRandom): string => {
+  return random.pick(Object.values(ZodiacSign).filter(other =>
+    other !== sign && calculateSignCompatibility(sign, other).score >= COMPATIBLE_SIGN_SCORE
+  ));
+};
@@ -0,0 +1,106 @@
+import { HoroscopePeriod } from '../types';
+
+// Formats of the period keys: ISO week, calendar month and year
+export const PERIOD_PATTERNS: Record<HoroscopePeriod, RegExp> = {
+  [HoroscopePeriod.WEEKLY]: /^(\d{4})-W(0[1-9]|[1-4]\d|5[0-3])$/,
+  [HoroscopePeriod.MONTHLY]: /^(\d{4})-(0[1-9]|1[0-2])$/,
+  [HoroscopePeriod.YEARLY]: /^(\d{4})$/,
+};
+
+// First and last day of a period, as YYYY-MM-DD
+export interface PeriodRange {
+  startDate: string;
+  endDate: string;
+}
+
+const DAY_MS = 86400000;
+
+const formatDate = (date: Date): string => date.toISOString().split('T')[0];
+
+/**
+ * Monday of ISO week 1 of a year (the week containing 4 January)
+ */
+const isoWeekOneMonday = (year: number): number => {
+  const january4 = Date.UTC(year, 0, 4);
+  const weekday = (new Date(january4).getUTCDay() + 6) % 7; // Monday = 0
+  return january4 - weekday * DAY_MS;
+};
+
+/**
+ * ISO week key of a date, e.g. 2025-W23
+ */
+export const getIsoWeek = (date: Date): string => {
+  const day = Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate());
+  // The Thursday of the same week decides which year the week belongs to
+  const thursday = day + (3 - (new Date(day).getUTCDay() + 6) % 7) * DAY_MS;
+  const year = new Date(thursday).getUTCFullYear();
+  const week = Math.floor((thursday - isoWeekOneMonday(year)) / (7 * DAY_MS)) + 1;
+  return `${year}-W${week.toString().padStart(2, '0')}`;
+};
+
+/**
+ * Key of the period containing a date
+ *
+ * @param type - Period type
+ * @param date - Any moment in the period (UTC calendar date is used)
+ */
+export const getPeriodKey = (type: HoroscopePeriod, date: Date = new Date()): string => {
+  switch (type) {
+    case HoroscopePeriod.WEEKLY:
+      return getIsoWeek(date);
+    case HoroscopePeriod.MONTHLY:
+      return formatDate(date).substring(0, 7);
+    case HoroscopePeriod.YEARLY:
+      return date.getUTCFullYear().toString();
+  }
+};
+
+/**
+ * Check that a period key is well formed and exists (e.g. rejects week 53 of
+ * a year with 52 ISO weeks)
+ */
+export const isValidPeriod = (type: HoroscopePeriod, period: string): boolean =>
+  getPeriodRange(type, period) !== null;
+
+/**
+ * Dates covered by a period
+ *
+ * @param type - Period type
+ * @param period - Period key (2025-W23, 2025-06 or 2025)
+ * @returns The range, or null if the key is invalid
+ */
+export const getPeriodRange = (type: HoroscopePeriod, period: string): PeriodRange | null => {
+  const match = PERIOD_PATTERNS[type].exec(period);
+  if (!match) {
+    return null;
+  }
+
+  const year = parseInt(match[1], 10);
+
+  switch (type) {
+    case HoroscopePeriod.WEEKLY: {
+      const start = isoWeekOneMonday(year) + (parseInt(match[2], 10) - 1) * 7 * DAY_MS;
+      if (getIsoWeek(new Date(start)) !== period) {
+        return null;
+      }
+      return {
+        startDate: formatDate(new Date(start)),
+        endDate: formatDate(new Date(start + 6 * DAY_MS)),
+      };
+    }
+
+    case HoroscopePeriod.MONTHLY: {
+      const month = parseInt(match[2], 10);
+      return {
+        startDate: formatDate(new Date(Date.UTC(year, month - 1, 1))),
+        endDate: formatDate(new Date(Date.UTC(year, month, 0))),
+      };
+    }
+
+    case HoroscopePeriod.YEARLY:
+      return {
+        startDate: `${match[1]}-01-01`,
+        endDate: `${match[1]}-12-31`,
+      };
+  }
+};
@@ -0,0 +1,302 @@
+import { ZodiacSign } from '../types';
+import { Planet } from './ephemeris';
+import { NatalAngle, NatalPointName } from './transits';
+
+/**
+ * Interpretive snippets for personal horoscopes. A transit paragraph is a
+ * snippet for the transiting planet and the tone of its aspect, with
+ * {natal} replaced by the theme of the natal point it touches, followed by
+ * the area of life of the house the transiting planet is passing through.
+ */
+
+// How an aspect colours a transit
+export enum AspectTone {
+  FUSION = 'fusion', // conjunction
+  FLOW = 'flow', // trine, sextile
+  TENSION = 'tension', // square, opposition
+}
+
+// Planets read as transits; the lunar nodes are left out
+export type TransitingPlanet = Exclude<Planet, Planet.NORTH_NODE | Planet.SOUTH_NODE>;
+
+// Theme of each natal point, completing "... {natal} ..."
+export const NATAL_THEMES: Record<NatalPointName, string> = {
+  [Planet.SUN]: 'your sense of purpose',
+  [Planet.MOON]: 'your emotional needs',
+  [Planet.MERCURY]: 'the way you think and speak',
+  [Planet.VENUS]: 'your relationships and what you value',
+  [Planet.MARS]: 'your drive and ambition',
+  [Planet.JUPITER]: 'your hopes and beliefs',
+  [Planet.SATURN]: 'your responsibilities and long-term plans',
+  [Planet.URANUS]: 'your need for freedom',
+  [Planet.NEPTUNE]: 'your dreams and ideals',
+  [Planet.PLUTO]: 'your deepest motivations',
+  [Planet.NORTH_NODE]: 'your sense of direction',
+  [Planet.SOUTH_NODE]: 'your old habits',
+  [NatalAngle.ASCENDANT]: 'the way you come across',
+  [NatalAngle.MIDHEAVEN]: 'your career and public image',
+};
+
+// Snippets per transiting planet and aspect tone
+export const TRANSIT_SNIPPETS: Record<TransitingPlanet, Record<AspectTone, readonly string[]>> = {
+  [Planet.SUN]: {
+    [AspectTone.FUSION]: [
+      'The Sun shines directly on {natal} today, so put yourself forward.',
+      'Today puts {natal} in the spotlight, and your energy follows.',
+    ],
+    [AspectTone.FLOW]: [
+      'The Sun lends easy confidence to {natal} today.',
+      'Things fall into place around {natal} with little effort today.',
+    ],
+    [AspectTone.TENSION]: [
+      'The Sun presses on {natal} today; pride could get in the way of a good outcome.',
+      'What others expect of you pulls against {natal} today. Choose your battles.',
+    ],
+  },
+  [Planet.MOON]: {
+    [AspectTone.FUSION]: [
+      'The Moon stirs {natal} today, and your feelings are close to the surface.',
+      'Moods run strong around {natal} today. Let yourself feel them before you act.',
+    ],
+    [AspectTone.FLOW]: [
+      'The Moon soothes {natal} today, so trust your gut.',
+      'An easy emotional current supports {natal} today.',
+    ],
+    [AspectTone.TENSION]: [
+      'The Moon unsettles {natal} today; a small worry can feel bigger than it is.',
+      'Restless feelings tug at {natal} today. Give yourself some quiet time.',
+    ],
+  },
+  [Planet.MERCURY]: {
+    [AspectTone.FUSION]: [
+      'Mercury sharpens {natal} today. Say what you mean.',
+      'Ideas about {natal} come quickly today, so write them down.',
+    ],
+    [AspectTone.FLOW]: [
+      'Mercury makes it easy to talk about {natal} today.',
+      'A helpful conversation or message touches {natal} today.',
+    ],
+    [AspectTone.TENSION]: [
+      'Mercury brings mixed signals about {natal} today. Double-check the details.',
+      'Words may come out wrong where {natal} is concerned today, so slow down.',
+    ],
+  },
+  [Planet.VENUS]: {
+    [AspectTone.FUSION]: [
+      'Venus brings warmth and charm to {natal} today.',
+      'Affection and good taste surround {natal} today. Enjoy it.',
+    ],
+    [AspectTone.FLOW]: [
+      'Venus smooths the way for {natal} today, and people respond kindly.',
+      'A pleasant surprise lifts {natal} today.',
+    ],
+    [AspectTone.TENSION]: [
+      'Venus tempts {natal} toward indulgence today. Keep an eye on what you spend.',
+      'Wanting to please everyone strains {natal} today. Be honest about what you want.',
+    ],
+  },
+  [Planet.MARS]: {
+    [AspectTone.FUSION]: [
+      'Mars fires up {natal} today, so start something new.',
+      'A surge of energy runs through {natal} today. Put it to work.',
+    ],
+    [AspectTone.FLOW]: [
+      'Mars gives {natal} the push it needs today.',
+      'Effort spent on {natal} pays off quickly today.',
+    ],
+    [AspectTone.TENSION]: [
+      'Mars puts {natal} under pressure today, and tempers may flare.',
+      'Friction builds around {natal} today. Work it off rather than lash out.',
+    ],
+  },
+  [Planet.JUPITER]: {
+    [AspectTone.FUSION]: [
+      'Jupiter expands {natal} in this period, and doors open.',
+      'Growth and good fortune gather around {natal} in this period.',
+    ],
+    [AspectTone.FLOW]: [
+      'Jupiter blesses {natal} with generous opportunities in this period.',
+      'Optimism about {natal} is well founded in this period. Say yes.',
+    ],
+    [AspectTone.TENSION]: [
+      'Jupiter may inflate {natal} in this period. Do not promise more than you can deliver.',
+      'Too much of a good thing tests {natal} in this period.',
+    ],
+  },
+  [Planet.SATURN]: {
+    [AspectTone.FUSION]: [
+      'Saturn asks you to take {natal} seriously in this period. Build slowly and well.',
+      'A time of hard work and real commitment begins for {natal}.',
+    ],
+    [AspectTone.FLOW]: [
+      'Saturn rewards patient effort on {natal} in this period.',
+      'Structure and discipline strengthen {natal} in this period.',
+    ],
+    [AspectTone.TENSION]: [
+      'Saturn tests {natal} in this period. Delays are lessons, not defeats.',
+      'Obstacles around {natal} show you where to build stronger foundations.',
+    ],
+  },
+  [Planet.URANUS]: {
+    [AspectTone.FUSION]: [
+      'Uranus electrifies {natal} in this period, so expect the unexpected.',
+      'A sudden change shakes up {natal}, opening room for something new.',
+    ],
+    [AspectTone.FLOW]: [
+      'Uranus brings refreshing ideas to {natal} in this period.',
+      'An unusual opportunity sparks {natal} in this period. Stay curious.',
+    ],
+    [AspectTone.TENSION]: [
+      'Uranus disrupts {natal} in this period. Stay flexible.',
+      'Restlessness around {natal} pushes you to break an old pattern.',
+    ],
+  },
+  [Planet.NEPTUNE]: {
+    [AspectTone.FUSION]: [
+      'Neptune softens the edges of {natal} in this period, and inspiration flows.',
+      'Imagination and compassion colour {natal} in this period.',
+    ],
+    [AspectTone.FLOW]: [
+      'Neptune lends {natal} a gentle, intuitive touch in this period.',
+      'Creative and spiritual pursuits nourish {natal} in this period.',
+    ],
+    [AspectTone.TENSION]: [
+      'Neptune clouds {natal} in this period. Check the facts before you commit.',
+      'Confusion around {natal} clears if you give it time.',
+    ],
+  },
+  [Planet.PLUTO]: {
+    [AspectTone.FUSION]: [
+      'Pluto transforms {natal} at the root in this period.',
+      'Something about {natal} is ending so that something stronger can begin.',
+    ],
+    [AspectTone.FLOW]: [
+      'Pluto gives {natal} quiet power in this period.',
+      'Deep changes to {natal} come naturally in this period. Trust the process.',
+    ],
+    [AspectTone.TENSION]: [
+      'Pluto brings power struggles around {natal} in this period. Let go of control.',
+      'Pressure on {natal} brings buried issues to the surface.',
+    ],
+  },
+};
+
+// Area of life of each house (1-12), completing "This plays out in ..."
+export const HOUSE_AREAS: readonly string[] = [
+  'how you present yourself',
+  'money and possessions',
+  'everyday conversations and errands',
+  'home and family',
+  'romance, play and creativity',
+  'work routines and health',
+  'partnerships',
+  'shared resources and intimacy',
+  'travel, study and big ideas',
+  'career and reputation',
+  'friendships and groups',
+  'rest and reflection',
+];
+
+// Snippets for the house most busy with transits (1-12)
+export const HOUSE_SNIPPETS: readonly (readonly string[])[] = [
+  [
+    'Much of the sky is focused on you personally. It is a good time for a fresh start.',
+    'Attention turns to your image and your goals. Take the initiative.',
+  ],
+  [
+    'Money and what you value are in focus. Review your budget.',
+    'Practical matters of income and security deserve your attention.',
+  ],
+  [
+    'Messages, short trips and neighbours keep you busy.',
+    'Your days fill with conversations. Stay curious and listen well.',
+  ],
+  [
+    'Home and family matters call you back to your roots.',
+    'Your private life needs care. Make your space feel like yours.',
+  ],
+  [
+    'Romance, creativity and play light up your chart.',
+    'Your heart wants to express itself. Make time for what you love.',
+  ],
+  [
+    'Daily routines and health are in focus. Small improvements add up.',
+    'Work habits need attention. Organise before you take on more.',
+  ],
+  [
+    'Partnerships take centre stage. Meet others halfway.',
+    'Someone close to you plays a key role. Cooperation wins.',
+  ],
+  [
+    'Shared finances and deep bonds are under review.',
+    'Emotional and financial ties with others need an honest look.',
+  ],
+  [
+    'Your horizons widen through study, travel or a new belief.',
+    'Big-picture questions call you. Follow what expands your mind.',
+  ],
+  [
+    'Career and public standing are highlighted. Aim high.',
+    'Your ambitions are visible to others now, so make your moves count.',
+  ],
+  [
+    'Friends and groups play a big part in your plans.',
+    'Your network brings opportunities. Share your hopes for the future.',
+  ],
+  [
+    'Rest and reflection are needed. Retreat and recharge.',
+    'Behind-the-scenes work and inner growth matter more than visibility.',
+  ],
+];
+
+// Opening paragraph for the sign the Moon is in
+export const MOON_SIGN_SNIPPETS: Record<ZodiacSign, readonly string[]> = {
+  [ZodiacSign.ARIES]: [
+    'With the Moon in Aries, feelings are quick and direct. Act on your impulses, but count to ten first.',
+    'The Moon in Aries brings a brisk, pioneering mood.',
+  ],
+  [ZodiacSign.TAURUS]: [
+    'With the Moon in Taurus, you crave comfort and steadiness. Slow down and enjoy simple pleasures.',
+    'The Moon in Taurus steadies the mood and rewards patience.',
+  ],
+  [ZodiacSign.GEMINI]: [
+    'With the Moon in Gemini, curiosity runs high and conversations flow.',
+    'The Moon in Gemini makes for a chatty, changeable mood.',
+  ],
+  [ZodiacSign.CANCER]: [
+    'With the Moon in Cancer, home and loved ones come first.',
+    'The Moon in Cancer heightens your sensitivity. Look after yourself.',
+  ],
+  [ZodiacSign.LEO]: [
+    'With the Moon in Leo, you want to shine and to be appreciated.',
+    'The Moon in Leo brings a warm, generous and playful mood.',
+  ],
+  [ZodiacSign.VIRGO]: [
+    'With the Moon in Virgo, order and usefulness feel good. Tackle your to-do list.',
+    'The Moon in Virgo favours careful work and practical care.',
+  ],
+  [ZodiacSign.LIBRA]: [
+    'With the Moon in Libra, harmony and company matter most.',
+    'The Moon in Libra makes you want to smooth things over and share.',
+  ],
+  [ZodiacSign.SCORPIO]: [
+    'With the Moon in Scorpio, feelings run deep and intense.',
+    'The Moon in Scorpio sharpens your intuition. Notice what is left unsaid.',
+  ],
+  [ZodiacSign.SAGITTARIUS]: [
+    'With the Moon in Sagittarius, optimism rises and you want room to roam.',
+    'The Moon in Sagittarius brings an adventurous, honest mood.',
+  ],
+  [ZodiacSign.CAPRICORN]: [
+    'With the Moon in Capricorn, you feel focused and responsible.',
+    'The Moon in Capricorn favours a sober, goal-oriented mood.',
+  ],
+  [ZodiacSign.AQUARIUS]: [
+    'With the Moon in Aquarius, you need some space and fresh ideas.',
+    'The Moon in Aquarius brings a detached, inventive and friendly mood.',
+  ],
+  [ZodiacSign.PISCES]: [
+    'With the Moon in Pisces, imagination and empathy are strong.',
+    'The Moon in Pisces softens the mood. Make room for dreams.',
+  ],
+};
@@ -0,0 +1,209 @@
+import { ZodiacSign } from '../types';
+
+/**
+ * Template corpus for locally generated horoscopes. A prediction is one
+ * sign-specific opening, one theme of the day and one piece of advice.
+ */
+
+// Sign-specific openings
+export const SIGN_OPENINGS: Record<ZodiacSign, readonly string[]> = {
+  [ZodiacSign.ARIES]: [
+    'Today is a day for new beginnings. Trust your instincts and take that first step toward your goals.',
+    'Your natural courage is hard to miss today, and others look to you to lead the way.',
+    'A burst of energy arrives early. Channel it into the project you have been putting off.',
+    'Impatience may tug at you today, yet your boldness opens a door that was firmly shut.',
+  ],
+  [ZodiacSign.TAURUS]: [
+    'Focus on stability today. Your practical nature will help you solve a persistent problem.',
+    'Steady effort pays off today as a slow-growing plan finally shows results.',
+    'Comfort and beauty feed your spirit today. Make room for simple pleasures.',
+    'Your patience is a quiet strength today, and someone notices how reliable you are.',
+  ],
+  [ZodiacSign.GEMINI]: [
+    'Communication is key today. Express your ideas clearly and listen to others with an open mind.',
+    'Your curiosity leads you down an interesting path today. Follow the questions that excite you.',
+    'Conversations sparkle today, and a chance remark gives you a fresh idea.',
+    'Your mind moves quickly today. Write things down so that good thoughts are not lost.',
+  ],
+  [ZodiacSign.CANCER]: [
+    'Your emotional intelligence is heightened today. Use it to strengthen your relationships.',
+    'Home and family are in focus today. A small gesture of care goes a long way.',
+    'Your intuition about people is spot on today. Trust the feeling behind the words.',
+    'You feel protective of what matters most today, and that instinct serves you well.',
+  ],
+  [ZodiacSign.LEO]: [
+    'Your creative energy is at its peak. Share your vision with others and inspire those around you.',
+    'The spotlight finds you today. Step into it with warmth rather than pride.',
+    'Generosity brings its own rewards today, especially when it comes from the heart.',
+    'Your confidence is contagious today. Use it to lift up someone who needs encouragement.',
+  ],
+  [ZodiacSign.VIRGO]: [
+    'Details matter today. Your analytical skills will help you find solutions others have missed.',
+    'Order brings you calm today. Tidying one corner of your life clears your mind.',
+    'Your willingness to help is appreciated today, though remember to help yourself as well.',
+    'A careful plan comes together today. Small refinements make a big difference.',
+  ],
+  [ZodiacSign.LIBRA]: [
+    'Seek balance in all things today. Your diplomatic skills will be needed to resolve a conflict.',
+    'Harmony is within reach today. A fair compromise leaves everyone better off.',
+    'Beauty and good company lift your mood today. Say yes to a social invitation.',
+    'A decision you have been weighing becomes clearer today. Trust your sense of fairness.',
+  ],
+  [ZodiacSign.SCORPIO]: [
+    'Trust your intuition today. Your perceptive nature reveals truths beneath the surface.',
+    'Your focus is intense today, and nothing distracts you from what you truly want.',
+    'A hidden matter comes to light today. Handle it with discretion and strength.',
+    'Transformation is in the air today. Let go of something that no longer serves you.',
+  ],
+  [ZodiacSign.SAGITTARIUS]: [
+    'Adventure calls today. Explore new ideas and expand your horizons.',
+    'Your optimism is a gift today. It helps a friend see a way forward.',
+    'Learning something new brings real joy today. Follow your restless curiosity.',
+    'A wider view helps today. Step back from the details and look at the big picture.',
+  ],
+  [ZodiacSign.CAPRICORN]: [
+    'Focus on your goals today. Your determination will overcome any obstacles.',
+    'Your discipline earns respect today. A long climb brings you closer to the summit.',
+    'Responsibility sits comfortably on your shoulders today, and others rely on your judgment.',
+    'Structure is your ally today. A clear schedule frees you to do your best work.',
+  ],
+  [ZodiacSign.AQUARIUS]: [
+    'Innovation is your strength today. Think outside the box to solve a challenging problem.',
+    'Your independent streak shines today. Do things your own way.',
+    'Friends and communities play a big role today. Your ideas find an eager audience.',
+    'A flash of insight arrives unexpectedly today. Act on it before the moment passes.',
+  ],
+  [ZodiacSign.PISCES]: [
+    'Your compassion makes a difference today. Connect with others on a deeper level.',
+    'Your imagination runs freely today. Creative work flows with little effort.',
+    'Dreams and intuition carry useful messages today. Pay attention to them.',
+    'Gentleness is your superpower today, and it softens a tense situation.',
+  ],
+};
+
+// Themes of the day, shared by all signs
+export const DAILY_THEMES: readonly string[] = [
+  'At work, a colleague may offer support from an unexpected direction.',
+  'Money matters benefit from a careful review rather than a quick decision.',
+  'A conversation with an old friend brings back a sense of lightness.',
+  'Romance favors honesty today; say what you mean and mean what you say.',
+  'Your health responds well to rest, water and a little movement.',
+  'An invitation could lead somewhere more interesting than it first appears.',
+  'Travel plans or news from far away capture your attention.',
+  'A creative hobby offers a welcome break from routine.',
+  'Family ties feel closer than usual, and old tensions ease.',
+  'A problem that looked complicated turns out to have a simple answer.',
+  'Someone in authority takes note of your efforts.',
+  'Learning and study are especially rewarding this afternoon.',
+  'Your home could use a little attention, and the effort lifts your spirits.',
+  'A partnership, in love or business, asks for a clear agreement.',
+  'Unexpected news shifts your plans, but the change works in your favor.',
+  'Quiet reflection in the evening helps you see the day more clearly.',
+];
+
+// Advice that closes the prediction
+export const DAILY_ADVICE: readonly string[] = [
+  'Stay open to possibilities.',
+  'Take one small step rather than waiting for the perfect moment.',
+  'Listen more than you speak.',
+  'Be kind to yourself when things do not go to plan.',
+  'Keep your promises, including the ones you make to yourself.',
+  'Let curiosity guide your choices.',
+  'Avoid rushing into commitments before the details are clear.',
+  'Share your ideas; they are stronger than you think.',
+  'Protect your energy and say no when you need to.',
+  'Celebrate a small win before moving on to the next task.',
+  'Ask for help if the load feels heavy.',
+  'Trust the timing of things.',
+  'Simplify wherever you can.',
+  'Reach out to someone you have not heard from in a while.',
+  'Give your full attention to one thing at a time.',
+  'End the day with gratitude for what went well.',
+];
+
+export const MOODS: readonly string[] = [
+  'Happy', 'Reflective', 'Energetic', 'Calm', 'Creative', 'Focused', 'Relaxed', 'Inspired',
+  'Optimistic', 'Playful', 'Determined', 'Curious', 'Grateful', 'Romantic', 'Confident', 'Peaceful',
+];
+
+export const COLORS: readonly string[] = [
+  'Blue', 'Green', 'Red', 'Purple', 'Yellow', 'Orange', 'Pink', 'Teal', 'Gold', 'Silver',
+  'Turquoise', 'Lavender', 'Coral', 'Navy', 'Emerald', 'Ivory', 'Burgundy', 'Amber',
+];
+
+/**
+ * Templates for weekly, monthly and yearly horoscopes. {period} is replaced
+ * with "week", "month" or "year" and {strength} with one of the sign's
+ * strengths.
+ */
+
+// Strengths each sign can draw on
+export const SIGN_STRENGTHS: Record<ZodiacSign, readonly string[]> = {
+  [ZodiacSign.ARIES]: ['courage', 'drive', 'sense of initiative'],
+  [ZodiacSign.TAURUS]: ['patience', 'reliability', 'practical sense'],
+  [ZodiacSign.GEMINI]: ['curiosity', 'quick wit', 'way with words'],
+  [ZodiacSign.CANCER]: ['intuition', 'loyalty', 'caring nature'],
+  [ZodiacSign.LEO]: ['creativity', 'generosity', 'natural confidence'],
+  [ZodiacSign.VIRGO]: ['eye for detail', 'diligence', 'analytical mind'],
+  [ZodiacSign.LIBRA]: ['diplomacy', 'sense of fairness', 'charm'],
+  [ZodiacSign.SCORPIO]: ['determination', 'perceptiveness', 'emotional depth'],
+  [ZodiacSign.SAGITTARIUS]: ['optimism', 'love of learning', 'adventurous spirit'],
+  [ZodiacSign.CAPRICORN]: ['discipline', 'ambition', 'steady judgment'],
+  [ZodiacSign.AQUARIUS]: ['originality', 'independence', 'vision'],
+  [ZodiacSign.PISCES]: ['compassion', 'imagination', 'sensitivity'],
+};
+
+export const PERIOD_OPENINGS: readonly string[] = [
+  'This {period}, your {strength} is your greatest asset.',
+  'The {period} ahead rewards your {strength}.',
+  'Your {strength} sets the tone for the {period}.',
+  'Lean on your {strength} as the {period} unfolds.',
+  'Over the coming {period}, others notice your {strength}.',
+  'The {period} brings chances to put your {strength} to work.',
+];
+
+export const PERIOD_THEMES: readonly string[] = [
+  'Plans that stalled earlier start moving again.',
+  'A fresh start is possible in an area of life that felt stuck.',
+  'Relationships take center stage, and honest conversations bring you closer to others.',
+  'Practical matters need attention first, then there is room for fun.',
+  'New people enter your circle and widen your perspective.',
+  'Old commitments come up for review; keep what still matters to you.',
+  'Your ambitions gain momentum, especially when you work with others.',
+  'A slower pace helps you recharge and see your priorities clearly.',
+  'Learning something new opens an unexpected door.',
+  'Finances benefit from patience and a clear budget.',
+];
+
+export const LOVE_FORECASTS: readonly string[] = [
+  'Romance grows through small, thoughtful gestures this {period}.',
+  'An honest talk clears the air with someone close to you.',
+  'Single or attached, you attract people who share your values this {period}.',
+  'Give a relationship room to breathe and it will come back stronger.',
+  'Shared plans bring warmth to your closest bonds this {period}.',
+  'Let your guard down a little; vulnerability brings you closer to others.',
+  'A friendship may show a new side this {period}.',
+  'Quality time matters more than grand declarations this {period}.',
+];
+
+export const CAREER_FORECASTS: readonly string[] = [
+  'Your work gets noticed by the right people this {period}.',
+  'A project benefits from a careful plan rather than a rush to finish.',
+  'Collaboration brings better results than going it alone this {period}.',
+  'A chance to learn a new skill could pay off later.',
+  'Stay flexible; a change in direction at work turns out well.',
+  'Financial decisions go best when you sleep on them first.',
+  'This {period} favors finishing what you have started over starting something new.',
+  'Speak up in meetings; your ideas carry weight this {period}.',
+];
+
+export const HEALTH_FORECASTS: readonly string[] = [
+  'Regular sleep and fresh air keep your energy steady this {period}.',
+  'Movement you enjoy does more for you than a strict routine.',
+  'Pay attention to stress and build in time to unwind.',
+  'Your body responds well to simple, nourishing meals this {period}.',
+  'A little time outdoors each day lifts your mood.',
+  'Rest is productive this {period}; do not feel guilty about slowing down.',
+  'Set gentle limits on screen time for clearer thinking.',
+  'Small healthy habits started this {period} have lasting effects.',
+];
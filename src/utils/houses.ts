@@ -0,0 +1,181 @@
+import {
+  ascendantFromArmc,
+  asinDeg,
+  calculateAngles,
+  eclipticLongitudeFromRightAscension,
+  normalizeDegrees,
+  sinDeg,
+  tanDeg,
+} from './ephemeris';
+
+// Supported house systems
+export enum HouseSystem {
+  PLACIDUS = 'placidus',
+  KOCH = 'koch',
+  EQUAL = 'equal',
+  WHOLE_SIGN = 'whole_sign',
+}
+
+// House cusps for a moment and place
+export interface HouseCusps {
+  system: HouseSystem;
+  ascendant: number;
+  midheaven: number;
+  cusps: number[]; // longitudes of cusps 1-12, index 0 is the first house
+}
+
+/**
+ * Placidus cusp for the given fraction of the diurnal (above horizon) or
+ * nocturnal (below horizon) semi-arc, solved iteratively
+ */
+const placidusCusp = (
+  armc: number,
+  latitude: number,
+  obliquity: number,
+  fraction: number,
+  aboveHorizon: boolean
+): number => {
+  const initialAscension = aboveHorizon ? armc + 90 * fraction : armc + 180 - 90 * fraction;
+  let longitude = eclipticLongitudeFromRightAscension(initialAscension, obliquity);
+
+  for (let iteration = 0; iteration < 50; iteration++) {
+    const declination = asinDeg(sinDeg(obliquity) * sinDeg(longitude));
+    const ascensionalDifference = asinDeg(tanDeg(latitude) * tanDeg(declination));
+    const rightAscension = aboveHorizon
+      ? armc + fraction * (90 + ascensionalDifference)
+      : armc + 180 - fraction * (90 - ascensionalDifference);
+    const next = eclipticLongitudeFromRightAscension(rightAscension, obliquity);
+
+    if (Math.abs(normalizeDegrees(next - longitude + 180) - 180) < 1e-7) {
+      return next;
+    }
+    longitude = next;
+  }
+
+  return longitude;
+};
+
+/**
+ * Koch cusps: trisect the diurnal semi-arc of the midheaven degree in time.
+ * Cusps 11, 12, 2 and 3 are the degrees rising when the sidereal time differs
+ * from the birth time by multiples of a third of that semi-arc.
+ */
+const kochCusps = (armc: number, midheaven: number, latitude: number, obliquity: number): number[] => {
+  const cusps = new Array<number>(12);
+  const midheavenDeclination = asinDeg(sinDeg(obliquity) * sinDeg(midheaven));
+  const semiArcThird = (90 + asinDeg(tanDeg(latitude) * tanDeg(midheavenDeclination))) / 3;
+
+  cusps[10] = ascendantFromArmc(armc - 2 * semiArcThird, latitude, obliquity);
+  cusps[11] = ascendantFromArmc(armc - semiArcThird, latitude, obliquity);
+  cusps[1] = ascendantFromArmc(armc + semiArcThird, latitude, obliquity);
+  cusps[2] = ascendantFromArmc(armc + 2 * semiArcThird, latitude, obliquity);
+
+  return cusps;
+};
+
+/**
+ * Equal cusps: 30° apart starting from the ascendant, or from 0° of the
+ * ascendant's sign for Whole Sign houses
+ */
+const equalCusps = (start: number): number[] =>
+  Array.from({ length: 12 }, (_, house) => normalizeDegrees(start + house * 30));
+
+/**
+ * Porphyry cusps: trisect each quadrant between the angles. Used where Placidus
+ * and Koch are undefined because some ecliptic degrees never rise or set.
+ */
+const porphyryCusps = (ascendant: number, midheaven: number): number[] => {
+  const cusps = new Array<number>(12);
+  const eastern = normalizeDegrees(ascendant - midheaven);
+  const western = 180 - eastern;
+
+  cusps[9] = midheaven;
+  cusps[10] = normalizeDegrees(midheaven + eastern / 3);
+  cusps[11] = normalizeDegrees(midheaven + (2 * eastern) / 3);
+  cusps[0] = ascendant;
+  cusps[1] = normalizeDegrees(ascendant + western / 3);
+  cusps[2] = normalizeDegrees(ascendant + (2 * western) / 3);
+
+  for (let i = 0; i < 6; i++) {
+    cusps[i + 3] = normalizeDegrees(cusps[(i + 9) % 12] + 180);
+  }
+
+  return cusps;
+};
+
+/**
+ * Calculate house cusps for a moment and place
+ *
+ * @param jdUt - Julian Day in Universal Time
+ * @param latitude - Geographic latitude (north positive)
+ * @param longitude - Geographic longitude (east positive)
+ * @param system - House system to use
+ * @param zodiacOffset - Degrees subtracted from every longitude, i.e. the
+ * ayanamsa for sidereal charts. Whole Sign houses start at 0° of the sign
+ * the ascendant occupies in that zodiac.
+ * @returns Ascendant, midheaven and the twelve cusps
+ */
+export const calculateHouses = (
+  jdUt: number,
+  latitude: number,
+  longitude: number,
+  system: HouseSystem = HouseSystem.PLACIDUS,
+  zodiacOffset = 0
+): HouseCusps => {
+  const angles = calculateAngles(jdUt, latitude, longitude);
+  const { armc, obliquity } = angles;
+  const ascendant = normalizeDegrees(angles.ascendant - zodiacOffset);
+  const midheaven = normalizeDegrees(angles.midheaven - zodiacOffset);
+
+  if (system === HouseSystem.EQUAL) {
+    return { system, ascendant, midheaven, cusps: equalCusps(ascendant) };
+  }
+  if (system === HouseSystem.WHOLE_SIGN) {
+    return { system, ascendant, midheaven, cusps: equalCusps(Math.floor(ascendant / 30) * 30) };
+  }
+
+  // Within the polar circles the semi-arcs are undefined for part of the ecliptic
+  if (Math.abs(latitude) >= 90 - obliquity) {
+    return { system, ascendant, midheaven, cusps: porphyryCusps(ascendant, midheaven) };
+  }
+
+  let cusps: number[];
+  if (system === HouseSystem.KOCH) {
+    cusps = kochCusps(armc, angles.midheaven, latitude, obliquity);
+  } else {
+    cusps = new Array<number>(12);
+    cusps[10] = placidusCusp(armc, latitude, obliquity, 1 / 3, true);
+    cusps[11] = placidusCusp(armc, latitude, obliquity, 2 / 3, true);
+    cusps[1] = placidusCusp(armc, latitude, obliquity, 2 / 3, false);
+    cusps[2] = placidusCusp(armc, latitude, obliquity, 1 / 3, false);
+  }
+  for (const house of [1, 2, 10, 11]) {
+    cusps[house] = normalizeDegrees(cusps[house] - zodiacOffset);
+  }
+  cusps[0] = ascendant;
+  cusps[9] = midheaven;
+
+  for (const house of [3, 4, 5, 6, 7, 8]) {
+    cusps[house] = normalizeDegrees(cusps[(house + 6) % 12] + 180);
+  }
+
+  return { system, ascendant, midheaven, cusps };
+};
+
+/**
+ * Find the house (1-12) containing an ecliptic longitude
+ *
+ * @param longitude - Ecliptic longitude in degrees
+ * @param cusps - Longitudes of the twelve house cusps
+ */
+export const findHouse = (longitude: number, cusps: number[]): number => {
+  for (let i = 0; i < 12; i++) {
+    const start = cusps[i];
+    const end = cusps[(i + 1) % 12];
+    const span = normalizeDegrees(end - start);
+    if (normalizeDegrees(longitude - start) < span) {
+      return i + 1;
+    }
+  }
+  return 1;
+};
@@ -0,0 +1,362 @@
+import {
+  angleDifference,
+  calculatePlanetPosition,
+  fromJulianDay,
+  normalizeDegrees,
+  Planet,
+  toJulianDay,
+  ZODIAC_ORDER,
+} from './ephemeris';
+import { AspectType, ASPECT_ANGLES } from './aspects';
+import { getUtcOffsetForLocalTime } from './timezone';
+import { ZodiacSign } from '../types';
+
+/**
+ * Lunar phases, sign ingresses and void-of-course periods
+ *
+ * All searches sample the Moon at fixed steps small enough that it cannot
+ * pass the same angle twice, then bisect each crossing down to a minute.
+ */
+
+// Phases of the lunation, in order
+export enum MoonPhase {
+  NEW_MOON = 'new_moon',
+  WAXING_CRESCENT = 'waxing_crescent',
+  FIRST_QUARTER = 'first_quarter',
+  WAXING_GIBBOUS = 'waxing_gibbous',
+  FULL_MOON = 'full_moon',
+  WANING_GIBBOUS = 'waning_gibbous',
+  LAST_QUARTER = 'last_quarter',
+  WANING_CRESCENT = 'waning_crescent',
+}
+
+// Phases that happen at an exact moment, keyed by the Moon's elongation
+const PRINCIPAL_PHASES: [number, MoonPhase][] = [
+  [0, MoonPhase.NEW_MOON],
+  [90, MoonPhase.FIRST_QUARTER],
+  [180, MoonPhase.FULL_MOON],
+  [270, MoonPhase.LAST_QUARTER],
+];
+
+// Phases between the principal ones, by quarter of the lunation
+const INTERMEDIATE_PHASES = [
+  MoonPhase.WAXING_CRESCENT,
+  MoonPhase.WAXING_GIBBOUS,
+  MoonPhase.WANING_GIBBOUS,
+  MoonPhase.WANING_CRESCENT,
+];
+
+// Bodies the Moon must aspect before it is void of course
+const VOID_OF_COURSE_BODIES = [
+  Planet.SUN,
+  Planet.MERCURY,
+  Planet.VENUS,
+  Planet.MARS,
+  Planet.JUPITER,
+  Planet.SATURN,
+  Planet.URANUS,
+  Planet.NEPTUNE,
+  Planet.PLUTO,
+];
+
+// Sampling step in days: the Moon moves at most about 4° (and 4° relative
+// to any planet) in six hours
+const SEARCH_STEP = 0.25;
+
+// Stop bisecting at one minute
+const PRECISION = 1 / 1440;
+
+// Phase of the Moon at one moment
+export interface MoonPhaseState {
+  phase: MoonPhase;
+  elongation: number; // Moon's longitude minus the Sun's, 0-360
+  illumination: number; // lit fraction of the disc, 0-1
+}
+
+// Exact new moon, quarter or full moon
+export interface MoonPhaseEvent {
+  phase: MoonPhase;
+  time: string; // ISO 8601
+  sign: ZodiacSign; // sign of the Moon at that moment
+}
+
+// Moon entering a sign
+export interface MoonIngress {
+  sign: ZodiacSign;
+  time: string;
+}
+
+// Time between the Moon's last major aspect in a sign and its next ingress
+export interface VoidOfCourse {
+  start: string;
+  end: string;
+  sign: ZodiacSign; // sign the Moon is leaving
+  lastAspect: { planet: Planet; aspect: AspectType } | null; // null if no aspect was made in the sign
+}
+
+// One local calendar day
+export interface MoonDay {
+  date: string; // YYYY-MM-DD
+  phase: MoonPhase;
+  illumination: number; // at local noon
+  sign: ZodiacSign; // at the start of the day
+  ingress?: MoonIngress; // when the Moon changes sign during the day
+  exactPhase?: MoonPhaseEvent; // new moon, quarter or full moon during the day
+  voidOfCourse: VoidOfCourse[]; // periods overlapping the day
+}
+
+export interface MoonCalendar {
+  month: string; // YYYY-MM
+  timezone: string;
+  phases: MoonPhaseEvent[];
+  days: MoonDay[];
+}
+
+const moonLongitude = (jd: number): number => calculatePlanetPosition(Planet.MOON, jd).longitude;
+
+const elongation = (jd: number): number =>
+  normalizeDegrees(moonLongitude(jd) - calculatePlanetPosition(Planet.SUN, jd).longitude);
+
+const toIso = (jd: number): string => fromJulianDay(jd).toISOString();
+
+/**
+ * Find the moment an increasing angle passes a target, given an interval
+ * where it does
+ */
+const bisectCrossing = (angleAt: (jd: number) => number, target: number, start: number, end: number): number => {
+  let low = start;
+  let high = end;
+  while (high - low > PRECISION) {
+    const middle = (low + high) / 2;
+    if (angleDifference(target, angleAt(middle)) < 0) {
+      low = middle;
+    } else {
+      high = middle;
+    }
+  }
+  return (low + high) / 2;
+};
+
+/**
+ * Check whether an increasing angle passed a target between two samples
+ */
+const crosses = (target: number, before: number, after: number): boolean => {
+  const travelled = normalizeDegrees(after - before);
+  const distance = normalizeDegrees(target - before);
+  return distance > 0 && distance <= travelled;
+};
+
+/**
+ * Calculate the phase and illumination of the Moon
+ *
+ * @param jdUt - Julian Day in Universal Time
+ */
+export const calculateMoonPhase = (jdUt: number): MoonPhaseState => {
+  const moon = calculatePlanetPosition(Planet.MOON, jdUt);
+  const angle = normalizeDegrees(moon.longitude - calculatePlanetPosition(Planet.SUN, jdUt).longitude);
+
+  // Angular distance from the Sun, approximating the phase angle as its supplement
+  const cosSeparation = Math.cos((moon.latitude * Math.PI) / 180) * Math.cos((angle * Math.PI) / 180);
+
+  return {
+    phase: INTERMEDIATE_PHASES[Math.floor(angle / 90) % 4],
+    elongation: angle,
+    illumination: (1 - cosSeparation) / 2,
+  };
+};
+
+/**
+ * Find exact new moons, quarters and full moons
+ *
+ * @param startJd - Start of the search (Julian Day, UT)
+ * @param endJd - End of the search
+ */
+export const findMoonPhases = (startJd: number, endJd: number): MoonPhaseEvent[] => {
+  const events: MoonPhaseEvent[] = [];
+  let before = elongation(startJd);
+
+  for (let jd = startJd; jd < endJd; jd += SEARCH_STEP) {
+    const next = Math.min(jd + SEARCH_STEP, endJd);
+    const after = elongation(next);
+
+    PRINCIPAL_PHASES.forEach(([angle, phase]) => {
+      if (crosses(angle, before, after)) {
+        const exact = bisectCrossing(elongation, angle, jd, next);
+        events.push({ phase, time: toIso(exact), sign: ZODIAC_ORDER[Math.floor(moonLongitude(exact) / 30)] });
+      }
+    });
+    before = after;
+  }
+
+  return events;
+};
+
+/**
+ * Find the moments the Moon enters a new sign
+ *
+ * @param startJd - Start of the search (Julian Day, UT)
+ * @param endJd - End of the search
+ */
+export const findMoonIngresses = (startJd: number, endJd: number): MoonIngress[] => {
+  const ingresses: MoonIngress[] = [];
+  let before = moonLongitude(startJd);
+
+  for (let jd = startJd; jd < endJd; jd += SEARCH_STEP) {
+    const next = Math.min(jd + SEARCH_STEP, endJd);
+    const after = moonLongitude(next);
+    const boundary = (Math.floor(before / 30) + 1) * 30;
+
+    if (crosses(boundary % 360, before, after)) {
+      const exact = bisectCrossing(moonLongitude, boundary % 360, jd, next);
+      ingresses.push({ sign: ZODIAC_ORDER[(boundary / 30) % 12], time: toIso(exact) });
+    }
+    before = after;
+  }
+
+  return ingresses;
+};
+
+// Exact aspects on both sides of a planet, e.g. squares at 90° and 270°
+const ASPECT_TARGETS = Object.values(AspectType).flatMap(aspect => {
+  const angle = ASPECT_ANGLES[aspect];
+  return angle === 0 || angle === 180 ? [{ aspect, angle }] : [{ aspect, angle }, { aspect, angle: 360 - angle }];
+});
+
+/**
+ * The Moon's longitude relative to each void-of-course body
+ */
+const relativeLongitudes = (jd: number): Record<string, number> => {
+  const moon = moonLongitude(jd);
+  const relative: Record<string, number> = {};
+  VOID_OF_COURSE_BODIES.forEach(planet => {
+    relative[planet] = normalizeDegrees(moon - calculatePlanetPosition(planet, jd).longitude);
+  });
+  return relative;
+};
+
+/**
+ * Find the Moon's last exact major aspect to a planet in an interval,
+ * searching backwards from its end
+ */
+const findLastAspect = (
+  startJd: number,
+  endJd: number
+): { julianDay: number; planet: Planet; aspect: AspectType } | null => {
+  let after = relativeLongitudes(endJd);
+
+  for (let jd = endJd; jd > startJd; jd -= SEARCH_STEP) {
+    const previous = Math.max(jd - SEARCH_STEP, startJd);
+    const before = relativeLongitudes(previous);
+    let last: { julianDay: number; planet: Planet; aspect: AspectType } | null = null;
+
+    for (const planet of VOID_OF_COURSE_BODIES) {
+      for (const { aspect, angle } of ASPECT_TARGETS) {
+        if (!crosses(angle, before[planet], after[planet])) {
+          continue;
+        }
+        const relative = (t: number) =>
+          normalizeDegrees(moonLongitude(t) - calculatePlanetPosition(planet, t).longitude);
+        const exact = bisectCrossing(relative, angle, previous, jd);
+        if (!last || exact > last.julianDay) {
+          last = { julianDay: exact, planet, aspect };
+        }
+      }
+    }
+
+    if (last) {
+      return last;
+    }
+    after = before;
+  }
+
+  return null;
+};
+
+/**
+ * Find void-of-course periods ending in an interval. Each one runs from the
+ * Moon's last major aspect to a planet (Sun to Pluto) until it leaves the
+ * sign, or through the whole sign if it made no aspect there.
+ *
+ * @param startJd - Start of the interval (Julian Day, UT)
+ * @param endJd - End of the interval
+ */
+export const findVoidOfCourse = (startJd: number, endJd: number): VoidOfCourse[] => {
+  // The Moon spends at most about 2.5 days in a sign, so searching three days
+  // back always finds the ingress that started the first period
+  const ingresses = findMoonIngresses(startJd - 3, endJd);
+  const periods: VoidOfCourse[] = [];
+
+  for (let i = 1; i < ingresses.length; i++) {
+    const signStart = toJulianDay(new Date(ingresses[i - 1].time));
+    const signEnd = toJulianDay(new Date(ingresses[i].time));
+    if (signEnd < startJd) {
+      continue;
+    }
+
+    const last = findLastAspect(signStart, signEnd);
+    periods.push({
+      start: toIso(last ? last.julianDay : signStart),
+      end: ingresses[i].time,
+      sign: ingresses[i - 1].sign,
+      lastAspect: last && { planet: last.planet, aspect: last.aspect },
+    });
+  }
+
+  return periods;
+};
+
+/**
+ * Julian Day of local midnight starting a date in a time zone
+ */
+const localMidnight = (date: string, timeZone: string): number =>
+  toJulianDay(new Date(`${date}T00:00:00Z`)) - getUtcOffsetForLocalTime(timeZone, date, '00:00') / 1440;
+
+/**
+ * Calculate a month of moon data, with days running from local midnight to
+ * midnight in a time zone
+ *
+ * @param month - Month in YYYY-MM format
+ * @param timeZone - IANA time zone for the day boundaries
+ */
+export const calculateMoonCalendar = (month: string, timeZone: string): MoonCalendar => {
+  const [year, monthIndex] = month.split('-').map(Number);
+  const dayCount = new Date(Date.UTC(year, monthIndex, 0)).getUTCDate();
+  const dates = Array.from({ length: dayCount + 1 }, (_, i) =>
+    new Date(Date.UTC(year, monthIndex - 1, i + 1)).toISOString().split('T')[0]
+  );
+  const midnights = dates.map(date => localMidnight(date, timeZone));
+
+  const start = midnights[0];
+  const end = midnights[dayCount];
+  const phases = findMoonPhases(start, end);
+  const ingresses = findMoonIngresses(start, end);
+  // Periods ending after the month can still start on its last day
+  const voidPeriods = findVoidOfCourse(start, end + 3);
+
+  const within = (time: string, dayStart: number, dayEnd: number) => {
+    const jd = toJulianDay(new Date(time));
+    return jd >= dayStart && jd < dayEnd;
+  };
+
+  const days = dates.slice(0, dayCount).map((date, i): MoonDay => {
+    const dayStart = midnights[i];
+    const dayEnd = midnights[i + 1];
+    const noon = calculateMoonPhase((dayStart + dayEnd) / 2);
+    const exactPhase = phases.find(event => within(event.time, dayStart, dayEnd));
+    const ingress = ingresses.find(event => within(event.time, dayStart, dayEnd));
+
+    return {
+      date,
+      phase: exactPhase ? exactPhase.phase : noon.phase,
+      illumination: Math.round(noon.illumination * 1000) / 1000,
+      sign: ZODIAC_ORDER[Math.floor(moonLongitude(dayStart) / 30)],
+      ...(ingress ? { ingress } : {}),
+      ...(exactPhase ? { exactPhase } : {}),
+      voidOfCourse: voidPeriods.filter(period =>
+        toJulianDay(new Date(period.start)) < dayEnd && toJulianDay(new Date(period.end)) > dayStart
+      ),
+    };
+  });
+
+  return { month, timezone: timeZone, phases, days };
+};
@@ -0,0 +1,141 @@
+/**
+ * Pythagorean numerology
+ *
+ * Letters are numbered 1 to 9 in alphabet order (A = 1, I = 9, J = 1 and so
+ * on) and numbers are reduced by adding their digits until one digit is
+ * left. The core numbers keep the master numbers 11, 22 and 33; the
+ * personal cycles always run from 1 to 9.
+ */
+
+export interface NumerologyNumber {
+  value: number;
+  keyword: string;
+  meaning: string;
+}
+
+export interface PersonalCycles {
+  date: string; // YYYY-MM-DD
+  personalYear: NumerologyNumber;
+  personalMonth: NumerologyNumber;
+  personalDay: NumerologyNumber;
+}
+
+export interface NumerologyProfile extends PersonalCycles {
+  lifePath: NumerologyNumber;
+  expression?: NumerologyNumber; // without a name only the date numbers are known
+  soulUrge?: NumerologyNumber;
+}
+
+const MASTER_NUMBERS = [11, 22, 33];
+
+// Y is counted as a consonant
+const VOWELS = ['A', 'E', 'I', 'O', 'U'];
+
+const NUMBER_MEANINGS: Record<number, { keyword: string; meaning: string }> = {
+  1: { keyword: 'Initiative', meaning: 'Independence, leadership and the courage to start something new.' },
+  2: { keyword: 'Partnership', meaning: 'Cooperation, diplomacy and patience with others.' },
+  3: { keyword: 'Expression', meaning: 'Creativity, communication and a light, social touch.' },
+  4: { keyword: 'Foundation', meaning: 'Hard work, order and building something that lasts.' },
+  5: { keyword: 'Change', meaning: 'Freedom, travel and adapting quickly to the new.' },
+  6: { keyword: 'Responsibility', meaning: 'Care for family, community and the people who rely on you.' },
+  7: { keyword: 'Reflection', meaning: 'Study, analysis and time alone to look beneath the surface.' },
+  8: { keyword: 'Achievement', meaning: 'Ambition, authority and mastery of money and power.' },
+  9: { keyword: 'Completion', meaning: 'Compassion, letting go and finishing what was started.' },
+  11: { keyword: 'Intuition', meaning: 'Insight and inspiration, with the sensitivity of the 2 raised to a calling.' },
+  22: { keyword: 'Master Builder', meaning: 'Turning large visions into practical results, the 4 on a grand scale.' },
+  33: { keyword: 'Master Teacher', meaning: 'Selfless service and healing, the care of the 6 offered to many.' },
+};
+
+/**
+ * Add the digits of a number until one digit, or a master number, is left
+ *
+ * @param value - Number to reduce
+ * @param keepMasters - Stop at 11, 22 and 33
+ */
+export const reduceNumber = (value: number, keepMasters = true): number => {
+  let reduced = Math.abs(value);
+  while (reduced > 9 && !(keepMasters && MASTER_NUMBERS.includes(reduced))) {
+    reduced = String(reduced).split('').reduce((sum, digit) => sum + Number(digit), 0);
+  }
+  return reduced;
+};
+
+const toNumerologyNumber = (value: number): NumerologyNumber => ({ value, ...NUMBER_MEANINGS[value] });
+
+/**
+ * Letters of a name in upper case, accents removed
+ */
+const nameLetters = (name: string): string[] =>
+  name.normalize('NFD').toUpperCase().replace(/[^A-Z]/g, '').split('');
+
+const letterValue = (letter: string): number => ((letter.charCodeAt(0) - 65) % 9) + 1;
+
+/**
+ * Reduce the letters of a name, or undefined when it has none
+ */
+const reduceLetters = (letters: string[]): number | undefined =>
+  letters.length ? reduceNumber(letters.reduce((sum, letter) => sum + letterValue(letter), 0)) : undefined;
+
+/**
+ * Life path number: the month, day and year of birth are reduced
+ * separately, then added and reduced again
+ *
+ * @param birthDate - Date of birth (YYYY-MM-DD)
+ */
+export const calculateLifePath = (birthDate: string): number => {
+  const [year, month, day] = birthDate.split('-').map(Number);
+  return reduceNumber(reduceNumber(month) + reduceNumber(day) + reduceNumber(year));
+};
+
+/**
+ * Expression (destiny) number from every letter of the full birth name
+ */
+export const calculateExpression = (name: string): number | undefined => reduceLetters(nameLetters(name));
+
+/**
+ * Soul urge (heart's desire) number from the vowels of the full birth name
+ */
+export const calculateSoulUrge = (name: string): number | undefined =>
+  reduceLetters(nameLetters(name).filter(letter => VOWELS.includes(letter)));
+
+/**
+ * Personal year, month and day numbers on a date. The personal year adds
+ * the birth month and day to the calendar year, so it changes on 1 January.
+ *
+ * @param birthDate - Date of birth (YYYY-MM-DD)
+ * @param date - Date to read (YYYY-MM-DD)
+ */
+export const calculatePersonalCycles = (birthDate: string, date: string): PersonalCycles => {
+  const [, birthMonth, birthDay] = birthDate.split('-').map(Number);
+  const [year, month, day] = date.split('-').map(Number);
+
+  const personalYear = reduceNumber(reduceNumber(birthMonth) + reduceNumber(birthDay) + reduceNumber(year), false);
+  const personalMonth = reduceNumber(personalYear + month, false);
+  const personalDay = reduceNumber(personalMonth + day, false);
+
+  return {
+    date,
+    personalYear: toNumerologyNumber(personalYear),
+    personalMonth: toNumerologyNumber(personalMonth),
+    personalDay: toNumerologyNumber(personalDay),
+  };
+};
+
+/**
+ * Core numbers of a person and their personal cycles on a date
+ *
+ * @param birthDate - Date of birth (YYYY-MM-DD)
+ * @param date - Date the personal cycles are read for (YYYY-MM-DD)
+ * @param name - Full birth name, for the expression and soul urge numbers
+ */
+export const calculateNumerology = (birthDate: string, date: string, name?: string): NumerologyProfile => {
+  const expression = name ? calculateExpression(name) : undefined;
+  const soulUrge = name ? calculateSoulUrge(name) : undefined;
+
+  return {
+    lifePath: toNumerologyNumber(calculateLifePath(birthDate)),
+    ...(expression ? { expression: toNumerologyNumber(expression) } : {}),
+    ...(soulUrge ? { soulUrge: toNumerologyNumber(soulUrge) } : {}),
+    ...calculatePersonalCycles(birthDate, date),
+  };
+};
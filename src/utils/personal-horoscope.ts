@@ -0,0 +1,316 @@
+import {
+  calculatePlanetPositions,
+  longitudeToSign,
+  normalizeDegrees,
+  Planet,
+  PlanetPosition,
+  toJulianDay,
+} from './ephemeris';
+import { AspectType, findAspect } from './aspects';
+import { findHouse } from './houses';
+import { createSeededRandom } from './seeded-random';
+import { describeTransitHit, NatalAngle, NatalPoint, NatalPointName } from './transits';
+import {
+  AspectTone,
+  HOUSE_AREAS,
+  HOUSE_SNIPPETS,
+  MOON_SIGN_SNIPPETS,
+  NATAL_THEMES,
+  TRANSIT_SNIPPETS,
+  TransitingPlanet,
+} from './horoscope-snippets';
+import { ZodiacSign } from '../types';
+
+/**
+ * Rule-based personal horoscopes
+ *
+ * A reading opens with the Moon's sign, follows with the strongest transits
+ * to the natal chart and closes with the house most transits pass through.
+ * Transits are weighted by the planets and aspect involved and by how close
+ * to exact they are; a transiting planet or natal point is only written
+ * about once, and no snippet is repeated.
+ */
+
+// Orbs for transits, tighter than in a natal chart
+export const TRANSIT_ORBS: Record<AspectType, number> = {
+  [AspectType.CONJUNCTION]: 3,
+  [AspectType.SEXTILE]: 2,
+  [AspectType.SQUARE]: 3,
+  [AspectType.TRINE]: 2.5,
+  [AspectType.OPPOSITION]: 3,
+};
+
+const ASPECT_TONES: Record<AspectType, AspectTone> = {
+  [AspectType.CONJUNCTION]: AspectTone.FUSION,
+  [AspectType.SEXTILE]: AspectTone.FLOW,
+  [AspectType.SQUARE]: AspectTone.TENSION,
+  [AspectType.TRINE]: AspectTone.FLOW,
+  [AspectType.OPPOSITION]: AspectTone.TENSION,
+};
+
+// The slow planets mark a period of life, the fast ones a single day
+const TRANSIT_WEIGHTS: Record<TransitingPlanet, number> = {
+  [Planet.SUN]: 3,
+  [Planet.MOON]: 1,
+  [Planet.MERCURY]: 2,
+  [Planet.VENUS]: 2,
+  [Planet.MARS]: 3,
+  [Planet.JUPITER]: 4,
+  [Planet.SATURN]: 5,
+  [Planet.URANUS]: 4,
+  [Planet.NEPTUNE]: 4,
+  [Planet.PLUTO]: 5,
+};
+
+const ASPECT_WEIGHTS: Record<AspectType, number> = {
+  [AspectType.CONJUNCTION]: 1,
+  [AspectType.SEXTILE]: 0.6,
+  [AspectType.SQUARE]: 0.9,
+  [AspectType.TRINE]: 0.8,
+  [AspectType.OPPOSITION]: 0.9,
+};
+
+// The luminaries and the angles are the most personal points
+const NATAL_WEIGHTS: Partial<Record<NatalPointName, number>> = {
+  [Planet.SUN]: 1.5,
+  [Planet.MOON]: 1.5,
+  [NatalAngle.ASCENDANT]: 1.5,
+  [NatalAngle.MIDHEAVEN]: 1.2,
+  [Planet.JUPITER]: 0.8,
+  [Planet.SATURN]: 0.8,
+  [Planet.URANUS]: 0.5,
+  [Planet.NEPTUNE]: 0.5,
+  [Planet.PLUTO]: 0.5,
+};
+
+const TRANSITING_PLANETS = Object.keys(TRANSIT_WEIGHTS) as TransitingPlanet[];
+
+// Paragraphs written about transits, at most
+const MAX_TRANSIT_PARAGRAPHS = 3;
+
+// How the houses were found
+export enum ReadingHouses {
+  NATAL = 'natal', // house cusps from the birth time and place
+  SOLAR = 'solar', // whole signs counted from the natal Sun
+}
+
+export enum ReadingDriverKind {
+  MOON_SIGN = 'moon_sign',
+  TRANSIT = 'transit',
+  HOUSE = 'house',
+}
+
+// Why a paragraph was written
+export interface ReadingDriver {
+  kind: ReadingDriverKind;
+  description: string; // e.g. "Saturn square your natal Sun"
+  weight: number;
+  transit_planet?: Planet;
+  aspect?: AspectType;
+  natal_planet?: NatalPointName;
+  orb?: number;
+  sign?: ZodiacSign;
+  house?: number;
+}
+
+export interface ReadingParagraph {
+  text: string;
+  drivers: ReadingDriver[];
+}
+
+export interface PersonalReading {
+  date: string;
+  moonSign: ZodiacSign;
+  houses: ReadingHouses;
+  prediction: string; // the paragraphs, joined
+  paragraphs: ReadingParagraph[];
+}
+
+export interface ReadingOptions {
+  instant?: Date; // moment the sky is read, noon UTC on the date by default
+  cusps?: number[]; // natal house cusps, solar houses without them
+  zodiacOffset?: number; // degrees subtracted to read signs, i.e. the ayanamsa
+  seed?: string; // varies the wording between users, e.g. the user ID
+}
+
+// Transit within orb of a natal point
+interface WeightedTransit {
+  planet: TransitingPlanet;
+  point: NatalPointName;
+  aspect: AspectType;
+  orb: number;
+  house: number;
+  weight: number;
+}
+
+const capitalize = (name: string) => name.charAt(0).toUpperCase() + name.slice(1);
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+/**
+ * Generate a personal horoscope from the transits to a natal chart
+ *
+ * @param date - Date of the reading (YYYY-MM-DD)
+ * @param natalPoints - Natal points from getNatalPoints
+ * @param options - Moment, houses, zodiac and seed
+ */
+export const generatePersonalReading = (
+  date: string,
+  natalPoints: NatalPoint[],
+  options: ReadingOptions = {}
+): PersonalReading => {
+  const instant = options.instant || new Date(`${date}T12:00:00Z`);
+  const positions = calculatePlanetPositions(toJulianDay(instant));
+  const natalSun = natalPoints.find(point => point.point === Planet.SUN);
+  // Natal cusps are compared with transits in the same frame, so the zodiac
+  // does not move them; solar houses start at the signs of the zodiac
+  const zodiacOffset = options.zodiacOffset || 0;
+  const cusps = options.cusps || solarHouseCusps(natalSun ? natalSun.longitude : 0, zodiacOffset);
+
+  // Wording is seeded, so the same reading always reads the same way
+  const used = new Set<string>();
+  const pickSnippet = (key: string, snippets: readonly string[]): string => {
+    const random = createSeededRandom(`${options.seed || ''}|${date}|${key}`);
+    const start = random.int(0, snippets.length - 1);
+    for (let i = 0; i < snippets.length; i++) {
+      const snippet = snippets[(start + i) % snippets.length];
+      if (!used.has(snippet)) {
+        used.add(snippet);
+        return snippet;
+      }
+    }
+    return snippets[start];
+  };
+
+  const paragraphs: ReadingParagraph[] = [];
+
+  const moonSign = longitudeToSign(normalizeDegrees(positions[Planet.MOON].longitude - zodiacOffset)).sign;
+  paragraphs.push({
+    text: pickSnippet(`moon:${moonSign}`, MOON_SIGN_SNIPPETS[moonSign]),
+    drivers: [{
+      kind: ReadingDriverKind.MOON_SIGN,
+      description: `Moon in ${capitalize(moonSign)}`,
+      weight: TRANSIT_WEIGHTS[Planet.MOON],
+      transit_planet: Planet.MOON,
+      sign: moonSign,
+    }],
+  });
+
+  const transits = findWeightedTransits(positions, natalPoints, cusps);
+  const planetsUsed = new Set<Planet>();
+  const pointsUsed = new Set<NatalPointName>();
+  for (const transit of transits) {
+    if (planetsUsed.size === MAX_TRANSIT_PARAGRAPHS) {
+      break;
+    }
+    if (planetsUsed.has(transit.planet) || pointsUsed.has(transit.point)) {
+      continue;
+    }
+    planetsUsed.add(transit.planet);
+    pointsUsed.add(transit.point);
+
+    const tone = ASPECT_TONES[transit.aspect];
+    const snippet = pickSnippet(`${transit.planet}:${tone}`, TRANSIT_SNIPPETS[transit.planet][tone]);
+    paragraphs.push({
+      text: `${snippet.replace(/\{natal\}/g, NATAL_THEMES[transit.point])} This plays out in ${HOUSE_AREAS[transit.house - 1]}.`,
+      drivers: [{
+        kind: ReadingDriverKind.TRANSIT,
+        description: describeTransitHit({ transit_planet: transit.planet, aspect: transit.aspect, natal_planet: transit.point }),
+        weight: round(transit.weight),
+        transit_planet: transit.planet,
+        aspect: transit.aspect,
+        natal_planet: transit.point,
+        orb: round(transit.orb),
+        house: transit.house,
+      }],
+    });
+  }
+
+  const house = findActiveHouse(positions, cusps);
+  paragraphs.push({
+    text: pickSnippet(`house:${house.house}`, HOUSE_SNIPPETS[house.house - 1]),
+    drivers: house.planets.map(planet => ({
+      kind: ReadingDriverKind.HOUSE,
+      description: `${capitalize(planet)} in your ${ordinal(house.house)} house`,
+      weight: TRANSIT_WEIGHTS[planet],
+      transit_planet: planet,
+      house: house.house,
+    })),
+  });
+
+  return {
+    date,
+    moonSign,
+    houses: options.cusps ? ReadingHouses.NATAL : ReadingHouses.SOLAR,
+    prediction: paragraphs.map(paragraph => paragraph.text).join(' '),
+    paragraphs,
+  };
+};
+
+/**
+ * Transits within orb of the natal points, strongest first
+ */
+const findWeightedTransits = (
+  positions: Record<Planet, PlanetPosition>,
+  natalPoints: NatalPoint[],
+  cusps: number[]
+): WeightedTransit[] => {
+  const transits: WeightedTransit[] = [];
+
+  for (const planet of TRANSITING_PLANETS) {
+    const longitude = positions[planet].longitude;
+    for (const { point, longitude: natalLongitude } of natalPoints) {
+      const match = findAspect(longitude, natalLongitude, TRANSIT_ORBS);
+      if (!match) {
+        continue;
+      }
+      // Half the weight at the edge of the orb, full weight when exact
+      const exactness = 1 - match.orb / TRANSIT_ORBS[match.aspect] / 2;
+      transits.push({
+        planet,
+        point,
+        aspect: match.aspect,
+        orb: match.orb,
+        house: findHouse(longitude, cusps),
+        weight: TRANSIT_WEIGHTS[planet] * ASPECT_WEIGHTS[match.aspect] * (NATAL_WEIGHTS[point] ?? 1) * exactness,
+      });
+    }
+  }
+
+  return transits.sort((a, b) => b.weight - a.weight);
+};
+
+/**
+ * House holding the most transit weight, with the planets in it
+ */
+const findActiveHouse = (
+  positions: Record<Planet, PlanetPosition>,
+  cusps: number[]
+): { house: number; planets: TransitingPlanet[] } => {
+  const totals = new Array<number>(12).fill(0);
+  const planets: TransitingPlanet[][] = Array.from({ length: 12 }, () => []);
+
+  TRANSITING_PLANETS.forEach(planet => {
+    const house = findHouse(positions[planet].longitude, cusps);
+    totals[house - 1] += TRANSIT_WEIGHTS[planet];
+    planets[house - 1].push(planet);
+  });
+
+  const index = totals.indexOf(Math.max(...totals));
+  return { house: index + 1, planets: planets[index] };
+};
+
+/**
+ * Whole-sign houses counted from the sign of the natal Sun, for charts
+ * without a birth time or place. The cusps are tropical longitudes of the
+ * sign boundaries of the zodiac, offset from the tropical ones.
+ */
+const solarHouseCusps = (sunLongitude: number, zodiacOffset: number): number[] => {
+  const first = Math.floor(normalizeDegrees(sunLongitude - zodiacOffset) / 30) * 30 + zodiacOffset;
+  return Array.from({ length: 12 }, (_, i) => normalizeDegrees(first + i * 30));
+};
+
+const ordinal = (n: number): string => {
+  const suffix = n === 1 ? 'st' : n === 2 ? 'nd' : n === 3 ? 'rd' : 'th';
+  return `${n}${suffix}`;
+};
@@ -0,0 +1,211 @@
+import {
+  asinDeg,
+  atan2Deg,
+  calculatePlanetPosition,
+  cosDeg,
+  fromJulianDay,
+  greenwichSiderealTime,
+  obliquityOfEcliptic,
+  Planet,
+  sinDeg,
+  toJulianDay,
+  toTerrestrialTime,
+} from './ephemeris';
+import { getUtcOffsetForLocalTime, getUtcOffsetMinutes } from './timezone';
+import { SIGN_RULERS } from './zodiac';
+import { ZodiacSign } from '../types';
+
+/**
+ * Planetary hours
+ *
+ * The time from sunrise to sunset is split into twelve equal day hours and
+ * the time from sunset to the next sunrise into twelve night hours, so the
+ * hours are longer than 60 minutes by day in summer and shorter in winter.
+ * The first hour after sunrise belongs to the ruler of the weekday and the
+ * others follow the Chaldean order, from the slowest planet to the fastest.
+ */
+
+// Rulers of the weekdays, Sunday first
+const DAY_RULERS: Planet[] = [
+  Planet.SUN,
+  Planet.MOON,
+  Planet.MARS,
+  Planet.MERCURY,
+  Planet.JUPITER,
+  Planet.VENUS,
+  Planet.SATURN,
+];
+
+const CHALDEAN_ORDER: Planet[] = [
+  Planet.SATURN,
+  Planet.JUPITER,
+  Planet.MARS,
+  Planet.SUN,
+  Planet.VENUS,
+  Planet.MERCURY,
+  Planet.MOON,
+];
+
+// Altitude of the Sun's centre at sunrise and sunset: its semi-diameter
+// plus refraction at the horizon
+const SUNRISE_ALTITUDE = -0.833;
+
+// The Sun's altitude is sampled hourly, then each crossing bisected to a minute
+const STEP = 1 / 24;
+const PRECISION = 1 / 1440;
+
+export interface PlanetaryHour {
+  hour: number; // 1-24, counted from sunrise
+  ruler: Planet;
+  daytime: boolean;
+  start: string; // ISO 8601
+  end: string;
+}
+
+export interface PlanetaryDay {
+  date: string;
+  timezone: string;
+  dayRuler: Planet;
+  sunrise: string; // ISO 8601
+  sunset: string;
+  nextSunrise: string;
+  hours: PlanetaryHour[];
+}
+
+/**
+ * Altitude of the Sun's centre above the horizon, without refraction
+ *
+ * @param jd - Moment (Julian Day, UT)
+ * @param latitude - Latitude of the place
+ * @param longitude - Longitude of the place (east positive)
+ */
+const sunAltitude = (jd: number, latitude: number, longitude: number): number => {
+  const sun = calculatePlanetPosition(Planet.SUN, jd).longitude;
+  const obliquity = obliquityOfEcliptic(toTerrestrialTime(jd));
+  const rightAscension = atan2Deg(cosDeg(obliquity) * sinDeg(sun), cosDeg(sun));
+  const declination = asinDeg(sinDeg(obliquity) * sinDeg(sun));
+  const hourAngle = greenwichSiderealTime(jd) + longitude - rightAscension;
+
+  return asinDeg(sinDeg(latitude) * sinDeg(declination) + cosDeg(latitude) * cosDeg(declination) * cosDeg(hourAngle));
+};
+
+/**
+ * First sunrise (or sunset) within a day of a moment
+ *
+ * @returns Julian Day (UT) of the event, or null when the Sun stays above
+ * or below the horizon
+ */
+const findHorizonCrossing = (
+  startJd: number,
+  rising: boolean,
+  latitude: number,
+  longitude: number
+): number | null => {
+  const above = (jd: number) => sunAltitude(jd, latitude, longitude) > SUNRISE_ALTITUDE;
+
+  let previous = above(startJd);
+  for (let jd = startJd + STEP; jd <= startJd + 1 + STEP / 2; jd += STEP) {
+    const current = above(jd);
+    if (current !== previous && current === rising) {
+      let low = jd - STEP;
+      let high = jd;
+      while (high - low > PRECISION) {
+        const middle = (low + high) / 2;
+        if (above(middle) === rising) {
+          high = middle;
+        } else {
+          low = middle;
+        }
+      }
+      return high;
+    }
+    previous = current;
+  }
+  return null;
+};
+
+/**
+ * Calculate the planetary hours of a day at a place, from sunrise on the
+ * local date to sunrise the next day
+ *
+ * @param date - Local date (YYYY-MM-DD)
+ * @param latitude - Latitude of the place
+ * @param longitude - Longitude of the place (east positive)
+ * @param timeZone - IANA zone of the place
+ * @returns The 24 hours and their rulers, or null when the Sun does not rise
+ * and set that day (polar day or night)
+ */
+export const calculatePlanetaryHours = (
+  date: string,
+  latitude: number,
+  longitude: number,
+  timeZone: string
+): PlanetaryDay | null => {
+  const midnight = toJulianDay(new Date(`${date}T00:00:00Z`)) - getUtcOffsetForLocalTime(timeZone, date, '00:00') / 1440;
+
+  const sunrise = findHorizonCrossing(midnight, true, latitude, longitude);
+  const sunset = sunrise !== null && findHorizonCrossing(sunrise, false, latitude, longitude);
+  const nextSunrise = sunset && findHorizonCrossing(sunset, true, latitude, longitude);
+  if (sunrise === null || !sunset || !nextSunrise || sunrise >= midnight + 1) {
+    return null;
+  }
+
+  const dayRuler = DAY_RULERS[new Date(`${date}T00:00:00Z`).getUTCDay()];
+  const first = CHALDEAN_ORDER.indexOf(dayRuler);
+  const dayLength = (sunset - sunrise) / 12;
+  const nightLength = (nextSunrise - sunset) / 12;
+
+  const hours = Array.from({ length: 24 }, (_, i): PlanetaryHour => {
+    const daytime = i < 12;
+    const start = daytime ? sunrise + i * dayLength : sunset + (i - 12) * nightLength;
+    return {
+      hour: i + 1,
+      ruler: CHALDEAN_ORDER[(first + i) % CHALDEAN_ORDER.length],
+      daytime,
+      start: fromJulianDay(start).toISOString(),
+      end: fromJulianDay(start + (daytime ? dayLength : nightLength)).toISOString(),
+    };
+  });
+
+  return {
+    date,
+    timezone: timeZone,
+    dayRuler,
+    sunrise: fromJulianDay(sunrise).toISOString(),
+    sunset: fromJulianDay(sunset).toISOString(),
+    nextSunrise: fromJulianDay(nextSunrise).toISOString(),
+    hours,
+  };
+};
+
+/**
+ * Lucky time of a sign: the start of the first day hour ruled by the sign's
+ * ruler. Twelve day hours cycle through all seven planets, so every ruler
+ * has one.
+ *
+ * @param sign - Zodiac sign
+ * @param date - Local date (YYYY-MM-DD)
+ * @param latitude - Latitude of the place
+ * @param longitude - Longitude of the place (east positive)
+ * @param timeZone - IANA zone of the place
+ * @returns Local clock time such as 9:05 AM, or null without a sunrise
+ */
+export const findLuckyTime = (
+  sign: ZodiacSign,
+  date: string,
+  latitude: number,
+  longitude: number,
+  timeZone: string
+): string | null => {
+  const day = calculatePlanetaryHours(date, latitude, longitude, timeZone);
+  const hour = day?.hours.find(candidate => candidate.daytime && candidate.ruler === SIGN_RULERS[sign]);
+  if (!hour) {
+    return null;
+  }
+
+  const start = new Date(hour.start);
+  const local = new Date(start.getTime() + getUtcOffsetMinutes(timeZone, start) * 60000);
+  const hours = local.getUTCHours();
+  const minutes = local.getUTCMinutes().toString().padStart(2, '0');
+  return `${hours % 12 || 12}:${minutes} ${hours < 12 ? 'AM' : 'PM'}`;
+};
@@ -0,0 +1,376 @@
+import {
+  atan2Deg,
+  calculatePlanetPosition,
+  calculateAngles,
+  cosDeg,
+  fromJulianDay,
+  greenwichSiderealTime,
+  julianDayFromDateTime,
+  longitudeToSign,
+  normalizeDegrees,
+  Planet,
+  sinDeg,
+  toJulianDay,
+  ZODIAC_ORDER,
+} from './ephemeris';
+import { AspectType, ASPECT_ANGLES, findAspect } from './aspects';
+import {
+  BirthData,
+  birthDataAtMoment,
+  birthDataToJulianDay,
+  calculateNatalChart,
+  ChartOptions,
+  NatalChart,
+} from './chart-calculator';
+import { calculateMoonPhase, findMoonPhases, MoonPhase } from './moon';
+import { NatalAngle, NatalPoint, NatalPointName } from './transits';
+import { calculateAyanamsa, ZodiacType } from './zodiac';
+import { ZodiacSign } from '../types';
+
+/**
+ * Secondary progressions and solar arc directions
+ *
+ * Secondary progressions read each day after birth as a year of life: the
+ * progressed chart for age 30 is the sky 30 days after birth. The angles
+ * move by the solar arc (how far the progressed Sun has travelled), so the
+ * midheaven advances about a degree a year. Solar arc directions move every
+ * natal point forward by that same arc.
+ */
+
+// Days in a tropical year; one day after birth stands for one of these
+const TROPICAL_YEAR = 365.24219;
+
+// Progressions and directions move about a degree a year, so only aspects
+// within a degree are in effect
+export const PROGRESSION_ORBS: Record<AspectType, number> = {
+  [AspectType.CONJUNCTION]: 1,
+  [AspectType.SEXTILE]: 1,
+  [AspectType.SQUARE]: 1,
+  [AspectType.TRINE]: 1,
+  [AspectType.OPPOSITION]: 1,
+};
+
+// Sampling step for the progressed Moon, in progressed days (three months
+// of life, about 3°)
+const MOON_STEP = 0.25;
+
+// Stop bisecting at about a day of life
+const PRECISION = 1 / TROPICAL_YEAR;
+
+// Natal points moved by directions, without the lunar nodes
+const POINT_PLANETS = Object.values(Planet).filter(
+  planet => planet !== Planet.NORTH_NODE && planet !== Planet.SOUTH_NODE
+);
+
+// The outer planets barely move in a lifetime of progressions, so only the
+// personal planets are read in the progressed chart
+const PROGRESSED_PLANETS = [Planet.SUN, Planet.MOON, Planet.MERCURY, Planet.VENUS, Planet.MARS];
+
+// Progressed chart for a date of life
+export interface ProgressedChart {
+  date: string; // YYYY-MM-DD
+  age: number; // years since birth
+  solarArc: number; // degrees the progressed Sun has moved since birth
+  natal: NatalChart;
+  chart: NatalChart; // planets of the progressed moment, angles by solar arc
+  natalAspects: ProgressedAspect[]; // progressed personal planets and angles to natal points
+}
+
+// Aspect from a progressed or directed point to a natal point
+export interface ProgressedAspect {
+  point: NatalPointName; // progressed or directed point
+  aspect: AspectType;
+  natalPoint: NatalPointName;
+  orb: number;
+  exactDate?: string; // YYYY-MM-DD, when the aspect perfects
+}
+
+export enum ProgressedMoonEventKind {
+  INGRESS = 'ingress', // progressed Moon enters a sign
+  PHASE = 'phase', // progressed new moon, quarter or full moon
+}
+
+export interface ProgressedMoonEvent {
+  kind: ProgressedMoonEventKind;
+  date: string; // YYYY-MM-DD
+  sign: ZodiacSign; // sign of the progressed Moon
+  phase?: MoonPhase; // phase events only
+}
+
+// Progressed Moon on a date and its ingresses and phases in a period after it
+export interface ProgressedMoonTimeline {
+  sign: ZodiacSign;
+  signDegree: number;
+  phase: MoonPhase; // progressed lunation phase
+  events: ProgressedMoonEvent[];
+}
+
+// Natal point moved by the solar arc
+export interface DirectedPoint {
+  point: NatalPointName;
+  natalLongitude: number;
+  longitude: number;
+  sign: ZodiacSign;
+  signDegree: number;
+}
+
+export interface SolarArcDirections {
+  date: string; // YYYY-MM-DD
+  age: number;
+  solarArc: number;
+  points: DirectedPoint[];
+  aspects: ProgressedAspect[]; // in effect on the date, closest first
+  upcoming: ProgressedAspect[]; // perfecting in the period after the date
+}
+
+/**
+ * Progressed moment (Julian Day, UT) for a moment of life
+ */
+const toProgressedJulianDay = (natalJd: number, jd: number): number =>
+  natalJd + (jd - natalJd) / TROPICAL_YEAR;
+
+/**
+ * Moment of life (Julian Day, UT) a progressed moment stands for
+ */
+const fromProgressedJulianDay = (natalJd: number, progressedJd: number): number =>
+  natalJd + (progressedJd - natalJd) * TROPICAL_YEAR;
+
+const toDate = (jd: number): string => fromJulianDay(jd).toISOString().split('T')[0];
+
+/**
+ * Solar arc at a progressed moment: the distance the Sun has moved since
+ * birth. It is the same in every zodiac.
+ */
+const solarArcAt = (natalJd: number, progressedJd: number): number =>
+  normalizeDegrees(
+    calculatePlanetPosition(Planet.SUN, progressedJd).longitude - calculatePlanetPosition(Planet.SUN, natalJd).longitude
+  );
+
+/**
+ * Right ascension of a point on the ecliptic
+ */
+const rightAscension = (longitude: number, obliquity: number): number =>
+  normalizeDegrees(atan2Deg(sinDeg(longitude) * cosDeg(obliquity), cosDeg(longitude)));
+
+/**
+ * Calculate the secondary progressed chart for a date
+ *
+ * The planets are those of the progressed moment. For the houses, the natal
+ * midheaven is moved by the solar arc and the chart is cast for the
+ * longitude where that midheaven culminates at the progressed moment; any
+ * house system then works unchanged.
+ *
+ * @param birthData - Date, time and place of birth
+ * @param date - Date of life to progress to (YYYY-MM-DD)
+ * @param options - House system and zodiac
+ */
+export const calculateProgressedChart = (
+  birthData: BirthData,
+  date: string,
+  options: ChartOptions = {}
+): ProgressedChart => {
+  const natal = calculateNatalChart(birthData, options);
+  const progressedJd = toProgressedJulianDay(natal.julianDay, julianDayFromDateTime(date));
+  const solarArc = solarArcAt(natal.julianDay, progressedJd);
+
+  const natalAngles = calculateAngles(natal.julianDay, birthData.latitude, birthData.longitude);
+  const armc = rightAscension(normalizeDegrees(natalAngles.midheaven + solarArc), natalAngles.obliquity);
+  const culminating = normalizeDegrees(armc - greenwichSiderealTime(progressedJd));
+
+  const place = { latitude: birthData.latitude, longitude: birthData.longitude, locationName: birthData.locationName };
+  const chart = calculateNatalChart(
+    birthDataAtMoment(progressedJd, { ...place, longitude: culminating > 180 ? culminating - 360 : culminating }),
+    options
+  );
+
+  return {
+    date,
+    age: progressedJd - natal.julianDay,
+    solarArc,
+    natal,
+    chart: { ...chart, birthData: birthDataAtMoment(progressedJd, place) },
+    natalAspects: findProgressedAspects(getChartPoints(chart, PROGRESSED_PLANETS), getChartPoints(natal)),
+  };
+};
+
+/**
+ * Points of a chart: the planets (without the nodes by default) and the
+ * angles
+ */
+export const getChartPoints = (chart: NatalChart, planets: Planet[] = POINT_PLANETS): NatalPoint[] => [
+  ...planets.map(planet => ({ point: planet, longitude: chart.planets[planet].longitude })),
+  { point: NatalAngle.ASCENDANT, longitude: chart.houses.ascendant },
+  { point: NatalAngle.MIDHEAVEN, longitude: chart.houses.midheaven },
+];
+
+/**
+ * Aspects from moved points to natal points within the progression orbs,
+ * closest first. A point is never compared with its own natal place.
+ *
+ * @param points - Progressed or directed points
+ * @param natalPoints - Natal points
+ */
+export const findProgressedAspects = (points: NatalPoint[], natalPoints: NatalPoint[]): ProgressedAspect[] => {
+  const aspects: ProgressedAspect[] = [];
+
+  points.forEach(({ point, longitude }) => {
+    natalPoints.forEach(natal => {
+      if (natal.point === point) {
+        return;
+      }
+      const match = findAspect(longitude, natal.longitude, PROGRESSION_ORBS);
+      if (match) {
+        aspects.push({ point, aspect: match.aspect, natalPoint: natal.point, orb: match.orb });
+      }
+    });
+  });
+
+  return aspects.sort((a, b) => a.orb - b.orb);
+};
+
+/**
+ * Calculate the progressed Moon on a date with its sign ingresses and
+ * principal lunation phases (new, quarters, full) in the years after it
+ *
+ * @param birthData - Date, time and place of birth
+ * @param date - Start date (YYYY-MM-DD)
+ * @param years - Length of the period in years
+ * @param options - Zodiac for the signs
+ */
+export const calculateProgressedMoonTimeline = (
+  birthData: BirthData,
+  date: string,
+  years: number,
+  options: ChartOptions = {}
+): ProgressedMoonTimeline => {
+  const natalJd = birthDataToJulianDay(birthData);
+  const startJd = toProgressedJulianDay(natalJd, julianDayFromDateTime(date));
+  const endJd = startJd + years;
+
+  // The ayanamsa changes by a fraction of a second of arc over the 100 or
+  // so days of a lifetime of progressions, so it is taken once
+  const offset = options.zodiacType === ZodiacType.SIDEREAL ? calculateAyanamsa(natalJd, options.ayanamsa) : 0;
+  const moonAt = (jd: number) => normalizeDegrees(calculatePlanetPosition(Planet.MOON, jd).longitude - offset);
+
+  const events: ProgressedMoonEvent[] = findMoonPhases(startJd, endJd).map(event => {
+    const jd = toJulianDay(new Date(event.time));
+    return {
+      kind: ProgressedMoonEventKind.PHASE,
+      date: toDate(fromProgressedJulianDay(natalJd, jd)),
+      sign: longitudeToSign(moonAt(jd)).sign,
+      phase: event.phase,
+    };
+  });
+
+  // The Moon always moves forward, so the next boundary is the only one it
+  // can cross between two samples
+  let before = moonAt(startJd);
+  for (let jd = startJd; jd < endJd; jd += MOON_STEP) {
+    const next = Math.min(jd + MOON_STEP, endJd);
+    const after = moonAt(next);
+    const boundary = (Math.floor(before / 30) + 1) * 30;
+
+    if (normalizeDegrees(after - before) >= normalizeDegrees(boundary - before)) {
+      let low = jd;
+      let high = next;
+      while (high - low > PRECISION) {
+        const middle = (low + high) / 2;
+        if (normalizeDegrees(moonAt(middle) - before) < normalizeDegrees(boundary - before)) {
+          low = middle;
+        } else {
+          high = middle;
+        }
+      }
+      events.push({
+        kind: ProgressedMoonEventKind.INGRESS,
+        date: toDate(fromProgressedJulianDay(natalJd, (low + high) / 2)),
+        sign: ZODIAC_ORDER[(boundary / 30) % 12],
+      });
+    }
+    before = after;
+  }
+
+  const current = longitudeToSign(moonAt(startJd));
+  return {
+    sign: current.sign,
+    signDegree: current.signDegree,
+    phase: calculateMoonPhase(startJd).phase,
+    events: events.sort((a, b) => a.date.localeCompare(b.date)),
+  };
+};
+
+/**
+ * Calculate solar arc directions for a date, with the directed aspects in
+ * effect and those perfecting in the years after it
+ *
+ * @param birthData - Date, time and place of birth
+ * @param date - Date of life (YYYY-MM-DD)
+ * @param years - Length of the period searched for upcoming aspects
+ * @param options - House system and zodiac
+ */
+export const calculateSolarArcDirections = (
+  birthData: BirthData,
+  date: string,
+  years: number,
+  options: ChartOptions = {}
+): SolarArcDirections => {
+  const natal = calculateNatalChart(birthData, options);
+  const natalPoints = getChartPoints(natal);
+  const startJd = julianDayFromDateTime(date);
+  const endJd = startJd + years * TROPICAL_YEAR;
+  const arcAt = (jd: number) => solarArcAt(natal.julianDay, toProgressedJulianDay(natal.julianDay, jd));
+
+  const solarArc = arcAt(startJd);
+  const points = natalPoints.map(({ point, longitude }) => {
+    const directed = normalizeDegrees(longitude + solarArc);
+    return { point, natalLongitude: longitude, longitude: directed, ...longitudeToSign(directed) };
+  });
+
+  // Each directed aspect perfects once, when the arc covers the distance to
+  // the exact aspect
+  const endArc = arcAt(endJd);
+  const upcoming: ProgressedAspect[] = [];
+  natalPoints.forEach(directed => {
+    natalPoints.forEach(natal => {
+      if (natal.point === directed.point) {
+        return;
+      }
+      Object.values(AspectType).forEach(aspect => {
+        const angle = ASPECT_ANGLES[aspect];
+        const targets = angle === 0 || angle === 180 ? [angle] : [angle, 360 - angle];
+        targets.forEach(target => {
+          const arc = normalizeDegrees(natal.longitude + target - directed.longitude);
+          if (arc <= solarArc || arc > endArc) {
+            return;
+          }
+          let low = startJd;
+          let high = endJd;
+          while (high - low > 1) {
+            const middle = (low + high) / 2;
+            if (arcAt(middle) < arc) {
+              low = middle;
+            } else {
+              high = middle;
+            }
+          }
+          upcoming.push({
+            point: directed.point,
+            aspect,
+            natalPoint: natal.point,
+            orb: 0,
+            exactDate: toDate(high),
+          });
+        });
+      });
+    });
+  });
+
+  return {
+    date,
+    age: (startJd - natal.julianDay) / TROPICAL_YEAR,
+    solarArc,
+    points,
+    aspects: findProgressedAspects(points, natalPoints),
+    upcoming: upcoming.sort((a, b) => a.exactDate!.localeCompare(b.exactDate!)),
+  };
+};
@@ -0,0 +1,111 @@
+import { angleDifference, longitudeToSign, normalizeDegrees, Planet } from './ephemeris';
+import { findHouse, HouseCusps } from './houses';
+import {
+  BirthData,
+  birthDataAtMoment,
+  birthDataToJulianDay,
+  calculateAspects,
+  calculateNatalChart,
+  ChartOptions,
+  ChartPlanet,
+  NatalChart,
+} from './chart-calculator';
+import { calculateSignBalance } from './zodiac';
+
+/**
+ * Relationship charts: one chart for a couple rather than two
+ *
+ * The composite chart places every planet and house cusp at the midpoint of
+ * the two natal positions. The Davison chart is an ordinary chart cast for
+ * the midpoint in time and place of the two births.
+ */
+
+// Composite chart; it has no moment or place of its own
+export type CompositeChart = Omit<NatalChart, 'birthData' | 'julianDay'>;
+
+/**
+ * Midpoint of two longitudes on the shorter arc between them
+ */
+export const midpointLongitude = (a: number, b: number): number =>
+  normalizeDegrees(a + angleDifference(a, b) / 2);
+
+/**
+ * Calculate the composite (midpoint) chart of two natal charts. Both charts
+ * must use the same zodiac and house system.
+ *
+ * Cusps 1 to 6 are the midpoints of the natal cusps and cusps 7 to 12 lie
+ * opposite them, so the houses always face each other.
+ *
+ * @param chart1 - Natal chart of person 1
+ * @param chart2 - Natal chart of person 2
+ */
+export const calculateCompositeChart = (chart1: NatalChart, chart2: NatalChart): CompositeChart => {
+  const firstHalf = chart1.houses.cusps
+    .slice(0, 6)
+    .map((cusp, i) => midpointLongitude(cusp, chart2.houses.cusps[i]));
+  const houses: HouseCusps = {
+    system: chart1.houses.system,
+    ascendant: firstHalf[0],
+    midheaven: midpointLongitude(chart1.houses.midheaven, chart2.houses.midheaven),
+    cusps: [...firstHalf, ...firstHalf.map(cusp => normalizeDegrees(cusp + 180))],
+  };
+
+  const planets = {} as Record<Planet, ChartPlanet>;
+  for (const planet of Object.values(Planet)) {
+    const position1 = chart1.planets[planet];
+    const position2 = chart2.planets[planet];
+    // The nodes stay opposite each other
+    const longitude = planet === Planet.SOUTH_NODE
+      ? normalizeDegrees(planets[Planet.NORTH_NODE].longitude + 180)
+      : midpointLongitude(position1.longitude, position2.longitude);
+
+    planets[planet] = {
+      planet,
+      longitude,
+      latitude: (position1.latitude + position2.latitude) / 2,
+      speed: (position1.speed + position2.speed) / 2,
+      // A midpoint does not move, so it is never retrograde
+      retrograde: false,
+      ...longitudeToSign(longitude),
+      house: findHouse(longitude, houses.cusps),
+    };
+  }
+
+  return {
+    planets,
+    zodiac: chart1.zodiac,
+    houses,
+    aspects: calculateAspects(planets),
+    balance: calculateSignBalance(
+      Object.values(planets).filter(position => position.planet !== Planet.NORTH_NODE && position.planet !== Planet.SOUTH_NODE)
+    ),
+  };
+};
+
+/**
+ * Moment and place halfway between two births, in UTC
+ *
+ * @param birth1 - Birth data of person 1
+ * @param birth2 - Birth data of person 2
+ */
+export const getDavisonBirthData = (birth1: BirthData, birth2: BirthData): BirthData => {
+  const longitude = midpointLongitude(birth1.longitude, birth2.longitude);
+
+  return birthDataAtMoment((birthDataToJulianDay(birth1) + birthDataToJulianDay(birth2)) / 2, {
+    latitude: (birth1.latitude + birth2.latitude) / 2,
+    longitude: longitude > 180 ? longitude - 360 : longitude,
+  });
+};
+
+/**
+ * Calculate the Davison chart of two births
+ *
+ * @param birth1 - Birth data of person 1
+ * @param birth2 - Birth data of person 2
+ * @param options - House system and zodiac
+ */
+export const calculateDavisonChart = (
+  birth1: BirthData,
+  birth2: BirthData,
+  options: ChartOptions = {}
+): NatalChart => calculateNatalChart(getDavisonBirthData(birth1, birth2), options);
@@ -2,22 +2,103 @@ import fs from 'fs';
 import path from 'path';
 import os from 'os';
 import PDFDocument from 'pdfkit';
+import { z } from 'zod';
 import { logger } from '../config/logger';
 import { config } from '../config';
 import axios from 'axios';
+import { calculatePlanetPositions, longitudeToSign, PlanetPosition, toJulianDay } from './ephemeris';
+import {
+  BirthData,
+  calculateAspects,
+  calculateNatalChart,
+  ChartOptions,
+  NatalChart,
+} from './chart-calculator';
+import { HouseSystem } from './houses';
+import { drawChartWheelOnPdf, WheelChart, WheelPlanet } from './chart-wheel';
+import { Ayanamsa, ZodiacType } from './zodiac';
+import { calculateDashaForBirth, DashaPeriod, findActiveDasha } from './dasha';
+import { findTransitHits, getNatalPoints, sampleTransits, TransitHit } from './transits';
+import { calculateSignCompatibility, calculateSynastry, CompatibilityCategory, SynastryScore } from './compatibility';
+import { calculateCompositeChart, calculateDavisonChart, CompositeChart } from './relationship-charts';
+import { calculateReturnChart, PlanetaryReturnType } from './returns';
+import {
+  calculateProgressedChart,
+  calculateProgressedMoonTimeline,
+  calculateSolarArcDirections,
+  ProgressedMoonEventKind,
+} from './progressions';
+import { HOUSE_AREAS } from './horoscope-snippets';
+import { ElectionExclusionReason, searchElections } from './elections';
+import { calculateNumerology, calculatePersonalCycles } from './numerology';
+import { AstroLineAngle, calculateRelocatedChart, findRelocationCities } from './astrocartography';
+import { calculateTeamCompatibility, TeamCompatibility } from './team-compatibility';
+import { describeTransitHit } from './transits';
+import { ReportType, ZodiacSign } from '../types';
+import { isTeamReport, REPORT_TYPE_INFO, ReportTypeInfo } from './report-types';
+import {
+  careerReportSchema,
+  compatibilityReportSchema,
+  corporateReportSchema,
+  dashaReportSchema,
+  electionReportSchema,
+  lunarReturnReportSchema,
+  monthlyReportSchema,
+  natalReportSchema,
+  numerologyReportSchema,
+  pairReportSchema,
+  progressionsReportSchema,
+  relocationReportSchema,
+  solarReturnReportSchema,
+  transitReportSchema,
+  yearlyReportSchema,
+} from '../schemas/report.schema';
 
-// Report types
-export enum ReportType {
-  NATAL = 'natal',
-  COMPATIBILITY = 'compatibility',
-  TRANSIT = 'transit',
-  SOLAR_RETURN = 'solar_return',
-  LUNAR_RETURN = 'lunar_return',
-  CAREER = 'career',
-  RELATIONSHIP = 'relationship',
-  FINANCIAL = 'financial',
+/**
+ * Parameters, title, data and PDF content of one type of report. The table
+ * at the end of this file holds one for every type in the registry of
+ * utils/report-types.ts.
+ */
+export interface ReportContent {
+  schema: z.ZodTypeAny; // parameters of a report request
+  describe: (parameters: any) => { title: string; description: string };
+  fetchData: (parameters: any) => any; // report data, calculated with the built-in ephemeris
+  render: (doc: PDFKit.PDFDocument, data: any) => void; // content below the title
+  remote?: (parameters: any) => boolean; // whether the Astro Engine can provide the data
+  deprecation?: (parameters: any) => string | undefined; // warning for parameters on their way out
+  profileBirthData?: boolean; // birth data defaults to the user's profile
 }
 
+/**
+ * What the app knows about one type of report: the service validates and
+ * titles requests with it and the worker builds the PDF from it
+ */
+export type ReportDefinition = ReportTypeInfo & ReportContent;
+
+// Days after the transit date covered by the exact transits of a transit report
+const EXACT_TRANSIT_DAYS = 30;
+
+// Years after the progression date covered by a progressions report
+const PROGRESSION_YEARS = 2;
+
+// Days searched by an election report without an end date
+const ELECTION_DAYS = 30;
+
+// A full cycle of personal years, listed in a numerology report
+const PERSONAL_YEAR_CYCLE = 9;
+
+// Friction pairs listed in a team compatibility report
+const TEAM_FRICTION_PAIRS = 10;
+
+// Houses read in career and financial reports, the most telling first
+const CAREER_HOUSES = [10, 6, 2];
+const FINANCIAL_HOUSES = [2, 8, 11];
+
+const MONTH_NAMES = [
+  'January', 'February', 'March', 'April', 'May', 'June',
+  'July', 'August', 'September', 'October', 'November', 'December',
+];
+
 /**
  * Generate a PDF report based on report type and parameters
  * 
@@ -33,13 +114,13 @@ export const generateReport = async (
   title: string,
   userId: string
 ): Promise<string> => {
+  // Create temp file path
+  const tempDir = os.tmpdir();
+  const fileName = `report-${userId}-${Date.now()}.pdf`;
+  const filePath = path.join(tempDir, fileName);
+  
   try {
-    // Create temp file path
-    const tempDir = os.tmpdir();
-    const fileName = `report-${userId}-${Date.now()}.pdf`;
-    const filePath = path.join(tempDir, fileName);
-    
-    // Get astrological data from Astro Engine API
+    // Get astrological data from the ephemeris or Astro Engine API
     const astroData = await fetchAstrologicalData(reportType, parameters);
     
     // Generate PDF with the data
@@ -49,10 +130,47 @@ export const generateReport = async (
     return filePath;
   } catch (error) {
     logger.error('Error generating report:', error);
+    
+    // Remove a partly written file
+    await fs.promises.rm(filePath, { force: true });
     throw new Error(`Failed to generate ${reportType} report`);
   }
 };
 
+/**
+ * Get astrological data for a report. Charts are calculated with the built-in
+ * ephemeris unless the remote Astro Engine is configured as the provider, in
+ * which case the local calculation is only used when the remote call fails.
+ * 
+ * @param reportType - Type of report
+ * @param parameters - Parameters for the report
+ * @returns Astrological data for the report
+ */
+const fetchAstrologicalData = async (reportType: ReportType, parameters: any): Promise<any> => {
+  const definition = REPORT_TYPES[reportType];
+  const remote = config.ephemerisProvider === 'remote' && config.astroEngineKey;
+  if (remote && definition.remote?.(parameters)) {
+    try {
+      const data = await fetchRemoteAstrologicalData(reportType, parameters);
+      
+      // Scores come from the local engine whichever provider drew the charts
+      if (reportType === ReportType.COMPATIBILITY) {
+        return { ...data, compatibility: calculateCompatibilityScore(parameters) };
+      }
+      return data;
+    } catch (error) {
+      logger.warn('Astro Engine unavailable, falling back to local ephemeris');
+    }
+  }
+  
+  try {
+    return definition.fetchData(parameters);
+  } catch (error) {
+    logger.error('Error calculating astrological data:', error);
+    throw new Error('Failed to calculate astrological data');
+  }
+};
+
 /**
  * Fetch astrological data from Astro Engine API
  * 
@@ -60,7 +178,7 @@ export const generateReport = async (
  * @param parameters - Parameters for the API call
  * @returns Astrological data for the report
  */
-const fetchAstrologicalData = async (reportType: ReportType, parameters: any): Promise<any> => {
+const fetchRemoteAstrologicalData = async (reportType: ReportType, parameters: any): Promise<any> => {
   try {
     // Determine endpoint based on report type
     let endpoint = '';
@@ -76,8 +194,11 @@ const fetchAstrologicalData = async (reportType: ReportType, parameters: any): P
             latitude: parameters.latitude,
             longitude: parameters.longitude,
           },
-          house_system: 'placidus',
-          zodiac_type: 'tropical',
+          house_system: parameters.houseSystem || HouseSystem.PLACIDUS,
+          zodiac_type: parameters.zodiacType || ZodiacType.TROPICAL,
+          ayanamsa: parameters.zodiacType === ZodiacType.SIDEREAL
+            ? parameters.ayanamsa || Ayanamsa.LAHIRI
+            : undefined,
         };
         break;
         
@@ -141,6 +262,454 @@ const fetchAstrologicalData = async (reportType: ReportType, parameters: any): P
   }
 };
 
+// Report data is calculated in the same shape as the Astro Engine responses,
+// so the PDF content reads either
+
+/**
+ * Natal chart report data
+ */
+const calculateNatalReport = (parameters: any) =>
+  formatChartData(calculateNatalChart(toBirthData(parameters), toChartOptions(parameters)));
+
+/**
+ * Compatibility report data of two people, of a team compared pair by pair or
+ * of two signs
+ */
+const calculateCompatibilityReport = (parameters: any) => {
+  const options = toChartOptions(parameters);
+  
+  if (isSignReport(parameters)) {
+    return { sign_compatibility: calculateSignCompatibility(parameters.sign1, parameters.sign2) };
+  }
+  
+  if (isTeamReport(parameters)) {
+    return {
+      team_name: parameters.teamName,
+      team: calculateTeamCompatibility(
+        parameters.members.map((member: any) => ({ ...toBirthData(member), name: member.name })),
+        options
+      ),
+    };
+  }
+  
+  const chart1 = calculateNatalChart(toBirthData(parameters.person1), options);
+  const chart2 = calculateNatalChart(toBirthData(parameters.person2), options);
+  
+  return calculateCompatibilityData(chart1, chart2);
+};
+
+/**
+ * Corporate report data: the company chart and its compatibility with each
+ * founder and employee
+ */
+const calculateCorporateReport = (parameters: any) => {
+  // Each founder and employee is compared like person 2 of a compatibility
+  // report, with the company chart as person 1
+  const options = toChartOptions(parameters);
+  const company = calculateNatalChart(toBirthData(parameters.company), options);
+  const compare = (member: any) => {
+    const { person2, ...comparison } = calculateCompatibilityData(
+      company,
+      calculateNatalChart(toBirthData(member), options)
+    );
+    return { name: member.name, title: member.title, chart: person2, ...comparison };
+  };
+  
+  return {
+    company: { name: parameters.company.name, ...formatChartData(company) },
+    founders: (parameters.founders || []).map(compare),
+    employees: (parameters.employees || []).map(compare),
+  };
+};
+
+/**
+ * Relationship report data: both charts with their composite and Davison
+ * charts
+ */
+const calculateRelationshipReport = (parameters: any) => {
+  const options = toChartOptions(parameters);
+  const chart1 = calculateNatalChart(toBirthData(parameters.person1), options);
+  const chart2 = calculateNatalChart(toBirthData(parameters.person2), options);
+  
+  return {
+    person1: formatChartData(chart1),
+    person2: formatChartData(chart2),
+    composite: formatChartPositions(calculateCompositeChart(chart1, chart2)),
+    davison: formatChartData(calculateDavisonChart(chart1.birthData, chart2.birthData, options)),
+  };
+};
+
+/**
+ * Solar or lunar return report data. The year or month of the return
+ * defaults to the current one (UTC).
+ */
+const calculateReturnReport = (parameters: any, type: PlanetaryReturnType) => {
+  const solar = type === PlanetaryReturnType.SOLAR;
+  const now = new Date().toISOString();
+  const period = String(solar ? parameters.returnYear || now.substring(0, 4) : parameters.returnMonth || now.substring(0, 7));
+  const relocated = parameters.returnLatitude !== undefined && parameters.returnLongitude !== undefined;
+  const result = calculateReturnChart(
+    type,
+    toBirthData(parameters),
+    period,
+    relocated
+      ? {
+        latitude: Number(parameters.returnLatitude),
+        longitude: Number(parameters.returnLongitude),
+        locationName: parameters.returnLocationName,
+      }
+      : undefined,
+    toChartOptions(parameters)
+  );
+  
+  return {
+    natal_chart: formatChartData(result.natal),
+    return_data: {
+      type: result.type,
+      period,
+      moment: result.moment,
+      relocated: result.relocated,
+    },
+    return_chart: formatChartData(result.chart),
+    natal_aspects: result.natalAspects,
+  };
+};
+
+/**
+ * Transit report data: the transits on a date, today by default, and the
+ * exact transits of the slow planets in the month after it
+ */
+const calculateTransitReport = (parameters: any) => {
+  const natal = calculateNatalChart(toBirthData(parameters), toChartOptions(parameters));
+  const transitDate = new Date(parameters.transitDate || Date.now());
+  const transits = calculatePlanetPositions(toJulianDay(transitDate));
+  
+  return {
+    natal_data: formatBirthData(natal.birthData),
+    natal_chart: formatChartData(natal),
+    transit_data: {
+      date: transitDate.toISOString().split('T')[0],
+      time: transitDate.toISOString().split('T')[1].substring(0, 8),
+      planets: formatPlanets(Object.values(transits)),
+    },
+    aspects: calculateAspects(transits, natal.planets).map(aspect => ({
+      transit_planet: aspect.planet1,
+      aspect: aspect.aspect,
+      natal_planet: aspect.planet2,
+      orb: aspect.orb,
+    })),
+    exact_transits: findTransitHits(
+      getNatalPoints(natal.birthData, natal.birthData),
+      sampleTransits(toJulianDay(transitDate), EXACT_TRANSIT_DAYS)
+    ),
+  };
+};
+
+/**
+ * Forecast report data of a calendar month or year: the planets on its first
+ * day and the exact transits of the slow planets within it
+ */
+const calculateForecastReport = (parameters: any, start: string, end: string) => {
+  const natal = calculateNatalChart(toBirthData(parameters), toChartOptions(parameters));
+  const startJd = toJulianDay(new Date(`${start}T00:00:00Z`));
+  const days = Math.round((Date.parse(end) - Date.parse(start)) / 86400000);
+  
+  return {
+    natal_chart: formatChartData(natal),
+    period: { start, end },
+    planets: formatPlanets(Object.values(calculatePlanetPositions(startJd))),
+    // Samples run a day past the window, so hits on the end date are dropped
+    exact_transits: findTransitHits(getNatalPoints(natal.birthData, natal.birthData), sampleTransits(startJd, days))
+      .filter(hit => hit.exact_time < end),
+  };
+};
+
+/**
+ * Career or financial report data: the birth chart and the houses it reads.
+ * Without birth data the houses are counted in whole signs from the sign.
+ */
+const calculateHouseFocusReport = (parameters: any, houses: number[]) => {
+  if (isSignReport(parameters)) {
+    const signs = Object.values(ZodiacSign);
+    const first = signs.indexOf(parameters.sign);
+    return {
+      sun_sign: parameters.sign,
+      focus_houses: houses.map(house => ({
+        house,
+        area: HOUSE_AREAS[house - 1],
+        sign: signs[(first + house - 1) % 12],
+        planets: [],
+      })),
+    };
+  }
+  
+  const chart = calculateNatalChart(toBirthData(parameters), toChartOptions(parameters));
+  
+  return {
+    ...formatChartData(chart),
+    focus_houses: houses.map(house => ({
+      house,
+      area: HOUSE_AREAS[house - 1],
+      sign: longitudeToSign(chart.houses.cusps[house - 1]).sign,
+      planets: Object.values(chart.planets)
+        .filter(position => position.house === house)
+        .map(position => position.planet),
+    })),
+  };
+};
+
+/**
+ * Progressions report data: the progressed chart on a date, today by
+ * default, with the progressed Moon and solar arc directions of the years
+ * after it
+ */
+const calculateProgressionsReport = (parameters: any) => {
+  const options = toChartOptions(parameters);
+  const birthData = toBirthData(parameters);
+  const date = parameters.progressionDate || new Date().toISOString().split('T')[0];
+  const years = Number(parameters.progressionYears || PROGRESSION_YEARS);
+  const progressed = calculateProgressedChart(birthData, date, options);
+  
+  return {
+    natal_chart: formatChartData(progressed.natal),
+    progression_data: {
+      date,
+      age: progressed.age,
+      solar_arc: progressed.solarArc,
+      years,
+    },
+    progressed_chart: formatChartData(progressed.chart),
+    progressed_aspects: progressed.natalAspects,
+    progressed_moon: calculateProgressedMoonTimeline(birthData, date, years, options),
+    solar_arc: calculateSolarArcDirections(birthData, date, years, options),
+  };
+};
+
+/**
+ * Election report data: the best windows for an event at a place
+ */
+const calculateElectionReport = (parameters: any) => {
+  // Working hours in the place's zone, the next 30 days by default
+  const startDate = parameters.startDate || new Date().toISOString().split('T')[0];
+  const endDate = parameters.endDate ||
+    new Date(Date.parse(startDate) + ELECTION_DAYS * 86400000).toISOString().split('T')[0];
+  const founders = (parameters.founders || []).map((founder: any) => {
+    const birthData = toBirthData(founder);
+    return getNatalPoints(birthData, birthData);
+  });
+  const search = searchElections({
+    eventType: parameters.eventType,
+    latitude: Number(parameters.latitude),
+    longitude: Number(parameters.longitude),
+    startDate,
+    endDate,
+    timezone: parameters.timezone || 'UTC',
+    fromHour: Number(parameters.fromHour ?? 9),
+    toHour: Number(parameters.toHour ?? 18),
+    founders,
+    limit: parameters.limit && Number(parameters.limit),
+  });
+  
+  return {
+    search_data: {
+      event_type: search.eventType,
+      location: {
+        name: parameters.locationName,
+        latitude: Number(parameters.latitude),
+        longitude: Number(parameters.longitude),
+      },
+      timezone: parameters.timezone || 'UTC',
+      start_date: startDate,
+      end_date: endDate,
+      founders: founders.length,
+    },
+    windows: search.windows,
+    exclusions: search.exclusions,
+  };
+};
+
+/**
+ * Relocation report data: the relocated chart, only when a place is given,
+ * and the cities near the lines of each theme
+ */
+const calculateRelocationReport = (parameters: any) => {
+  const options = toChartOptions(parameters);
+  const birthData = toBirthData(parameters);
+  const relocated = parameters.relocationLatitude !== undefined && parameters.relocationLongitude !== undefined
+    ? calculateRelocatedChart(birthData, {
+      latitude: Number(parameters.relocationLatitude),
+      longitude: Number(parameters.relocationLongitude),
+      locationName: parameters.relocationLocationName,
+    }, options)
+    : null;
+  
+  return {
+    natal_chart: formatChartData(relocated ? relocated.natal : calculateNatalChart(birthData, options)),
+    relocated_chart: relocated && formatChartData(relocated.chart),
+    angular_planets: relocated ? relocated.angularPlanets : [],
+    themes: findRelocationCities(
+      birthData,
+      parameters.themes,
+      parameters.cityLimit !== undefined ? Number(parameters.cityLimit) : undefined
+    ),
+  };
+};
+
+/**
+ * Numerology report data: the core numbers and a cycle of personal years
+ */
+const calculateNumerologyReport = (parameters: any) => {
+  const date = parameters.numerologyDate || new Date().toISOString().split('T')[0];
+  const year = Number(date.substring(0, 4));
+  
+  return {
+    birth_data: {
+      name: parameters.name,
+      date: parameters.birthDate,
+    },
+    numerology: calculateNumerology(parameters.birthDate, date, parameters.name),
+    personal_years: Array.from({ length: PERSONAL_YEAR_CYCLE }, (_, i) => ({
+      year: year + i,
+      ...calculatePersonalCycles(parameters.birthDate, `${year + i}-01-01`).personalYear,
+    })),
+  };
+};
+
+/**
+ * Vimshottari dasha report data: the timeline and the periods running on a
+ * date, today by default
+ */
+const calculateDashaReport = (parameters: any) => {
+  // Antardashas are enough for a printed timeline
+  const timeline = calculateDashaForBirth(toBirthData(parameters), parameters.ayanamsa, 2);
+  const active = findActiveDasha(timeline, new Date(parameters.dashaDate || Date.now()));
+  
+  return {
+    birth_data: {
+      date: parameters.birthDate,
+      time: parameters.birthTime || '12:00',
+      location: { name: parameters.locationName },
+    },
+    ayanamsa: timeline.ayanamsa,
+    moon_longitude: timeline.moonLongitude,
+    nakshatra: timeline.nakshatra,
+    balance: timeline.balance,
+    periods: timeline.periods,
+    active,
+  };
+};
+
+/**
+ * Whether report parameters name signs instead of birth data, as the first
+ * compatibility and career reports did
+ */
+const isSignReport = (parameters: any): boolean => parameters.sign !== undefined || parameters.sign1 !== undefined;
+
+const SIGN_REPORT_DEPRECATION = 'Reports on signs alone are deprecated; pass birth data for a chart reading';
+
+/**
+ * Compatibility report data of two charts: both charts, the aspects between
+ * them and their scores
+ */
+const calculateCompatibilityData = (chart1: NatalChart, chart2: NatalChart) => ({
+  person1: formatChartData(chart1),
+  person2: formatChartData(chart2),
+  synastry: {
+    aspects: calculateAspects(chart1.planets, chart2.planets),
+  },
+  compatibility: calculateSynastry(chart1.planets, chart2.planets),
+});
+
+/**
+ * Score the compatibility of the two people in report parameters
+ */
+const calculateCompatibilityScore = (parameters: any): SynastryScore => {
+  const options = toChartOptions(parameters);
+  const chart1 = calculateNatalChart(toBirthData(parameters.person1), options);
+  const chart2 = calculateNatalChart(toBirthData(parameters.person2), options);
+  return calculateSynastry(chart1.planets, chart2.planets);
+};
+
+/**
+ * Convert report parameters to birth data
+ */
+const toBirthData = (parameters: any): BirthData => ({
+  date: parameters.birthDate,
+  time: parameters.birthTime,
+  latitude: Number(parameters.latitude),
+  longitude: Number(parameters.longitude),
+  utcOffset: parameters.utcOffset !== undefined ? Number(parameters.utcOffset) : undefined,
+  timezone: parameters.timezone,
+  locationName: parameters.locationName,
+});
+
+/**
+ * Read the house system and zodiac from report parameters
+ */
+const toChartOptions = (parameters: any): ChartOptions => ({
+  houseSystem: parameters.houseSystem,
+  zodiacType: parameters.zodiacType,
+  ayanamsa: parameters.ayanamsa,
+});
+
+const formatBirthData = (birthData: BirthData) => ({
+  date: birthData.date,
+  time: birthData.time || '12:00',
+  location: {
+    name: birthData.locationName,
+    latitude: birthData.latitude,
+    longitude: birthData.longitude,
+  },
+});
+
+/**
+ * Format planet positions in the Astro Engine shape, keyed by planet
+ */
+const formatPlanets = (positions: (PlanetPosition & { house?: number })[]) => {
+  const planets: Record<string, any> = {};
+  positions.forEach(position => {
+    planets[position.planet] = {
+      sign: position.sign,
+      degrees: position.signDegree,
+      longitude: position.longitude,
+      retrograde: position.retrograde,
+      house: position.house,
+    };
+  });
+  return planets;
+};
+
+/**
+ * Format a calculated chart in the Astro Engine natal chart shape
+ */
+const formatChartData = (chart: NatalChart) => ({
+  birth_data: formatBirthData(chart.birthData),
+  ...formatChartPositions(chart),
+});
+
+/**
+ * Format the positions, houses and aspects of a chart in the Astro Engine
+ * natal chart shape, for charts without a moment of their own
+ */
+const formatChartPositions = (chart: CompositeChart) => {
+  const planets = formatPlanets(Object.values(chart.planets));
+  
+  const houses: Record<string, any> = {};
+  chart.houses.cusps.forEach((cusp, index) => {
+    const { sign, signDegree } = longitudeToSign(cusp);
+    houses[String(index + 1)] = { sign, degrees: signDegree, longitude: cusp };
+  });
+  
+  return {
+    house_system: chart.houses.system,
+    zodiac_type: chart.zodiac.type,
+    ayanamsa: chart.zodiac.ayanamsa,
+    planets,
+    houses,
+    aspects: chart.aspects,
+  };
+};
+
 /**
  * Create a PDF report with the astrological data
  * 
@@ -156,22 +725,26 @@ const createPDF = async (
   data: any
 ): Promise<void> => {
   return new Promise((resolve, reject) => {
+    // Create PDF document
+    // Pages are buffered so the footer can be added to each one at the end
+    const doc = new PDFDocument({
+      bufferPages: true,
+      size: 'A4',
+      margin: 50,
+      info: {
+        Title: title,
+        Author: 'Corp Astro App',
+        Subject: `${REPORT_TYPES[reportType].name} Report`,
+      },
+    });
+    
+    // Pipe output to file
+    const stream = fs.createWriteStream(filePath);
+    stream.on('finish', () => resolve());
+    stream.on('error', reject);
+    doc.pipe(stream);
+    
     try {
-      // Create PDF document
-      const doc = new PDFDocument({
-        size: 'A4',
-        margin: 50,
-        info: {
-          Title: title,
-          Author: 'Corp Astro App',
-          Subject: `${reportType.charAt(0).toUpperCase() + reportType.slice(1)} Astrological Report`,
-        },
-      });
-      
-      // Pipe output to file
-      const stream = fs.createWriteStream(filePath);
-      doc.pipe(stream);
-      
       // Add header with logo
       doc.fontSize(24)
          .font('Helvetica-Bold')
@@ -181,24 +754,8 @@ const createPDF = async (
          .text(title, { align: 'center' })
          .moveDown(2);
       
-      // Add report content based on type
-      switch (reportType) {
-        case ReportType.NATAL:
-          addNatalReportContent(doc, data);
-          break;
-          
-        case ReportType.COMPATIBILITY:
-          addCompatibilityReportContent(doc, data);
-          break;
-          
-        case ReportType.TRANSIT:
-          addTransitReportContent(doc, data);
-          break;
-          
-        // Add other report types as needed
-        default:
-          doc.text('Report data not available', { align: 'center' });
-      }
+      // Add report content for the type
+      REPORT_TYPES[reportType].render(doc, data);
       
       // Add footer
       const pageCount = doc.bufferedPageRange().count;
@@ -208,9 +765,12 @@ const createPDF = async (
         // Save current position
         const originalY = doc.y;
         
-        // Go to bottom of page
-        doc.page.margins.bottom = 50;
-        doc.y = doc.page.height - doc.page.margins.bottom;
+        // Go to bottom of page. The footer sits inside the bottom margin, which
+        // is lifted while writing so PDFKit does not start a new page.
+        const bottomMargin = doc.page.margins.bottom;
+        doc.page.margins.bottom = 0;
+        doc.x = doc.page.margins.left;
+        doc.y = doc.page.height - bottomMargin;
         
         // Add page number and date
         doc.fontSize(10)
@@ -220,21 +780,16 @@ const createPDF = async (
            );
         
         // Restore position
+        doc.page.margins.bottom = bottomMargin;
         doc.y = originalY;
       }
       
       // Finalize PDF
       doc.end();
-      
-      // Handle stream events
-      stream.on('finish', () => {
-        resolve();
-      });
-      
-      stream.on('error', (error) => {
-        reject(error);
-      });
     } catch (error) {
+      // Close the file, which is never finished, so the caller can remove it
+      doc.unpipe(stream);
+      stream.destroy();
       reject(error);
     }
   });
@@ -259,8 +814,18 @@ const addNatalReportContent = (doc: PDFKit.PDFDocument, data: any): void => {
     doc.text(`Date: ${data.birth_data.date}`)
        .text(`Time: ${data.birth_data.time}`)
        .text(`Location: ${data.birth_data.location.name || 'Custom location'}`)
-       .text(`Coordinates: ${data.birth_data.location.latitude}°, ${data.birth_data.location.longitude}°`)
-       .moveDown(1);
+       .text(`Coordinates: ${data.birth_data.location.latitude}°, ${data.birth_data.location.longitude}°`);
+    
+    if (data.zodiac_type === ZodiacType.SIDEREAL) {
+      doc.text(`Zodiac: Sidereal${data.ayanamsa ? ` (${data.ayanamsa.charAt(0).toUpperCase() + data.ayanamsa.slice(1)} ayanamsa)` : ''}`);
+    }
+    doc.moveDown(1);
+  }
+  
+  // Add chart wheel
+  const wheel = toWheelChart(data);
+  if (wheel) {
+    addChartWheel(doc, { ...wheel, aspects: data.aspects });
   }
   
   // Add planetary positions
@@ -388,6 +953,17 @@ const addCompatibilityReportContent = (doc: PDFKit.PDFDocument, data: any): void
        .moveDown(1);
   }
   
+  // Add bi-wheel with person 1 inside and person 2 outside
+  const inner = data.person1 && toWheelChart(data.person1);
+  const outer = data.person2 && toWheelChart(data.person2);
+  if (inner && outer) {
+    addChartWheel(doc, {
+      ...inner,
+      outerPlanets: outer.planets,
+      aspects: data.synastry?.aspects,
+    });
+  }
+  
   // Add compatibility scores
   doc.fontSize(16)
      .font('Helvetica-Bold')
@@ -396,11 +972,14 @@ const addCompatibilityReportContent = (doc: PDFKit.PDFDocument, data: any): void
      .fontSize(12)
      .moveDown(0.5);
   
-  if (data.scores) {
-    doc.text(`Overall: ${data.scores.overall}%`)
-       .text(`Emotional: ${data.scores.emotional}%`)
-       .text(`Intellectual: ${data.scores.intellectual}%`)
-       .text(`Physical: ${data.scores.physical}%`)
+  if (data.compatibility) {
+    const score: SynastryScore = data.compatibility;
+    doc.text(`Overall: ${score.overall}%`);
+    Object.values(CompatibilityCategory).forEach(category => {
+      doc.text(`${category.charAt(0).toUpperCase() + category.slice(1)}: ${score.categories[category].score}%`);
+    });
+    doc.moveDown(0.5)
+       .text(`Sun signs: ${score.sunSigns.description} (${score.sunSigns.score}%)`)
        .moveDown(1);
   }
   
@@ -460,72 +1039,1411 @@ const addCompatibilityReportContent = (doc: PDFKit.PDFDocument, data: any): void
 };
 
 /**
- * Add transit report content to PDF
+ * Add compatibility content of two signs to PDF
  * 
  * @param doc - PDF document
- * @param data - Transit data
+ * @param data - Quick compatibility of the signs
  */
-const addTransitReportContent = (doc: PDFKit.PDFDocument, data: any): void => {
-  // Add birth and transit information
+const addSignCompatibilityReportContent = (doc: PDFKit.PDFDocument, data: any): void => {
+  const { sign_compatibility: compatibility } = data;
+  const capitalize = (name: string) => name.charAt(0).toUpperCase() + name.slice(1);
+  
   doc.fontSize(16)
      .font('Helvetica-Bold')
-     .text('Birth Information')
+     .text(`${capitalize(compatibility.sign1)} and ${capitalize(compatibility.sign2)}`)
      .font('Helvetica')
      .fontSize(12)
      .moveDown(0.5);
   
-  if (data.natal_data) {
-    doc.text(`Date: ${data.natal_data.date}`)
-       .text(`Time: ${data.natal_data.time}`)
-       .text(`Location: ${data.natal_data.location.name || 'Custom location'}`)
-       .moveDown(1);
-  }
+  doc.text(`Score: ${compatibility.score}%`)
+     .text(`Elements: ${compatibility.element}`)
+     .text(`Modalities: ${compatibility.modality}`)
+     .moveDown(0.5)
+     .text(compatibility.description)
+     .moveDown(1)
+     .text('This report compares the signs alone. Add both birth dates, times and places for a full synastry.');
+};
+
+/**
+ * Add team compatibility report content to PDF
+ * 
+ * @param doc - PDF document
+ * @param data - Pairwise scores and summaries of the team
+ */
+const addTeamCompatibilityReportContent = (doc: PDFKit.PDFDocument, data: any): void => {
+  const team: TeamCompatibility = data.team;
+  const capitalize = (name: string) => name.charAt(0).toUpperCase() + name.slice(1);
+  const names = (members: number[]) => members.map(i => team.members[i].name).join(', ');
+  const elementSummary = (elements: Record<string, number>) => {
+    const total = Object.values(elements).reduce((sum, count) => sum + count, 0);
+    return Object.entries(elements)
+      .map(([element, count]) => `${capitalize(element)} ${Math.round(count / total * 100)}%`)
+      .join(', ');
+  };
   
+  // Add members, numbered as in the matrix
   doc.fontSize(16)
      .font('Helvetica-Bold')
-     .text('Transit Information')
+     .text(data.team_name ? `${data.team_name} Members` : 'Team Members')
      .font('Helvetica')
      .fontSize(12)
      .moveDown(0.5);
   
-  if (data.transit_data) {
-    doc.text(`Date: ${data.transit_data.date}`)
-       .text(`Time: ${data.transit_data.time || '00:00:00'}`)
-       .moveDown(1);
+  team.members.forEach((member, index) => {
+    doc.text(`${index + 1}. ${member.name}: Sun in ${member.sunSign}, Moon in ${member.moonSign}, mostly ${member.dominantElement}`)
+       .moveDown(0.2);
+  });
+  
+  doc.moveDown(1);
+  
+  // Add the matrix of overall scores, on a page of its own
+  doc.addPage()
+     .fontSize(16)
+     .font('Helvetica-Bold')
+     .text('Compatibility Matrix')
+     .font('Helvetica')
+     .fontSize(10)
+     .text('Overall score of each pair. Green pairs get on well, red pairs may need more effort.')
+     .moveDown(1);
+  
+  const size = team.members.length;
+  const left = doc.page.margins.left;
+  const width = doc.page.width - left - doc.page.margins.right;
+  const cell = Math.min(32, width / (size + 1));
+  const rowHeight = Math.min(20, cell);
+  const top = doc.y;
+  doc.fontSize(size > 15 ? 6 : 8);
+  
+  const drawCell = (text: string, column: number, row: number, color?: string) => {
+    const x = left + column * cell;
+    const y = top + row * rowHeight;
+    if (color) {
+      doc.rect(x, y, cell, rowHeight).fill(color).fillColor('black');
+    }
+    doc.text(text, x, y + rowHeight / 2 - 3, { width: cell, align: 'center', lineBreak: false });
+  };
+  
+  team.members.forEach((_, i) => {
+    drawCell(String(i + 1), i + 1, 0);
+    drawCell(String(i + 1), 0, i + 1);
+    team.matrix[i].forEach((score, j) => {
+      if (score === null) {
+        drawCell('-', j + 1, i + 1);
+      } else {
+        drawCell(String(score), j + 1, i + 1, score >= 70 ? '#d4edda' : score < 55 ? '#f8d7da' : undefined);
+      }
+    });
+  });
+  
+  doc.x = left;
+  doc.y = top + (size + 1) * rowHeight;
+  doc.fontSize(12).moveDown(2);
+  
+  // Add the element balance of the whole team
+  doc.fontSize(16)
+     .font('Helvetica-Bold')
+     .text('Element Balance')
+     .font('Helvetica')
+     .fontSize(12)
+     .moveDown(0.5);
+  
+  doc.text(elementSummary(team.elements));
+  const weakest = (Object.keys(team.elements) as (keyof typeof team.elements)[])
+    .reduce((low, element) => team.elements[element] < team.elements[low] ? element : low);
+  doc.text(`The team is lightest in ${weakest}; look for that quality outside the group or in new hires.`)
+     .moveDown(1);
+  
+  // Add the clusters of members who get on well
+  doc.fontSize(16)
+     .font('Helvetica-Bold')
+     .text('Clusters')
+     .font('Helvetica')
+     .fontSize(12)
+     .moveDown(0.5);
+  
+  const groups = team.clusters.filter(cluster => cluster.members.length > 1);
+  groups.forEach((cluster, index) => {
+    doc.font('Helvetica-Bold')
+       .text(`Cluster ${index + 1} (average ${cluster.cohesion}%)`)
+       .font('Helvetica')
+       .text(names(cluster.members))
+       .text(`Elements: ${elementSummary(cluster.elements)}`)
+       .moveDown(0.5);
+  });
+  
+  const loners = team.clusters.filter(cluster => cluster.members.length === 1).flatMap(cluster => cluster.members);
+  if (!groups.length) {
+    doc.text('No group of members stands out; the team gets on evenly.');
+  }
+  if (loners.length) {
+    doc.text(`Working across groups: ${names(loners)}`);
   }
   
-  // Add transit aspects
+  doc.moveDown(1);
+  
+  // Add the pairs whose communication may clash
   doc.fontSize(16)
      .font('Helvetica-Bold')
-     .text('Transit Aspects')
+     .text('Communication Friction')
      .font('Helvetica')
      .fontSize(12)
      .moveDown(0.5);
   
-  if (data.aspects) {
-    data.aspects.forEach((aspect: any) => {
-      doc.text(`Transit ${aspect.transit_planet} ${aspect.aspect} Natal ${aspect.natal_planet} (Orb: ${aspect.orb.toFixed(2)}°)`)
+  if (team.frictionPairs.length) {
+    team.frictionPairs.slice(0, TEAM_FRICTION_PAIRS).forEach(pair => {
+      const contacts = pair.contacts
+        .map(contact => `${capitalize(contact.planet1)} ${contact.aspect} ${capitalize(contact.planet2)}`)
+        .join(', ');
+      doc.text(`${team.members[pair.member1].name} and ${team.members[pair.member2].name}: communication ${pair.categories.communication}% (${contacts})`)
          .moveDown(0.2);
     });
+    if (team.frictionPairs.length > TEAM_FRICTION_PAIRS) {
+      doc.text(`and ${team.frictionPairs.length - TEAM_FRICTION_PAIRS} more pairs`);
+    }
+  } else {
+    doc.text('No pair shows strong communication friction');
   }
+};
+
+/**
+ * Add corporate report content to PDF
+ * 
+ * @param doc - PDF document
+ * @param data - Company chart and its compatibility with each founder and employee
+ */
+const addCorporateReportContent = (doc: PDFKit.PDFDocument, data: any): void => {
+  const name = (planet: string) => planet.charAt(0).toUpperCase() + planet.slice(1);
+  // The synastry categories read as working relationships
+  const categoryLabels: Record<CompatibilityCategory, string> = {
+    [CompatibilityCategory.LOVE]: 'Rapport',
+    [CompatibilityCategory.COMMUNICATION]: 'Communication',
+    [CompatibilityCategory.TRUST]: 'Trust',
+    [CompatibilityCategory.VALUES]: 'Shared values',
+  };
+  const founders = (data.founders || []).map((member: any) => ({ ...member, role: 'Founder' }));
+  const employees = (data.employees || []).map((member: any) => ({ ...member, role: 'Key employee' }));
   
-  doc.moveDown(1);
+  // Add company information
+  doc.fontSize(16)
+     .font('Helvetica-Bold')
+     .text('Company')
+     .font('Helvetica')
+     .fontSize(12)
+     .moveDown(0.5);
   
-  // Add interpretation
+  if (data.company) {
+    const { birth_data: incorporation, planets, houses } = data.company;
+    doc.text(`Name: ${data.company.name}`)
+       .text(`Incorporated: ${incorporation.date} ${incorporation.time}`)
+       .text(`Location: ${incorporation.location.name || 'Custom location'}`)
+       .moveDown(0.5)
+       .text(`Sun: ${planets.sun.sign} ${planets.sun.degrees.toFixed(2)}°`)
+       .text(`Moon: ${planets.moon.sign} ${planets.moon.degrees.toFixed(2)}°`)
+       .text(`Ascendant: ${houses['1'].sign} ${houses['1'].degrees.toFixed(2)}°`)
+       .text(`Midheaven: ${houses['10'].sign} ${houses['10'].degrees.toFixed(2)}°`)
+       .moveDown(1);
+    
+    const wheel = toWheelChart(data.company);
+    if (wheel) {
+      addChartWheel(doc, wheel);
+    }
+  }
+  
+  // Add everyone ranked by overall score
   doc.fontSize(16)
      .font('Helvetica-Bold')
-     .text('Transit Interpretation')
+     .text('Team Overview')
      .font('Helvetica')
      .fontSize(12)
      .moveDown(0.5);
   
-  if (data.interpretation) {
-    Object.entries(data.interpretation).forEach(([transit, text]: [string, any]) => {
-      doc.font('Helvetica-Bold')
-         .text(transit)
-         .font('Helvetica')
-         .text(text)
-         .moveDown(0.5);
+  const ranked = [...founders, ...employees]
+    .sort((a: any, b: any) => b.compatibility.overall - a.compatibility.overall);
+  if (ranked.length) {
+    ranked.forEach((member: any, index: number) => {
+      doc.text(`${index + 1}. ${member.name} (${member.title || member.role}): ${member.compatibility.overall}%`)
+         .moveDown(0.2);
     });
+  } else {
+    doc.text('No founders or key employees were given');
   }
-};
+  
+  doc.moveDown(1);
+  
+  // Add the comparison of each person with the company chart
+  [['Founders', founders], ['Key Employees', employees]].forEach(([heading, members]: any[]) => {
+    if (!members.length) {
+      return;
+    }
+    
+    doc.fontSize(16)
+       .font('Helvetica-Bold')
+       .text(heading)
+       .font('Helvetica')
+       .fontSize(12)
+       .moveDown(0.5);
+    
+    members.forEach((member: any) => {
+      const score: SynastryScore = member.compatibility;
+      const birth = member.chart.birth_data;
+      
+      doc.font('Helvetica-Bold')
+         .text(member.title ? `${member.name}, ${member.title}` : member.name)
+         .font('Helvetica')
+         .text(`Born: ${birth.date} ${birth.time}, ${birth.location.name || 'Custom location'}`)
+         .text(`Overall: ${score.overall}%`);
+      Object.values(CompatibilityCategory).forEach(category => {
+        doc.text(`${categoryLabels[category]}: ${score.categories[category].score}%`);
+      });
+      doc.text(`Sun signs: ${score.sunSigns.description} (${score.sunSigns.score}%)`);
+      
+      // The closest contacts between the charts
+      const aspects = [...(member.synastry?.aspects || [])]
+        .sort((a: any, b: any) => a.orb - b.orb)
+        .slice(0, 3);
+      aspects.forEach((aspect: any) => {
+        doc.text(`Company ${name(aspect.planet1)} ${aspect.aspect} ${member.name}'s ${name(aspect.planet2)} (Orb: ${aspect.orb.toFixed(2)}°)`);
+      });
+      
+      doc.moveDown(1);
+    });
+  });
+};
+
+/**
+ * Add transit report content to PDF
+ * 
+ * @param doc - PDF document
+ * @param data - Transit data
+ */
+const addTransitReportContent = (doc: PDFKit.PDFDocument, data: any): void => {
+  // Add birth and transit information
+  doc.fontSize(16)
+     .font('Helvetica-Bold')
+     .text('Birth Information')
+     .font('Helvetica')
+     .fontSize(12)
+     .moveDown(0.5);
+  
+  if (data.natal_chart) {
+    const { birth_data: birth } = data.natal_chart;
+    doc.text(`Date: ${birth.date}`)
+       .text(`Time: ${birth.time}`)
+       .text(`Location: ${birth.location.name || 'Custom location'}`)
+       .moveDown(1);
+  }
+  
+  doc.fontSize(16)
+     .font('Helvetica-Bold')
+     .text('Transit Information')
+     .font('Helvetica')
+     .fontSize(12)
+     .moveDown(0.5);
+  
+  if (data.transit_data) {
+    doc.text(`Date: ${data.transit_data.date}`)
+       .text(`Time: ${data.transit_data.time || '00:00:00'}`)
+       .moveDown(1);
+  }
+  
+  // Add bi-wheel with the natal chart inside and transits outside
+  const natal = data.natal_chart && toWheelChart(data.natal_chart);
+  const transits = data.transit_data?.planets && toWheelPlanets(data.transit_data.planets);
+  if (natal && transits) {
+    addChartWheel(doc, {
+      ...natal,
+      outerPlanets: transits,
+      aspects: (data.aspects || []).map((aspect: any) => ({
+        planet1: aspect.natal_planet,
+        planet2: aspect.transit_planet,
+        aspect: aspect.aspect,
+      })),
+    });
+  }
+  
+  // Add transit aspects
+  doc.fontSize(16)
+     .font('Helvetica-Bold')
+     .text('Transit Aspects')
+     .font('Helvetica')
+     .fontSize(12)
+     .moveDown(0.5);
+  
+  if (data.aspects) {
+    data.aspects.forEach((aspect: any) => {
+      doc.text(`Transit ${aspect.transit_planet} ${aspect.aspect} Natal ${aspect.natal_planet} (Orb: ${aspect.orb.toFixed(2)}°)`)
+         .moveDown(0.2);
+    });
+  }
+  
+  doc.moveDown(1);
+  
+  // Add the slow planets' exact transits coming up
+  if (data.exact_transits?.length) {
+    doc.fontSize(16)
+       .font('Helvetica-Bold')
+       .text('Exact Transits Ahead')
+       .font('Helvetica')
+       .fontSize(12)
+       .moveDown(0.5);
+    
+    data.exact_transits.forEach((hit: TransitHit) => {
+      doc.text(`${hit.exact_time.split('T')[0]}: Transit ${hit.transit_planet} ${hit.aspect} Natal ${hit.natal_planet}${hit.retrograde ? ' (retrograde)' : ''}`)
+         .moveDown(0.2);
+    });
+    
+    doc.moveDown(1);
+  }
+  
+  // Add interpretation
+  doc.fontSize(16)
+     .font('Helvetica-Bold')
+     .text('Transit Interpretation')
+     .font('Helvetica')
+     .fontSize(12)
+     .moveDown(0.5);
+  
+  if (data.interpretation) {
+    Object.entries(data.interpretation).forEach(([transit, text]: [string, any]) => {
+      doc.font('Helvetica-Bold')
+         .text(transit)
+         .font('Helvetica')
+         .text(text)
+         .moveDown(0.5);
+    });
+  }
+};
+
+/**
+ * Add monthly or yearly forecast content to PDF
+ * 
+ * @param doc - PDF document
+ * @param data - Birth chart, planets at the start of the period and the
+ * exact transits within it
+ */
+const addForecastReportContent = (doc: PDFKit.PDFDocument, data: any): void => {
+  // Add birth information
+  doc.fontSize(16)
+     .font('Helvetica-Bold')
+     .text('Birth Information')
+     .font('Helvetica')
+     .fontSize(12)
+     .moveDown(0.5);
+  
+  const { birth_data: birth } = data.natal_chart;
+  doc.text(`Date: ${birth.date}`)
+     .text(`Time: ${birth.time}`)
+     .text(`Location: ${birth.location.name || 'Custom location'}`)
+     .moveDown(1);
+  
+  // Add the sky at the start of the period
+  doc.fontSize(16)
+     .font('Helvetica-Bold')
+     .text(`Planets on ${data.period.start}`)
+     .font('Helvetica')
+     .fontSize(12)
+     .moveDown(0.5);
+  
+  Object.entries(data.planets).forEach(([planet, info]: [string, any]) => {
+    doc.text(`${planet.charAt(0).toUpperCase() + planet.slice(1)}: ${info.sign} ${info.degrees.toFixed(2)}°${info.retrograde ? ' (retrograde)' : ''}`)
+       .moveDown(0.2);
+  });
+  
+  doc.moveDown(1);
+  
+  // Add the slow planets' exact transits, the main themes of the period
+  doc.fontSize(16)
+     .font('Helvetica-Bold')
+     .text('Key Transits')
+     .font('Helvetica')
+     .fontSize(12)
+     .moveDown(0.5);
+  
+  if (!data.exact_transits.length) {
+    doc.text('The slow planets make no exact aspects to your chart in this period, so it is a steady one.');
+  }
+  
+  data.exact_transits.forEach((hit: TransitHit) => {
+    doc.font('Helvetica-Bold')
+       .text(hit.exact_time.split('T')[0])
+       .font('Helvetica')
+       .text(`${describeTransitHit(hit)}${hit.retrograde ? ' (retrograde)' : ''}`)
+       .moveDown(0.5);
+  });
+};
+
+/**
+ * Add career or financial report content to PDF: the birth chart followed by
+ * the houses the report reads
+ * 
+ * @param doc - PDF document
+ * @param data - Natal chart data with the houses to read
+ */
+const addHouseFocusReportContent = (doc: PDFKit.PDFDocument, data: any): void => {
+  if (data.sun_sign) {
+    doc.fontSize(12)
+       .font('Helvetica')
+       .text(`The houses are counted in whole signs from ${data.sun_sign}. Add your birth date, time and place for a reading of your own chart.`);
+  } else {
+    addNatalReportContent(doc, data);
+  }
+  
+  doc.moveDown(1);
+  
+  data.focus_houses.forEach((focus: any) => {
+    doc.fontSize(16)
+       .font('Helvetica-Bold')
+       .text(`House ${focus.house}: ${focus.area.charAt(0).toUpperCase() + focus.area.slice(1)}`)
+       .font('Helvetica')
+       .fontSize(12)
+       .moveDown(0.5);
+    
+    doc.text(`Cusp in ${focus.sign}`);
+    doc.text(focus.planets.length
+      ? `Planets in the house: ${focus.planets.map((planet: string) => planet.charAt(0).toUpperCase() + planet.slice(1)).join(', ')}`
+      : `No planets in the house; ${focus.sign} on the cusp sets its tone`)
+       .moveDown(1);
+  });
+};
+
+/**
+ * Add Vimshottari dasha report content to PDF
+ * 
+ * @param doc - PDF document
+ * @param data - Dasha timeline data
+ */
+const addDashaReportContent = (doc: PDFKit.PDFDocument, data: any): void => {
+  const formatDate = (iso: string) => iso.split('T')[0];
+  const formatLord = (lord: string) => lord.charAt(0).toUpperCase() + lord.slice(1);
+  const formatPeriod = (period: DashaPeriod) =>
+    `${formatLord(period.lord)}: ${formatDate(period.startDate)} to ${formatDate(period.endDate)}`;
+  
+  // Add birth information
+  doc.fontSize(16)
+     .font('Helvetica-Bold')
+     .text('Birth Information')
+     .font('Helvetica')
+     .fontSize(12)
+     .moveDown(0.5);
+  
+  if (data.birth_data) {
+    doc.text(`Date: ${data.birth_data.date}`)
+       .text(`Time: ${data.birth_data.time}`)
+       .text(`Location: ${data.birth_data.location?.name || 'Custom location'}`)
+       .text(`Ayanamsa: ${formatLord(data.ayanamsa)}`)
+       .moveDown(0.5);
+  }
+  
+  if (data.nakshatra) {
+    doc.text(`Moon nakshatra: ${data.nakshatra.name} (pada ${data.nakshatra.pada}), ruled by ${formatLord(data.nakshatra.lord)}`)
+       .text(`Dasha balance at birth: ${formatLord(data.balance.lord)} ${data.balance.years.toFixed(2)} years`)
+       .moveDown(1);
+  }
+  
+  // Add the periods running now
+  if (data.active) {
+    doc.fontSize(16)
+       .font('Helvetica-Bold')
+       .text('Current Periods')
+       .font('Helvetica')
+       .fontSize(12)
+       .moveDown(0.5);
+    
+    Object.entries(data.active).forEach(([level, period]: [string, any]) => {
+      if (period) {
+        doc.text(`${formatLord(level)}: ${formatPeriod(period)}`);
+      }
+    });
+    doc.moveDown(1);
+  }
+  
+  // Add the mahadasha timeline with antardashas
+  doc.fontSize(16)
+     .font('Helvetica-Bold')
+     .text('Mahadasha Timeline')
+     .fontSize(12)
+     .moveDown(0.5);
+  
+  (data.periods || []).forEach((mahadasha: DashaPeriod) => {
+    doc.font('Helvetica-Bold')
+       .text(`${formatPeriod(mahadasha)} (${mahadasha.years} years)`)
+       .font('Helvetica');
+    
+    (mahadasha.periods || []).forEach(antardasha => {
+      doc.text(`    ${formatPeriod(antardasha)}`);
+    });
+    doc.moveDown(0.5);
+  });
+};
+
+/**
+ * Add relationship report content (composite and Davison charts) to PDF
+ * 
+ * @param doc - PDF document
+ * @param data - Relationship chart data
+ */
+const addRelationshipReportContent = (doc: PDFKit.PDFDocument, data: any): void => {
+  // Add person information
+  [data.person1, data.person2].forEach((person, index) => {
+    doc.fontSize(16)
+       .font('Helvetica-Bold')
+       .text(`Person ${index + 1}`)
+       .font('Helvetica')
+       .fontSize(12)
+       .moveDown(0.5);
+    
+    if (person) {
+      doc.text(`Date: ${person.birth_data.date}`)
+         .text(`Time: ${person.birth_data.time}`)
+         .text(`Location: ${person.birth_data.location.name || 'Custom location'}`)
+         .moveDown(1);
+    }
+  });
+  
+  if (data.composite) {
+    addRelationshipChart(
+      doc,
+      'Composite Chart',
+      'Each planet and house cusp sits at the midpoint of the two natal positions. The composite chart describes the relationship as an entity of its own.',
+      data.composite
+    );
+  }
+  
+  if (data.davison) {
+    const { date, time, location } = data.davison.birth_data;
+    addRelationshipChart(
+      doc,
+      'Davison Chart',
+      `Cast for the midpoint in time and place of the two births: ${date} ${time} UTC at ${location.latitude.toFixed(2)}°, ${location.longitude.toFixed(2)}°.`,
+      data.davison
+    );
+  }
+};
+
+/**
+ * Add one relationship chart: wheel, planetary positions and aspects
+ */
+const addRelationshipChart = (doc: PDFKit.PDFDocument, heading: string, intro: string, chart: any): void => {
+  doc.addPage()
+     .fontSize(16)
+     .font('Helvetica-Bold')
+     .text(heading)
+     .font('Helvetica')
+     .fontSize(12)
+     .moveDown(0.5)
+     .text(intro)
+     .moveDown(1);
+  
+  const wheel = toWheelChart(chart);
+  if (wheel) {
+    addChartWheel(doc, { ...wheel, aspects: chart.aspects });
+  }
+  
+  doc.font('Helvetica-Bold')
+     .text('Planetary Positions')
+     .font('Helvetica')
+     .moveDown(0.5);
+  
+  Object.entries(chart.planets || {}).forEach(([planet, info]: [string, any]) => {
+    doc.text(`${planet.charAt(0).toUpperCase() + planet.slice(1)}: ${info.sign} ${info.degrees.toFixed(2)}° (House ${info.house})`)
+       .moveDown(0.2);
+  });
+  
+  doc.moveDown(1)
+     .font('Helvetica-Bold')
+     .text('Aspects')
+     .font('Helvetica')
+     .moveDown(0.5);
+  
+  (chart.aspects || []).forEach((aspect: any) => {
+    doc.text(`${aspect.planet1} ${aspect.aspect} ${aspect.planet2} (Orb: ${aspect.orb.toFixed(2)}°)`)
+       .moveDown(0.2);
+  });
+};
+
+/**
+ * Add progressions report content to PDF
+ * 
+ * @param doc - PDF document
+ * @param data - Progressed chart, progressed Moon and solar arc data
+ */
+const addProgressionsReportContent = (doc: PDFKit.PDFDocument, data: any): void => {
+  const name = (point: string) => point.charAt(0).toUpperCase() + point.slice(1);
+  
+  // Add birth information
+  doc.fontSize(16)
+     .font('Helvetica-Bold')
+     .text('Birth Information')
+     .font('Helvetica')
+     .fontSize(12)
+     .moveDown(0.5);
+  
+  if (data.natal_chart) {
+    const { birth_data: birth } = data.natal_chart;
+    doc.text(`Date: ${birth.date}`)
+       .text(`Time: ${birth.time}`)
+       .text(`Location: ${birth.location.name || 'Custom location'}`)
+       .moveDown(1);
+  }
+  
+  // Add the date the chart is progressed to
+  doc.fontSize(16)
+     .font('Helvetica-Bold')
+     .text('Progressed Chart')
+     .font('Helvetica')
+     .fontSize(12)
+     .moveDown(0.5);
+  
+  if (data.progression_data) {
+    doc.text(`Progressed to: ${data.progression_data.date}`)
+       .text(`Age: ${data.progression_data.age.toFixed(1)} years`)
+       .text(`Solar arc: ${data.progression_data.solar_arc.toFixed(2)}°`)
+       .moveDown(1);
+  }
+  
+  // Add bi-wheel with the progressed chart inside and the natal chart outside
+  const inner = data.progressed_chart && toWheelChart(data.progressed_chart);
+  const outer = data.natal_chart && toWheelChart(data.natal_chart);
+  if (inner && outer) {
+    addChartWheel(doc, {
+      ...inner,
+      outerPlanets: outer.planets,
+      aspects: (data.progressed_aspects || []).map((aspect: any) => ({
+        planet1: aspect.point,
+        planet2: aspect.natalPoint,
+        aspect: aspect.aspect,
+      })),
+    });
+  }
+  
+  // Add progressed positions
+  doc.fontSize(16)
+     .font('Helvetica-Bold')
+     .text('Progressed Positions')
+     .font('Helvetica')
+     .fontSize(12)
+     .moveDown(0.5);
+  
+  if (data.progressed_chart?.planets) {
+    Object.entries(data.progressed_chart.planets).forEach(([planet, info]: [string, any]) => {
+      doc.text(`${name(planet)}: ${info.sign} ${info.degrees.toFixed(2)}° (House ${info.house})`)
+         .moveDown(0.2);
+    });
+    doc.text(`Ascendant: ${data.progressed_chart.houses['1'].sign} ${data.progressed_chart.houses['1'].degrees.toFixed(2)}°`)
+       .text(`Midheaven: ${data.progressed_chart.houses['10'].sign} ${data.progressed_chart.houses['10'].degrees.toFixed(2)}°`);
+  }
+  
+  doc.moveDown(1);
+  
+  // Add progressed aspects to the natal chart
+  doc.fontSize(16)
+     .font('Helvetica-Bold')
+     .text('Progressed Aspects')
+     .font('Helvetica')
+     .fontSize(12)
+     .moveDown(0.5);
+  
+  if (data.progressed_aspects?.length) {
+    data.progressed_aspects.forEach((aspect: any) => {
+      doc.text(`Progressed ${name(aspect.point)} ${aspect.aspect} natal ${name(aspect.natalPoint)} (Orb: ${aspect.orb.toFixed(2)}°)`)
+         .moveDown(0.2);
+    });
+  } else {
+    doc.text('No progressed aspects within orb');
+  }
+  
+  doc.moveDown(1);
+  
+  // Add the progressed Moon and its ingresses and phases
+  doc.fontSize(16)
+     .font('Helvetica-Bold')
+     .text('Progressed Moon')
+     .font('Helvetica')
+     .fontSize(12)
+     .moveDown(0.5);
+  
+  if (data.progressed_moon) {
+    const moon = data.progressed_moon;
+    doc.text(`Progressed Moon: ${moon.sign} ${moon.signDegree.toFixed(2)}°, ${moon.phase.replace(/_/g, ' ')} phase`)
+       .moveDown(0.5);
+    
+    moon.events.forEach((event: any) => {
+      doc.text(event.kind === ProgressedMoonEventKind.INGRESS
+        ? `${event.date}: progressed Moon enters ${name(event.sign)}`
+        : `${event.date}: progressed ${event.phase.replace(/_/g, ' ')} in ${name(event.sign)}`)
+         .moveDown(0.2);
+    });
+  }
+  
+  doc.moveDown(1);
+  
+  // Add solar arc directions in effect
+  doc.fontSize(16)
+     .font('Helvetica-Bold')
+     .text('Solar Arc Directions')
+     .font('Helvetica')
+     .fontSize(12)
+     .moveDown(0.5);
+  
+  if (data.solar_arc) {
+    if (data.solar_arc.aspects.length) {
+      data.solar_arc.aspects.forEach((aspect: any) => {
+        doc.text(`Directed ${name(aspect.point)} ${aspect.aspect} natal ${name(aspect.natalPoint)} (Orb: ${aspect.orb.toFixed(2)}°)`)
+           .moveDown(0.2);
+      });
+    } else {
+      doc.text('No solar arc directions within orb');
+    }
+    
+    doc.moveDown(1);
+    
+    // Add directions perfecting in the period
+    doc.fontSize(16)
+       .font('Helvetica-Bold')
+       .text('Upcoming Directions')
+       .font('Helvetica')
+       .fontSize(12)
+       .moveDown(0.5);
+    
+    data.solar_arc.upcoming.forEach((aspect: any) => {
+      doc.text(`${aspect.exactDate}: directed ${name(aspect.point)} ${aspect.aspect} natal ${name(aspect.natalPoint)}`)
+         .moveDown(0.2);
+    });
+  }
+};
+
+/**
+ * Add election report content to PDF
+ * 
+ * @param doc - PDF document
+ * @param data - Election search data
+ */
+const addElectionReportContent = (doc: PDFKit.PDFDocument, data: any): void => {
+  const timeZone = data.search_data?.timezone || 'UTC';
+  const formatTime = (iso: string) => new Date(iso).toLocaleString('en-GB', {
+    timeZone,
+    dateStyle: 'medium',
+    timeStyle: 'short',
+  });
+  const formatHour = (iso: string) => new Date(iso).toLocaleString('en-GB', { timeZone, timeStyle: 'short' });
+  
+  // Add search information
+  doc.fontSize(16)
+     .font('Helvetica-Bold')
+     .text('Search')
+     .font('Helvetica')
+     .fontSize(12)
+     .moveDown(0.5);
+  
+  if (data.search_data) {
+    const search = data.search_data;
+    doc.text(`Event: ${search.event_type.charAt(0).toUpperCase() + search.event_type.slice(1)}`)
+       .text(`Location: ${search.location.name || 'Custom location'}`)
+       .text(`Dates: ${search.start_date} to ${search.end_date} (${timeZone})`)
+       .text(`Founders: ${search.founders || 'None given'}`)
+       .moveDown(1);
+  }
+  
+  // Add the best windows with the reasons for their best hour
+  doc.fontSize(16)
+     .font('Helvetica-Bold')
+     .text('Best Windows')
+     .font('Helvetica')
+     .fontSize(12)
+     .moveDown(0.5);
+  
+  if (data.windows?.length) {
+    data.windows.forEach((window: any, index: number) => {
+      doc.font('Helvetica-Bold')
+         .text(`${index + 1}. ${formatTime(window.start)} to ${formatHour(window.end)} (Score: ${window.score})`)
+         .font('Helvetica')
+         .text(`Best hour: ${formatHour(window.best)}, ${window.ascendant} rising, Moon in ${window.moonSign}`)
+         .moveDown(0.2);
+      
+      window.reasons.forEach((reason: any) => {
+        doc.text(`    ${reason.effect > 0 ? '+' : ''}${reason.effect} ${reason.description}`);
+      });
+      doc.moveDown(0.5);
+    });
+  } else {
+    doc.text('No window in the range scores well enough for this event');
+  }
+  
+  doc.moveDown(1);
+  
+  // Add the periods ruled out
+  doc.fontSize(16)
+     .font('Helvetica-Bold')
+     .text('Periods to Avoid')
+     .font('Helvetica')
+     .fontSize(12)
+     .moveDown(0.5);
+  
+  (data.exclusions || []).forEach((exclusion: any) => {
+    const reason = exclusion.reason === ElectionExclusionReason.MERCURY_RETROGRADE
+      ? 'Mercury retrograde'
+      : 'Void-of-course Moon';
+    doc.text(`${formatTime(exclusion.start)} to ${formatTime(exclusion.end)}: ${reason}`)
+       .moveDown(0.2);
+  });
+};
+
+/**
+ * Add relocation report content to PDF
+ * 
+ * @param doc - PDF document
+ * @param data - Relocated chart and cities per theme
+ */
+const addRelocationReportContent = (doc: PDFKit.PDFDocument, data: any): void => {
+  const name = (planet: string) => planet.charAt(0).toUpperCase() + planet.slice(1);
+  const angleNames: Record<AstroLineAngle, string> = {
+    [AstroLineAngle.ASCENDANT]: 'Ascendant',
+    [AstroLineAngle.DESCENDANT]: 'Descendant',
+    [AstroLineAngle.MIDHEAVEN]: 'Midheaven',
+    [AstroLineAngle.IMUM_COELI]: 'IC',
+  };
+  const themeIntros: Record<string, string> = {
+    love: 'Places on your Venus lines, or where the Moon sets, favour romance and partnership.',
+    career: 'Places where the Sun, Jupiter or Saturn culminate favour recognition and career.',
+    home: 'Places where the Moon, Venus or Jupiter sit at the IC favour roots and family life.',
+    growth: 'Places on your Jupiter lines, or where the Sun rises, favour opportunity and confidence.',
+  };
+  
+  // Add birth information
+  doc.fontSize(16)
+     .font('Helvetica-Bold')
+     .text('Birth Information')
+     .font('Helvetica')
+     .fontSize(12)
+     .moveDown(0.5);
+  
+  if (data.natal_chart) {
+    const { birth_data: birth } = data.natal_chart;
+    doc.text(`Date: ${birth.date}`)
+       .text(`Time: ${birth.time}`)
+       .text(`Location: ${birth.location.name || 'Custom location'}`)
+       .moveDown(1);
+  }
+  
+  // Add the chart at the new place
+  if (data.relocated_chart) {
+    doc.fontSize(16)
+       .font('Helvetica-Bold')
+       .text('Relocated Chart')
+       .font('Helvetica')
+       .fontSize(12)
+       .moveDown(0.5);
+    
+    const { birth_data: place, houses } = data.relocated_chart;
+    doc.text(`Location: ${place.location.name || `${place.location.latitude}, ${place.location.longitude}`}`)
+       .text(`Ascendant: ${houses['1'].sign} ${houses['1'].degrees.toFixed(2)}°`)
+       .text(`Midheaven: ${houses['10'].sign} ${houses['10'].degrees.toFixed(2)}°`)
+       .moveDown(0.5);
+    
+    const wheel = toWheelChart(data.relocated_chart);
+    if (wheel) {
+      addChartWheel(doc, wheel);
+    }
+    
+    if (data.angular_planets?.length) {
+      data.angular_planets.forEach((angular: any) => {
+        doc.text(`${name(angular.planet)} on the ${angleNames[angular.angle as AstroLineAngle]} (Orb: ${angular.orb.toFixed(2)}°)`)
+           .moveDown(0.2);
+      });
+    } else {
+      doc.text('No planet is on an angle at this place');
+    }
+    
+    doc.moveDown(1);
+  }
+  
+  // Add the best cities for each theme
+  (data.themes || []).forEach((theme: any) => {
+    doc.fontSize(16)
+       .font('Helvetica-Bold')
+       .text(`Top Cities for ${name(theme.theme)}`)
+       .font('Helvetica')
+       .fontSize(12)
+       .moveDown(0.5);
+    
+    doc.text(themeIntros[theme.theme] || '')
+       .moveDown(0.5);
+    
+    if (theme.cities.length) {
+      theme.cities.forEach((city: any, index: number) => {
+        doc.text(`${index + 1}. ${city.name} (${city.country}): ${name(city.planet)} on the ${angleNames[city.angle as AstroLineAngle]}, ${city.distance} km from the line`)
+           .moveDown(0.2);
+      });
+    } else {
+      doc.text('No listed city lies near these lines');
+    }
+    
+    doc.moveDown(1);
+  });
+};
+
+/**
+ * Add numerology report content to PDF
+ * 
+ * @param doc - PDF document
+ * @param data - Numerology data
+ */
+const addNumerologyReportContent = (doc: PDFKit.PDFDocument, data: any): void => {
+  const addNumber = (label: string, number: any) => {
+    doc.font('Helvetica-Bold')
+       .text(`${label}: ${number.value} (${number.keyword})`)
+       .font('Helvetica')
+       .text(number.meaning)
+       .moveDown(0.5);
+  };
+  
+  // Add birth information
+  doc.fontSize(16)
+     .font('Helvetica-Bold')
+     .text('Birth Information')
+     .font('Helvetica')
+     .fontSize(12)
+     .moveDown(0.5);
+  
+  if (data.birth_data) {
+    doc.text(`Name: ${data.birth_data.name || 'Not given'}`)
+       .text(`Date: ${data.birth_data.date}`)
+       .moveDown(1);
+  }
+  
+  // Add the core numbers
+  doc.fontSize(16)
+     .font('Helvetica-Bold')
+     .text('Core Numbers')
+     .font('Helvetica')
+     .fontSize(12)
+     .moveDown(0.5);
+  
+  if (data.numerology) {
+    addNumber('Life Path', data.numerology.lifePath);
+    if (data.numerology.expression) {
+      addNumber('Expression', data.numerology.expression);
+    }
+    if (data.numerology.soulUrge) {
+      addNumber('Soul Urge', data.numerology.soulUrge);
+    }
+    if (!data.numerology.expression) {
+      doc.text('Expression and soul urge numbers need the full birth name')
+         .moveDown(0.5);
+    }
+    
+    doc.moveDown(0.5);
+    
+    // Add the personal cycles on the report date
+    doc.fontSize(16)
+       .font('Helvetica-Bold')
+       .text(`Personal Cycles on ${data.numerology.date}`)
+       .font('Helvetica')
+       .fontSize(12)
+       .moveDown(0.5);
+    
+    addNumber('Personal Year', data.numerology.personalYear);
+    addNumber('Personal Month', data.numerology.personalMonth);
+    addNumber('Personal Day', data.numerology.personalDay);
+  }
+  
+  doc.moveDown(0.5);
+  
+  // Add the coming personal years
+  doc.fontSize(16)
+     .font('Helvetica-Bold')
+     .text('Personal Year Cycle')
+     .font('Helvetica')
+     .fontSize(12)
+     .moveDown(0.5);
+  
+  (data.personal_years || []).forEach((year: any) => {
+    doc.text(`${year.year}: ${year.value} (${year.keyword})`)
+       .moveDown(0.2);
+  });
+};
+
+/**
+ * Add solar or lunar return report content to PDF
+ * 
+ * @param doc - PDF document
+ * @param data - Return chart data
+ */
+const addReturnReportContent = (doc: PDFKit.PDFDocument, data: any): void => {
+  const solar = data.return_data?.type === PlanetaryReturnType.SOLAR;
+  const period = solar ? 'year' : 'month';
+  
+  // Add birth information
+  doc.fontSize(16)
+     .font('Helvetica-Bold')
+     .text('Birth Information')
+     .font('Helvetica')
+     .fontSize(12)
+     .moveDown(0.5);
+  
+  if (data.natal_chart) {
+    const { birth_data: birth } = data.natal_chart;
+    doc.text(`Date: ${birth.date}`)
+       .text(`Time: ${birth.time}`)
+       .text(`Location: ${birth.location.name || 'Custom location'}`)
+       .moveDown(1);
+  }
+  
+  // Add the moment and place of the return
+  doc.fontSize(16)
+     .font('Helvetica-Bold')
+     .text(solar ? 'Solar Return' : 'Lunar Return')
+     .font('Helvetica')
+     .fontSize(12)
+     .moveDown(0.5);
+  
+  if (data.return_data && data.return_chart) {
+    const { location } = data.return_chart.birth_data;
+    doc.text(`${solar ? 'Year' : 'Month'}: ${data.return_data.period}`)
+       .text(`Exact return: ${data.return_data.moment.replace('T', ' ').substring(0, 19)} UTC`)
+       .text(`Location: ${location.name || 'Custom location'} (${location.latitude.toFixed(2)}°, ${location.longitude.toFixed(2)}°)`)
+       .text(data.return_data.relocated ? 'Relocated return, cast for where it is spent' : 'Cast for the birth place')
+       .moveDown(1);
+  }
+  
+  // Add bi-wheel with the return chart inside and natal planets outside
+  const inner = data.return_chart && toWheelChart(data.return_chart);
+  const outer = data.natal_chart && toWheelChart(data.natal_chart);
+  if (inner && outer) {
+    addChartWheel(doc, {
+      ...inner,
+      outerPlanets: outer.planets,
+      aspects: data.natal_aspects,
+    });
+  }
+  
+  // Add the themes of the period from the angles and the returning body
+  doc.fontSize(16)
+     .font('Helvetica-Bold')
+     .text('Key Themes')
+     .font('Helvetica')
+     .fontSize(12)
+     .moveDown(0.5);
+  
+  if (data.return_chart) {
+    const { houses, planets } = data.return_chart;
+    const body = solar ? planets.sun : planets.moon;
+    doc.text(`Ascendant in ${houses['1'].sign}: the tone and approach of the ${period}`)
+       .text(`Midheaven in ${houses['10'].sign}: the goals of the ${period}`);
+    if (body?.house) {
+      doc.text(`${solar ? 'Sun' : 'Moon'} in house ${body.house}: the ${period} centres on ${HOUSE_AREAS[body.house - 1]}`);
+    }
+    doc.moveDown(1);
+  }
+  
+  // Add planetary positions
+  doc.fontSize(16)
+     .font('Helvetica-Bold')
+     .text('Return Chart Positions')
+     .font('Helvetica')
+     .fontSize(12)
+     .moveDown(0.5);
+  
+  if (data.return_chart?.planets) {
+    Object.entries(data.return_chart.planets).forEach(([planet, info]: [string, any]) => {
+      doc.text(`${planet.charAt(0).toUpperCase() + planet.slice(1)}: ${info.sign} ${info.degrees.toFixed(2)}° (House ${info.house})`)
+         .moveDown(0.2);
+    });
+  }
+  
+  doc.moveDown(1);
+  
+  // Add aspects from the return planets to the natal planets
+  doc.fontSize(16)
+     .font('Helvetica-Bold')
+     .text('Return to Natal Aspects')
+     .font('Helvetica')
+     .fontSize(12)
+     .moveDown(0.5);
+  
+  if (data.natal_aspects) {
+    data.natal_aspects.forEach((aspect: any) => {
+      doc.text(`Return ${aspect.planet1} ${aspect.aspect} natal ${aspect.planet2} (Orb: ${aspect.orb.toFixed(2)}°)`)
+         .moveDown(0.2);
+    });
+  }
+  
+  doc.moveDown(1);
+  
+  // Add aspects within the return chart
+  doc.fontSize(16)
+     .font('Helvetica-Bold')
+     .text('Return Chart Aspects')
+     .font('Helvetica')
+     .fontSize(12)
+     .moveDown(0.5);
+  
+  if (data.return_chart?.aspects) {
+    data.return_chart.aspects.forEach((aspect: any) => {
+      doc.text(`${aspect.planet1} ${aspect.aspect} ${aspect.planet2} (Orb: ${aspect.orb.toFixed(2)}°)`)
+         .moveDown(0.2);
+    });
+  }
+};
+
+/**
+ * Draw a chart wheel centered on the page, starting a new page if it does
+ * not fit below the current content
+ * 
+ * @param doc - PDF document
+ * @param chart - Chart to draw
+ */
+const addChartWheel = (doc: PDFKit.PDFDocument, chart: WheelChart): void => {
+  const size = 320;
+  if (doc.y + size > doc.page.height - doc.page.margins.bottom) {
+    doc.addPage();
+  }
+  
+  drawChartWheelOnPdf(doc, chart, (doc.page.width - size) / 2, doc.y, size);
+  doc.y += size;
+  doc.moveDown(1);
+};
+
+/**
+ * Read wheel planets from chart data in the Astro Engine shape. Returns null
+ * when the data has no longitudes to place.
+ */
+const toWheelPlanets = (planets: Record<string, any>): WheelPlanet[] | null => {
+  const wheelPlanets = Object.entries(planets)
+    .filter(([, info]) => typeof info?.longitude === 'number')
+    .map(([planet, info]) => ({ planet, longitude: info.longitude, retrograde: Boolean(info.retrograde) }));
+  
+  return wheelPlanets.length ? wheelPlanets : null;
+};
+
+/**
+ * Read a wheel chart (planets and house cusps) from chart data in the Astro
+ * Engine shape
+ */
+const toWheelChart = (data: any): WheelChart | null => {
+  const planets = data?.planets && toWheelPlanets(data.planets);
+  if (!planets) {
+    return null;
+  }
+  
+  const cusps = Array.from({ length: 12 }, (_, index) => data.houses?.[String(index + 1)]?.longitude);
+  
+  return {
+    planets,
+    cusps: cusps.every(cusp => typeof cusp === 'number') ? cusps : undefined,
+  };
+};
+
+/**
+ * First day of a calendar month and of the month after it (YYYY-MM-DD)
+ */
+const monthRange = (year: number, month: number): [string, string] => [
+  new Date(Date.UTC(year, month - 1, 1)).toISOString().split('T')[0],
+  new Date(Date.UTC(year, month, 1)).toISOString().split('T')[0],
+];
+
+/**
+ * Content of every report type, keyed like the registry so a type cannot be
+ * registered without its content or the other way round
+ */
+const REPORT_CONTENT: { [Type in keyof typeof REPORT_TYPE_INFO]: ReportContent } = {
+  [ReportType.NATAL]: {
+    schema: natalReportSchema,
+    describe: parameters => ({
+      title: 'Natal Chart Report',
+      description: `Planets, houses and aspects of the birth chart for ${parameters.birthDate}${parameters.locationName ? ` in ${parameters.locationName}` : ''}.`,
+    }),
+    fetchData: calculateNatalReport,
+    render: addNatalReportContent,
+    remote: () => true,
+  },
+  [ReportType.MONTHLY]: {
+    schema: monthlyReportSchema,
+    profileBirthData: true,
+    describe: parameters => ({
+      title: `${MONTH_NAMES[parameters.month - 1]} ${parameters.year} Horoscope Report`,
+      description: `Your comprehensive astrological forecast for ${MONTH_NAMES[parameters.month - 1]} ${parameters.year}.`,
+    }),
+    fetchData: parameters => calculateForecastReport(parameters, ...monthRange(parameters.year, parameters.month)),
+    render: addForecastReportContent,
+  },
+  [ReportType.YEARLY]: {
+    schema: yearlyReportSchema,
+    profileBirthData: true,
+    describe: parameters => ({
+      title: `${parameters.year} Annual Horoscope Report`,
+      description: `Your comprehensive astrological forecast for the year ${parameters.year}.`,
+    }),
+    fetchData: parameters => calculateForecastReport(parameters, monthRange(parameters.year, 1)[0], monthRange(parameters.year + 1, 1)[0]),
+    render: addForecastReportContent,
+  },
+  [ReportType.COMPATIBILITY]: {
+    schema: compatibilityReportSchema,
+    describe: parameters => {
+      if (isSignReport(parameters)) {
+        const sign1 = parameters.sign1.charAt(0).toUpperCase() + parameters.sign1.slice(1);
+        const sign2 = parameters.sign2.charAt(0).toUpperCase() + parameters.sign2.slice(1);
+        return {
+          title: `${sign1} and ${sign2} Compatibility Report`,
+          description: `A detailed analysis of the astrological compatibility between ${parameters.sign1} and ${parameters.sign2}.`,
+        };
+      }
+      
+      return isTeamReport(parameters)
+        ? {
+          title: `${parameters.teamName || 'Team'} Compatibility Report`,
+          description: `Pairwise compatibility, clusters and communication friction of ${parameters.members.length} team members.`,
+        }
+        : {
+          title: 'Compatibility Report',
+          description: 'In-depth analysis of the astrological compatibility of two people, covering emotional, intellectual, and physical harmony.',
+        };
+    },
+    fetchData: calculateCompatibilityReport,
+    render: (doc, data) => {
+      if (data.team) {
+        addTeamCompatibilityReportContent(doc, data);
+      } else if (data.sign_compatibility) {
+        addSignCompatibilityReportContent(doc, data);
+      } else {
+        addCompatibilityReportContent(doc, data);
+      }
+    },
+    // The Astro Engine compares the charts of two people, so team and sign
+    // reports are calculated locally
+    remote: parameters => !isTeamReport(parameters) && !isSignReport(parameters),
+    deprecation: parameters => isSignReport(parameters) ? SIGN_REPORT_DEPRECATION : undefined,
+  },
+  [ReportType.TRANSIT]: {
+    schema: transitReportSchema,
+    describe: parameters => {
+      const date = parameters.transitDate || new Date().toISOString().split('T')[0];
+      return {
+        title: `Transit Report - ${date}`,
+        description: `Transits to your birth chart on ${date} and the exact transits of the ${EXACT_TRANSIT_DAYS} days after it.`,
+      };
+    },
+    fetchData: calculateTransitReport,
+    render: addTransitReportContent,
+    remote: () => true,
+  },
+  [ReportType.PROGRESSIONS]: {
+    schema: progressionsReportSchema,
+    describe: parameters => ({
+      title: 'Progressions Report',
+      description: `Secondary progressions and solar arc directions, with the events of the next ${parameters.progressionYears || PROGRESSION_YEARS} years.`,
+    }),
+    fetchData: calculateProgressionsReport,
+    render: addProgressionsReportContent,
+  },
+  [ReportType.SOLAR_RETURN]: {
+    schema: solarReturnReportSchema,
+    describe: parameters => {
+      const year = parameters.returnYear || new Date().toISOString().substring(0, 4);
+      return {
+        title: `Solar Return Report - ${year}`,
+        description: `The chart of your Sun's return in ${year} and the themes of the year that follows.`,
+      };
+    },
+    fetchData: parameters => calculateReturnReport(parameters, PlanetaryReturnType.SOLAR),
+    render: addReturnReportContent,
+  },
+  [ReportType.LUNAR_RETURN]: {
+    schema: lunarReturnReportSchema,
+    describe: parameters => {
+      const month = parameters.returnMonth || new Date().toISOString().substring(0, 7);
+      return {
+        title: `Lunar Return Report - ${month}`,
+        description: `The chart of your Moon's return in ${month} and the themes of the month that follows.`,
+      };
+    },
+    fetchData: parameters => calculateReturnReport(parameters, PlanetaryReturnType.LUNAR),
+    render: addReturnReportContent,
+  },
+  [ReportType.CAREER]: {
+    schema: careerReportSchema,
+    describe: parameters => isSignReport(parameters)
+      ? {
+        title: `${parameters.sign.charAt(0).toUpperCase() + parameters.sign.slice(1)} Career Report`,
+        description: `A comprehensive career forecast and guidance for ${parameters.sign}.`,
+      }
+      : {
+        title: 'Career Path Report',
+        description: 'Astrological insights into your career path, work routines and earnings, read from the 10th, 6th and 2nd houses of your chart.',
+      },
+    fetchData: parameters => calculateHouseFocusReport(parameters, CAREER_HOUSES),
+    render: addHouseFocusReportContent,
+    deprecation: parameters => isSignReport(parameters) ? SIGN_REPORT_DEPRECATION : undefined,
+  },
+  [ReportType.RELATIONSHIP]: {
+    schema: pairReportSchema,
+    describe: () => ({
+      title: 'Relationship Report',
+      description: 'The composite and Davison charts of two people, the charts of the relationship itself.',
+    }),
+    fetchData: calculateRelationshipReport,
+    render: addRelationshipReportContent,
+  },
+  [ReportType.FINANCIAL]: {
+    schema: natalReportSchema,
+    describe: () => ({
+      title: 'Financial Report',
+      description: 'Astrological insights into your money, shared resources and gains, read from the 2nd, 8th and 11th houses of your chart.',
+    }),
+    fetchData: parameters => calculateHouseFocusReport(parameters, FINANCIAL_HOUSES),
+    render: addHouseFocusReportContent,
+  },
+  [ReportType.DASHA]: {
+    schema: dashaReportSchema,
+    describe: () => ({
+      title: 'Vimshottari Dasha Report',
+      description: 'Your timeline of planetary periods and the periods running now.',
+    }),
+    fetchData: calculateDashaReport,
+    render: addDashaReportContent,
+  },
+  [ReportType.ELECTION]: {
+    schema: electionReportSchema,
+    describe: parameters => ({
+      title: `${parameters.eventType.charAt(0).toUpperCase() + parameters.eventType.slice(1)} Election Report`,
+      description: `The best times for a ${parameters.eventType}${parameters.locationName ? ` in ${parameters.locationName}` : ''}, within working hours.`,
+    }),
+    fetchData: calculateElectionReport,
+    render: addElectionReportContent,
+  },
+  [ReportType.NUMEROLOGY]: {
+    schema: numerologyReportSchema,
+    describe: parameters => ({
+      title: parameters.name ? `Numerology Report for ${parameters.name}` : 'Numerology Report',
+      description: `Your core numbers and a ${PERSONAL_YEAR_CYCLE}-year cycle of personal years.`,
+    }),
+    fetchData: calculateNumerologyReport,
+    render: addNumerologyReportContent,
+  },
+  [ReportType.RELOCATION]: {
+    schema: relocationReportSchema,
+    describe: parameters => ({
+      title: parameters.relocationLocationName ? `Relocation Report - ${parameters.relocationLocationName}` : 'Relocation Report',
+      description: 'Your chart at a new place and the cities near your astrocartography lines.',
+    }),
+    fetchData: calculateRelocationReport,
+    render: addRelocationReportContent,
+  },
+  [ReportType.CORPORATE]: {
+    schema: corporateReportSchema,
+    describe: parameters => ({
+      title: `${parameters.company.name} Corporate Report`,
+      description: `The incorporation chart of ${parameters.company.name} compared with each founder and key employee.`,
+    }),
+    fetchData: calculateCorporateReport,
+    render: addCorporateReportContent,
+  },
+};
+
+/**
+ * Every report type registered in utils/report-types.ts with its name,
+ * priority, parameters, title, data and PDF content
+ */
+export const REPORT_TYPES = Object.fromEntries(
+  (Object.keys(REPORT_TYPE_INFO) as ReportType[]).map(type => [type, { ...REPORT_TYPE_INFO[type], ...REPORT_CONTENT[type] }])
+) as Record<ReportType, ReportDefinition>;
@@ -0,0 +1,46 @@
+import { ReportType } from '../types';
+
+/**
+ * Name and queue priority of each report type. This registry is kept apart
+ * from the report generator, which adds the content of each type under the
+ * same keys, so the migration runner can sync the report_types table
+ * without loading PDFKit and the report calculations.
+ */
+export interface ReportTypeInfo {
+  name: string;
+  priority?: (parameters: any) => number | undefined; // queue priority, none runs first
+}
+
+// Team reports compare every pair of members, so they wait behind reports on
+// one or two people (BullMQ runs jobs without a priority first)
+const TEAM_REPORT_PRIORITY = 10;
+
+/**
+ * Whether compatibility report parameters compare a team rather than two
+ * people
+ */
+export const isTeamReport = (parameters: any): boolean => Array.isArray(parameters.members);
+
+// Registry of report types; types added here are accepted by the API, listed
+// by GET /reports/types and synced to the report_types table
+export const REPORT_TYPE_INFO: Record<ReportType, ReportTypeInfo> = {
+  [ReportType.NATAL]: { name: 'Natal Chart' },
+  [ReportType.MONTHLY]: { name: 'Monthly Forecast' },
+  [ReportType.YEARLY]: { name: 'Yearly Forecast' },
+  [ReportType.COMPATIBILITY]: {
+    name: 'Compatibility',
+    priority: parameters => isTeamReport(parameters) ? TEAM_REPORT_PRIORITY : undefined,
+  },
+  [ReportType.TRANSIT]: { name: 'Transits' },
+  [ReportType.PROGRESSIONS]: { name: 'Progressions' },
+  [ReportType.SOLAR_RETURN]: { name: 'Solar Return' },
+  [ReportType.LUNAR_RETURN]: { name: 'Lunar Return' },
+  [ReportType.CAREER]: { name: 'Career' },
+  [ReportType.RELATIONSHIP]: { name: 'Relationship' },
+  [ReportType.FINANCIAL]: { name: 'Financial' },
+  [ReportType.DASHA]: { name: 'Vimshottari Dasha' },
+  [ReportType.ELECTION]: { name: 'Election' },
+  [ReportType.NUMEROLOGY]: { name: 'Numerology' },
+  [ReportType.RELOCATION]: { name: 'Relocation' },
+  [ReportType.CORPORATE]: { name: 'Corporate' },
+};
@@ -0,0 +1,158 @@
+/**
+ * Resilience helpers for calls to external providers: timeouts, retries with
+ * exponential backoff and a circuit breaker
+ */
+
+// Error raised when an operation does not finish in time
+export class TimeoutError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'TimeoutError';
+  }
+}
+
+// Error raised when a call is rejected because the circuit is open
+export class CircuitOpenError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'CircuitOpenError';
+  }
+}
+
+export interface RetryOptions {
+  retries: number; // attempts after the first one
+  baseDelayMs: number;
+  maxDelayMs?: number;
+  shouldRetry?: (error: unknown) => boolean;
+}
+
+export interface CircuitBreakerOptions {
+  failureThreshold: number; // consecutive failures before opening
+  resetTimeoutMs: number; // time before a trial call is allowed
+}
+
+export enum CircuitState {
+  CLOSED = 'closed',
+  OPEN = 'open',
+  HALF_OPEN = 'half_open',
+}
+
+const sleep = (ms: number): Promise<void> => new Promise(resolve => setTimeout(resolve, ms));
+
+/**
+ * Run an operation with a time limit. The operation receives an abort signal
+ * that fires when the limit is reached, so HTTP requests can be cancelled.
+ *
+ * @param operation - Operation to run
+ * @param timeoutMs - Time limit in milliseconds
+ * @param description - Used in the timeout error message
+ */
+export const withTimeout = async <T>(
+  operation: (signal: AbortSignal) => Promise<T>,
+  timeoutMs: number,
+  description = 'Operation'
+): Promise<T> => {
+  const controller = new AbortController();
+  let timer: NodeJS.Timeout | undefined;
+
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => {
+      controller.abort();
+      reject(new TimeoutError(`${description} timed out after ${timeoutMs}ms`));
+    }, timeoutMs);
+  });
+
+  try {
+    return await Promise.race([operation(controller.signal), timeout]);
+  } finally {
+    clearTimeout(timer);
+  }
+};
+
+/**
+ * Run an operation, retrying failures with exponential backoff
+ *
+ * @param operation - Operation to run, given the zero-based attempt number
+ * @param options - Retry count, delays and retry predicate
+ */
+export const retryWithBackoff = async <T>(
+  operation: (attempt: number) => Promise<T>,
+  options: RetryOptions
+): Promise<T> => {
+  const { retries, baseDelayMs, maxDelayMs = 10000, shouldRetry = () => true } = options;
+
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await operation(attempt);
+    } catch (error) {
+      if (attempt >= retries || !shouldRetry(error)) {
+        throw error;
+      }
+      await sleep(Math.min(baseDelayMs * 2 ** attempt, maxDelayMs));
+    }
+  }
+};
+
+/**
+ * Circuit breaker that stops calling a failing dependency for a while.
+ * After the reset timeout one trial call is let through: success closes the
+ * circuit again, failure re-opens it. Other calls are rejected while the
+ * trial runs.
+ */
+export class CircuitBreaker {
+  private state = CircuitState.CLOSED;
+  private failures = 0;
+  private openedAt = 0;
+  private trialInFlight = false;
+
+  constructor(
+    private readonly name: string,
+    private readonly options: CircuitBreakerOptions,
+    private readonly now: () => number = Date.now
+  ) {}
+
+  /**
+   * Current state of the circuit
+   */
+  getState(): CircuitState {
+    if (this.state === CircuitState.OPEN && this.now() - this.openedAt >= this.options.resetTimeoutMs) {
+      this.state = CircuitState.HALF_OPEN;
+    }
+    return this.state;
+  }
+
+  /**
+   * Run an operation through the breaker
+   * @param operation The call to protect
+   * @returns Promise with the operation result
+   */
+  async execute<T>(operation: () => Promise<T>): Promise<T> {
+    const state = this.getState();
+    if (state === CircuitState.OPEN || (state === CircuitState.HALF_OPEN && this.trialInFlight)) {
+      throw new CircuitOpenError(`Circuit for ${this.name} is open`);
+    }
+
+    const trial = state === CircuitState.HALF_OPEN;
+    if (trial) {
+      this.trialInFlight = true;
+    }
+
+    try {
+      const result = await operation();
+      this.state = CircuitState.CLOSED;
+      this.failures = 0;
+      return result;
+    } catch (error) {
+      this.failures++;
+      if (trial || this.state === CircuitState.HALF_OPEN || this.failures >= this.options.failureThreshold) {
+        this.state = CircuitState.OPEN;
+        this.openedAt = this.now();
+      }
+      throw error;
+    } finally {
+      if (trial) {
+        this.trialInFlight = false;
+      }
+    }
+  }
+}
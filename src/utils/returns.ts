@@ -0,0 +1,179 @@
+import {
+  angleDifference,
+  calculatePlanetPosition,
+  fromJulianDay,
+  julianDayFromDateTime,
+  normalizeDegrees,
+  Planet,
+} from './ephemeris';
+import {
+  BirthData,
+  birthDataAtMoment,
+  calculateAspects,
+  calculateNatalChart,
+  ChartAspect,
+  ChartOptions,
+  NatalChart,
+} from './chart-calculator';
+import { calculateAyanamsa, ZodiacType } from './zodiac';
+
+/**
+ * Solar and lunar returns
+ *
+ * A return is the moment the transiting Sun (or Moon) comes back to its
+ * natal longitude, once a year for the Sun and about every 27.3 days for
+ * the Moon. The return chart is cast for that moment at the birth place or,
+ * for a relocated return, wherever the person spends it. Sidereal returns
+ * follow the sidereal longitude, so precession moves them about 20 minutes
+ * later each year.
+ */
+
+export enum PlanetaryReturnType {
+  SOLAR = 'solar',
+  LUNAR = 'lunar',
+}
+
+// Where a return chart is cast
+export interface ReturnPlace {
+  latitude: number;
+  longitude: number;
+  locationName?: string;
+}
+
+export interface ReturnChart {
+  type: PlanetaryReturnType;
+  moment: string; // ISO 8601
+  relocated: boolean; // cast away from the birth place
+  natal: NatalChart;
+  chart: NatalChart; // the return chart, birth data in UTC
+  natalAspects: ChartAspect[]; // return planets to natal planets
+}
+
+const RETURN_PLANETS: Record<PlanetaryReturnType, Planet> = {
+  [PlanetaryReturnType.SOLAR]: Planet.SUN,
+  [PlanetaryReturnType.LUNAR]: Planet.MOON,
+};
+
+// Mean daily motion of the Moon, for the first guess of a lunar return
+const MOON_MEAN_MOTION = 13.176;
+
+// Newton steps stop once the longitude is this close, about 0.1 s for the Moon
+const PRECISION = 1e-6;
+const MAX_ITERATIONS = 20;
+
+/**
+ * Find the moment a planet reaches a longitude, starting from a guess close
+ * enough that no other crossing lies in between
+ *
+ * @param planet - Sun or Moon
+ * @param target - Longitude to reach, in the zodiac of offsetAt
+ * @param guess - First guess (Julian Day, UT)
+ * @param offsetAt - Degrees subtracted from tropical longitudes at a moment
+ */
+const solveReturn = (
+  planet: Planet,
+  target: number,
+  guess: number,
+  offsetAt: (jd: number) => number
+): number => {
+  let jd = guess;
+  for (let i = 0; i < MAX_ITERATIONS; i++) {
+    const position = calculatePlanetPosition(planet, jd);
+    const distance = angleDifference(position.longitude - offsetAt(jd), target);
+    if (Math.abs(distance) < PRECISION) {
+      break;
+    }
+    jd += distance / position.speed;
+  }
+  return jd;
+};
+
+/**
+ * Zodiac offset of chart options as a function of time
+ */
+const zodiacOffsetAt = (options: ChartOptions) => (jd: number): number =>
+  options.zodiacType === ZodiacType.SIDEREAL ? calculateAyanamsa(jd, options.ayanamsa) : 0;
+
+/**
+ * Find the solar return in a year: the moment the Sun is back at its natal
+ * longitude, within a day of the birthday
+ *
+ * @param natalLongitude - Natal Sun longitude in the zodiac of the options
+ * @param birthDate - Date of birth (YYYY-MM-DD)
+ * @param year - Year of the return
+ * @param options - Zodiac of the natal longitude
+ * @returns Julian Day (UT) of the return
+ */
+export const findSolarReturn = (
+  natalLongitude: number,
+  birthDate: string,
+  year: number,
+  options: ChartOptions = {}
+): number => {
+  // 29 February rolls over to 1 March in common years, still within a day
+  const birthday = julianDayFromDateTime(`${year}-${birthDate.substring(5)}`);
+  return solveReturn(Planet.SUN, natalLongitude, birthday, zodiacOffsetAt(options));
+};
+
+/**
+ * Find the first lunar return in a month (UTC)
+ *
+ * @param natalLongitude - Natal Moon longitude in the zodiac of the options
+ * @param month - Month of the return (YYYY-MM)
+ * @param options - Zodiac of the natal longitude
+ * @returns Julian Day (UT) of the return
+ */
+export const findLunarReturn = (
+  natalLongitude: number,
+  month: string,
+  options: ChartOptions = {}
+): number => {
+  const offsetAt = zodiacOffsetAt(options);
+  const start = julianDayFromDateTime(`${month}-01`, '00:00');
+  const moon = calculatePlanetPosition(Planet.MOON, start).longitude - offsetAt(start);
+  // Arc the Moon still has to travel to reach its natal longitude
+  const arc = normalizeDegrees(natalLongitude - moon);
+  return solveReturn(Planet.MOON, natalLongitude, start + arc / MOON_MEAN_MOTION, offsetAt);
+};
+
+/**
+ * Cast a return chart
+ *
+ * @param type - Solar or lunar return
+ * @param birthData - Date, time and place of birth
+ * @param period - Year (solar, YYYY) or month (lunar, YYYY-MM) of the return
+ * @param place - Place the return is spent, the birth place by default
+ * @param options - House system and zodiac
+ */
+export const calculateReturnChart = (
+  type: PlanetaryReturnType,
+  birthData: BirthData,
+  period: string,
+  place?: ReturnPlace,
+  options: ChartOptions = {}
+): ReturnChart => {
+  const natal = calculateNatalChart(birthData, options);
+  const planet = RETURN_PLANETS[type];
+  const natalLongitude = natal.planets[planet].longitude;
+
+  const julianDay = type === PlanetaryReturnType.SOLAR
+    ? findSolarReturn(natalLongitude, birthData.date, Number(period), options)
+    : findLunarReturn(natalLongitude, period, options);
+
+  const relocated = Boolean(place) &&
+    (place!.latitude !== birthData.latitude || place!.longitude !== birthData.longitude);
+  const chart = calculateNatalChart(birthDataAtMoment(julianDay, place || {
+    latitude: birthData.latitude,
+    longitude: birthData.longitude,
+    locationName: birthData.locationName,
+  }), options);
+
+  return {
+    type,
+    moment: fromJulianDay(julianDay).toISOString(),
+    relocated,
+    natal,
+    chart,
+    natalAspects: calculateAspects(chart.planets, natal.planets),
+  };
+};
@@ -1,4 +1,17 @@
 import { NotificationService } from '../services/notificationService';
+import { getPeriodHoroscope, HoroscopePeriod, ZodiacSign } from '../services/horoscope.service';
+import { getMoonDay } from '../services/moon.service';
+import { getUnnotifiedEvents, markEventsNotified, storeUpcomingEvents } from '../services/events.service';
+import {
+  getUnnotifiedTransitAlerts,
+  markTransitHitsNotified,
+  refreshAllUserTransits
+} from '../services/transits.service';
+import { describeAstroEvent } from './astro-events';
+import { describeTransitHit } from './transits';
+import { getPeriodKey } from './horoscope-periods';
+import { MoonPhase } from './moon';
+import { DEFAULT_TIMEZONE, getDateInTimeZone } from './timezone';
 import { User, IUser } from '../models/User';
 import * as cron from 'node-cron';
 
@@ -20,6 +33,21 @@ export class ScheduledNotifications {
       await ScheduledNotifications.sendWeeklyHoroscopes();
     });
 
+    // Announce new and full moons every day at 7:00 AM
+    cron.schedule('0 7 * * *', async () => {
+      await ScheduledNotifications.sendMoonPhaseNotifications();
+    });
+
+    // Store upcoming events and announce tomorrow's every day at 10:00 AM
+    cron.schedule('0 10 * * *', async () => {
+      await ScheduledNotifications.sendSpecialEventNotifications();
+    });
+
+    // Refresh personal transits and announce today's every day at 6:00 AM
+    cron.schedule('0 6 * * *', async () => {
+      await ScheduledNotifications.sendPersonalTransitAlerts();
+    });
+
     console.log('Scheduled notifications initialized');
   }
 
@@ -101,22 +129,30 @@ export class ScheduledNotifications {
         }
       });
 
+      // Same source as the /horoscope/weekly endpoint
+      const week = getPeriodKey(HoroscopePeriod.WEEKLY, new Date());
+
       // Send notifications for each zodiac sign
       for (const [sign, tokens] of Object.entries(usersBySign)) {
         if (tokens.length === 0) continue;
 
-        // Get weekly horoscope content for this sign (replace with your actual horoscope service)
-        const horoscope = await getWeeklyHoroscopeForSign(sign);
+        const zodiacSign = sign.toLowerCase() as ZodiacSign;
+        if (!Object.values(ZodiacSign).includes(zodiacSign)) {
+          console.warn(`Skipping weekly horoscope for unknown sign ${sign}`);
+          continue;
+        }
+
+        const horoscope = await getPeriodHoroscope(HoroscopePeriod.WEEKLY, zodiacSign, week);
 
         // Send multicast notification to all users with this sign
         await NotificationService.sendMulticastNotification(
           tokens,
           `Weekly Horoscope for ${sign}`,
-          horoscope,
+          horoscope.prediction,
           {
             type: 'weekly_horoscope',
-            sign,
-            week: getWeekNumber().toString()
+            sign: zodiacSign,
+            week
           }
         );
 
@@ -126,6 +162,158 @@ export class ScheduledNotifications {
       console.error('Error sending weekly horoscopes:', error);
     }
   }
+
+  /**
+   * Announce today's new or full moon to users who have enabled special
+   * event notifications
+   */
+  static async sendMoonPhaseNotifications(): Promise<void> {
+    try {
+      // Same source as the /moon/calendar endpoint
+      const date = getDateInTimeZone(DEFAULT_TIMEZONE);
+      const day = await getMoonDay(date, DEFAULT_TIMEZONE);
+      const event = day?.exactPhase;
+      if (!event || (event.phase !== MoonPhase.NEW_MOON && event.phase !== MoonPhase.FULL_MOON)) {
+        return;
+      }
+
+      const users = await User.find({
+        fcmToken: { $exists: true },
+        'notificationPreferences.enabled': true,
+        'notificationPreferences.specialEvents': true
+      });
+      const tokens = users.map((user: IUser) => user.fcmToken).filter((token): token is string => !!token);
+      if (tokens.length === 0) return;
+
+      const name = event.phase === MoonPhase.NEW_MOON ? 'New Moon' : 'Full Moon';
+      const sign = event.sign.charAt(0).toUpperCase() + event.sign.slice(1);
+      const time = event.time.substring(11, 16);
+
+      await NotificationService.sendMulticastNotification(
+        tokens,
+        `${name} in ${sign}`,
+        `The ${name.toLowerCase()} is exact today at ${time} UTC.`,
+        {
+          type: 'moon_phase',
+          phase: event.phase,
+          sign: event.sign,
+          time: event.time
+        }
+      );
+
+      console.log(`Sent ${name.toLowerCase()} notification to ${tokens.length} users`);
+    } catch (error) {
+      console.error('Error sending moon phase notifications:', error);
+    }
+  }
+
+  /**
+   * Refresh the stored upcoming events, then announce the ones happening
+   * tomorrow (UTC) to users who have enabled special event notifications
+   */
+  static async sendSpecialEventNotifications(): Promise<void> {
+    try {
+      await storeUpcomingEvents();
+
+      const tomorrow = new Date(`${getDateInTimeZone(DEFAULT_TIMEZONE)}T00:00:00Z`);
+      tomorrow.setUTCDate(tomorrow.getUTCDate() + 1);
+      const dayAfter = new Date(tomorrow);
+      dayAfter.setUTCDate(dayAfter.getUTCDate() + 1);
+
+      const events = await getUnnotifiedEvents(tomorrow, dayAfter);
+      if (events.length === 0) return;
+
+      const users = await User.find({
+        fcmToken: { $exists: true },
+        'notificationPreferences.enabled': true,
+        'notificationPreferences.specialEvents': true
+      });
+      const tokens = users.map((user: IUser) => user.fcmToken).filter((token): token is string => !!token);
+
+      for (const event of events) {
+        if (tokens.length > 0) {
+          await NotificationService.sendMulticastNotification(
+            tokens,
+            `${describeAstroEvent(event)} tomorrow`,
+            `Exact at ${event.time.substring(11, 16)} UTC on ${event.time.substring(0, 10)}.`,
+            {
+              type: 'special_event',
+              eventId: event.id,
+              eventType: event.type,
+              planet: event.planet,
+              sign: event.sign,
+              time: event.time
+            }
+          );
+        }
+
+        console.log(`Sent special event ${event.id} to ${tokens.length} users`);
+      }
+
+      await markEventsNotified(events.map(event => event.id));
+    } catch (error) {
+      console.error('Error sending special event notifications:', error);
+    }
+  }
+
+  /**
+   * Refresh every user's stored transit hits, then announce the ones exact
+   * today (UTC) to users who have enabled transit alerts
+   */
+  static async sendPersonalTransitAlerts(): Promise<void> {
+    try {
+      const stored = await refreshAllUserTransits();
+      console.log(`Refreshed ${stored} personal transit hits`);
+
+      const today = new Date(`${getDateInTimeZone(DEFAULT_TIMEZONE)}T00:00:00Z`);
+      const tomorrow = new Date(today);
+      tomorrow.setUTCDate(tomorrow.getUTCDate() + 1);
+
+      const alerts = await getUnnotifiedTransitAlerts(today, tomorrow);
+      if (alerts.length === 0) return;
+
+      // Push tokens live with the users, matched to profiles by email
+      const users = await User.find({
+        email: { $in: alerts.map(alert => alert.email).filter(Boolean) },
+        fcmToken: { $exists: true },
+        'notificationPreferences.enabled': true,
+        'notificationPreferences.transitAlerts': true
+      });
+      const tokensByEmail = new Map(users.map((user: IUser) => [user.email, user.fcmToken]));
+
+      let sent = 0;
+      for (const { email, hit } of alerts) {
+        const token = tokensByEmail.get(email);
+        if (!token) continue;
+
+        try {
+          await NotificationService.sendNotification(
+            token,
+            describeTransitHit(hit),
+            `Exact today at ${hit.exact_time.substring(11, 16)} UTC.`,
+            {
+              type: 'transit_alert',
+              hitId: hit.id,
+              transitPlanet: hit.transit_planet,
+              aspect: hit.aspect,
+              natalPlanet: hit.natal_planet,
+              time: hit.exact_time
+            }
+          );
+          sent++;
+        } catch (error) {
+          console.error(`Error sending transit alert ${hit.id}:`, error);
+        }
+      }
+
+      // Hits of users without alerts are marked too, so they are not picked up again
+      await markTransitHitsNotified(alerts.map(alert => alert.hit.id));
+
+      console.log(`Sent ${sent} personal transit alerts`);
+    } catch (error) {
+      console.error('Error sending personal transit alerts:', error);
+    }
+  }
 }
 
 /**
@@ -152,40 +340,4 @@ async function getHoroscopeForSign(sign: string): Promise<string> {
   return horoscopes[sign] || 'The stars have aligned for you today!';
 }
 
-/**
- * Helper function to get weekly horoscope for a sign
- * Replace this with your actual horoscope service
- */
-async function getWeeklyHoroscopeForSign(sign: string): Promise<string> {
-  // This is a placeholder - replace with your actual horoscope API call
-  const horoscopes: Record<string, string> = {
-    Aries: 'This week brings opportunities for growth in your career. Stay focused!',
-    Taurus: 'Financial matters improve this week. Consider long-term investments.',
-    Gemini: 'Your social calendar is busy this week. Network and connect!',
-    Cancer: 'Family matters take precedence this week. Nurture your relationships.',
-    Leo: 'Creative projects flourish this week. Take the spotlight!',
-    Virgo: 'Health and wellness are highlighted. Establish new routines.',
-    Libra: 'Relationship harmony is achievable with compromise this week.',
-    Scorpio: 'Transformation and renewal are themes for you this week.',
-    Sagittarius: 'Travel or educational opportunities may arise this week.',
-    Capricorn: 'Career advancement is possible with diligent effort this week.',
-    Aquarius: 'Innovative solutions to old problems come to you this week.',
-    Pisces: 'Spiritual growth and artistic inspiration flow freely this week.'
-  };
-
-  return horoscopes[sign] || 'The stars have aligned for you this week!';
-}
-
-/**
- * Helper function to get the current week number
- */
-function getWeekNumber(): number {
-  const now = new Date();
-  const start = new Date(now.getFullYear(), 0, 1);
-  const diff = now.getTime() - start.getTime();
-  const oneDay = 1000 * 60 * 60 * 24;
-  const day = Math.floor(diff / oneDay);
-  return Math.ceil(day / 7);
-}
-
 export default ScheduledNotifications;
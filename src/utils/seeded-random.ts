@@ -0,0 +1,42 @@
+// Deterministic pseudo-random generator
+export interface SeededRandom {
+  next: () => number; // float in [0, 1)
+  int: (min: number, max: number) => number; // integer in [min, max]
+  pick: <T>(items: readonly T[]) => T;
+}
+
+/**
+ * 32-bit FNV-1a hash of a string
+ */
+export const hashString = (value: string): number => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+};
+
+/**
+ * Create a generator (mulberry32) seeded from a string. The same seed always
+ * produces the same sequence, on every instance and platform.
+ *
+ * @param seed - Seed string, e.g. "leo|2025-06-01|en|mood"
+ */
+export const createSeededRandom = (seed: string): SeededRandom => {
+  let state = hashString(seed);
+
+  const next = (): number => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+
+  const int = (min: number, max: number): number => Math.floor(next() * (max - min + 1)) + min;
+
+  const pick = <T>(items: readonly T[]): T => items[Math.floor(next() * items.length)];
+
+  return { next, int, pick };
+};
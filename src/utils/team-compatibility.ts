@@ -0,0 +1,175 @@
+import { Planet } from './ephemeris';
+import { BirthData, calculateNatalChart, ChartOptions, NatalChart } from './chart-calculator';
+import { calculateSynastry, CompatibilityCategory, SynastryContact } from './compatibility';
+import { Element } from './zodiac';
+import { ZodiacSign } from '../types';
+
+/**
+ * Team compatibility
+ *
+ * Every pair of members is scored like two people in a synastry, which gives
+ * a symmetric matrix of overall scores. Members are then grouped by average
+ * linkage: the two groups with the highest average score between their
+ * members are merged until no two groups reach the cluster score.
+ */
+
+// Largest team compared in one go; the pairs grow with the square of the size
+export const MAX_TEAM_SIZE = 30;
+
+// Groups whose members average at least this score are merged
+const CLUSTER_SCORE = 70;
+
+// Pairs whose communication score falls below this are likely to clash
+const FRICTION_SCORE = 35;
+
+export interface TeamMember extends BirthData {
+  name: string;
+}
+
+export interface TeamMemberSummary {
+  name: string;
+  sunSign: ZodiacSign;
+  moonSign: ZodiacSign;
+  dominantElement: Element;
+}
+
+// Scores of two members, by their index in the team
+export interface TeamPair {
+  member1: number;
+  member2: number;
+  overall: number;
+  categories: Record<CompatibilityCategory, number>;
+}
+
+// Pair with poor communication and the contacts that pull it down
+export interface FrictionPair extends TeamPair {
+  contacts: SynastryContact[];
+}
+
+export interface TeamCluster {
+  members: number[];
+  cohesion: number | null; // average score between the members, null for one member
+  elements: Record<Element, number>; // planets of the members in each element
+}
+
+export interface TeamCompatibility {
+  members: TeamMemberSummary[];
+  matrix: (number | null)[][]; // overall scores, null on the diagonal
+  clusters: TeamCluster[]; // largest first
+  elements: Record<Element, number>; // planets of the whole team in each element
+  frictionPairs: FrictionPair[]; // lowest communication first
+}
+
+/**
+ * Element with the most planets, the first one on a tie
+ */
+const dominantElement = (elements: Record<Element, number>): Element =>
+  (Object.keys(elements) as Element[]).reduce((best, element) => elements[element] > elements[best] ? element : best);
+
+/**
+ * Add up the element balance of some charts
+ */
+const sumElements = (charts: NatalChart[]): Record<Element, number> => {
+  const elements = { fire: 0, earth: 0, air: 0, water: 0 } as Record<Element, number>;
+  charts.forEach(chart => {
+    (Object.keys(elements) as Element[]).forEach(element => {
+      elements[element] += chart.balance.elements[element];
+    });
+  });
+  return elements;
+};
+
+/**
+ * Average score between the members of two groups
+ */
+const averageLinkage = (matrix: (number | null)[][], group1: number[], group2: number[]): number => {
+  const scores = group1.flatMap(i => group2.map(j => matrix[i][j] as number));
+  return scores.reduce((sum, score) => sum + score, 0) / scores.length;
+};
+
+/**
+ * Average score of the pairs within a group
+ */
+const pairAverage = (matrix: (number | null)[][], group: number[]): number => {
+  const scores = group.flatMap((i, index) => group.slice(index + 1).map(j => matrix[i][j] as number));
+  return scores.reduce((sum, score) => sum + score, 0) / scores.length;
+};
+
+/**
+ * Score every pair of a team and summarise the team
+ *
+ * @param members - Names and birth data of the members, at least two
+ * @param options - House system and zodiac of all charts
+ */
+export const calculateTeamCompatibility = (members: TeamMember[], options: ChartOptions = {}): TeamCompatibility => {
+  const charts = members.map(({ name, ...birthData }) => calculateNatalChart(birthData, options));
+  const matrix: (number | null)[][] = members.map(() => members.map(() => null));
+  const frictionPairs: FrictionPair[] = [];
+
+  charts.forEach((chart1, i) => {
+    charts.slice(i + 1).forEach((chart2, offset) => {
+      const j = i + 1 + offset;
+      const score = calculateSynastry(chart1.planets, chart2.planets);
+      matrix[i][j] = score.overall;
+      matrix[j][i] = score.overall;
+
+      const communication = score.categories[CompatibilityCategory.COMMUNICATION];
+      if (communication.score < FRICTION_SCORE) {
+        const categories = {} as Record<CompatibilityCategory, number>;
+        Object.values(CompatibilityCategory).forEach(category => {
+          categories[category] = score.categories[category].score;
+        });
+        frictionPairs.push({
+          member1: i,
+          member2: j,
+          overall: score.overall,
+          categories,
+          contacts: communication.contacts.filter(contact => contact.effect < 0),
+        });
+      }
+    });
+  });
+
+  // Merge the closest groups while they average at least the cluster score
+  let groups = members.map((_, i) => [i]);
+  for (;;) {
+    let best: { a: number; b: number; score: number } | null = null;
+    for (let a = 0; a < groups.length; a++) {
+      for (let b = a + 1; b < groups.length; b++) {
+        const score = averageLinkage(matrix, groups[a], groups[b]);
+        if (score >= CLUSTER_SCORE && (!best || score > best.score)) {
+          best = { a, b, score };
+        }
+      }
+    }
+    if (!best) {
+      break;
+    }
+    const { a, b } = best;
+    groups = [
+      ...groups.filter((_, index) => index !== a && index !== b),
+      [...groups[a], ...groups[b]].sort((x, y) => x - y),
+    ];
+  }
+
+  const clusters = groups
+    .map((group): TeamCluster => ({
+      members: group,
+      cohesion: group.length > 1 ? Math.round(pairAverage(matrix, group)) : null,
+      elements: sumElements(group.map(i => charts[i])),
+    }))
+    .sort((a, b) => b.members.length - a.members.length || (b.cohesion ?? 0) - (a.cohesion ?? 0));
+
+  return {
+    members: members.map(({ name }, i) => ({
+      name,
+      sunSign: charts[i].planets[Planet.SUN].sign,
+      moonSign: charts[i].planets[Planet.MOON].sign,
+      dominantElement: dominantElement(charts[i].balance.elements),
+    })),
+    matrix,
+    clusters,
+    elements: sumElements(charts),
+    frictionPairs: frictionPairs.sort((a, b) => a.categories.communication - b.categories.communication),
+  };
+};
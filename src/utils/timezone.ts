@@ -0,0 +1,86 @@
+/**
+ * Helpers for IANA time zones (e.g. "Europe/Berlin"), based on the Intl API
+ */
+
+export const DEFAULT_TIMEZONE = 'UTC';
+
+/**
+ * Check that a string is a time zone known to the runtime
+ */
+export const isValidTimeZone = (timeZone: string): boolean => {
+  if (!timeZone) {
+    return false;
+  }
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+/**
+ * Wall-clock date and time of an instant in a time zone
+ */
+const getZonedParts = (timeZone: string, instant: Date): Record<string, number> => {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit',
+  }).formatToParts(instant);
+
+  const values: Record<string, number> = {};
+  parts.forEach(part => {
+    if (part.type !== 'literal') {
+      values[part.type] = parseInt(part.value, 10);
+    }
+  });
+  return values;
+};
+
+/**
+ * Calendar date (YYYY-MM-DD) of an instant in a time zone
+ *
+ * @param timeZone - IANA time zone
+ * @param instant - Moment to convert, defaults to now
+ */
+export const getDateInTimeZone = (timeZone: string, instant: Date = new Date()): string => {
+  const { year, month, day } = getZonedParts(timeZone, instant);
+  return `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+};
+
+/**
+ * Offset of a time zone from UTC at an instant, in minutes east of UTC
+ */
+export const getUtcOffsetMinutes = (timeZone: string, instant: Date): number => {
+  const { year, month, day, hour, minute, second } = getZonedParts(timeZone, instant);
+  const wallClockAsUtc = Date.UTC(year, month - 1, day, hour, minute, second);
+  return Math.round((wallClockAsUtc - Math.floor(instant.getTime() / 1000) * 1000) / 60000);
+};
+
+/**
+ * Offset from UTC that applies to a wall-clock date and time in a time zone.
+ * Times skipped by a daylight saving change resolve with the offset from
+ * before the change.
+ *
+ * @param timeZone - IANA time zone
+ * @param date - Local date (YYYY-MM-DD)
+ * @param time - Local time (HH:mm or HH:mm:ss)
+ * @returns Offset in minutes east of UTC
+ */
+export const getUtcOffsetForLocalTime = (timeZone: string, date: string, time = '12:00'): number => {
+  const wallClockAsUtc = new Date(`${date}T${time.length === 5 ? `${time}:00` : time}Z`).getTime();
+  if (isNaN(wallClockAsUtc)) {
+    throw new Error(`Invalid local date or time: ${date} ${time}`);
+  }
+
+  // Two passes settle the offset except inside DST gaps
+  let offset = getUtcOffsetMinutes(timeZone, new Date(wallClockAsUtc));
+  offset = getUtcOffsetMinutes(timeZone, new Date(wallClockAsUtc - offset * 60000));
+  return offset;
+};
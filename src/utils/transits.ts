@@ -0,0 +1,200 @@
+import {
+  angleDifference,
+  calculateAngles,
+  calculatePlanetPosition,
+  calculatePlanetPositions,
+  fromJulianDay,
+  normalizeDegrees,
+  Planet,
+} from './ephemeris';
+import { AspectType, ASPECT_ANGLES } from './aspects';
+import { BirthMoment, birthDataToJulianDay } from './chart-calculator';
+import { ZodiacSign } from '../types';
+
+/**
+ * Exact transits of the slow planets to natal points
+ *
+ * Transit positions are sampled once a day and shared by every chart, so a
+ * batch of users only costs the ephemeris once. Slow planets can cross the
+ * same degree three times around a station; each crossing is its own hit.
+ * Aspects do not depend on the zodiac, so everything is tropical.
+ */
+
+// Planets slow enough for their transits to mark a period of life
+export const SLOW_PLANETS = [Planet.JUPITER, Planet.SATURN, Planet.URANUS, Planet.NEPTUNE, Planet.PLUTO];
+
+// Natal points besides the planets
+export enum NatalAngle {
+  ASCENDANT = 'ascendant',
+  MIDHEAVEN = 'midheaven',
+}
+
+export type NatalPointName = Planet | NatalAngle;
+
+// Natal planets aspected by transits, without the lunar nodes
+const NATAL_PLANETS = Object.values(Planet).filter(
+  planet => planet !== Planet.NORTH_NODE && planet !== Planet.SOUTH_NODE
+);
+
+export interface NatalPoint {
+  point: NatalPointName;
+  longitude: number;
+}
+
+// Exact transit, in the shape of the aspects in the transit report
+export interface TransitHit {
+  transit_planet: Planet;
+  aspect: AspectType;
+  natal_planet: NatalPointName;
+  orb: number; // distance from exact at exact_time
+  exact_time: string; // ISO 8601
+  transit_sign: ZodiacSign;
+  retrograde: boolean;
+}
+
+// Daily transit longitudes over a window
+export interface TransitSamples {
+  startJd: number;
+  longitudes: Record<string, number>[]; // one entry per day
+}
+
+// Slow planets move well under 1° a day, so a daily sample never skips a
+// crossing and a gap this large can only be the wrap at 180°
+const CROSSING_WINDOW = 10;
+
+// Stop bisecting at one minute
+const PRECISION = 1 / 1440;
+
+/**
+ * Natal points for a moment of birth: the planets, plus the ascendant and
+ * midheaven when the birth place is known. Without a birth time the Moon
+ * and the angles are too uncertain to time transits, so they are left out.
+ *
+ * @param birth - Moment of birth
+ * @param place - Latitude and longitude (east positive) of the birth place
+ */
+export const getNatalPoints = (
+  birth: BirthMoment,
+  place?: { latitude: number; longitude: number }
+): NatalPoint[] => {
+  const julianDay = birthDataToJulianDay(birth);
+  const positions = calculatePlanetPositions(julianDay);
+  const points: NatalPoint[] = NATAL_PLANETS
+    .filter(planet => birth.time || planet !== Planet.MOON)
+    .map(planet => ({ point: planet, longitude: positions[planet].longitude }));
+
+  if (birth.time && place) {
+    const angles = calculateAngles(julianDay, place.latitude, place.longitude);
+    points.push(
+      { point: NatalAngle.ASCENDANT, longitude: angles.ascendant },
+      { point: NatalAngle.MIDHEAVEN, longitude: angles.midheaven }
+    );
+  }
+
+  return points;
+};
+
+/**
+ * Sample the slow planets once a day, from the start of a window to one day
+ * past its end
+ *
+ * @param startJd - Start of the window (Julian Day, UT)
+ * @param days - Length of the window in days
+ */
+export const sampleTransits = (startJd: number, days: number): TransitSamples => {
+  const longitudes: Record<string, number>[] = [];
+  for (let day = 0; day <= days; day++) {
+    const sample: Record<string, number> = {};
+    SLOW_PLANETS.forEach(planet => {
+      sample[planet] = calculatePlanetPosition(planet, startJd + day).longitude;
+    });
+    longitudes.push(sample);
+  }
+  return { startJd, longitudes };
+};
+
+/**
+ * Find the exact transits of the slow planets to natal points
+ *
+ * @param natalPoints - Natal points to check
+ * @param samples - Daily transit positions from sampleTransits
+ * @returns Hits in time order
+ */
+export const findTransitHits = (natalPoints: NatalPoint[], samples: TransitSamples): TransitHit[] => {
+  const hits: TransitHit[] = [];
+
+  // Exact aspects on both sides of a point, e.g. squares at 90° and 270°
+  const targets = Object.values(AspectType).flatMap(aspect => {
+    const angle = ASPECT_ANGLES[aspect];
+    return angle === 0 || angle === 180 ? [{ aspect, angle }] : [{ aspect, angle }, { aspect, angle: 360 - angle }];
+  });
+
+  for (const planet of SLOW_PLANETS) {
+    for (const { point, longitude } of natalPoints) {
+      for (const { aspect, angle } of targets) {
+        const distanceAt = (transitLongitude: number) =>
+          angleDifference(angle, normalizeDegrees(transitLongitude - longitude));
+
+        for (let day = 0; day < samples.longitudes.length - 1; day++) {
+          const before = distanceAt(samples.longitudes[day][planet]);
+          const after = distanceAt(samples.longitudes[day + 1][planet]);
+          if (Math.abs(before) > CROSSING_WINDOW || Math.abs(after) > CROSSING_WINDOW) {
+            continue;
+          }
+          if ((before < 0) !== (after < 0)) {
+            hits.push(refineHit(planet, point, longitude, aspect, angle, samples.startJd + day, before < 0));
+          }
+        }
+      }
+    }
+  }
+
+  return hits.sort((a, b) => a.exact_time.localeCompare(b.exact_time));
+};
+
+/**
+ * Bisect a crossing found between two daily samples
+ */
+const refineHit = (
+  planet: Planet,
+  point: NatalPointName,
+  natalLongitude: number,
+  aspect: AspectType,
+  angle: number,
+  startJd: number,
+  approachingFromBelow: boolean
+): TransitHit => {
+  const distanceAt = (jd: number) =>
+    angleDifference(angle, normalizeDegrees(calculatePlanetPosition(planet, jd).longitude - natalLongitude));
+
+  let low = startJd;
+  let high = startJd + 1;
+  while (high - low > PRECISION) {
+    const middle = (low + high) / 2;
+    if ((distanceAt(middle) < 0) === approachingFromBelow) {
+      low = middle;
+    } else {
+      high = middle;
+    }
+  }
+
+  const exact = (low + high) / 2;
+  const position = calculatePlanetPosition(planet, exact);
+  return {
+    transit_planet: planet,
+    aspect,
+    natal_planet: point,
+    orb: Math.abs(distanceAt(exact)),
+    exact_time: fromJulianDay(exact).toISOString(),
+    transit_sign: position.sign,
+    retrograde: position.retrograde,
+  };
+};
+
+/**
+ * Describe a hit in a short sentence, e.g. "Saturn square your natal Sun"
+ */
+export const describeTransitHit = (hit: Pick<TransitHit, 'transit_planet' | 'aspect' | 'natal_planet'>): string => {
+  const capitalize = (name: string) => name.charAt(0).toUpperCase() + name.slice(1);
+  return `${capitalize(hit.transit_planet)} ${hit.aspect} your natal ${capitalize(hit.natal_planet)}`;
+};
@@ -0,0 +1,174 @@
+import { J2000, nutation, Planet, PlanetPosition, toTerrestrialTime, ZODIAC_ORDER } from './ephemeris';
+import { ZodiacSign } from '../types';
+
+/**
+ * Zodiac types, sign classifications and element/modality balances
+ */
+
+// Reference frame for sign positions
+export enum ZodiacType {
+  TROPICAL = 'tropical', // signs measured from the vernal equinox
+  SIDEREAL = 'sidereal', // signs fixed to the stars, offset by an ayanamsa
+}
+
+// Sidereal ayanamsas
+export enum Ayanamsa {
+  LAHIRI = 'lahiri', // Chitrapaksha, the Indian government standard
+  RAMAN = 'raman', // B. V. Raman
+  KRISHNAMURTI = 'krishnamurti', // K. S. Krishnamurti (KP system)
+}
+
+// Reference epoch (Julian Day) and ayanamsa value in degrees at that epoch
+const AYANAMSA_EPOCHS: Record<Ayanamsa, { epoch: number; value: number }> = {
+  [Ayanamsa.LAHIRI]: { epoch: 2435553.5, value: 23.245524743 },
+  [Ayanamsa.RAMAN]: { epoch: 2415020.0, value: 21.014444 },
+  [Ayanamsa.KRISHNAMURTI]: { epoch: 2415020.0, value: 22.363889 },
+};
+
+export enum Element {
+  FIRE = 'fire',
+  EARTH = 'earth',
+  AIR = 'air',
+  WATER = 'water',
+}
+
+export enum Modality {
+  CARDINAL = 'cardinal',
+  FIXED = 'fixed',
+  MUTABLE = 'mutable',
+}
+
+export const SIGN_ELEMENTS: Record<ZodiacSign, Element> = {
+  [ZodiacSign.ARIES]: Element.FIRE,
+  [ZodiacSign.TAURUS]: Element.EARTH,
+  [ZodiacSign.GEMINI]: Element.AIR,
+  [ZodiacSign.CANCER]: Element.WATER,
+  [ZodiacSign.LEO]: Element.FIRE,
+  [ZodiacSign.VIRGO]: Element.EARTH,
+  [ZodiacSign.LIBRA]: Element.AIR,
+  [ZodiacSign.SCORPIO]: Element.WATER,
+  [ZodiacSign.SAGITTARIUS]: Element.FIRE,
+  [ZodiacSign.CAPRICORN]: Element.EARTH,
+  [ZodiacSign.AQUARIUS]: Element.AIR,
+  [ZodiacSign.PISCES]: Element.WATER,
+};
+
+export const SIGN_MODALITIES: Record<ZodiacSign, Modality> = {
+  [ZodiacSign.ARIES]: Modality.CARDINAL,
+  [ZodiacSign.TAURUS]: Modality.FIXED,
+  [ZodiacSign.GEMINI]: Modality.MUTABLE,
+  [ZodiacSign.CANCER]: Modality.CARDINAL,
+  [ZodiacSign.LEO]: Modality.FIXED,
+  [ZodiacSign.VIRGO]: Modality.MUTABLE,
+  [ZodiacSign.LIBRA]: Modality.CARDINAL,
+  [ZodiacSign.SCORPIO]: Modality.FIXED,
+  [ZodiacSign.SAGITTARIUS]: Modality.MUTABLE,
+  [ZodiacSign.CAPRICORN]: Modality.CARDINAL,
+  [ZodiacSign.AQUARIUS]: Modality.FIXED,
+  [ZodiacSign.PISCES]: Modality.MUTABLE,
+};
+
+// Traditional rulers of the signs, among the seven visible planets
+export const SIGN_RULERS: Record<ZodiacSign, Planet> = {
+  [ZodiacSign.ARIES]: Planet.MARS,
+  [ZodiacSign.TAURUS]: Planet.VENUS,
+  [ZodiacSign.GEMINI]: Planet.MERCURY,
+  [ZodiacSign.CANCER]: Planet.MOON,
+  [ZodiacSign.LEO]: Planet.SUN,
+  [ZodiacSign.VIRGO]: Planet.MERCURY,
+  [ZodiacSign.LIBRA]: Planet.VENUS,
+  [ZodiacSign.SCORPIO]: Planet.MARS,
+  [ZodiacSign.SAGITTARIUS]: Planet.JUPITER,
+  [ZodiacSign.CAPRICORN]: Planet.SATURN,
+  [ZodiacSign.AQUARIUS]: Planet.SATURN,
+  [ZodiacSign.PISCES]: Planet.JUPITER,
+};
+
+// Sign of exaltation of each visible planet
+export const EXALTATIONS: Partial<Record<Planet, ZodiacSign>> = {
+  [Planet.SUN]: ZodiacSign.ARIES,
+  [Planet.MOON]: ZodiacSign.TAURUS,
+  [Planet.MERCURY]: ZodiacSign.VIRGO,
+  [Planet.VENUS]: ZodiacSign.PISCES,
+  [Planet.MARS]: ZodiacSign.CAPRICORN,
+  [Planet.JUPITER]: ZodiacSign.CANCER,
+  [Planet.SATURN]: ZodiacSign.LIBRA,
+};
+
+// Essential dignity of a planet in a sign
+export enum Dignity {
+  DOMICILE = 'domicile', // in a sign it rules
+  EXALTATION = 'exaltation',
+  DETRIMENT = 'detriment', // opposite a sign it rules
+  FALL = 'fall', // opposite its exaltation
+}
+
+// Number of chart points in each element and modality
+export interface SignBalance {
+  elements: Record<Element, number>;
+  modalities: Record<Modality, number>;
+}
+
+/**
+ * General precession in longitude since J2000, in arc-seconds (IAU 1976)
+ */
+const generalPrecession = (jdTt: number): number => {
+  const T = (jdTt - J2000) / 36525;
+  return 5029.0966 * T + 1.11113 * T * T - 0.000006 * T ** 3;
+};
+
+/**
+ * True ayanamsa in degrees: the distance between the vernal equinox of date
+ * and the start of sidereal Aries. Subtract it from apparent tropical
+ * longitudes to get sidereal longitudes.
+ *
+ * @param jdUt - Julian Day in Universal Time
+ * @param ayanamsa - Ayanamsa to use
+ */
+export const calculateAyanamsa = (jdUt: number, ayanamsa: Ayanamsa = Ayanamsa.LAHIRI): number => {
+  const { epoch, value } = AYANAMSA_EPOCHS[ayanamsa];
+  const jdTt = toTerrestrialTime(jdUt);
+  const precession = (generalPrecession(jdTt) - generalPrecession(epoch)) / 3600;
+  return value + precession + nutation(jdTt).longitude;
+};
+
+/**
+ * Count the positions in each element and modality
+ *
+ * @param positions - Chart points to count, e.g. the ten planets
+ */
+export const calculateSignBalance = (positions: Pick<PlanetPosition, 'sign'>[]): SignBalance => {
+  const elements = { fire: 0, earth: 0, air: 0, water: 0 } as Record<Element, number>;
+  const modalities = { cardinal: 0, fixed: 0, mutable: 0 } as Record<Modality, number>;
+
+  positions.forEach(({ sign }) => {
+    elements[SIGN_ELEMENTS[sign]]++;
+    modalities[SIGN_MODALITIES[sign]]++;
+  });
+
+  return { elements, modalities };
+};
+
+/**
+ * Essential dignity of a planet in a sign, or null when it has none there
+ *
+ * @param planet - Planet to check
+ * @param sign - Sign it occupies
+ */
+export const getDignity = (planet: Planet, sign: ZodiacSign): Dignity | null => {
+  const opposite = ZODIAC_ORDER[(ZODIAC_ORDER.indexOf(sign) + 6) % 12];
+
+  if (SIGN_RULERS[sign] === planet) {
+    return Dignity.DOMICILE;
+  }
+  if (EXALTATIONS[planet] === sign) {
+    return Dignity.EXALTATION;
+  }
+  if (SIGN_RULERS[opposite] === planet) {
+    return Dignity.DETRIMENT;
+  }
+  if (EXALTATIONS[planet] === opposite) {
+    return Dignity.FALL;
+  }
+  return null;
+};
@@ -1,28 +1,40 @@
-import { Worker } from 'bullmq';
+import fs from 'fs';
+import { Job, Worker } from 'bullmq';
 import { supabase } from '../config/supabase';
 import { logger } from '../config/logger';
-import { ReportStatus, ReportType } from '../services/report.service';
+import { ReportStatus, ReportType } from '../types';
+import { generateReport as generateReportFile } from '../utils/report-generator';
+
+// Progress reported to the queue as the job moves through its steps
+const PROGRESS = {
+  STARTED: 5,
+  GENERATED: 70,
+  UPLOADED: 90,
+  COMPLETED: 100,
+};
 
 // Initialize worker
 const reportWorker = new Worker(
   'report-generation',
   async (job) => {
     try {
-      const { reportId, userId, type, parameters } = job.data;
+      const { reportId, userId } = job.data;
       
       logger.info(`Processing report job: ${reportId} for user: ${userId}`);
       
       // Update status to processing
       await updateReportStatus(reportId, ReportStatus.PROCESSING);
+      await job.updateProgress(PROGRESS.STARTED);
       
-      // Process report based on type
-      const fileUrl = await generateReport(reportId, userId, type, parameters);
+      // Generate the PDF and upload it to storage
+      const filePath = await generateReport(job);
       
-      // Update report with file URL and completed status
-      await updateReportComplete(reportId, fileUrl);
+      // Update report with the storage path and completed status
+      await updateReportComplete(reportId, filePath);
+      await job.updateProgress(PROGRESS.COMPLETED);
       
       logger.info(`Report generation completed: ${reportId}`);
-      return { success: true, reportId, fileUrl };
+      return { success: true, reportId, filePath };
     } catch (error) {
       logger.error('Error processing report job:', error);
       
@@ -67,12 +79,14 @@ async function updateReportStatus(reportId: string, status: ReportStatus): Promi
   }
 }
 
-async function updateReportComplete(reportId: string, fileUrl: string): Promise<void> {
+async function updateReportComplete(reportId: string, filePath: string): Promise<void> {
+  // file_url holds the path in the private reports bucket; downloads go
+  // through signed URLs
   const { error } = await supabase
     .from('reports')
     .update({
       status: ReportStatus.COMPLETED,
-      file_url: fileUrl,
+      file_url: filePath,
     })
     .eq('id', reportId);
     
@@ -82,49 +96,47 @@ async function updateReportComplete(reportId: string, fileUrl: string): Promise<
   }
 }
 
-async function generateReport(
-  reportId: string,
-  userId: string,
-  type: ReportType,
-  parameters: Record<string, any>
-): Promise<string> {
-  // Simulate report generation with a delay
-  await new Promise(resolve => setTimeout(resolve, 5000));
-  
-  // In a real implementation, you would generate a PDF here
-  // For now, we'll just create a placeholder file in storage
-  
-  // Generate file name
-  const fileName = `reports/${userId}/${reportId}.pdf`;
+/**
+ * Generate the PDF of a report job and stream it to storage
+ * 
+ * @returns Path of the file in the reports bucket, under the user's folder
+ * so the storage policy lets them read it
+ */
+async function generateReport(job: Job): Promise<string> {
+  const { reportId, userId, type, title, parameters } = job.data as {
+    reportId: string;
+    userId: string;
+    type: ReportType;
+    title?: string;
+    parameters: Record<string, any>;
+  };
   
-  // Create a simple text file as a placeholder
-  const content = `Report ID: ${reportId}\nType: ${type}\nParameters: ${JSON.stringify(parameters)}\nGenerated at: ${new Date().toISOString()}`;
+  const tempPath = await generateReportFile(type, parameters, title || 'Astrological Report', userId);
   
-  // Upload to Supabase Storage
-  const { error } = await supabase
-    .storage
-    .from('reports')
-    .upload(fileName, content, {
-      contentType: 'application/pdf',
-      upsert: true,
-    });
+  try {
+    await job.updateProgress(PROGRESS.GENERATED);
     
-  if (error) {
-    logger.error(`Error uploading report file: ${reportId}`, error);
-    throw new Error(`Failed to upload report file: ${error.message}`);
-  }
-  
-  // Get public URL
-  const { data } = await supabase
-    .storage
-    .from('reports')
-    .getPublicUrl(fileName);
+    const fileName = `${userId}/${reportId}.pdf`;
+    const { error } = await supabase
+      .storage
+      .from('reports')
+      .upload(fileName, fs.createReadStream(tempPath), {
+        contentType: 'application/pdf',
+        upsert: true,
+        duplex: 'half', // required by fetch for a streamed body
+      });
+      
+    if (error) {
+      logger.error(`Error uploading report file: ${reportId}`, error);
+      throw new Error(`Failed to upload report file: ${error.message}`);
+    }
     
-  if (!data?.publicUrl) {
-    throw new Error('Failed to get report file URL');
+    await job.updateProgress(PROGRESS.UPLOADED);
+    return fileName;
+  } finally {
+    // Remove the temp file whether or not the upload worked
+    await fs.promises.rm(tempPath, { force: true });
   }
-  
-  return data.publicUrl;
 }
 
 export default reportWorker;